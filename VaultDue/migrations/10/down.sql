@@ -0,0 +1,5 @@
+
+DROP INDEX idx_admin_audit_logs_created_at;
+DROP INDEX idx_admin_audit_logs_admin_user_id;
+DROP TABLE admin_audit_logs;
+DROP TABLE admin_users;
@@ -0,0 +1,39 @@
+
+CREATE TABLE feedback_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feedback_id INTEGER NOT NULL,
+  admin_user_id TEXT NOT NULL,
+  admin_email TEXT NOT NULL,
+  note_type TEXT NOT NULL DEFAULT 'internal',
+  body TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_feedback_notes_feedback_id ON feedback_notes(feedback_id);
+CREATE INDEX idx_feedback_status ON feedback(status);
+CREATE INDEX idx_feedback_feedback_type ON feedback(feedback_type);
+
+CREATE VIRTUAL TABLE feedback_fts USING fts5(
+  subject, message, user_email, user_name,
+  content='feedback', content_rowid='id'
+);
+
+INSERT INTO feedback_fts(feedback_fts) VALUES('rebuild');
+
+CREATE TRIGGER feedback_fts_insert AFTER INSERT ON feedback BEGIN
+  INSERT INTO feedback_fts(rowid, subject, message, user_email, user_name)
+  VALUES (new.id, new.subject, new.message, new.user_email, new.user_name);
+END;
+
+CREATE TRIGGER feedback_fts_delete AFTER DELETE ON feedback BEGIN
+  INSERT INTO feedback_fts(feedback_fts, rowid, subject, message, user_email, user_name)
+  VALUES ('delete', old.id, old.subject, old.message, old.user_email, old.user_name);
+END;
+
+CREATE TRIGGER feedback_fts_update AFTER UPDATE OF subject, message, user_email, user_name ON feedback BEGIN
+  INSERT INTO feedback_fts(feedback_fts, rowid, subject, message, user_email, user_name)
+  VALUES ('delete', old.id, old.subject, old.message, old.user_email, old.user_name);
+  INSERT INTO feedback_fts(rowid, subject, message, user_email, user_name)
+  VALUES (new.id, new.subject, new.message, new.user_email, new.user_name);
+END;
@@ -0,0 +1,9 @@
+
+DROP TRIGGER feedback_fts_update;
+DROP TRIGGER feedback_fts_delete;
+DROP TRIGGER feedback_fts_insert;
+DROP TABLE feedback_fts;
+DROP INDEX idx_feedback_feedback_type;
+DROP INDEX idx_feedback_status;
+DROP INDEX idx_feedback_notes_feedback_id;
+DROP TABLE feedback_notes;
@@ -0,0 +1,4 @@
+
+ALTER TABLE whatsapp_otp_verifications ADD COLUMN attempts INTEGER DEFAULT 0;
+ALTER TABLE whatsapp_otp_verifications ADD COLUMN verified_at DATETIME;
+CREATE INDEX idx_whatsapp_otp_verifications_user_id ON whatsapp_otp_verifications(user_id, created_at);
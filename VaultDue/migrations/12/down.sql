@@ -0,0 +1,4 @@
+
+DROP INDEX idx_whatsapp_otp_verifications_user_id;
+ALTER TABLE whatsapp_otp_verifications DROP COLUMN verified_at;
+ALTER TABLE whatsapp_otp_verifications DROP COLUMN attempts;
@@ -0,0 +1,34 @@
+
+CREATE TABLE two_factor_credentials (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT UNIQUE NOT NULL,
+  secret TEXT NOT NULL,
+  confirmed_at DATETIME,
+  last_used_step INTEGER,
+  failed_attempts INTEGER DEFAULT 0,
+  locked_until DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE two_factor_backup_codes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_two_factor_backup_codes_user_id ON two_factor_backup_codes(user_id);
+
+CREATE TABLE two_factor_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  session_hash TEXT UNIQUE NOT NULL,
+  verified_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_two_factor_sessions_user_id ON two_factor_sessions(user_id);
@@ -0,0 +1,6 @@
+
+DROP INDEX idx_two_factor_sessions_user_id;
+DROP TABLE two_factor_sessions;
+DROP INDEX idx_two_factor_backup_codes_user_id;
+DROP TABLE two_factor_backup_codes;
+DROP TABLE two_factor_credentials;
@@ -0,0 +1,2 @@
+
+ALTER TABLE user_profiles ADD COLUMN timezone TEXT DEFAULT 'UTC';
@@ -0,0 +1,3 @@
+
+ALTER TABLE documents ADD COLUMN reminder_offsets TEXT;
+CREATE INDEX idx_documents_next_reminder_date ON documents(next_reminder_date);
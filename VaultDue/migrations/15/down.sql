@@ -0,0 +1,3 @@
+
+DROP INDEX idx_documents_next_reminder_date;
+ALTER TABLE documents DROP COLUMN reminder_offsets;
@@ -0,0 +1,31 @@
+
+CREATE TABLE reminder_channel_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT,
+  organization_id INTEGER,
+  max_days_until_expiry INTEGER NOT NULL,
+  critical_only BOOLEAN DEFAULT 0,
+  channels TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE reminder_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reminder_id INTEGER,
+  document_id INTEGER NOT NULL,
+  user_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  recipient TEXT,
+  status TEXT NOT NULL,
+  provider_message_id TEXT,
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_reminder_channel_rules_user_id ON reminder_channel_rules(user_id);
+CREATE INDEX idx_reminder_channel_rules_organization_id ON reminder_channel_rules(organization_id);
+CREATE INDEX idx_reminder_deliveries_reminder_id ON reminder_deliveries(reminder_id);
+CREATE INDEX idx_reminder_deliveries_document_id ON reminder_deliveries(document_id, created_at);
@@ -0,0 +1,7 @@
+
+DROP INDEX idx_reminder_deliveries_document_id;
+DROP INDEX idx_reminder_deliveries_reminder_id;
+DROP INDEX idx_reminder_channel_rules_organization_id;
+DROP INDEX idx_reminder_channel_rules_user_id;
+DROP TABLE reminder_deliveries;
+DROP TABLE reminder_channel_rules;
@@ -0,0 +1,32 @@
+
+ALTER TABLE documents ADD COLUMN escalation_delay_days INTEGER DEFAULT 2;
+
+CREATE TABLE document_escalation_contacts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  contact_type TEXT NOT NULL,
+  contact_value TEXT NOT NULL,
+  name TEXT,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE document_escalations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  reminder_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending',
+  current_step INTEGER DEFAULT 0,
+  next_escalation_date DATE NOT NULL,
+  acknowledged_at DATETIME,
+  acknowledged_by TEXT,
+  acknowledgment_source TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_document_escalation_contacts_document_id ON document_escalation_contacts(document_id, position);
+CREATE INDEX idx_document_escalations_document_id ON document_escalations(document_id, status);
+CREATE INDEX idx_document_escalations_status ON document_escalations(status, next_escalation_date);
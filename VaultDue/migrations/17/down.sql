@@ -0,0 +1,7 @@
+
+DROP INDEX idx_document_escalations_status;
+DROP INDEX idx_document_escalations_document_id;
+DROP INDEX idx_document_escalation_contacts_document_id;
+DROP TABLE document_escalations;
+DROP TABLE document_escalation_contacts;
+ALTER TABLE documents DROP COLUMN escalation_delay_days;
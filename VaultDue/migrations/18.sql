@@ -0,0 +1,9 @@
+
+ALTER TABLE reminder_deliveries ADD COLUMN attempt_count INTEGER DEFAULT 1;
+ALTER TABLE reminder_deliveries ADD COLUMN next_attempt_at DATETIME;
+ALTER TABLE reminder_deliveries ADD COLUMN last_attempt_at DATETIME;
+ALTER TABLE reminder_deliveries ADD COLUMN delivered_at DATETIME;
+ALTER TABLE reminder_deliveries ADD COLUMN read_at DATETIME;
+
+CREATE INDEX idx_reminder_deliveries_provider_message_id ON reminder_deliveries(channel, provider_message_id);
+CREATE INDEX idx_reminder_deliveries_next_attempt_at ON reminder_deliveries(status, next_attempt_at);
@@ -0,0 +1,8 @@
+
+DROP INDEX idx_reminder_deliveries_next_attempt_at;
+DROP INDEX idx_reminder_deliveries_provider_message_id;
+ALTER TABLE reminder_deliveries DROP COLUMN read_at;
+ALTER TABLE reminder_deliveries DROP COLUMN delivered_at;
+ALTER TABLE reminder_deliveries DROP COLUMN last_attempt_at;
+ALTER TABLE reminder_deliveries DROP COLUMN next_attempt_at;
+ALTER TABLE reminder_deliveries DROP COLUMN attempt_count;
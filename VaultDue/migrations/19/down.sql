@@ -0,0 +1,3 @@
+
+DROP INDEX idx_notification_outbox_recipient;
+DROP TABLE notification_outbox;
@@ -0,0 +1,14 @@
+
+CREATE TABLE chat_webhooks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT,
+  organization_id INTEGER,
+  channel TEXT NOT NULL,
+  url TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_chat_webhooks_user_channel ON chat_webhooks(user_id, channel) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_chat_webhooks_organization_channel ON chat_webhooks(organization_id, channel) WHERE organization_id IS NOT NULL;
@@ -0,0 +1,4 @@
+
+DROP INDEX idx_chat_webhooks_organization_channel;
+DROP INDEX idx_chat_webhooks_user_channel;
+DROP TABLE chat_webhooks;
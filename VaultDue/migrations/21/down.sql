@@ -0,0 +1,6 @@
+
+DROP INDEX idx_webhook_deliveries_next_attempt_at;
+DROP INDEX idx_webhook_deliveries_event;
+DROP INDEX idx_webhook_subscriptions_organization_id;
+DROP TABLE webhook_deliveries;
+DROP TABLE webhook_subscriptions;
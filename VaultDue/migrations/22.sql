@@ -0,0 +1,15 @@
+
+ALTER TABLE user_profiles ADD COLUMN locale TEXT DEFAULT 'en';
+
+CREATE TABLE notification_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization_id INTEGER NOT NULL,
+  locale TEXT NOT NULL,
+  template_key TEXT NOT NULL,
+  body TEXT NOT NULL,
+  updated_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_notification_templates_key ON notification_templates(organization_id, locale, template_key);
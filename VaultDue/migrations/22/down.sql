@@ -0,0 +1,4 @@
+
+DROP INDEX idx_notification_templates_key;
+DROP TABLE notification_templates;
+ALTER TABLE user_profiles DROP COLUMN locale;
@@ -0,0 +1,18 @@
+
+ALTER TABLE user_profiles ADD COLUMN digest_mode TEXT DEFAULT 'off';
+ALTER TABLE user_profiles ADD COLUMN weekly_summary BOOLEAN DEFAULT 0;
+
+CREATE TABLE reminder_digests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  digest_date DATE NOT NULL,
+  channel TEXT,
+  document_count INTEGER DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  provider_message_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_reminder_digests_user_kind_date ON reminder_digests(user_id, kind, digest_date);
@@ -0,0 +1,5 @@
+
+DROP INDEX idx_reminder_digests_user_kind_date;
+DROP TABLE reminder_digests;
+ALTER TABLE user_profiles DROP COLUMN weekly_summary;
+ALTER TABLE user_profiles DROP COLUMN digest_mode;
@@ -0,0 +1,2 @@
+
+ALTER TABLE documents ADD COLUMN acknowledged_at DATETIME;
@@ -0,0 +1,16 @@
+
+CREATE TABLE document_attachments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  renewal_id INTEGER,
+  user_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_document_attachments_document_id ON document_attachments(document_id);
+CREATE UNIQUE INDEX idx_document_attachments_storage_key ON document_attachments(storage_key);
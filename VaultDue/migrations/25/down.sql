@@ -0,0 +1,4 @@
+
+DROP INDEX idx_document_attachments_storage_key;
+DROP INDEX idx_document_attachments_document_id;
+DROP TABLE document_attachments;
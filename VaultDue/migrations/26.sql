@@ -0,0 +1,10 @@
+
+CREATE TABLE calendar_feeds (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT UNIQUE NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  include_reminders BOOLEAN DEFAULT 0,
+  last_accessed_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,3 @@
+
+ALTER TABLE user_profiles ADD COLUMN email TEXT;
+ALTER TABLE user_profiles ADD COLUMN name TEXT;
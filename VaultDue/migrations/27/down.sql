@@ -0,0 +1,3 @@
+
+ALTER TABLE user_profiles DROP COLUMN name;
+ALTER TABLE user_profiles DROP COLUMN email;
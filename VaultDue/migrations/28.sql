@@ -0,0 +1,2 @@
+
+ALTER TABLE reminder_deliveries ADD COLUMN expiration_date TEXT;
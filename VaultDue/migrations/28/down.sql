@@ -0,0 +1,2 @@
+
+ALTER TABLE reminder_deliveries DROP COLUMN expiration_date;
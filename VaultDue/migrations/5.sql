@@ -0,0 +1,16 @@
+
+ALTER TABLE documents ADD COLUMN snoozed_until DATE;
+ALTER TABLE user_profiles ADD COLUMN whatsapp_opted_out BOOLEAN DEFAULT 0;
+
+CREATE INDEX idx_reminders_whatsapp_message_id ON reminders(whatsapp_message_id);
+
+CREATE TABLE whatsapp_inbound_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  whatsapp_message_id TEXT UNIQUE NOT NULL,
+  from_number TEXT NOT NULL,
+  body TEXT,
+  command TEXT,
+  user_id TEXT,
+  document_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,5 @@
+
+DROP TABLE whatsapp_inbound_messages;
+DROP INDEX idx_reminders_whatsapp_message_id;
+ALTER TABLE user_profiles DROP COLUMN whatsapp_opted_out;
+ALTER TABLE documents DROP COLUMN snoozed_until;
@@ -0,0 +1,13 @@
+
+CREATE TABLE document_renewals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  user_id TEXT NOT NULL,
+  previous_expiration_date DATE NOT NULL,
+  new_expiration_date DATE,
+  renewed_date DATE NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_document_renewals_document_id ON document_renewals(document_id);
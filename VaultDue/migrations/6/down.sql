@@ -0,0 +1,3 @@
+
+DROP INDEX idx_document_renewals_document_id;
+DROP TABLE document_renewals;
@@ -0,0 +1,7 @@
+
+ALTER TABLE document_renewals ADD COLUMN renewed_by_email TEXT;
+ALTER TABLE document_renewals ADD COLUMN renewed_by_name TEXT;
+ALTER TABLE document_renewals ADD COLUMN source TEXT DEFAULT 'web';
+ALTER TABLE document_renewals ADD COLUMN cost REAL;
+ALTER TABLE document_renewals ADD COLUMN reference_number TEXT;
+ALTER TABLE document_renewals ADD COLUMN notes TEXT;
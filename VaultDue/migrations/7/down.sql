@@ -0,0 +1,7 @@
+
+ALTER TABLE document_renewals DROP COLUMN notes;
+ALTER TABLE document_renewals DROP COLUMN reference_number;
+ALTER TABLE document_renewals DROP COLUMN cost;
+ALTER TABLE document_renewals DROP COLUMN source;
+ALTER TABLE document_renewals DROP COLUMN renewed_by_name;
+ALTER TABLE document_renewals DROP COLUMN renewed_by_email;
@@ -0,0 +1,7 @@
+
+ALTER TABLE team_members ADD COLUMN member_user_id TEXT;
+ALTER TABLE team_members ADD COLUMN invited_by_email TEXT;
+
+CREATE INDEX idx_team_members_document_id ON team_members(document_id);
+CREATE INDEX idx_team_members_invited_email ON team_members(invited_email);
+CREATE INDEX idx_team_members_member_user_id ON team_members(member_user_id);
@@ -0,0 +1,6 @@
+
+DROP INDEX idx_team_members_member_user_id;
+DROP INDEX idx_team_members_invited_email;
+DROP INDEX idx_team_members_document_id;
+ALTER TABLE team_members DROP COLUMN invited_by_email;
+ALTER TABLE team_members DROP COLUMN member_user_id;
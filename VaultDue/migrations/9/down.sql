@@ -0,0 +1,7 @@
+
+DROP INDEX idx_documents_organization_id;
+ALTER TABLE documents DROP COLUMN organization_id;
+DROP INDEX idx_organization_members_email;
+DROP INDEX idx_organization_members_user_id;
+DROP TABLE organization_members;
+DROP TABLE organizations;
@@ -4,6 +4,8 @@ import HomePage from "@/react-app/pages/Home";
 import AuthCallback from "@/react-app/pages/AuthCallback";
 import UserProfile from "@/react-app/pages/UserProfile";
 import Reminders from "@/react-app/pages/Reminders";
+import Team from "@/react-app/pages/Team";
+import AdminFeedback from "@/react-app/pages/AdminFeedback";
 
 export default function App() {
   return (
@@ -14,6 +16,8 @@ export default function App() {
           <Route path="/auth/callback" element={<AuthCallback />} />
           <Route path="/profile" element={<UserProfile />} />
           <Route path="/reminders" element={<Reminders />} />
+          <Route path="/team" element={<Team />} />
+          <Route path="/admin/feedback" element={<AdminFeedback />} />
         </Routes>
       </Router>
     </AuthProvider>
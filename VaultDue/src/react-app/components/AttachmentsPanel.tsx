@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DocumentAttachment,
+  DocumentRenewal,
+  ATTACHMENT_CONTENT_TYPES,
+  ATTACHMENT_MAX_BYTES,
+} from '@/shared/types';
+import { Download, FileText, Image, Loader2, Paperclip, Upload, X } from 'lucide-react';
+
+interface AttachmentsPanelProps {
+  documentId: number;
+  canEdit: boolean;
+  onUpload?: (attachment: DocumentAttachment) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function AttachmentsPanel({ documentId, canEdit, onUpload }: AttachmentsPanelProps) {
+  const [attachments, setAttachments] = useState<DocumentAttachment[]>([]);
+  const [renewals, setRenewals] = useState<DocumentRenewal[]>([]);
+  const [renewalId, setRenewalId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const endpoint = `/api/documents/${documentId}/attachments`;
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const [attachmentsResponse, renewalsResponse] = await Promise.all([
+        fetch(endpoint),
+        fetch(`/api/documents/${documentId}/renewals`),
+      ]);
+      if (attachmentsResponse.ok) {
+        setAttachments(await attachmentsResponse.json());
+      }
+      if (renewalsResponse.ok) {
+        setRenewals(await renewalsResponse.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch attachments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId, endpoint]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const upload = async (file: File) => {
+    setError(null);
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      setError(`Files can be up to ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      if (renewalId) {
+        form.append('renewal_id', renewalId);
+      }
+
+      const response = await fetch(endpoint, { method: 'POST', body: form });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to upload file');
+      }
+
+      const attachment: DocumentAttachment = await response.json();
+      setAttachments([attachment, ...attachments]);
+      onUpload?.(attachment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setUploading(false);
+      if (fileInput.current) {
+        fileInput.current.value = '';
+      }
+    }
+  };
+
+  const remove = async (attachment: DocumentAttachment) => {
+    if (!confirm(`Remove "${attachment.file_name}"?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`${endpoint}/${attachment.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to remove file');
+      }
+      setAttachments(attachments.filter(a => a.id !== attachment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove file');
+    }
+  };
+
+  const describeRenewal = (id: number | null) => {
+    const renewal = renewals.find(r => r.id === id);
+    return renewal ? `Renewal on ${new Date(renewal.renewed_date).toLocaleDateString()}` : null;
+  };
+
+  return (
+    <div>
+      <h3 className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+        <Paperclip className="w-4 h-4" />
+        <span>Files</span>
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Keep the signed PDF or a scan with the document, and the paperwork from each renewal.
+      </p>
+
+      {error && (
+        <div className="p-3 mb-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {attachments.length === 0 ? (
+            <p className="text-sm text-gray-500">No files attached yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {attachments.map((attachment) => (
+                <li key={attachment.id} className="flex items-center justify-between py-2">
+                  <a
+                    href={`${endpoint}/${attachment.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center space-x-2 min-w-0 group"
+                  >
+                    {attachment.content_type === 'application/pdf' ? (
+                      <FileText className="w-4 h-4 text-red-500 flex-shrink-0" />
+                    ) : (
+                      <Image className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 truncate group-hover:text-blue-600">{attachment.file_name}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatSize(attachment.size_bytes)} · {new Date(attachment.created_at).toLocaleDateString()}
+                        {attachment.renewal_id && describeRenewal(attachment.renewal_id) && ` · ${describeRenewal(attachment.renewal_id)}`}
+                      </p>
+                    </div>
+                  </a>
+                  <div className="flex items-center flex-shrink-0">
+                    <a
+                      href={`${endpoint}/${attachment.id}?download=1`}
+                      className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4 text-gray-500" />
+                    </a>
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => remove(attachment)}
+                        className="p-1.5 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Remove file"
+                      >
+                        <X className="w-4 h-4 text-red-500" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit && (
+            <div className="flex space-x-2">
+              {renewals.length > 0 && (
+                <select
+                  value={renewalId}
+                  onChange={(e) => setRenewalId(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                >
+                  <option value="">This document</option>
+                  {renewals.map((renewal) => (
+                    <option key={renewal.id} value={renewal.id}>
+                      Renewal on {new Date(renewal.renewed_date).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                ref={fileInput}
+                type="file"
+                accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                disabled={uploading}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                <span>Upload file</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, Check, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { CalendarFeed } from '@/shared/types';
+
+const DISABLED_FEED: CalendarFeed = {
+  enabled: false,
+  include_reminders: false,
+  created_at: null,
+  last_accessed_at: null,
+};
+
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed>(DISABLED_FEED);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFeed();
+  }, []);
+
+  const fetchFeed = async () => {
+    try {
+      const response = await fetch('/api/profile/calendar-feed');
+      if (response.ok) {
+        setFeed(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch calendar feed:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const request = async (method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/profile/calendar-feed', {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(data?.two_factor_required
+          ? 'Verify with your authenticator app before changing the calendar link.'
+          : data?.error?.issues?.[0]?.message || data?.error || 'Failed to update calendar feed');
+      }
+
+      if (method === 'DELETE') {
+        setFeed(DISABLED_FEED);
+      } else if (method === 'PUT') {
+        // Keep a link that was just created on screen
+        setFeed({ ...data, url: feed.url });
+      } else {
+        setFeed(data);
+        setCopied(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetLink = () => {
+    if (confirm('Reset the calendar link? Calendars subscribed to the current link will stop updating.')) {
+      request('POST');
+    }
+  };
+
+  const turnOff = () => {
+    if (confirm('Turn off the calendar feed? Calendars subscribed to it will stop updating.')) {
+      request('DELETE');
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feed.url) return;
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-white/60 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!feed.enabled) {
+    return (
+      <div className="space-y-3">
+        <button
+          onClick={() => request('POST')}
+          disabled={saving}
+          className="flex items-center space-x-2 px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarDays className="w-4 h-4" />}
+          <span>Turn on calendar feed</span>
+        </button>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {feed.url ? (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={feed.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm font-mono"
+            />
+            <button
+              onClick={copyUrl}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 border border-white/20 text-white rounded-lg text-sm hover:bg-white/20 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </button>
+          </div>
+          <p className="text-xs text-amber-200">
+            Add this link to Google Calendar ("From URL") or Outlook ("Subscribe from web") now. It won't be shown again;
+            reset the link if you need a new one.{' '}
+            <a href={feed.url.replace(/^https?:/, 'webcal:')} className="underline hover:text-amber-100">
+              Open in your calendar app
+            </a>
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-white/70">
+          Your calendar feed is on.{' '}
+          {feed.last_accessed_at
+            ? `Last checked by a calendar app on ${new Date(feed.last_accessed_at).toLocaleString()}.`
+            : 'No calendar app has checked it yet.'}
+        </p>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm text-white/80">
+        <input
+          type="checkbox"
+          checked={feed.include_reminders}
+          disabled={saving}
+          onChange={(e) => request('PUT', { include_reminders: e.target.checked })}
+          className="rounded border-white/20 bg-white/10"
+        />
+        <span>Also show upcoming reminder dates</span>
+      </label>
+
+      <div className="flex items-center justify-between">
+        {error ? <p className="text-sm text-red-300">{error}</p> : <span />}
+        <div className="flex space-x-2">
+          <button
+            onClick={resetLink}
+            disabled={saving}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 border border-white/20 text-white rounded-lg text-sm hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Reset link</span>
+          </button>
+          <button
+            onClick={turnOff}
+            disabled={saving}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/20 border border-red-400/30 text-red-200 rounded-lg text-sm hover:bg-red-500/30 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Turn off</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Hash, Loader2, Save, Users } from 'lucide-react';
+import { ChatWebhooks } from '@/shared/types';
+
+interface ChatWebhookSettingsProps {
+  // e.g. /api/profile/chat-webhooks or /api/organizations/1/chat-webhooks
+  endpoint: string;
+}
+
+const EMPTY_WEBHOOKS: ChatWebhooks = { slack_webhook_url: null, teams_webhook_url: null };
+
+export default function ChatWebhookSettings({ endpoint }: ChatWebhookSettingsProps) {
+  const [webhooks, setWebhooks] = useState<ChatWebhooks>(EMPTY_WEBHOOKS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(endpoint);
+      if (response.ok) {
+        setWebhooks(await response.json());
+        setDirty(false);
+      }
+    } catch (err) {
+      console.error('Failed to fetch chat webhooks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const update = (changes: Partial<ChatWebhooks>) => {
+    setWebhooks({ ...webhooks, ...changes });
+    setDirty(true);
+    setMessage(null);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(webhooks),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.issues?.[0]?.message || data?.error || 'Failed to save webhooks');
+      }
+
+      setWebhooks(await response.json());
+      setDirty(false);
+      setMessage({ type: 'success', text: 'Webhooks saved' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save webhooks' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-white/60 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Hash className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/50" />
+        <input
+          type="url"
+          placeholder="Slack webhook (https://hooks.slack.com/services/...)"
+          value={webhooks.slack_webhook_url || ''}
+          onChange={(e) => update({ slack_webhook_url: e.target.value })}
+          className="w-full pl-10 pr-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+      </div>
+      <div className="relative">
+        <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/50" />
+        <input
+          type="url"
+          placeholder="Teams webhook (https://....webhook.office.com/...)"
+          value={webhooks.teams_webhook_url || ''}
+          onChange={(e) => update({ teams_webhook_url: e.target.value })}
+          className="w-full pl-10 pr-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        {message ? (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</p>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={save}
+          disabled={saving || !dirty}
+          className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          <span>Save webhooks</span>
+        </button>
+      </div>
+    </div>
+  );
+}
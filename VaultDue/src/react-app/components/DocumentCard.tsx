@@ -1,12 +1,12 @@
-import { Document } from '@/shared/types';
-import { AlertTriangle, Calendar, Clock, Shield, FileText, MoreVertical } from 'lucide-react';
+import { Document, canPerformDocumentAction } from '@/shared/types';
+import { AlertTriangle, Bell, Calendar, Clock, Shield, FileText, MoreVertical, Paperclip, Users } from 'lucide-react';
 import { useState } from 'react';
 
 interface DocumentCardProps {
   document: Document;
   onEdit: (document: Document) => void;
   onDelete: (id: number) => void;
-  onRenew: (id: number) => void;
+  onRenew: (document: Document) => void;
 }
 
 export default function DocumentCard({ document, onEdit, onDelete, onRenew }: DocumentCardProps) {
@@ -19,6 +19,10 @@ export default function DocumentCard({ document, onEdit, onDelete, onRenew }: Do
   const isExpired = daysUntilExpiry < 0;
   const isExpiringSoon = daysUntilExpiry <= 30 && daysUntilExpiry >= 0;
   const isCritical = document.is_critical;
+  const isShared = document.access_role !== undefined && document.access_role !== 'owner';
+  const canEdit = canPerformDocumentAction(document.access_role, 'edit');
+  const canRenew = canPerformDocumentAction(document.access_role, 'renew');
+  const canDelete = canPerformDocumentAction(document.access_role, 'delete');
 
   const getStatusColor = () => {
     if (isExpired) return 'from-red-500 to-red-600';
@@ -52,10 +56,19 @@ export default function DocumentCard({ document, onEdit, onDelete, onRenew }: Do
               {document.document_type && (
                 <p className="text-sm text-gray-500">{document.document_type}</p>
               )}
+              {document.organization_name && (
+                <p className="text-xs text-gray-400">{document.organization_name}</p>
+              )}
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
+            {isShared && (
+              <div className="p-1.5 bg-blue-100 rounded-full" title={`You are ${document.access_role === 'admin' ? 'an' : 'a'} ${document.access_role} on this document`}>
+                <Users className="w-4 h-4 text-blue-600" />
+              </div>
+            )}
+
             {isCritical && (
               <div className="p-1.5 bg-red-100 rounded-full" title="Critical Document">
                 <Shield className="w-4 h-4 text-red-600" />
@@ -79,26 +92,30 @@ export default function DocumentCard({ document, onEdit, onDelete, onRenew }: Do
                     }}
                     className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
                   >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => {
-                      onRenew(document.id);
-                      setShowActions(false);
-                    }}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
-                  >
-                    Mark Renewed
-                  </button>
-                  <button
-                    onClick={() => {
-                      onDelete(document.id);
-                      setShowActions(false);
-                    }}
-                    className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50"
-                  >
-                    Delete
+                    {canEdit ? 'Edit' : 'View'}
                   </button>
+                  {canRenew && (
+                    <button
+                      onClick={() => {
+                        onRenew(document);
+                        setShowActions(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      Mark Renewed
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => {
+                        onDelete(document.id);
+                        setShowActions(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -127,6 +144,13 @@ export default function DocumentCard({ document, onEdit, onDelete, onRenew }: Do
               <span className="text-sm">{getStatusText()}</span>
             </div>
           )}
+
+          {document.next_reminder_date && (
+            <div className="flex items-center space-x-1 text-gray-400 text-xs ml-auto">
+              <Bell className="w-3 h-3" />
+              <span>Next reminder {new Date(document.next_reminder_date).toLocaleDateString()}</span>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -136,11 +160,24 @@ export default function DocumentCard({ document, onEdit, onDelete, onRenew }: Do
             <span>Expires {expirationDate.toLocaleDateString()}</span>
           </div>
           
-          {document.last_renewed_date && (
-            <span className="text-green-600">
-              Renewed {new Date(document.last_renewed_date).toLocaleDateString()}
-            </span>
-          )}
+          <div className="flex items-center space-x-3">
+            {!!document.attachment_count && (
+              <button
+                onClick={() => onEdit(document)}
+                className="flex items-center space-x-1 text-gray-500 hover:text-gray-700 transition-colors"
+                title="View attached files"
+              >
+                <Paperclip className="w-4 h-4" />
+                <span>{document.attachment_count}</span>
+              </button>
+            )}
+
+            {document.last_renewed_date && (
+              <span className="text-green-600">
+                Renewed {new Date(document.last_renewed_date).toLocaleDateString()}
+              </span>
+            )}
+          </div>
         </div>
       </div>
     </div>
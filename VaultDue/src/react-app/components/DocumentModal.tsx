@@ -1,14 +1,60 @@
-import { useState, useEffect } from 'react';
-import { Document, CreateDocument, DOCUMENT_TYPES } from '@/shared/types';
-import { X, Calendar, FileText, Shield } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  Document,
+  CreateDocument,
+  DocumentAttachment,
+  DocumentExtraction,
+  DOCUMENT_TYPES,
+  ATTACHMENT_MAX_BYTES,
+  canPerformDocumentAction,
+  parseReminderOffsets,
+} from '@/shared/types';
+import { X, Calendar, FileText, Shield, Building2, Bell, Plus, ScanText, Loader2 } from 'lucide-react';
+import RenewalTimeline from '@/react-app/components/RenewalTimeline';
+import SharingPanel from '@/react-app/components/SharingPanel';
+import EscalationPanel from '@/react-app/components/EscalationPanel';
+import AttachmentsPanel from '@/react-app/components/AttachmentsPanel';
+import ExtractionSuggestions from '@/react-app/components/ExtractionSuggestions';
+import { useOrganizations } from '@/react-app/hooks/useOrganizations';
+
+// Quick picks for common renewal cycles
+const REMINDER_PRESETS = [
+  { label: 'Permit (90/60/30)', offsets: [90, 60, 30] },
+  { label: 'Annual (60/30/7/1)', offsets: [60, 30, 7, 1] },
+  { label: 'Subscription (3)', offsets: [3] },
+];
 
 interface DocumentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (document: CreateDocument) => Promise<void>;
+  // sourceFile is the PDF a new document was filled in from, to attach once it's saved
+  onSave: (document: CreateDocument, sourceFile?: File) => Promise<void>;
   document?: Document;
 }
 
+interface Suggestions {
+  extraction: DocumentExtraction;
+  fileName: string;
+  applied: boolean;
+}
+
+// Fills the form from a PDF's details, keeping anything the user already typed
+// except the type and expiry, which the PDF is the better source for
+const withSuggestions = (data: CreateDocument, extraction: DocumentExtraction): CreateDocument => {
+  const source = [
+    extraction.issuer && `Issued by ${extraction.issuer}`,
+    extraction.document_number && `Number: ${extraction.document_number}`,
+  ].filter(Boolean).join('\n');
+
+  return {
+    ...data,
+    title: data.title || extraction.title || '',
+    document_type: extraction.document_type ?? data.document_type,
+    expiration_date: extraction.expiration_date ?? data.expiration_date,
+    description: data.description || source,
+  };
+};
+
 export default function DocumentModal({ isOpen, onClose, onSave, document }: DocumentModalProps) {
   const [formData, setFormData] = useState<CreateDocument>({
     title: '',
@@ -18,8 +64,26 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
     renewal_period_days: undefined,
     is_critical: false,
   });
+  const [newOffset, setNewOffset] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const pdfInput = useRef<HTMLInputElement>(null);
+  const readOnly = !!document && !canPerformDocumentAction(document.access_role, 'edit');
+  const { organizations, fetchOrganizations } = useOrganizations();
+  // Viewers can't add documents to a workspace
+  const writableOrganizations = organizations.filter(o => canPerformDocumentAction(o.role, 'edit'));
+  // Matches the server's default: the first workspace the user owns
+  const defaultOrganizationId = writableOrganizations.find(o => o.role === 'owner')?.id
+    ?? writableOrganizations[0]?.id;
+
+  useEffect(() => {
+    if (isOpen && !document) {
+      fetchOrganizations();
+    }
+  }, [isOpen, document, fetchOrganizations]);
 
   useEffect(() => {
     if (document) {
@@ -30,6 +94,7 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
         expiration_date: document.expiration_date,
         renewal_period_days: document.renewal_period_days || undefined,
         is_critical: document.is_critical,
+        reminder_offsets: parseReminderOffsets(document.reminder_offsets),
       });
     } else {
       setFormData({
@@ -39,18 +104,103 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
         expiration_date: '',
         renewal_period_days: undefined,
         is_critical: false,
+        reminder_offsets: null,
       });
     }
+    setNewOffset('');
     setError(null);
+    setSourceFile(null);
+    setSuggestions(null);
   }, [document, isOpen]);
 
+  // New documents: read the PDF first, and attach it once the document is saved
+  const fillFromPdf = async (file: File) => {
+    setError(null);
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      setError(`Files can be up to ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setExtracting(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+
+      const response = await fetch('/api/documents/extract', { method: 'POST', body: form });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to read the PDF');
+      }
+
+      const extraction: DocumentExtraction = data;
+      setFormData(current => withSuggestions(current, extraction));
+      setSuggestions({ extraction, fileName: file.name, applied: true });
+      setSourceFile(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the PDF');
+    } finally {
+      setExtracting(false);
+      if (pdfInput.current) {
+        pdfInput.current.value = '';
+      }
+    }
+  };
+
+  // Existing documents: offer what's in a newly attached PDF, without changing the form yet
+  const handleAttachmentUpload = async (attachment: DocumentAttachment) => {
+    if (!document || attachment.content_type !== 'application/pdf') return;
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}/attachments/${attachment.id}/extraction`);
+      if (!response.ok) return;
+
+      const extraction: DocumentExtraction = await response.json();
+      setSuggestions({ extraction, fileName: attachment.file_name, applied: false });
+    } catch (err) {
+      console.error('Failed to read attachment:', err);
+    }
+  };
+
+  const suggestionsNotice = suggestions && (
+    <ExtractionSuggestions
+      extraction={suggestions.extraction}
+      fileName={suggestions.fileName}
+      applied={suggestions.applied}
+      expirationDate={formData.expiration_date}
+      onApply={() => {
+        setFormData(withSuggestions(formData, suggestions.extraction));
+        setSuggestions({ ...suggestions, applied: true });
+      }}
+      onPickDate={(date) => setFormData({ ...formData, expiration_date: date })}
+      onDismiss={() => setSuggestions(null)}
+    />
+  );
+
+  const customOffsets = formData.reminder_offsets ?? null;
+
+  const setOffsets = (offsets: number[] | null) => {
+    setFormData({
+      ...formData,
+      reminder_offsets: offsets && offsets.length > 0
+        ? Array.from(new Set(offsets)).sort((a, b) => b - a)
+        : null,
+    });
+  };
+
+  const addOffset = () => {
+    const days = parseInt(newOffset);
+    if (Number.isNaN(days) || days < 0 || days > 365) return;
+    setOffsets([...(customOffsets ?? []), days]);
+    setNewOffset('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
     setError(null);
 
     try {
-      await onSave(formData);
+      await onSave(formData, sourceFile ?? undefined);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save document');
@@ -67,7 +217,7 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-900">
-            {document ? 'Edit Document' : 'Add New Document'}
+            {readOnly ? 'View Document' : document ? 'Edit Document' : 'Add New Document'}
           </h2>
           <button
             onClick={onClose}
@@ -85,111 +235,307 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
             </div>
           )}
 
-          {/* Title */}
-          <div>
-            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
-              Document Title *
-            </label>
-            <div className="relative">
-              <FileText className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          {/* Fill in from a PDF */}
+          {!document && (
+            <div>
               <input
-                type="text"
-                id="title"
-                required
-                value={formData.title}
-                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="e.g., Business License"
+                ref={pdfInput}
+                type="file"
+                accept="application/pdf"
+                onChange={(e) => e.target.files?.[0] && fillFromPdf(e.target.files[0])}
+                className="hidden"
               />
+              <button
+                type="button"
+                onClick={() => pdfInput.current?.click()}
+                disabled={extracting}
+                className="w-full flex items-center justify-center space-x-2 px-3 py-3 border-2 border-dashed border-gray-300 text-gray-600 text-sm rounded-lg hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+              >
+                {extracting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanText className="w-4 h-4" />}
+                <span>
+                  {extracting
+                    ? 'Reading PDF...'
+                    : sourceFile
+                      ? `Attached: ${sourceFile.name}. Choose another PDF`
+                      : 'Fill in from a PDF'}
+                </span>
+              </button>
             </div>
-          </div>
+          )}
 
-          {/* Document Type */}
-          <div>
-            <label htmlFor="document_type" className="block text-sm font-medium text-gray-700 mb-2">
-              Document Type
-            </label>
-            <select
-              id="document_type"
-              value={formData.document_type}
-              onChange={(e) => setFormData({ ...formData, document_type: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="">Select type...</option>
-              {DOCUMENT_TYPES.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                </option>
-              ))}
-            </select>
-          </div>
+          {!document && suggestionsNotice}
 
-          {/* Description */}
-          <div>
-            <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
-              Description
-            </label>
-            <textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              rows={3}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Optional description or notes..."
-            />
-          </div>
+          <fieldset disabled={readOnly} className="space-y-6">
+            {/* Title */}
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                Document Title *
+              </label>
+              <div className="relative">
+                <FileText className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="text"
+                  id="title"
+                  required
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g., Business License"
+                />
+              </div>
+            </div>
+
+            {/* Workspace */}
+            {!document && writableOrganizations.length > 1 && (
+              <div>
+                <label htmlFor="organization_id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Workspace
+                </label>
+                <div className="relative">
+                  <Building2 className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <select
+                    id="organization_id"
+                    value={formData.organization_id ?? defaultOrganizationId}
+                    onChange={(e) => setFormData({ ...formData, organization_id: parseInt(e.target.value) })}
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {writableOrganizations.map((organization) => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {/* Document Type */}
+            <div>
+              <label htmlFor="document_type" className="block text-sm font-medium text-gray-700 mb-2">
+                Document Type
+              </label>
+              <select
+                id="document_type"
+                value={formData.document_type}
+                onChange={(e) => setFormData({ ...formData, document_type: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select type...</option>
+                {DOCUMENT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-          {/* Expiration Date */}
-          <div>
-            <label htmlFor="expiration_date" className="block text-sm font-medium text-gray-700 mb-2">
-              Expiration Date *
-            </label>
-            <div className="relative">
-              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            {/* Description */}
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                Description
+              </label>
+              <textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional description or notes..."
+              />
+            </div>
+
+            {/* Expiration Date */}
+            <div>
+              <label htmlFor="expiration_date" className="block text-sm font-medium text-gray-700 mb-2">
+                Expiration Date *
+              </label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="date"
+                  id="expiration_date"
+                  required
+                  value={formData.expiration_date}
+                  onChange={(e) => setFormData({ ...formData, expiration_date: e.target.value })}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {/* Renewal Period */}
+            <div>
+              <label htmlFor="renewal_period_days" className="block text-sm font-medium text-gray-700 mb-2">
+                Renewal Period (Days)
+              </label>
               <input
-                type="date"
-                id="expiration_date"
-                required
-                value={formData.expiration_date}
-                onChange={(e) => setFormData({ ...formData, expiration_date: e.target.value })}
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                type="number"
+                id="renewal_period_days"
+                min="1"
+                value={formData.renewal_period_days || ''}
+                onChange={(e) => setFormData({ 
+                  ...formData, 
+                  renewal_period_days: e.target.value ? parseInt(e.target.value) : undefined 
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., 365 for yearly renewal"
               />
             </div>
-          </div>
 
-          {/* Renewal Period */}
-          <div>
-            <label htmlFor="renewal_period_days" className="block text-sm font-medium text-gray-700 mb-2">
-              Renewal Period (Days)
-            </label>
-            <input
-              type="number"
-              id="renewal_period_days"
-              min="1"
-              value={formData.renewal_period_days || ''}
-              onChange={(e) => setFormData({ 
-                ...formData, 
-                renewal_period_days: e.target.value ? parseInt(e.target.value) : undefined 
-              })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="e.g., 365 for yearly renewal"
-            />
-          </div>
+            {/* Reminder Schedule */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reminder Schedule
+              </label>
+              <div className="flex space-x-2 mb-3">
+                <button
+                  type="button"
+                  onClick={() => setOffsets(null)}
+                  className={`flex-1 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    customOffsets === null
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Profile default
+                </button>
+                <button
+                  type="button"
+                  onClick={() => customOffsets === null && setOffsets(REMINDER_PRESETS[0].offsets)}
+                  className={`flex-1 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    customOffsets !== null
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Custom
+                </button>
+              </div>
 
-          {/* Critical Flag */}
-          <div className="flex items-center space-x-3">
-            <input
-              type="checkbox"
-              id="is_critical"
-              checked={formData.is_critical}
-              onChange={(e) => setFormData({ ...formData, is_critical: e.target.checked })}
-              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-            />
-            <label htmlFor="is_critical" className="flex items-center space-x-2 text-sm font-medium text-gray-700">
-              <Shield className="w-4 h-4 text-red-500" />
-              <span>Mark as Critical Document</span>
-            </label>
-          </div>
+              {customOffsets === null ? (
+                <p className="text-xs text-gray-500">
+                  Uses the reminder frequency from your profile settings.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {customOffsets.map((offset) => (
+                      <span
+                        key={offset}
+                        className="inline-flex items-center space-x-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs"
+                      >
+                        <Bell className="w-3 h-3" />
+                        <span>{offset === 0 ? 'On expiry day' : `${offset} day${offset === 1 ? '' : 's'} before`}</span>
+                        {!readOnly && customOffsets.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setOffsets(customOffsets.filter((o) => o !== offset))}
+                            className="hover:text-blue-900"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="365"
+                      value={newOffset}
+                      onChange={(e) => setNewOffset(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          addOffset();
+                        }
+                      }}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Days before expiry"
+                    />
+                    <button
+                      type="button"
+                      onClick={addOffset}
+                      disabled={!newOffset || customOffsets.length >= 10}
+                      className="px-3 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {REMINDER_PRESETS.map((preset) => (
+                      <button
+                        key={preset.label}
+                        type="button"
+                        onClick={() => setOffsets(preset.offsets)}
+                        className="px-2 py-1 text-xs text-gray-600 border border-gray-200 rounded-full hover:bg-gray-50"
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {document?.next_reminder_date && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Next reminder: {new Date(document.next_reminder_date).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+
+            {/* Critical Flag */}
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="is_critical"
+                checked={formData.is_critical}
+                onChange={(e) => setFormData({ ...formData, is_critical: e.target.checked })}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="is_critical" className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <Shield className="w-4 h-4 text-red-500" />
+                <span>Mark as Critical Document</span>
+              </label>
+            </div>
+          </fieldset>
+
+          {/* Files */}
+          {document && (
+            <div className="pt-6 border-t border-gray-200">
+              <AttachmentsPanel
+                documentId={document.id}
+                canEdit={canPerformDocumentAction(document.access_role, 'edit')}
+                onUpload={handleAttachmentUpload}
+              />
+              {suggestionsNotice && <div className="mt-3">{suggestionsNotice}</div>}
+            </div>
+          )}
+
+          {/* Sharing */}
+          {document && canPerformDocumentAction(document.access_role, 'share') && (
+            <div className="pt-6 border-t border-gray-200">
+              <SharingPanel documentId={document.id} />
+            </div>
+          )}
+
+          {/* Escalation */}
+          {document && document.is_critical && (
+            <div className="pt-6 border-t border-gray-200">
+              <EscalationPanel
+                documentId={document.id}
+                canEdit={canPerformDocumentAction(document.access_role, 'edit')}
+                canAcknowledge={canPerformDocumentAction(document.access_role, 'renew')}
+              />
+            </div>
+          )}
+
+          {/* Renewal History */}
+          {document && (
+            <div className="pt-6 border-t border-gray-200">
+              <RenewalTimeline documentId={document.id} />
+            </div>
+          )}
 
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
@@ -198,15 +544,17 @@ export default function DocumentModal({ isOpen, onClose, onSave, document }: Doc
               onClick={onClose}
               className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={saving}
-              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {saving ? 'Saving...' : document ? 'Update' : 'Create'}
+              {readOnly ? 'Close' : 'Cancel'}
             </button>
+            {!readOnly && (
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : document ? 'Update' : 'Create'}
+              </button>
+            )}
           </div>
         </form>
       </div>
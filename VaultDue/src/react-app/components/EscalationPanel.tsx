@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DocumentEscalation, EscalationContactInput, EscalationMember, ESCALATION_CONTACT_TYPES } from '@/shared/types';
+import { AlertTriangle, ArrowDown, ArrowUp, CheckCircle, Loader2, Plus, X } from 'lucide-react';
+
+interface EscalationPanelProps {
+  documentId: number;
+  canEdit: boolean;
+  canAcknowledge: boolean;
+}
+
+interface EscalationSettings {
+  delay_days: number;
+  contacts: EscalationContactInput[];
+  active: DocumentEscalation | null;
+  members: EscalationMember[];
+}
+
+const CONTACT_TYPE_LABELS: Record<EscalationContactInput['contact_type'], string> = {
+  email: 'Email',
+  phone: 'WhatsApp',
+  member: 'Team member',
+};
+
+export default function EscalationPanel({ documentId, canEdit, canAcknowledge }: EscalationPanelProps) {
+  const [delayDays, setDelayDays] = useState('2');
+  const [contacts, setContacts] = useState<EscalationContactInput[]>([]);
+  const [active, setActive] = useState<DocumentEscalation | null>(null);
+  const [members, setMembers] = useState<EscalationMember[]>([]);
+  const [contactType, setContactType] = useState<EscalationContactInput['contact_type']>('email');
+  const [contactValue, setContactValue] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applySettings = (settings: EscalationSettings) => {
+    setDelayDays(String(settings.delay_days));
+    setContacts(settings.contacts.map(({ contact_type, contact_value, name }) => ({
+      contact_type,
+      contact_value,
+      name: name || undefined,
+    })));
+    setActive(settings.active);
+    setMembers(settings.members);
+    setDirty(false);
+  };
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/escalation`);
+      if (response.ok) {
+        applySettings(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch escalation settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateContacts = (next: EscalationContactInput[]) => {
+    setContacts(next);
+    setDirty(true);
+  };
+
+  const addContact = () => {
+    if (!contactValue.trim()) return;
+    // Members go by their own name unless another is given
+    const memberName = contactType === 'member'
+      ? members.find((member) => member.email === contactValue)?.name
+      : null;
+    updateContacts([
+      ...contacts,
+      {
+        contact_type: contactType,
+        contact_value: contactValue.trim(),
+        name: contactName.trim() || memberName || undefined,
+      },
+    ]);
+    setContactValue('');
+    setContactName('');
+  };
+
+  const moveContact = (index: number, direction: -1 | 1) => {
+    const next = [...contacts];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    updateContacts(next);
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/escalation`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ delay_days: parseInt(delayDays), contacts }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.issues?.[0]?.message || data?.error || 'Failed to save escalation chain');
+      }
+
+      applySettings(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save escalation chain');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const acknowledge = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/acknowledge`, { method: 'POST' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error('Failed to acknowledge reminder');
+      }
+      setActive(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge reminder');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+        <AlertTriangle className="w-4 h-4" />
+        <span>Escalation</span>
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        If a reminder isn't acknowledged or renewed in time, backup contacts are notified one after another.
+      </p>
+
+      {error && (
+        <div className="p-3 mb-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {active && (
+            <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-800">
+                {active.current_step === 0
+                  ? `Waiting for acknowledgement. Escalates on ${new Date(active.next_escalation_date).toLocaleDateString()}.`
+                  : `Escalated to ${active.current_step} backup contact${active.current_step === 1 ? '' : 's'}.`}
+              </p>
+              {canAcknowledge && (
+                <button
+                  type="button"
+                  onClick={acknowledge}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-amber-500 text-white text-sm rounded-lg hover:bg-amber-600 transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Acknowledge</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">No backup contacts yet.</p>
+          ) : (
+            <ol className="divide-y divide-gray-100">
+              {contacts.map((contact, index) => (
+                <li key={`${contact.contact_value}-${index}`} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      {index + 1}. {contact.name || contact.contact_value}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {CONTACT_TYPE_LABELS[contact.contact_type]}
+                      {contact.name ? ` · ${contact.contact_value}` : ''}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center">
+                      <button
+                        type="button"
+                        onClick={() => moveContact(index, -1)}
+                        disabled={index === 0}
+                        className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveContact(index, 1)}
+                        disabled={index === contacts.length - 1}
+                        className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateContacts(contacts.filter((_, i) => i !== index))}
+                        className="p-1.5 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Remove contact"
+                      >
+                        <X className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {canEdit && (
+            <>
+              {contacts.length < 5 && (
+                <div className="space-y-2">
+                  <div className="flex space-x-2">
+                    <select
+                      value={contactType}
+                      onChange={(e) => {
+                        setContactType(e.target.value as EscalationContactInput['contact_type']);
+                        setContactValue('');
+                      }}
+                      className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                    >
+                      {ESCALATION_CONTACT_TYPES.map((option) => (
+                        <option key={option} value={option}>
+                          {CONTACT_TYPE_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    {contactType === 'member' ? (
+                      <select
+                        value={contactValue}
+                        onChange={(e) => setContactValue(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      >
+                        <option value="">
+                          {members.length === 0 ? 'No one else has access yet' : 'Choose a member'}
+                        </option>
+                        {members.map((member) => (
+                          <option key={member.email} value={member.email}>
+                            {member.name ? `${member.name} (${member.email})` : member.email}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type={contactType === 'email' ? 'email' : 'tel'}
+                        value={contactValue}
+                        onChange={(e) => setContactValue(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                        placeholder={contactType === 'email' ? 'manager@company.com' : '+91 98765 43210'}
+                      />
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={contactName}
+                      onChange={(e) => setContactName(e.target.value)}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      placeholder="Name (optional)"
+                    />
+                    <button
+                      type="button"
+                      onClick={addContact}
+                      disabled={!contactValue.trim()}
+                      className="flex items-center space-x-1 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Escalate every</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={delayDays}
+                    onChange={(e) => {
+                      setDelayDays(e.target.value);
+                      setDirty(true);
+                    }}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                  <span>days</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={saveSettings}
+                  disabled={saving || !dirty || delayDays === ''}
+                  className="px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save chain'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
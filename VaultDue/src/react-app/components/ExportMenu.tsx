@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { DocumentFilter, ExportDataset, ExportFormat } from '@/shared/types';
+
+interface ExportMenuProps {
+  dataset: ExportDataset;
+  // The dashboard's current filter and search, for document exports
+  filter?: DocumentFilter;
+  search?: string;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'pdf', label: 'PDF report' },
+];
+
+export default function ExportMenu({ dataset, filter, search }: ExportMenuProps) {
+  const [showFormats, setShowFormats] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    setShowFormats(false);
+    setExporting(format);
+
+    const params = new URLSearchParams({ dataset, format });
+    if (filter) params.set('filter', filter);
+    if (search?.trim()) params.set('search', search.trim());
+
+    try {
+      const response = await fetch(`/api/exports?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        alert(data?.two_factor_required
+          ? 'Verify with your authenticator app before exporting.'
+          : data?.error?.issues?.[0]?.message || data?.error || 'Failed to export');
+        return;
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        ?? `vaultdue-${dataset}.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export:', error);
+      alert('Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowFormats(!showFormats)}
+        disabled={exporting !== null}
+        className="bg-white/10 border border-white/20 text-white px-4 py-2 rounded-lg flex items-center space-x-2 hover:bg-white/20 transition-colors disabled:opacity-50"
+      >
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        <span>Export</span>
+      </button>
+
+      {showFormats && (
+        <div className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10 w-40">
+          {FORMAT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => download(option.value)}
+              className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
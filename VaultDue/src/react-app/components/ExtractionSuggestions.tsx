@@ -0,0 +1,108 @@
+import { DocumentExtraction } from '@/shared/types';
+import { Calendar, ScanText, X } from 'lucide-react';
+
+interface ExtractionSuggestionsProps {
+  extraction: DocumentExtraction;
+  fileName: string;
+  // Whether the suggestions are already in the form, or waiting to be applied
+  applied: boolean;
+  expirationDate: string;
+  onApply: () => void;
+  onPickDate: (date: string) => void;
+  onDismiss: () => void;
+}
+
+export default function ExtractionSuggestions({
+  extraction,
+  fileName,
+  applied,
+  expirationDate,
+  onApply,
+  onPickDate,
+  onDismiss,
+}: ExtractionSuggestionsProps) {
+  const details = [
+    { label: 'Type', value: extraction.document_type },
+    {
+      label: 'Expires',
+      value: extraction.expiration_date && new Date(extraction.expiration_date).toLocaleDateString(),
+    },
+    { label: 'Issued by', value: extraction.issuer },
+    { label: 'Number', value: extraction.document_number },
+  ].filter((detail): detail is { label: string; value: string } => !!detail.value);
+
+  let message: string;
+  if (!extraction.text_found) {
+    message = `No text could be read from "${fileName}". Scans and photos need their details entered by hand.`;
+  } else if (details.length === 0) {
+    message = `No expiry date or other details were found in "${fileName}".`;
+  } else if (applied) {
+    message = `Filled in from "${fileName}". Check these before saving.`;
+  } else {
+    message = `Found in "${fileName}":`;
+  }
+
+  return (
+    <div className={`p-3 rounded-lg border ${details.length > 0 ? 'bg-blue-50 border-blue-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-start justify-between space-x-2">
+        <div className="flex items-start space-x-2 min-w-0">
+          <ScanText className={`w-4 h-4 mt-0.5 flex-shrink-0 ${details.length > 0 ? 'text-blue-600' : 'text-amber-600'}`} />
+          <p className={`text-sm ${details.length > 0 ? 'text-blue-800' : 'text-amber-800'}`}>{message}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="p-0.5 hover:bg-white/60 rounded transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {details.length > 0 && (
+        <dl className="mt-2 ml-6 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          {details.map((detail) => (
+            <div key={detail.label} className="contents">
+              <dt className="text-gray-500">{detail.label}</dt>
+              <dd className="text-gray-900 truncate">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {applied && extraction.expiry_candidates.length > 1 && (
+        <div className="mt-3 ml-6">
+          <p className="text-xs text-gray-600 mb-1">Other dates that could be the expiry:</p>
+          <div className="flex flex-wrap gap-2">
+            {extraction.expiry_candidates.map((candidate) => (
+              <button
+                key={candidate.date}
+                type="button"
+                onClick={() => onPickDate(candidate.date)}
+                title={candidate.context}
+                className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs border transition-colors ${
+                  candidate.date === expirationDate
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-blue-200 text-blue-700 hover:bg-blue-100'
+                }`}
+              >
+                <Calendar className="w-3 h-3" />
+                <span>{new Date(candidate.date).toLocaleDateString()}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!applied && details.length > 0 && (
+        <button
+          type="button"
+          onClick={onApply}
+          className="mt-3 ml-6 px-3 py-1.5 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Use these details
+        </button>
+      )}
+    </div>
+  );
+}
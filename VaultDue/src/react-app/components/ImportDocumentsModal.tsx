@@ -0,0 +1,382 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ImportDocuments,
+  ImportField,
+  ImportFile,
+  ImportPreview,
+  IMPORT_FIELDS,
+  IMPORT_MAX_BYTES,
+  IMPORT_MAX_ROWS,
+  canPerformDocumentAction,
+} from '@/shared/types';
+import { X, Upload, Loader2, FileSpreadsheet, CheckCircle, AlertTriangle, Copy } from 'lucide-react';
+import { useOrganizations } from '@/react-app/hooks/useOrganizations';
+
+interface ImportDocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  title: 'Title',
+  expiration_date: 'Expiration date',
+  document_type: 'Type',
+  description: 'Description',
+  renewal_period_days: 'Renewal period (days)',
+  is_critical: 'Critical (yes/no)',
+  reminder_offsets: 'Reminder days (e.g. 30, 7, 1)',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['title', 'expiration_date'];
+
+export default function ImportDocumentsModal({ isOpen, onClose, onImported }: ImportDocumentsModalProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportFile['mapping']>({});
+  const [organizationId, setOrganizationId] = useState<number | undefined>();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { organizations, fetchOrganizations } = useOrganizations();
+  const writableOrganizations = organizations.filter(o => canPerformDocumentAction(o.role, 'edit'));
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchOrganizations();
+    }
+    setStep('upload');
+    setFile(null);
+    setMapping({});
+    setOrganizationId(undefined);
+    setPreview(null);
+    setError(null);
+  }, [isOpen, fetchOrganizations]);
+
+  const readFile = async (chosen: File) => {
+    setError(null);
+    if (chosen.size > IMPORT_MAX_BYTES) {
+      setError(`Files can be up to ${IMPORT_MAX_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const form = new FormData();
+      form.append('file', chosen);
+
+      const response = await fetch('/api/documents/import/parse', { method: 'POST', body: form });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to read the file');
+      }
+
+      const parsed: ImportFile = data;
+      setFile(parsed);
+      setMapping(parsed.mapping);
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setWorking(false);
+      if (fileInput.current) {
+        fileInput.current.value = '';
+      }
+    }
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const body: ImportDocuments = {
+        rows: file.rows,
+        mapping: mapping as ImportDocuments['mapping'],
+        organization_id: organizationId,
+        file_name: file.file_name,
+        dry_run: dryRun,
+      };
+
+      const response = await fetch('/api/documents/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error?.issues?.[0]?.message || data?.error || 'Failed to import documents');
+      }
+
+      setPreview(data);
+      setStep(dryRun ? 'preview' : 'done');
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import documents');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const sampleValue = (column: number | undefined) => {
+    if (column === undefined || !file) return null;
+    return file.rows.find(row => row[column]?.trim())?.[column] ?? null;
+  };
+
+  const missingRequired = REQUIRED_FIELDS.filter(field => mapping[field] === undefined);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import Documents</h2>
+            {file && step !== 'upload' && (
+              <p className="text-sm text-gray-500">{file.file_name} · {file.rows.length} rows</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Step 1: choose a file */}
+          {step === 'upload' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Upload a CSV or Excel (.xlsx) file with one document per row and a header row on top.
+                Only the first sheet is read, up to {IMPORT_MAX_ROWS} rows.
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => e.target.files?.[0] && readFile(e.target.files[0])}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                disabled={working}
+                className="w-full flex flex-col items-center justify-center space-y-2 px-3 py-10 border-2 border-dashed border-gray-300 text-gray-600 rounded-lg hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+              >
+                {working ? <Loader2 className="w-8 h-8 animate-spin" /> : <FileSpreadsheet className="w-8 h-8" />}
+                <span className="text-sm">{working ? 'Reading file...' : 'Choose a CSV or XLSX file'}</span>
+              </button>
+            </div>
+          )}
+
+          {/* Step 2: match columns to fields */}
+          {step === 'map' && file && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Pick the column that holds each detail. Title and expiration date are required.
+              </p>
+
+              {writableOrganizations.length > 1 && (
+                <div>
+                  <label htmlFor="import_organization" className="block text-sm font-medium text-gray-700 mb-1">
+                    Workspace
+                  </label>
+                  <select
+                    id="import_organization"
+                    value={organizationId ?? ''}
+                    onChange={(e) => setOrganizationId(e.target.value ? parseInt(e.target.value) : undefined)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    <option value="">Default workspace</option>
+                    {writableOrganizations.map((organization) => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field} className="flex items-center justify-between px-4 py-3 gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-700">
+                        {FIELD_LABELS[field]}
+                        {REQUIRED_FIELDS.includes(field) && ' *'}
+                      </p>
+                      {sampleValue(mapping[field]) && (
+                        <p className="text-xs text-gray-500 truncate">e.g. {sampleValue(mapping[field])}</p>
+                      )}
+                    </div>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({
+                        ...mapping,
+                        [field]: e.target.value === '' ? undefined : parseInt(e.target.value),
+                      })}
+                      className="w-48 flex-shrink-0 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                    >
+                      <option value="">{REQUIRED_FIELDS.includes(field) ? 'Choose a column...' : 'Not in file'}</option>
+                      {file.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-between pt-2">
+                <button
+                  type="button"
+                  onClick={() => setStep('upload')}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Choose another file
+                </button>
+                <button
+                  type="button"
+                  onClick={() => submit(true)}
+                  disabled={working || missingRequired.length > 0}
+                  className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {working && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Check rows</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: dry run */}
+          {step === 'preview' && preview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 bg-green-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-green-700">{preview.valid_count}</p>
+                  <p className="text-xs text-green-700">Ready to import</p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-red-700">{preview.error_count}</p>
+                  <p className="text-xs text-red-700">With errors</p>
+                </div>
+                <div className="p-3 bg-amber-50 rounded-lg">
+                  <p className="text-2xl font-semibold text-amber-700">{preview.duplicate_count}</p>
+                  <p className="text-xs text-amber-700">Duplicates</p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Rows with errors and duplicates (same title and expiry as an earlier row or an existing document) are skipped.
+                Fix them in the file and import it again to add them.
+              </p>
+
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Row</th>
+                      <th className="px-3 py-2 text-left font-medium">Title</th>
+                      <th className="px-3 py-2 text-left font-medium">Expires</th>
+                      <th className="px-3 py-2 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.rows.map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.document?.title ?? file?.rows[row.row - 2]?.[mapping.title ?? -1] ?? ''}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700 whitespace-nowrap">
+                          {row.document ? new Date(row.document.expiration_date).toLocaleDateString() : ''}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.errors.length > 0 ? (
+                            <div className="flex items-start space-x-1 text-red-600">
+                              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                              <ul className="text-xs space-y-0.5">
+                                {row.errors.map((message) => <li key={message}>{message}</li>)}
+                              </ul>
+                            </div>
+                          ) : row.duplicate ? (
+                            <div className="flex items-center space-x-1 text-amber-600 text-xs">
+                              <Copy className="w-4 h-4 flex-shrink-0" />
+                              <span>{row.duplicate === 'existing' ? 'Already in VaultDue' : 'Repeats an earlier row'}</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center space-x-1 text-green-600 text-xs">
+                              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                              <span>Ready</span>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between pt-2">
+                <button
+                  type="button"
+                  onClick={() => setStep('map')}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={() => submit(false)}
+                  disabled={working || preview.valid_count === 0}
+                  className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {working ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  <span>Import {preview.valid_count} document{preview.valid_count === 1 ? '' : 's'}</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Step 4: done */}
+          {step === 'done' && preview && (
+            <div className="text-center py-6">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-3" />
+              <p className="text-lg font-medium text-gray-900">
+                Imported {preview.imported_count} document{preview.imported_count === 1 ? '' : 's'}
+              </p>
+              {preview.error_count + preview.duplicate_count > 0 && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {preview.error_count + preview.duplicate_count} row(s) were skipped.
+                </p>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="mt-6 px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import { useAuth } from '@getmocha/users-service/react';
-import { Shield, Bell, Users, FileText, Settings } from 'lucide-react';
+import { Shield, Bell, Users, FileText, Settings, MessageSquare } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -10,6 +10,16 @@ interface LayoutProps {
 
 export default function Layout({ children, title, actions }: LayoutProps) {
   const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch('/api/admin/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setIsAdmin(!!data?.is_admin))
+      .catch(() => setIsAdmin(false));
+  }, [user]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900">
@@ -38,6 +48,12 @@ export default function Layout({ children, title, actions }: LayoutProps) {
                   <Users className="w-4 h-4" />
                   <span>Team</span>
                 </a>
+                {isAdmin && (
+                  <a href="/admin/feedback" className="text-white/60 hover:text-white transition-colors flex items-center space-x-2">
+                    <MessageSquare className="w-4 h-4" />
+                    <span>Feedback</span>
+                  </a>
+                )}
               </nav>
             </div>
 
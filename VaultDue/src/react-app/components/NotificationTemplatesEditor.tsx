@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Eye, Loader2, RotateCcw, Save } from 'lucide-react';
+import {
+  NotificationTemplate,
+  TemplateLocale,
+  TemplateMessage,
+  UrgencyLevel,
+  TEMPLATE_LOCALES,
+  TEMPLATE_LOCALE_NAMES,
+  TEMPLATE_MESSAGES,
+  TEMPLATE_VARIABLES,
+  URGENCY_LEVELS,
+} from '@/shared/types';
+import { useDocuments } from '@/react-app/hooks/useDocuments';
+
+interface NotificationTemplatesEditorProps {
+  organizationId: number;
+}
+
+const MESSAGE_LABELS: Record<TemplateMessage, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  email_subject: 'Email subject',
+  email_body: 'Email message',
+};
+
+const URGENCY_LABELS: Record<UrgencyLevel, string> = {
+  expired: 'Expired',
+  today: 'Expires today',
+  tomorrow: 'Expires tomorrow',
+  upcoming: 'Expiring soon',
+};
+
+export default function NotificationTemplatesEditor({ organizationId }: NotificationTemplatesEditorProps) {
+  const endpoint = `/api/organizations/${organizationId}/notification-templates`;
+  const [locale, setLocale] = useState<TemplateLocale>('en');
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState(`${TEMPLATE_MESSAGES[0]}.${URGENCY_LEVELS[0]}`);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { documents, fetchDocuments } = useDocuments();
+  const [previewDocumentId, setPreviewDocumentId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const workspaceDocuments = documents.filter(doc => doc.organization_id === organizationId);
+  const selected = templates.find(t => t.key === selectedKey);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`${endpoint}?locale=${locale}`);
+      if (response.ok) {
+        setTemplates(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch notification templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint, locale]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  useEffect(() => {
+    setDraft(selected ? selected.body ?? selected.default_body : '');
+  }, [selected]);
+
+  useEffect(() => {
+    setPreview(null);
+    setMessage(null);
+  }, [selectedKey, locale]);
+
+  const readError = async (response: Response, fallback: string) => {
+    const data = await response.json().catch(() => null);
+    return data?.error?.issues?.[0]?.message || data?.error || fallback;
+  };
+
+  const replaceTemplate = (template: NotificationTemplate) => {
+    setTemplates(templates.map(t => (t.key === template.key ? template : t)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`${endpoint}/${selectedKey}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locale, body: draft }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save template'));
+      }
+
+      replaceTemplate(await response.json());
+      setMessage({ type: 'success', text: 'Template saved' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save template' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    if (!confirm('Go back to the default wording for this message?')) return;
+
+    setMessage(null);
+    try {
+      const response = await fetch(`${endpoint}/${selectedKey}?locale=${locale}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to reset template'));
+      }
+
+      replaceTemplate(await response.json());
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to reset template' });
+    }
+  };
+
+  const showPreview = async () => {
+    if (!previewDocumentId) return;
+
+    setPreviewing(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`${endpoint}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: selectedKey, locale, document_id: previewDocumentId, body: draft }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to render preview'));
+      }
+
+      setPreview((await response.json()).rendered);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to render preview' });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const selectClassName = 'px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm [&>option]:bg-slate-800 [&_option]:bg-slate-800';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as TemplateLocale)}
+          className={selectClassName}
+        >
+          {TEMPLATE_LOCALES.map((option) => (
+            <option key={option} value={option}>{TEMPLATE_LOCALE_NAMES[option]}</option>
+          ))}
+        </select>
+        <select
+          value={selectedKey}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          className={`flex-1 ${selectClassName}`}
+        >
+          {TEMPLATE_MESSAGES.map((templateMessage) => (
+            <optgroup key={templateMessage} label={MESSAGE_LABELS[templateMessage]}>
+              {URGENCY_LEVELS.map((level) => {
+                const key = `${templateMessage}.${level}`;
+                const customized = templates.find(t => t.key === key)?.body;
+                return (
+                  <option key={key} value={key}>
+                    {MESSAGE_LABELS[templateMessage]} · {URGENCY_LABELS[level]}{customized ? ' (customized)' : ''}
+                  </option>
+                );
+              })}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-white/60 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setMessage(null);
+            }}
+            rows={selectedKey.startsWith('email_subject') || selectedKey.startsWith('sms') ? 3 : 8}
+            className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
+          />
+          <p className="text-white/50 text-xs">
+            Variables: {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(' ')}
+          </p>
+
+          <div className="flex items-center justify-between">
+            {message ? (
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</p>
+            ) : (
+              <span className="text-white/50 text-xs">
+                {selected?.body ? 'Customized for this workspace' : 'Using the default wording'}
+              </span>
+            )}
+            <div className="flex items-center space-x-2">
+              {selected?.body && (
+                <button
+                  onClick={reset}
+                  className="flex items-center space-x-1 px-3 py-1.5 border border-white/20 text-white/80 rounded-lg text-sm hover:bg-white/10 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Reset</span>
+                </button>
+              )}
+              <button
+                onClick={save}
+                disabled={saving || !draft.trim() || draft === (selected?.body ?? selected?.default_body)}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Save template</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={previewDocumentId ?? ''}
+              onChange={(e) => setPreviewDocumentId(e.target.value ? Number(e.target.value) : null)}
+              className={`flex-1 min-w-0 ${selectClassName}`}
+            >
+              <option value="">
+                {workspaceDocuments.length > 0 ? 'Preview with a document…' : 'No documents in this workspace yet'}
+              </option>
+              {workspaceDocuments.map((doc) => (
+                <option key={doc.id} value={doc.id}>{doc.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={showPreview}
+              disabled={!previewDocumentId || previewing || !draft.trim()}
+              className="flex items-center space-x-1 px-3 py-1.5 border border-white/20 text-white/80 rounded-lg text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+            >
+              {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              <span>Preview</span>
+            </button>
+          </div>
+
+          {preview !== null && (
+            <pre className="p-3 bg-black/20 border border-white/10 rounded-lg text-white/90 text-sm whitespace-pre-wrap font-sans">
+              {preview}
+            </pre>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
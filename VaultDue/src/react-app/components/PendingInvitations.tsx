@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { DocumentInvitation } from '@/shared/types';
+import { Mail, Check, X } from 'lucide-react';
+
+interface PendingInvitationsProps {
+  onAccepted: () => void;
+}
+
+export default function PendingInvitations({ onAccepted }: PendingInvitationsProps) {
+  const [invitations, setInvitations] = useState<DocumentInvitation[]>([]);
+  const [responding, setResponding] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      try {
+        const response = await fetch('/api/invitations');
+        if (response.ok) {
+          const data = await response.json();
+          setInvitations(data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch invitations:', error);
+      }
+    };
+
+    fetchInvitations();
+  }, []);
+
+  const respond = async (invitation: DocumentInvitation, action: 'accept' | 'decline') => {
+    setResponding(invitation.id);
+    try {
+      const response = await fetch(`/api/invitations/${invitation.id}/${action}`, {
+        method: 'POST',
+      });
+      if (response.ok) {
+        setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+        if (action === 'accept') {
+          onAccepted();
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} invitation:`, error);
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="bg-blue-500/20 border border-blue-500/30 rounded-xl p-6 mb-8">
+      <div className="flex items-center space-x-3 mb-4">
+        <Mail className="w-5 h-5 text-blue-300" />
+        <h4 className="text-blue-100 font-medium">Documents shared with you</h4>
+      </div>
+      <div className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between bg-white/5 rounded-lg p-3">
+            <div>
+              <p className="text-white text-sm font-medium">{invitation.document_title}</p>
+              <p className="text-blue-200/80 text-xs">
+                {invitation.invited_by_email || 'A VaultDue user'} invited you as {invitation.role}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => respond(invitation, 'accept')}
+                disabled={responding === invitation.id}
+                className="flex items-center space-x-1 px-3 py-1 bg-green-500/20 text-green-300 rounded text-sm hover:bg-green-500/30 transition-colors disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                <span>Accept</span>
+              </button>
+              <button
+                onClick={() => respond(invitation, 'decline')}
+                disabled={responding === invitation.id}
+                className="flex items-center space-x-1 px-3 py-1 bg-white/5 text-white/70 rounded text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                <span>Decline</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, Loader2, ShieldCheck } from 'lucide-react';
+
+interface PhoneVerificationProps {
+  phoneNumber?: string;
+  verified: boolean;
+  onVerified: (phoneNumber: string) => void;
+}
+
+export default function PhoneVerification({ phoneNumber, verified, onVerified }: PhoneVerificationProps) {
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editing the number abandons any code sent to the old one
+  useEffect(() => {
+    setCodeSent(false);
+    setCode('');
+    setError(null);
+  }, [phoneNumber]);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = async () => {
+    if (!phoneNumber) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/profile/phone/send-otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone_number: phoneNumber }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        if (data?.retry_after_seconds) {
+          setResendIn(data.retry_after_seconds);
+        }
+        throw new Error(data?.error || 'Failed to send verification code');
+      }
+
+      setCodeSent(true);
+      setResendIn(data.resend_after_seconds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification code');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setVerifying(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/profile/phone/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        const remaining = data?.attempts_remaining;
+        throw new Error(
+          remaining ? `${data.error}. ${remaining} attempt${remaining === 1 ? '' : 's'} left.` : data?.error || 'Verification failed'
+        );
+      }
+
+      setCodeSent(false);
+      setCode('');
+      onVerified(data.phone_number);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!phoneNumber) return null;
+
+  if (verified) {
+    return (
+      <p className="flex items-center space-x-1 text-xs text-green-300 mt-2">
+        <CheckCircle className="w-3 h-3" />
+        <span>Verified for WhatsApp and SMS reminders</span>
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {!codeSent ? (
+        <button
+          type="button"
+          onClick={sendCode}
+          disabled={sending || resendIn > 0}
+          className="flex items-center space-x-1 px-3 py-1 bg-blue-500/20 text-blue-300 rounded text-sm hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+          <span>{resendIn > 0 ? `Verify number (${resendIn}s)` : 'Verify number via WhatsApp'}</span>
+        </button>
+      ) : (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="6-digit code"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className="w-32 px-3 py-1 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={verifyCode}
+            disabled={verifying || code.length !== 6}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {verifying ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
+          </button>
+          <button
+            type="button"
+            onClick={sendCode}
+            disabled={sending || resendIn > 0}
+            className="text-xs text-white/60 hover:text-white disabled:opacity-50"
+          >
+            {resendIn > 0 ? `Resend in ${resendIn}s` : 'Resend code'}
+          </button>
+        </div>
+      )}
+      {!codeSent && !error && (
+        <p className="text-xs text-yellow-300/80">Not verified — reminders go by email until you verify this number.</p>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
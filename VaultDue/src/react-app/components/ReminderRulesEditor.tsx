@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Hash, Mail, MessageSquare, Phone, Plus, Shield, Trash2, Users, Loader2 } from 'lucide-react';
+import { REMINDER_CHANNELS, ReminderChannel, ReminderChannelRule } from '@/shared/types';
+
+const CHANNEL_OPTIONS: { value: ReminderChannel; label: string; icon: typeof Mail }[] = [
+  { value: 'email', label: 'Email', icon: Mail },
+  { value: 'whatsapp', label: 'WhatsApp', icon: MessageSquare },
+  { value: 'sms', label: 'SMS', icon: Phone },
+  { value: 'slack', label: 'Slack', icon: Hash },
+  { value: 'teams', label: 'Teams', icon: Users },
+];
+
+interface ReminderRulesEditorProps {
+  // e.g. /api/profile/reminder-rules or /api/organizations/1/reminder-rules
+  endpoint: string;
+  canEdit?: boolean;
+  emptyText: string;
+}
+
+export default function ReminderRulesEditor({ endpoint, canEdit = true, emptyText }: ReminderRulesEditorProps) {
+  const [rules, setRules] = useState<ReminderChannelRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState('7');
+  const [criticalOnly, setCriticalOnly] = useState(false);
+  const [channels, setChannels] = useState<ReminderChannel[]>(['email']);
+  const [adding, setAdding] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        throw new Error('Failed to fetch reminder rules');
+      }
+      setRules(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const toggleChannel = (channel: ReminderChannel) => {
+    setChannels(channels.includes(channel)
+      ? channels.filter((c) => c !== channel)
+      : REMINDER_CHANNELS.filter((c) => c === channel || channels.includes(c)));
+  };
+
+  const addRule = async () => {
+    setAdding(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          max_days_until_expiry: parseInt(days),
+          critical_only: criticalOnly,
+          channels,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to add rule');
+      }
+      setCriticalOnly(false);
+      setError(null);
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rule');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const deleteRule = async (ruleId: number) => {
+    try {
+      const response = await fetch(`${endpoint}/${ruleId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete rule');
+      }
+      setRules(rules.filter((rule) => rule.id !== ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  if (loading && rules.length === 0) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-white/60 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-white/50 text-sm">{emptyText}</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+              <div className="flex items-center flex-wrap gap-2 text-sm">
+                <span className="text-white">
+                  {rule.max_days_until_expiry === 0 ? 'On expiry day' : `Within ${rule.max_days_until_expiry} days`}
+                </span>
+                {rule.critical_only && (
+                  <span className="flex items-center space-x-1 px-2 py-0.5 bg-red-500/20 text-red-200 rounded-full text-xs">
+                    <Shield className="w-3 h-3" />
+                    <span>Critical only</span>
+                  </span>
+                )}
+                <span className="text-white/40">→</span>
+                {rule.channels.map((channel) => (
+                  <span key={channel} className="px-2 py-0.5 bg-blue-500/20 text-blue-100 rounded-full text-xs">
+                    {CHANNEL_OPTIONS.find((o) => o.value === channel)?.label ?? channel}
+                  </span>
+                ))}
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => deleteRule(rule.id)}
+                  className="p-1.5 hover:bg-red-500/20 rounded transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4 text-red-300" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="p-3 bg-white/5 rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-white/80">
+            <span>Within</span>
+            <input
+              type="number"
+              min="0"
+              max="365"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              className="w-20 px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span>days of expiry, send by</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {CHANNEL_OPTIONS.map((option) => {
+              const Icon = option.icon;
+              const selected = channels.includes(option.value);
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => toggleChannel(option.value)}
+                  className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg border text-sm transition-all duration-200 ${
+                    selected
+                      ? 'bg-blue-500/20 border-blue-500/50 text-blue-100'
+                      : 'bg-white/5 border-white/20 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{option.label}</span>
+                </button>
+              );
+            })}
+            <label className="flex items-center space-x-2 text-sm text-white/70 ml-2">
+              <input
+                type="checkbox"
+                checked={criticalOnly}
+                onChange={(e) => setCriticalOnly(e.target.checked)}
+                className="w-4 h-4 rounded"
+              />
+              <span>Critical documents only</span>
+            </label>
+            <button
+              onClick={addRule}
+              disabled={adding || channels.length === 0 || days === ''}
+              className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              <span>Add rule</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { Document, RenewDocument } from '@/shared/types';
+import { X, Calendar, RefreshCw, Hash } from 'lucide-react';
+
+interface RenewDocumentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRenew: (renewal: RenewDocument) => Promise<void>;
+  document?: Document;
+}
+
+// Mirrors DocumentService.calculateNextExpirationDate so the suggestion matches the server
+function suggestNextExpiration(document: Document): string {
+  if (!document.renewal_period_days) return '';
+
+  const today = new Date().toISOString().split('T')[0];
+  const base = new Date(document.expiration_date > today ? document.expiration_date : today);
+  base.setUTCDate(base.getUTCDate() + document.renewal_period_days);
+  return base.toISOString().split('T')[0];
+}
+
+export default function RenewDocumentModal({ isOpen, onClose, onRenew, document }: RenewDocumentModalProps) {
+  const [newExpirationDate, setNewExpirationDate] = useState('');
+  const [cost, setCost] = useState('');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNewExpirationDate(document ? suggestNextExpiration(document) : '');
+    setCost('');
+    setReferenceNumber('');
+    setNotes('');
+    setError(null);
+  }, [document, isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await onRenew({
+        new_expiration_date: newExpirationDate || undefined,
+        cost: cost ? parseFloat(cost) : undefined,
+        reference_number: referenceNumber || undefined,
+        notes: notes || undefined,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to renew document');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !document) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Renew Document</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="font-medium text-gray-900">{document.title}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              Current expiry: {new Date(document.expiration_date).toLocaleDateString()}
+            </p>
+          </div>
+
+          {/* New Expiration Date */}
+          <div>
+            <label htmlFor="new_expiration_date" className="block text-sm font-medium text-gray-700 mb-2">
+              New Expiration Date
+            </label>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="date"
+                id="new_expiration_date"
+                value={newExpirationDate}
+                onChange={(e) => setNewExpirationDate(e.target.value)}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {document.renewal_period_days
+                ? `Suggested from the ${document.renewal_period_days}-day renewal period.`
+                : 'Leave empty to mark it renewed without tracking another cycle.'}
+            </p>
+          </div>
+
+          {/* Cost and Reference */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="cost" className="block text-sm font-medium text-gray-700 mb-2">
+                Renewal Cost
+              </label>
+              <input
+                type="number"
+                id="cost"
+                min="0"
+                step="0.01"
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label htmlFor="reference_number" className="block text-sm font-medium text-gray-700 mb-2">
+                Reference No.
+              </label>
+              <div className="relative">
+                <Hash className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  id="reference_number"
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="e.g., INV-1042"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div>
+            <label htmlFor="renewal_notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="renewal_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Optional notes about this renewal..."
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>{saving ? 'Renewing...' : 'Renew'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { DocumentRenewal } from '@/shared/types';
+import { History, Loader2 } from 'lucide-react';
+
+interface RenewalTimelineProps {
+  documentId: number;
+}
+
+export default function RenewalTimeline({ documentId }: RenewalTimelineProps) {
+  const [renewals, setRenewals] = useState<DocumentRenewal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRenewals = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/documents/${documentId}/renewals`);
+        if (response.ok) {
+          const data = await response.json();
+          setRenewals(data);
+        }
+      } catch (error) {
+        console.error('Failed to fetch renewal history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRenewals();
+  }, [documentId]);
+
+  return (
+    <div>
+      <h3 className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+        <History className="w-4 h-4" />
+        <span>Renewal History</span>
+      </h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : renewals.length === 0 ? (
+        <p className="text-sm text-gray-500">This document hasn't been renewed yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {renewals.map((renewal) => (
+            <li key={renewal.id} className="ml-4">
+              <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+              <p className="text-sm font-medium text-gray-900">
+                Renewed {new Date(renewal.renewed_date).toLocaleDateString()}
+              </p>
+              <p className="text-xs text-gray-500">
+                {renewal.renewed_by_name || renewal.renewed_by_email || 'Unknown'}
+                {renewal.source === 'whatsapp' && ' via WhatsApp'}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                Expiry {new Date(renewal.previous_expiration_date).toLocaleDateString()}
+                {' → '}
+                {renewal.new_expiration_date
+                  ? new Date(renewal.new_expiration_date).toLocaleDateString()
+                  : 'no new cycle'}
+              </p>
+              {(renewal.cost !== null || renewal.reference_number) && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {renewal.cost !== null && <span>Cost: {renewal.cost.toLocaleString()}</span>}
+                  {renewal.cost !== null && renewal.reference_number && <span> · </span>}
+                  {renewal.reference_number && <span>Ref: {renewal.reference_number}</span>}
+                </p>
+              )}
+              {renewal.notes && (
+                <p className="text-xs text-gray-600 mt-1 italic">{renewal.notes}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+import { TeamMember, ShareRole, SHARE_ROLES } from '@/shared/types';
+import { Users, Mail, Loader2, X } from 'lucide-react';
+
+interface SharingPanelProps {
+  documentId: number;
+}
+
+export default function SharingPanel({ documentId }: SharingPanelProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/members`);
+      if (response.ok) {
+        const data = await response.json();
+        setMembers(data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch team members:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const inviteMember = async () => {
+    if (!email.trim()) return;
+
+    setInviting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), role }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to send invitation');
+      }
+
+      setEmail('');
+      await fetchMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const revokeMember = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.invited_email}'s access to this document?`)) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/members/${member.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to revoke access');
+      }
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-3">
+        <Users className="w-4 h-4" />
+        <span>Sharing</span>
+      </h3>
+
+      {error && (
+        <div className="p-3 mb-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex space-x-2 mb-4">
+        <div className="flex-1 relative">
+          <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            placeholder="colleague@company.com"
+          />
+        </div>
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as ShareRole)}
+          className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        >
+          {SHARE_ROLES.map((option) => (
+            <option key={option} value={option}>
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={inviteMember}
+          disabled={inviting || !email.trim()}
+          className="px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Invite'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : members.length === 0 ? (
+        <p className="text-sm text-gray-500">Only you can see this document.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {members.map((member) => (
+            <li key={member.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm text-gray-900">{member.invited_email}</p>
+                <p className="text-xs text-gray-500 capitalize">
+                  {member.role} · {member.status}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => revokeMember(member)}
+                className="p-1.5 hover:bg-red-50 rounded-lg transition-colors"
+                title="Revoke access"
+              >
+                <X className="w-4 h-4 text-red-500" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface TwoFactorChallengeProps {
+  onVerified: () => void;
+}
+
+export default function TwoFactorChallenge({ onVerified }: TwoFactorChallengeProps) {
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/sessions/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Verification failed');
+      }
+
+      onVerified();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white/10 backdrop-blur-lg rounded-xl p-8 border border-white/20 shadow-lg w-full max-w-sm"
+    >
+      <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center mx-auto mb-4">
+        <KeyRound className="w-6 h-6 text-white" />
+      </div>
+      <h2 className="text-xl font-semibold text-white text-center mb-2">Two-factor authentication</h2>
+      <p className="text-white/60 text-sm text-center mb-6">
+        Enter the 6-digit code from your authenticator app, or one of your backup codes.
+      </p>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        autoFocus
+        maxLength={11}
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/[^\d-]/g, ''))}
+        placeholder="123456"
+        className="w-full px-3 py-3 bg-white/10 border border-white/20 rounded-lg text-white text-center text-lg tracking-widest placeholder-white/30 focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+      />
+      <button
+        type="submit"
+        disabled={verifying || code.length < 6}
+        className="w-full py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+      >
+        {verifying ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Verify'}
+      </button>
+    </form>
+  );
+}
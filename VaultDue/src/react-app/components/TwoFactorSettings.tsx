@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { ShieldCheck, ShieldOff, KeyRound, Loader2, RefreshCw, Copy } from 'lucide-react';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  verified: boolean;
+  backup_codes_remaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [disabling, setDisabling] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/profile/two-factor');
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch two-factor status:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Runs a request and surfaces the server's error message on failure
+  const request = async (url: string, body?: object) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || 'Something went wrong');
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const startEnrollment = async () => {
+    const data = await request('/api/profile/two-factor/enroll');
+    if (data) {
+      const qrCode = await QRCode.toDataURL(data.otpauth_url, { margin: 1, width: 200 });
+      setEnrollment({ ...data, qr_code: qrCode });
+      setBackupCodes(null);
+      setCode('');
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    const data = await request('/api/profile/two-factor/confirm', { code });
+    if (data) {
+      setEnrollment(null);
+      setBackupCodes(data.backup_codes);
+      setCode('');
+      fetchStatus();
+    }
+  };
+
+  const regenerateBackupCodes = async () => {
+    if (!confirm('Generate new backup codes? Your current backup codes will stop working.')) return;
+
+    const data = await request('/api/profile/two-factor/backup-codes');
+    if (data) {
+      setBackupCodes(data.backup_codes);
+      fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    const data = await request('/api/profile/two-factor/disable', { code });
+    if (data) {
+      setDisabling(false);
+      setBackupCodes(null);
+      setCode('');
+      fetchStatus();
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 text-white/60 animate-spin" />
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={11}
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/[^\d-]/g, ''))}
+      placeholder="123456"
+      className="w-36 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-center tracking-widest placeholder-white/30 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          {status.enabled ? (
+            <ShieldCheck className="w-6 h-6 text-green-400 mt-0.5" />
+          ) : (
+            <ShieldOff className="w-6 h-6 text-white/40 mt-0.5" />
+          )}
+          <div>
+            <h4 className="text-white font-medium">Two-factor authentication</h4>
+            <p className="text-white/60 text-sm">
+              {status.enabled
+                ? `On · ${status.backup_codes_remaining} backup code${status.backup_codes_remaining === 1 ? '' : 's'} left`
+                : 'Require a code from an authenticator app when you sign in and before deleting or sharing documents.'}
+            </p>
+          </div>
+        </div>
+        {!status.enabled && !enrollment && (
+          <button
+            onClick={startEnrollment}
+            disabled={working}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Enrollment */}
+      {enrollment && (
+        <div className="bg-white/5 rounded-lg p-4 space-y-4">
+          <p className="text-white/80 text-sm">
+            Scan this QR code with Google Authenticator, 1Password or a similar app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <img src={enrollment.qr_code} alt="Two-factor QR code" className="w-40 h-40 rounded-lg bg-white p-2" />
+            <div className="space-y-2">
+              <p className="text-white/60 text-xs">Can't scan? Enter this key manually:</p>
+              <div className="flex items-center space-x-2">
+                <code className="px-2 py-1 bg-white/10 rounded text-white text-sm break-all">{enrollment.secret}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(enrollment.secret)}
+                  className="p-1.5 hover:bg-white/10 rounded transition-colors"
+                  title="Copy key"
+                >
+                  <Copy className="w-4 h-4 text-white/60" />
+                </button>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {codeInput}
+            <button
+              onClick={confirmEnrollment}
+              disabled={working || code.length !== 6}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {working ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn On'}
+            </button>
+            <button
+              onClick={() => setEnrollment(null)}
+              className="px-4 py-2 text-white/60 hover:text-white text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Backup codes, shown once */}
+      {backupCodes && (
+        <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <KeyRound className="w-4 h-4 text-yellow-300" />
+            <h4 className="text-yellow-100 font-medium text-sm">Save your backup codes</h4>
+          </div>
+          <p className="text-yellow-200/80 text-xs mb-3">
+            Each code works once if you lose access to your authenticator app. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {backupCodes.map((backupCode) => (
+              <code key={backupCode} className="px-2 py-1 bg-white/10 rounded text-white text-sm text-center">
+                {backupCode}
+              </code>
+            ))}
+          </div>
+          <button
+            onClick={() => navigator.clipboard.writeText(backupCodes.join('\n'))}
+            className="flex items-center space-x-1 text-xs text-yellow-200 hover:text-yellow-100"
+          >
+            <Copy className="w-3 h-3" />
+            <span>Copy all</span>
+          </button>
+        </div>
+      )}
+
+      {/* Management */}
+      {status.enabled && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={regenerateBackupCodes}
+            disabled={working}
+            className="flex items-center space-x-2 px-4 py-2 bg-white/5 text-white/80 rounded-lg text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>New backup codes</span>
+          </button>
+          {disabling ? (
+            <div className="flex items-center space-x-2">
+              {codeInput}
+              <button
+                onClick={disable}
+                disabled={working || code.length < 6}
+                className="px-4 py-2 bg-red-500/80 text-white rounded-lg text-sm hover:bg-red-500 transition-colors disabled:opacity-50"
+              >
+                Turn Off
+              </button>
+              <button
+                onClick={() => setDisabling(false)}
+                className="px-4 py-2 text-white/60 hover:text-white text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                setDisabling(true);
+                setCode('');
+              }}
+              className="px-4 py-2 bg-red-500/20 text-red-300 rounded-lg text-sm hover:bg-red-500/30 transition-colors"
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
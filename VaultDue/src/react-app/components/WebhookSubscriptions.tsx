@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Copy, Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { WebhookDelivery, WebhookEventType, WebhookSubscription, WEBHOOK_EVENTS } from '@/shared/types';
+
+interface WebhookSubscriptionsProps {
+  organizationId: number;
+}
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'document.created': 'Document created',
+  'document.updated': 'Document updated',
+  'document.expiring': 'Document expiring',
+  'document.expired': 'Document expired',
+  'document.renewed': 'Document renewed',
+  'reminder.sent': 'Reminder sent',
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'text-white/60',
+  succeeded: 'text-green-300',
+  failed: 'text-red-300',
+};
+
+export default function WebhookSubscriptions({ organizationId }: WebhookSubscriptionsProps) {
+  const endpoint = `/api/organizations/${organizationId}/webhooks`;
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(['document.expiring', 'document.expired']);
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Secrets are only returned once, right after create or rotate
+  const [revealedSecret, setRevealedSecret] = useState<{ id: number; secret: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint);
+      if (response.ok) {
+        setSubscriptions(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch webhooks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const request = async (path: string, init: RequestInit, fallback: string) => {
+    setError(null);
+    const response = await fetch(`${endpoint}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.two_factor_required
+        ? 'Verify with your authenticator app before changing webhooks.'
+        : data?.error?.issues?.[0]?.message || data?.error || fallback);
+    }
+    return response.json();
+  };
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents(events.includes(event) ? events.filter(e => e !== event) : [...events, event]);
+  };
+
+  const addSubscription = async () => {
+    setSaving(true);
+    try {
+      const created: WebhookSubscription = await request('', {
+        method: 'POST',
+        body: JSON.stringify({ url: url.trim(), events, description: description.trim() || undefined }),
+      }, 'Failed to add webhook');
+
+      setSubscriptions([...subscriptions, created]);
+      setRevealedSecret({ id: created.id, secret: created.secret! });
+      setUrl('');
+      setDescription('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add webhook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (subscription: WebhookSubscription, isActive: boolean) => {
+    try {
+      const updated: WebhookSubscription = await request(`/${subscription.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ is_active: isActive }),
+      }, 'Failed to update webhook');
+      setSubscriptions(subscriptions.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const rotateSecret = async (subscription: WebhookSubscription) => {
+    if (!confirm('Rotate the signing secret? The old secret stops working immediately.')) return;
+
+    try {
+      const rotated: WebhookSubscription = await request(`/${subscription.id}/rotate-secret`, {
+        method: 'POST',
+      }, 'Failed to rotate secret');
+      setRevealedSecret({ id: rotated.id, secret: rotated.secret! });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  };
+
+  const deleteSubscription = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Remove the webhook for ${subscription.url}?`)) return;
+
+    try {
+      await request(`/${subscription.id}`, { method: 'DELETE' }, 'Failed to remove webhook');
+      setSubscriptions(subscriptions.filter(s => s.id !== subscription.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove webhook');
+    }
+  };
+
+  const toggleDeliveries = async (subscription: WebhookSubscription) => {
+    if (expandedId === subscription.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(subscription.id);
+    setDeliveries([]);
+    try {
+      setDeliveries(await request(`/${subscription.id}/deliveries`, {}, 'Failed to load deliveries'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 text-white/60 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <p className="text-white/60 text-sm">No webhooks yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {subscriptions.map((subscription) => (
+            <li key={subscription.id} className="p-3 bg-white/5 border border-white/10 rounded-lg">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <p className={`text-sm truncate ${subscription.is_active ? 'text-white' : 'text-white/40 line-through'}`}>
+                    {subscription.url}
+                  </p>
+                  <p className="text-white/50 text-xs">
+                    {subscription.description ? `${subscription.description} · ` : ''}
+                    {subscription.events.map(event => EVENT_LABELS[event]).join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center flex-shrink-0 ml-2">
+                  <label className="flex items-center space-x-1 text-white/60 text-xs mr-2">
+                    <input
+                      type="checkbox"
+                      checked={subscription.is_active}
+                      onChange={(e) => setActive(subscription, e.target.checked)}
+                    />
+                    <span>Active</span>
+                  </label>
+                  <button
+                    onClick={() => rotateSecret(subscription)}
+                    className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Rotate signing secret"
+                  >
+                    <RefreshCw className="w-4 h-4 text-white/60" />
+                  </button>
+                  <button
+                    onClick={() => toggleDeliveries(subscription)}
+                    className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Recent deliveries"
+                  >
+                    {expandedId === subscription.id
+                      ? <ChevronUp className="w-4 h-4 text-white/60" />
+                      : <ChevronDown className="w-4 h-4 text-white/60" />}
+                  </button>
+                  <button
+                    onClick={() => deleteSubscription(subscription)}
+                    className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                    title="Remove webhook"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-300" />
+                  </button>
+                </div>
+              </div>
+
+              {revealedSecret?.id === subscription.id && (
+                <div className="mt-2 p-2 bg-amber-500/20 border border-amber-500/30 rounded-lg">
+                  <p className="text-amber-100 text-xs mb-1">
+                    Signing secret. Copy it now, it won't be shown again.
+                  </p>
+                  <div className="flex items-center space-x-2">
+                    <code className="flex-1 min-w-0 truncate text-amber-50 text-xs">{revealedSecret.secret}</code>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                      title="Copy secret"
+                    >
+                      <Copy className="w-4 h-4 text-amber-100" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {expandedId === subscription.id && (
+                <div className="mt-2 border-t border-white/10 pt-2">
+                  {deliveries.length === 0 ? (
+                    <p className="text-white/50 text-xs">No deliveries yet.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {deliveries.map((delivery) => (
+                        <li key={delivery.id} className="flex items-center justify-between text-xs">
+                          <span className="text-white/70">
+                            {EVENT_LABELS[delivery.event_type]} · {new Date(delivery.created_at).toLocaleString()}
+                          </span>
+                          <span className={DELIVERY_STATUS_STYLES[delivery.status]} title={delivery.error || undefined}>
+                            {delivery.status}
+                            {delivery.response_status ? ` (${delivery.response_status})` : ''}
+                            {delivery.attempt_count > 1 ? ` · ${delivery.attempt_count} attempts` : ''}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="url"
+          placeholder="https://example.com/vaultdue-webhook"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <input
+          type="text"
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <div className="grid grid-cols-2 gap-1">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label key={event} className="flex items-center space-x-2 text-white/80 text-sm">
+              <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+              <span>{EVENT_LABELS[event]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={addSubscription}
+            disabled={saving || !url.trim() || events.length === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            <span>Add webhook</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
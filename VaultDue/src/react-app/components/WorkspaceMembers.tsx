@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@getmocha/users-service/react';
+import { Organization, OrganizationMember, OrganizationRole, ORGANIZATION_ROLES } from '@/shared/types';
+import { Mail, Loader2, X } from 'lucide-react';
+
+interface WorkspaceMembersProps {
+  organization: Organization;
+  onLeft: () => void;
+}
+
+export default function WorkspaceMembers({ organization, onLeft }: WorkspaceMembersProps) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = organization.role === 'owner' || organization.role === 'admin';
+  const isOwner = organization.role === 'owner';
+  // Admins can't hand out or take away ownership
+  const assignableRoles = ORGANIZATION_ROLES.filter(option => isOwner || option !== 'owner');
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organizations/${organization.id}/members`);
+      if (response.ok) {
+        const data = await response.json();
+        setMembers(data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch workspace members:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [organization.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const inviteMember = async () => {
+    if (!email.trim()) return;
+
+    setInviting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/${organization.id}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), role }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to send invitation');
+      }
+
+      setEmail('');
+      await fetchMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const changeRole = async (member: OrganizationMember, newRole: OrganizationRole) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/${organization.id}/members/${member.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: newRole }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to change role');
+      }
+
+      const updated = await response.json();
+      setMembers(prev => prev.map(m => m.id === member.id ? updated : m));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    const isSelf = member.user_id === user?.id;
+    const prompt = isSelf
+      ? `Leave ${organization.name}? You will lose access to its documents.`
+      : `Remove ${member.email} from ${organization.name}?`;
+    if (!confirm(prompt)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/${organization.id}/members/${member.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to remove member');
+      }
+
+      if (isSelf) {
+        onLeft();
+      } else {
+        setMembers(prev => prev.filter(m => m.id !== member.id));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="p-3 mb-4 bg-red-500/20 border border-red-500/30 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="flex space-x-2 mb-6">
+          <div className="flex-1 relative">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/40" />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              placeholder="colleague@company.com"
+            />
+          </div>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as OrganizationRole)}
+            className="px-2 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            {assignableRoles.map((option) => (
+              <option key={option} value={option} className="text-gray-900">
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={inviteMember}
+            disabled={inviting || !email.trim()}
+            className="px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Invite'}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-white/60 animate-spin" />
+        </div>
+      ) : (
+        <ul className="divide-y divide-white/10">
+          {members.map((member) => {
+            const isSelf = member.user_id === user?.id;
+            const canEditMember = canManage && !isSelf && (isOwner || member.role !== 'owner');
+
+            return (
+              <li key={member.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-white text-sm">
+                    {member.email}
+                    {isSelf && <span className="text-white/50"> (you)</span>}
+                  </p>
+                  <p className="text-white/50 text-xs capitalize">
+                    {member.status === 'pending' ? 'Invitation pending' : member.status}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {canEditMember ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => changeRole(member, e.target.value as OrganizationRole)}
+                      className="px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-xs focus:ring-2 focus:ring-blue-500"
+                    >
+                      {assignableRoles.map((option) => (
+                        <option key={option} value={option} className="text-gray-900">
+                          {option.charAt(0).toUpperCase() + option.slice(1)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="px-2 py-1 bg-white/5 text-white/70 rounded text-xs capitalize">
+                      {member.role}
+                    </span>
+                  )}
+                  {(canEditMember || isSelf) && (
+                    <button
+                      type="button"
+                      onClick={() => removeMember(member)}
+                      className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                      title={isSelf ? 'Leave workspace' : 'Remove member'}
+                    >
+                      <X className="w-4 h-4 text-red-300" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { Document, CreateDocument, UpdateDocument } from '@/shared/types';
+import { Document, CreateDocument, UpdateDocument, RenewDocument } from '@/shared/types';
 
 export function useDocuments() {
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -89,15 +89,20 @@ export function useDocuments() {
     }
   }, []);
 
-  const renewDocument = useCallback(async (id: number) => {
+  const renewDocument = useCallback(async (id: number, renewal: RenewDocument = {}) => {
     setError(null);
     try {
       const response = await fetch(`/api/documents/${id}/renew`, {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(renewal),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to renew document');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to renew document');
       }
       
       const renewedDocument = await response.json();
@@ -109,6 +114,28 @@ export function useDocuments() {
     }
   }, []);
 
+  // Attaches a file to a document, e.g. the PDF a new document was filled in from
+  const attachFile = useCallback(async (id: number, file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+
+    const response = await fetch(`/api/documents/${id}/attachments`, {
+      method: 'POST',
+      body: form,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || 'Failed to upload file');
+    }
+
+    setDocuments(prev => prev.map(doc => doc.id === id
+      ? { ...doc, attachment_count: (doc.attachment_count ?? 0) + 1 }
+      : doc
+    ));
+    return response.json();
+  }, []);
+
   return {
     documents,
     loading,
@@ -118,5 +145,6 @@ export function useDocuments() {
     updateDocument,
     deleteDocument,
     renewDocument,
+    attachFile,
   };
 }
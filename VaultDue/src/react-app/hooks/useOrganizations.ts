@@ -0,0 +1,102 @@
+import { useState, useCallback } from 'react';
+import { Organization } from '@/shared/types';
+
+export function useOrganizations() {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrganizations = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/organizations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch workspaces');
+      }
+      const data = await response.json();
+      setOrganizations(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createOrganization = useCallback(async (name: string) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create workspace');
+      }
+
+      const organization = await response.json();
+      setOrganizations(prev => [...prev, organization]);
+      return organization as Organization;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  }, []);
+
+  const renameOrganization = useCallback(async (id: number, name: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to rename workspace');
+      }
+
+      const organization = await response.json();
+      setOrganizations(prev => prev.map(o => o.id === id ? { ...o, ...organization } : o));
+      return organization as Organization;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  }, []);
+
+  const deleteOrganization = useCallback(async (id: number) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to delete workspace');
+      }
+
+      setOrganizations(prev => prev.filter(o => o.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      throw err;
+    }
+  }, []);
+
+  return {
+    organizations,
+    loading,
+    error,
+    fetchOrganizations,
+    createOrganization,
+    renameOrganization,
+    deleteOrganization,
+  };
+}
@@ -0,0 +1,413 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@getmocha/users-service/react';
+import {
+  MessageSquare,
+  Search,
+  Filter,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  Mail,
+  StickyNote,
+  Send,
+  ShieldAlert,
+} from 'lucide-react';
+import Layout from '@/react-app/components/Layout';
+import {
+  Feedback,
+  FeedbackNote,
+  FeedbackStatus,
+  FEEDBACK_STATUSES,
+  FEEDBACK_TYPES,
+} from '@/shared/types';
+
+const PAGE_SIZE = 25;
+
+const formatLabel = (value: string) =>
+  value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'new':
+      return 'bg-blue-500/20 text-blue-300';
+    case 'triaged':
+      return 'bg-yellow-500/20 text-yellow-300';
+    case 'planned':
+      return 'bg-purple-500/20 text-purple-300';
+    case 'done':
+      return 'bg-green-500/20 text-green-300';
+    default:
+      return 'bg-white/10 text-white/60';
+  }
+};
+
+export default function AdminFeedback() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<Feedback[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<FeedbackStatus | ''>('');
+  const [feedbackType, setFeedbackType] = useState('');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+
+  const [selected, setSelected] = useState<Feedback | null>(null);
+  const [notes, setNotes] = useState<FeedbackNote[]>([]);
+  const [noteBody, setNoteBody] = useState('');
+  const [replyBody, setReplyBody] = useState('');
+  const [submitting, setSubmitting] = useState<'note' | 'reply' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFeedback = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE) });
+      if (status) params.set('status', status);
+      if (feedbackType) params.set('feedback_type', feedbackType);
+      if (query) params.set('q', query);
+
+      const response = await fetch(`/api/admin/feedback?${params}`);
+      if (response.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items);
+        setTotal(data.total);
+      }
+    } catch (err) {
+      console.error('Failed to fetch feedback:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status, feedbackType, query]);
+
+  useEffect(() => {
+    if (user) {
+      fetchFeedback();
+    }
+  }, [user, fetchFeedback]);
+
+  const openFeedback = async (feedback: Feedback) => {
+    setSelected(feedback);
+    setNotes([]);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/feedback/${feedback.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotes(data.notes);
+      }
+    } catch (err) {
+      console.error('Failed to fetch feedback notes:', err);
+    }
+  };
+
+  const updateStatus = async (newStatus: FeedbackStatus) => {
+    if (!selected) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/feedback/${selected.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update status');
+      }
+
+      const updated = await response.json();
+      setSelected({ ...selected, ...updated });
+      setItems(prev => prev.map(f => f.id === updated.id ? { ...f, ...updated } : f));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update status');
+    }
+  };
+
+  const submitNote = async (kind: 'note' | 'reply') => {
+    if (!selected) return;
+    const body = kind === 'note' ? noteBody : replyBody;
+    if (!body.trim()) return;
+
+    setSubmitting(kind);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/feedback/${selected.id}/${kind === 'note' ? 'notes' : 'reply'}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(kind === 'note' ? { body: body.trim() } : { message: body.trim() }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Failed to save ${kind}`);
+      }
+
+      const note = await response.json();
+      setNotes(prev => [...prev, note]);
+      if (kind === 'note') {
+        setNoteBody('');
+      } else {
+        setReplyBody('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to save ${kind}`);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const applySearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setQuery(search.trim());
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (forbidden) {
+    return (
+      <Layout title="Feedback">
+        <div className="text-center py-12">
+          <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ShieldAlert className="w-8 h-8 text-white/60" />
+          </div>
+          <h3 className="text-white text-lg font-medium mb-2">Admins only</h3>
+          <p className="text-white/60">You don't have access to the feedback console.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Feedback">
+      {/* Filter Controls */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg mb-8">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <Filter className="w-5 h-5 text-white/60" />
+            <div className="flex flex-wrap gap-2">
+              {(['', ...FEEDBACK_STATUSES] as const).map((option) => (
+                <button
+                  key={option || 'all'}
+                  onClick={() => {
+                    setStatus(option);
+                    setPage(1);
+                  }}
+                  className={`px-3 py-1.5 rounded-lg text-sm transition-all duration-200 ${
+                    status === option
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white/5 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  {option ? formatLabel(option) : 'All'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <select
+              value={feedbackType}
+              onChange={(e) => {
+                setFeedbackType(e.target.value);
+                setPage(1);
+              }}
+              className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent [&>option]:bg-slate-800 [&>option]:text-white"
+            >
+              <option value="">All types</option>
+              {FEEDBACK_TYPES.map((type) => (
+                <option key={type} value={type}>{formatLabel(type)}</option>
+              ))}
+            </select>
+            <form onSubmit={applySearch} className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/40" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search feedback..."
+                className="pl-9 pr-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </form>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Feedback List */}
+        <div>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 text-white animate-spin" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <MessageSquare className="w-8 h-8 text-white/60" />
+              </div>
+              <h3 className="text-white text-lg font-medium mb-2">No feedback found</h3>
+              <p className="text-white/60">Try a different filter or search.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {items.map((feedback) => (
+                <button
+                  key={feedback.id}
+                  onClick={() => openFeedback(feedback)}
+                  className={`w-full text-left bg-white/10 backdrop-blur-lg rounded-xl p-4 border transition-all duration-200 ${
+                    selected?.id === feedback.id ? 'border-blue-400' : 'border-white/20 hover:border-white/40'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="text-white font-medium truncate">
+                      {feedback.subject || feedback.message.slice(0, 60)}
+                    </h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${getStatusColor(feedback.status)}`}>
+                      {formatLabel(feedback.status)}
+                    </span>
+                  </div>
+                  <p className="text-white/60 text-sm">
+                    {formatLabel(feedback.feedback_type)} · {feedback.user_name || feedback.user_email || 'Unknown'} ·{' '}
+                    {new Date(feedback.created_at).toLocaleDateString()}
+                    {!!feedback.note_count && ` · ${feedback.note_count} note${feedback.note_count === 1 ? '' : 's'}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-6 text-white/70 text-sm">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page <= 1}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-white/5 rounded-lg hover:bg-white/10 disabled:opacity-40"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                <span>Previous</span>
+              </button>
+              <span>Page {page} of {totalPages} · {total} total</span>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={page >= totalPages}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-white/5 rounded-lg hover:bg-white/10 disabled:opacity-40"
+              >
+                <span>Next</span>
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Detail */}
+        {selected && (
+          <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg h-fit">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-white text-lg font-semibold">{selected.subject || 'No subject'}</h3>
+                <p className="text-white/60 text-sm">
+                  {selected.user_name || 'Unknown'} {selected.user_email && `<${selected.user_email}>`}
+                </p>
+              </div>
+              <select
+                value={selected.status}
+                onChange={(e) => updateStatus(e.target.value as FeedbackStatus)}
+                className="px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:ring-2 focus:ring-blue-500 [&>option]:bg-slate-800 [&>option]:text-white"
+              >
+                {FEEDBACK_STATUSES.map((option) => (
+                  <option key={option} value={option}>{formatLabel(option)}</option>
+                ))}
+              </select>
+            </div>
+
+            <p className="text-white/80 whitespace-pre-wrap mb-6">{selected.message}</p>
+
+            {error && (
+              <div className="p-3 mb-4 bg-red-500/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-200 text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Thread */}
+            {notes.length > 0 && (
+              <div className="space-y-3 mb-6">
+                {notes.map((note) => (
+                  <div
+                    key={note.id}
+                    className={`rounded-lg p-3 ${
+                      note.note_type === 'reply' ? 'bg-blue-500/20 border border-blue-500/30' : 'bg-yellow-500/10 border border-yellow-500/20'
+                    }`}
+                  >
+                    <p className="flex items-center space-x-2 text-xs text-white/60 mb-1">
+                      {note.note_type === 'reply' ? <Mail className="w-3 h-3" /> : <StickyNote className="w-3 h-3" />}
+                      <span>
+                        {note.note_type === 'reply' ? 'Emailed' : 'Internal note'} by {note.admin_email} ·{' '}
+                        {new Date(note.created_at).toLocaleString()}
+                      </span>
+                    </p>
+                    <p className="text-white/90 text-sm whitespace-pre-wrap">{note.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Internal note */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-white/80 mb-2">Internal note</label>
+              <textarea
+                value={noteBody}
+                onChange={(e) => setNoteBody(e.target.value)}
+                rows={2}
+                placeholder="Only admins can see this..."
+                className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <div className="flex justify-end mt-2">
+                <button
+                  onClick={() => submitNote('note')}
+                  disabled={submitting !== null || !noteBody.trim()}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-yellow-500/20 text-yellow-200 rounded text-sm hover:bg-yellow-500/30 transition-colors disabled:opacity-50"
+                >
+                  {submitting === 'note' ? <Loader2 className="w-4 h-4 animate-spin" /> : <StickyNote className="w-4 h-4" />}
+                  <span>Add Note</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Email reply */}
+            {selected.user_email && (
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Reply to {selected.user_email}</label>
+                <textarea
+                  value={replyBody}
+                  onChange={(e) => setReplyBody(e.target.value)}
+                  rows={4}
+                  placeholder="Write a reply..."
+                  className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <div className="flex justify-end mt-2">
+                  <button
+                    onClick={() => submitNote('reply')}
+                    disabled={submitting !== null || !replyBody.trim()}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white rounded text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+                  >
+                    {submitting === 'reply' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                    <span>Send Reply</span>
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,16 +1,29 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@getmocha/users-service/react';
 import { useNavigate } from 'react-router';
 import { Loader2 } from 'lucide-react';
+import TwoFactorChallenge from '@/react-app/components/TwoFactorChallenge';
 
 export default function AuthCallback() {
   const { exchangeCodeForSessionToken } = useAuth();
   const navigate = useNavigate();
+  const [needsSecondFactor, setNeedsSecondFactor] = useState(false);
 
   useEffect(() => {
     const handleCallback = async () => {
       try {
         await exchangeCodeForSessionToken();
+
+        // Accounts with 2FA must pass the challenge before continuing
+        const response = await fetch('/api/profile/two-factor');
+        if (response.ok) {
+          const status = await response.json();
+          if (status.enabled && !status.verified) {
+            setNeedsSecondFactor(true);
+            return;
+          }
+        }
+
         navigate('/');
       } catch (error) {
         console.error('Authentication failed:', error);
@@ -22,13 +35,17 @@ export default function AuthCallback() {
   }, [exchangeCodeForSessionToken, navigate]);
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center">
-      <div className="text-center">
-        <div className="animate-spin mb-4 flex justify-center">
-          <Loader2 className="w-10 h-10 text-white" />
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      {needsSecondFactor ? (
+        <TwoFactorChallenge onVerified={() => navigate('/')} />
+      ) : (
+        <div className="text-center">
+          <div className="animate-spin mb-4 flex justify-center">
+            <Loader2 className="w-10 h-10 text-white" />
+          </div>
+          <p className="text-white/80">Completing authentication...</p>
         </div>
-        <p className="text-white/80">Completing authentication...</p>
-      </div>
+      )}
     </div>
   );
 }
@@ -1,23 +1,33 @@
 import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router';
 import { useAuth } from '@getmocha/users-service/react';
-import { Plus, Search, Filter, Loader2 } from 'lucide-react';
+import { Plus, Search, Filter, Loader2, FileSpreadsheet } from 'lucide-react';
 import Layout from '@/react-app/components/Layout';
 import DashboardStats from '@/react-app/components/DashboardStats';
 import DocumentCard from '@/react-app/components/DocumentCard';
 import DocumentModal from '@/react-app/components/DocumentModal';
+import RenewDocumentModal from '@/react-app/components/RenewDocumentModal';
+import ImportDocumentsModal from '@/react-app/components/ImportDocumentsModal';
+import ExportMenu from '@/react-app/components/ExportMenu';
+import PendingInvitations from '@/react-app/components/PendingInvitations';
 import { useDocuments } from '@/react-app/hooks/useDocuments';
 import { useDashboard } from '@/react-app/hooks/useDashboard';
-import { Document, CreateDocument, UpdateDocument } from '@/shared/types';
+import { Document, CreateDocument, UpdateDocument, RenewDocument, DocumentFilter, matchesDocumentFilter } from '@/shared/types';
 
 export default function Home() {
   const { user, isPending, redirectToLogin } = useAuth();
-  const { documents, loading, fetchDocuments, createDocument, updateDocument, deleteDocument, renewDocument } = useDocuments();
+  const { documents, loading, fetchDocuments, createDocument, updateDocument, deleteDocument, renewDocument, attachFile } = useDocuments();
   const { stats, fetchDashboardStats } = useDashboard();
   
   const [showModal, setShowModal] = useState(false);
   const [editingDocument, setEditingDocument] = useState<Document | undefined>();
+  const [renewingDocument, setRenewingDocument] = useState<Document | undefined>();
+  const [showImport, setShowImport] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'critical' | 'expiring' | 'expired'>('all');
+  const [filterType, setFilterType] = useState<DocumentFilter>('all');
+  // Reminder messages link to /?document=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDocumentId = Number(searchParams.get('document'));
 
   useEffect(() => {
     if (user) {
@@ -26,11 +36,29 @@ export default function Home() {
     }
   }, [user, fetchDocuments, fetchDashboardStats]);
 
-  const handleSaveDocument = async (documentData: CreateDocument) => {
+  useEffect(() => {
+    const linked = linkedDocumentId ? documents.find(doc => doc.id === linkedDocumentId) : undefined;
+    if (linked) {
+      setEditingDocument(linked);
+      setShowModal(true);
+      setSearchParams({}, { replace: true });
+    }
+  }, [documents, linkedDocumentId, setSearchParams]);
+
+  const handleSaveDocument = async (documentData: CreateDocument, sourceFile?: File) => {
     if (editingDocument) {
       await updateDocument(editingDocument.id, documentData as UpdateDocument);
     } else {
-      await createDocument(documentData);
+      const created: Document = await createDocument(documentData);
+      // The document exists now, so a failed upload shouldn't fail the save
+      if (sourceFile) {
+        try {
+          await attachFile(created.id, sourceFile);
+        } catch (err) {
+          console.error('Failed to attach file:', err);
+          alert(`The document was saved, but "${sourceFile.name}" couldn't be attached. You can attach it from the document.`);
+        }
+      }
     }
     setEditingDocument(undefined);
     fetchDashboardStats(); // Refresh stats after changes
@@ -48,32 +76,15 @@ export default function Home() {
     }
   };
 
-  const handleRenewDocument = async (id: number) => {
-    await renewDocument(id);
+  const handleRenewDocument = async (renewal: RenewDocument) => {
+    if (!renewingDocument) return;
+    await renewDocument(renewingDocument.id, renewal);
     fetchDashboardStats();
   };
 
-  const filteredDocuments = documents.filter(doc => {
-    const matchesSearch = doc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         doc.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    if (!matchesSearch) return false;
-
-    const today = new Date();
-    const expirationDate = new Date(doc.expiration_date);
-    const daysUntilExpiry = Math.ceil((expirationDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-    switch (filterType) {
-      case 'critical':
-        return doc.is_critical;
-      case 'expiring':
-        return daysUntilExpiry <= 30 && daysUntilExpiry >= 0;
-      case 'expired':
-        return daysUntilExpiry < 0;
-      default:
-        return true;
-    }
-  });
+  // The browser's own calendar date, as YYYY-MM-DD
+  const today = new Date().toLocaleDateString('en-CA');
+  const filteredDocuments = documents.filter(doc => matchesDocumentFilter(doc, filterType, searchTerm, today));
 
   if (isPending) {
     return (
@@ -115,21 +126,34 @@ export default function Home() {
     <Layout
       title="Document Dashboard"
       actions={
-        <button
-          onClick={() => {
-            setEditingDocument(undefined);
-            setShowModal(true);
-          }}
-          className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 hover:from-blue-600 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Document</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowImport(true)}
+            className="bg-white/10 border border-white/20 text-white px-4 py-2 rounded-lg flex items-center space-x-2 hover:bg-white/20 transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>Import</span>
+          </button>
+          <ExportMenu dataset="documents" filter={filterType} search={searchTerm} />
+          <button
+            onClick={() => {
+              setEditingDocument(undefined);
+              setShowModal(true);
+            }}
+            className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 hover:from-blue-600 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Document</span>
+          </button>
+        </div>
       }
     >
       {/* Dashboard Stats */}
       <DashboardStats {...stats} />
 
+      {/* Invitations */}
+      <PendingInvitations onAccepted={fetchDocuments} />
+
       {/* Search and Filter */}
       <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg mb-8">
         <div className="flex flex-col md:flex-row gap-4">
@@ -199,7 +223,7 @@ export default function Home() {
               document={document}
               onEdit={handleEditDocument}
               onDelete={handleDeleteDocument}
-              onRenew={handleRenewDocument}
+              onRenew={setRenewingDocument}
             />
           ))}
         </div>
@@ -215,6 +239,24 @@ export default function Home() {
         onSave={handleSaveDocument}
         document={editingDocument}
       />
+
+      {/* Import Modal */}
+      <ImportDocumentsModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={() => {
+          fetchDocuments();
+          fetchDashboardStats();
+        }}
+      />
+
+      {/* Renew Modal */}
+      <RenewDocumentModal
+        isOpen={renewingDocument !== undefined}
+        onClose={() => setRenewingDocument(undefined)}
+        onRenew={handleRenewDocument}
+        document={renewingDocument}
+      />
     </Layout>
   );
 }
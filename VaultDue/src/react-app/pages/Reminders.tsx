@@ -9,9 +9,13 @@ import {
   Send,
   Filter,
   Loader2,
-  FileText
+  FileText,
+  BellOff,
+  Play
 } from 'lucide-react';
 import Layout from '@/react-app/components/Layout';
+import ExportMenu from '@/react-app/components/ExportMenu';
+import { DEFAULT_SNOOZE_DAYS, MAX_SNOOZE_DAYS } from '@/shared/types';
 
 interface Reminder {
   id: number;
@@ -23,14 +27,28 @@ interface Reminder {
   document_title: string;
   expiration_date: string;
   is_critical: boolean;
+  document_status: string;
+  snoozed_until: string | null;
+  acknowledged_at: string | null;
 }
 
+// YYYY-MM-DD on the local calendar, as the server checks snooze dates
+const dateInDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString('en-CA');
+};
+
 export default function Reminders() {
   const { user } = useAuth();
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'sent' | 'pending'>('all');
   const [sendingTest, setSendingTest] = useState<number | null>(null);
+  // The document whose snooze date is being picked, and the one being updated
+  const [snoozing, setSnoozing] = useState<number | null>(null);
+  const [snoozeUntil, setSnoozeUntil] = useState(dateInDays(DEFAULT_SNOOZE_DAYS));
+  const [updating, setUpdating] = useState<number | null>(null);
   
 
   useEffect(() => {
@@ -72,7 +90,45 @@ export default function Reminders() {
     }
   };
 
-  
+  const updateReminders = async (documentId: number, action: string, body?: object) => {
+    setUpdating(documentId);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/${action}`, {
+        method: 'POST',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        alert(data?.error?.issues?.[0]?.message || data?.error || 'Failed to update reminders');
+        return;
+      }
+
+      setSnoozing(null);
+      await fetchReminders();
+    } catch (error) {
+      console.error('Failed to update reminders:', error);
+      alert('Failed to update reminders');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const startSnooze = (documentId: number) => {
+    setSnoozeUntil(dateInDays(DEFAULT_SNOOZE_DAYS));
+    setSnoozing(documentId);
+  };
+
+  const getPausedLabel = (reminder: Reminder) => {
+    if (reminder.acknowledged_at) {
+      return 'Acknowledged, reminders stopped until renewal';
+    }
+    if (reminder.snoozed_until && reminder.snoozed_until > dateInDays(0)) {
+      return `Snoozed until ${new Date(reminder.snoozed_until).toLocaleDateString()}`;
+    }
+    return null;
+  };
 
   const filteredReminders = reminders.filter(reminder => {
     switch (filter) {
@@ -130,7 +186,7 @@ export default function Reminders() {
   }
 
   return (
-    <Layout title="Reminders">
+    <Layout title="Reminders" actions={<ExportMenu dataset="reminders" />}>
       {/* Filter Controls */}
       <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg mb-8">
         <div className="flex items-center justify-between">
@@ -214,6 +270,69 @@ export default function Reminders() {
                         <span>{getReminderTypeLabel(reminder.reminder_type)}</span>
                       </span>
                     </div>
+
+                    {reminder.document_status === 'active' && (
+                      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                        {getPausedLabel(reminder) ? (
+                          <>
+                            <span className="flex items-center space-x-1 text-white/60">
+                              <BellOff className="w-4 h-4" />
+                              <span>{getPausedLabel(reminder)}</span>
+                            </span>
+                            <button
+                              onClick={() => updateReminders(reminder.document_id, 'resume-reminders')}
+                              disabled={updating === reminder.document_id}
+                              className="flex items-center space-x-1 px-3 py-1 bg-white/5 text-white/70 rounded hover:bg-white/10 transition-colors disabled:opacity-50"
+                            >
+                              <Play className="w-4 h-4" />
+                              <span>Resume</span>
+                            </button>
+                          </>
+                        ) : snoozing === reminder.id ? (
+                          <>
+                            <input
+                              type="date"
+                              value={snoozeUntil}
+                              min={dateInDays(1)}
+                              max={dateInDays(MAX_SNOOZE_DAYS)}
+                              onChange={(e) => setSnoozeUntil(e.target.value)}
+                              className="px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => updateReminders(reminder.document_id, 'snooze', { until: snoozeUntil })}
+                              disabled={updating === reminder.document_id || !snoozeUntil}
+                              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+                            >
+                              Snooze
+                            </button>
+                            <button
+                              onClick={() => setSnoozing(null)}
+                              className="px-3 py-1 text-white/60 hover:text-white transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => startSnooze(reminder.id)}
+                              className="flex items-center space-x-1 px-3 py-1 bg-white/5 text-white/70 rounded hover:bg-white/10 transition-colors"
+                            >
+                              <BellOff className="w-4 h-4" />
+                              <span>Snooze</span>
+                            </button>
+                            <button
+                              onClick={() => updateReminders(reminder.document_id, 'acknowledge')}
+                              disabled={updating === reminder.document_id}
+                              className="flex items-center space-x-1 px-3 py-1 bg-white/5 text-white/70 rounded hover:bg-white/10 transition-colors disabled:opacity-50"
+                            >
+                              <CheckCircle className="w-4 h-4" />
+                              <span>Acknowledge</span>
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -263,6 +382,8 @@ export default function Reminders() {
                 <li>• Reminders are automatically sent based on your notification preferences</li>
                 <li>• The system checks for expiring documents twice daily (9 AM and 6 PM)</li>
                 <li>• You can test individual reminders using the "Test" button</li>
+                <li>• Snooze a document to pause its reminders, or acknowledge it to stop them until it's renewed</li>
+                <li>• Expired documents get a few more reminders in the month after expiry, then they stop</li>
                 <li>• Configure your reminder preferences in Profile Settings</li>
               </ul>
             </div>
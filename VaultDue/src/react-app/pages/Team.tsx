@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@getmocha/users-service/react';
+import { Building2, Plus, Pencil, Trash2, Users, Loader2, Check, X, Bell, Webhook, MessageSquareText } from 'lucide-react';
+import Layout from '@/react-app/components/Layout';
+import WorkspaceMembers from '@/react-app/components/WorkspaceMembers';
+import ReminderRulesEditor from '@/react-app/components/ReminderRulesEditor';
+import WebhookSubscriptions from '@/react-app/components/WebhookSubscriptions';
+import NotificationTemplatesEditor from '@/react-app/components/NotificationTemplatesEditor';
+import { useOrganizations } from '@/react-app/hooks/useOrganizations';
+
+export default function Team() {
+  const { user } = useAuth();
+  const {
+    organizations,
+    loading,
+    error,
+    fetchOrganizations,
+    createOrganization,
+    renameOrganization,
+    deleteOrganization,
+  } = useOrganizations();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchOrganizations();
+    }
+  }, [user, fetchOrganizations]);
+
+  const selected = organizations.find(o => o.id === selectedId) || organizations[0];
+  const canManage = selected?.role === 'owner' || selected?.role === 'admin';
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    try {
+      const organization = await createOrganization(newName.trim());
+      setNewName('');
+      setSelectedId(organization.id);
+    } catch (err) {
+      console.error('Failed to create workspace:', err);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected || !renameValue.trim()) return;
+
+    try {
+      await renameOrganization(selected.id, renameValue.trim());
+      setRenaming(false);
+    } catch (err) {
+      console.error('Failed to rename workspace:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete ${selected.name}? This cannot be undone.`)) return;
+
+    try {
+      await deleteOrganization(selected.id);
+      setSelectedId(null);
+    } catch (err) {
+      console.error('Failed to delete workspace:', err);
+    }
+  };
+
+  const handleLeft = () => {
+    setSelectedId(null);
+    fetchOrganizations();
+  };
+
+  if (loading && organizations.length === 0) {
+    return (
+      <Layout title="Team">
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-white animate-spin" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Team">
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-4 mb-6">
+          <p className="text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Workspace list */}
+        <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg h-fit">
+          <h3 className="flex items-center space-x-2 text-white font-semibold mb-4">
+            <Building2 className="w-5 h-5" />
+            <span>Workspaces</span>
+          </h3>
+
+          <div className="space-y-2 mb-6">
+            {organizations.map((organization) => (
+              <button
+                key={organization.id}
+                onClick={() => {
+                  setSelectedId(organization.id);
+                  setRenaming(false);
+                }}
+                className={`w-full text-left px-4 py-3 rounded-lg transition-all duration-200 ${
+                  selected?.id === organization.id
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-white/5 text-white/70 hover:bg-white/10'
+                }`}
+              >
+                <p className="font-medium">{organization.name}</p>
+                <p className="text-xs opacity-75 capitalize">
+                  {organization.role} · {organization.member_count ?? 1} member{organization.member_count === 1 ? '' : 's'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              placeholder="New workspace name"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={creating || !newName.trim()}
+              className="p-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Create workspace"
+            >
+              {creating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+            </button>
+          </div>
+        </div>
+
+        {/* Members of the selected workspace */}
+        {selected && (
+          <div className="lg:col-span-2 bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20 shadow-lg">
+            <div className="flex items-center justify-between mb-6">
+              {renaming ? (
+                <div className="flex items-center space-x-2 flex-1 mr-4">
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleRename}
+                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Save"
+                  >
+                    <Check className="w-5 h-5 text-green-300" />
+                  </button>
+                  <button
+                    onClick={() => setRenaming(false)}
+                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Cancel"
+                  >
+                    <X className="w-5 h-5 text-white/60" />
+                  </button>
+                </div>
+              ) : (
+                <h3 className="flex items-center space-x-2 text-white text-lg font-semibold">
+                  <Users className="w-5 h-5" />
+                  <span>{selected.name}</span>
+                </h3>
+              )}
+
+              {canManage && !renaming && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => {
+                      setRenameValue(selected.name);
+                      setRenaming(true);
+                    }}
+                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Rename workspace"
+                  >
+                    <Pencil className="w-4 h-4 text-white/70" />
+                  </button>
+                  {selected.role === 'owner' && (
+                    <button
+                      onClick={handleDelete}
+                      className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                      title="Delete workspace"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-300" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <WorkspaceMembers organization={selected} onLeft={handleLeft} />
+
+            <div className="mt-8 pt-6 border-t border-white/20">
+              <h4 className="flex items-center space-x-2 text-white font-medium mb-1">
+                <Bell className="w-4 h-4" />
+                <span>Reminder Escalation</span>
+              </h4>
+              <p className="text-white/50 text-xs mb-4">
+                Channels for reminders on this workspace's documents, unless the owner has rules of their own.
+              </p>
+              <ReminderRulesEditor
+                key={selected.id}
+                endpoint={`/api/organizations/${selected.id}/reminder-rules`}
+                canEdit={canManage}
+                emptyText="No workspace rules. Each member's preferred channel is used."
+              />
+            </div>
+
+            {canManage && (
+              <div className="mt-8 pt-6 border-t border-white/20">
+                <h4 className="flex items-center space-x-2 text-white font-medium mb-1">
+                  <MessageSquareText className="w-4 h-4" />
+                  <span>Reminder Wording</span>
+                </h4>
+                <p className="text-white/50 text-xs mb-4">
+                  Customize the reminders sent for this workspace's documents. Members get them in the language set in their profile.
+                </p>
+                <NotificationTemplatesEditor key={selected.id} organizationId={selected.id} />
+              </div>
+            )}
+
+            {canManage && (
+              <div className="mt-8 pt-6 border-t border-white/20">
+                <h4 className="flex items-center space-x-2 text-white font-medium mb-1">
+                  <Webhook className="w-4 h-4" />
+                  <span>Webhooks</span>
+                </h4>
+                <p className="text-white/50 text-xs mb-4">
+                  POST document and reminder events to your own systems. Each request is signed with the
+                  X-VaultDue-Signature header, an HMAC-SHA256 of "timestamp.body" using the webhook's secret.
+                </p>
+                <WebhookSubscriptions key={selected.id} organizationId={selected.id} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Role guide */}
+      <div className="mt-8 bg-blue-500/20 border border-blue-500/30 rounded-xl p-6">
+        <div className="flex items-start space-x-3">
+          <Users className="w-5 h-5 text-blue-300 mt-0.5" />
+          <div>
+            <h4 className="text-blue-100 font-medium mb-2">Workspace Roles</h4>
+            <ul className="text-blue-200/80 text-sm space-y-1">
+              <li>• <strong>Owner</strong> – full control, including deleting the workspace</li>
+              <li>• <strong>Admin</strong> – manage members and every document in the workspace</li>
+              <li>• <strong>Editor</strong> – add, edit and renew documents</li>
+              <li>• <strong>Viewer</strong> – read-only access to the workspace's documents</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -16,18 +16,34 @@ import {
   Loader2,
   Send,
   CheckCircle,
-  X
+  X,
+  Lock,
+  Hash,
+  Users
 } from 'lucide-react';
 import Layout from '@/react-app/components/Layout';
+import PhoneVerification from '@/react-app/components/PhoneVerification';
+import TwoFactorSettings from '@/react-app/components/TwoFactorSettings';
+import ReminderRulesEditor from '@/react-app/components/ReminderRulesEditor';
+import ChatWebhookSettings from '@/react-app/components/ChatWebhookSettings';
+import ExportMenu from '@/react-app/components/ExportMenu';
+import CalendarFeedSettings from '@/react-app/components/CalendarFeedSettings';
+import { useOrganizations } from '@/react-app/hooks/useOrganizations';
+import { DigestMode, ReminderChannel, TemplateLocale, TEMPLATE_LOCALES, TEMPLATE_LOCALE_NAMES } from '@/shared/types';
 
 interface UserProfile {
   phone_number?: string;
   business_name?: string;
   role?: string;
-  preferred_reminder_channel: 'whatsapp' | 'email' | 'sms';
+  preferred_reminder_channel: ReminderChannel;
   reminder_frequency: '30_days' | '14_days' | '7_days' | '3_days' | '1_day';
   reminder_time_preference: 'morning' | 'evening';
+  timezone?: string;
+  locale?: TemplateLocale;
+  digest_mode?: DigestMode;
+  weekly_summary?: boolean;
   two_factor_enabled: boolean;
+  whatsapp_verified?: boolean;
 }
 
 interface ActivityLog {
@@ -44,6 +60,28 @@ interface FeedbackForm {
   message: string;
 }
 
+// The browser's zone goes first so new users get a sensible default
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const TIME_ZONES = Array.from(new Set([
+  browserTimeZone,
+  'UTC',
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Africa/Johannesburg',
+]));
+
 export default function UserProfile() {
   const { user, logout } = useAuth();
   const [activeTab, setActiveTab] = useState('information');
@@ -51,8 +89,11 @@ export default function UserProfile() {
     preferred_reminder_channel: 'whatsapp',
     reminder_frequency: '30_days',
     reminder_time_preference: 'morning',
+    timezone: browserTimeZone,
     two_factor_enabled: false,
   });
+  // The number as last saved, which is what whatsapp_verified refers to
+  const [savedPhone, setSavedPhone] = useState<string | undefined>();
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -64,12 +105,16 @@ export default function UserProfile() {
     message: ''
   });
   const [submittingFeedback, setSubmittingFeedback] = useState(false);
+  const { organizations, fetchOrganizations } = useOrganizations();
+  // Workspaces whose Slack/Teams webhooks this user can set
+  const managedOrganizations = organizations.filter(o => o.role === 'owner' || o.role === 'admin');
   
 
   useEffect(() => {
     fetchProfile();
     fetchActivityLogs();
-  }, []);
+    fetchOrganizations();
+  }, [fetchOrganizations]);
 
   const fetchProfile = async () => {
     setLoading(true);
@@ -77,7 +122,8 @@ export default function UserProfile() {
       const response = await fetch('/api/profile');
       if (response.ok) {
         const data = await response.json();
-        setProfile(data);
+        setProfile({ ...data, timezone: data.timezone || browserTimeZone });
+        setSavedPhone(data.phone_number || undefined);
       }
     } catch (error) {
       console.error('Failed to fetch profile:', error);
@@ -109,6 +155,10 @@ export default function UserProfile() {
       });
       
       if (response.ok) {
+        if ((profile.phone_number || undefined) !== savedPhone) {
+          setProfile({ ...profile, whatsapp_verified: false });
+          setSavedPhone(profile.phone_number || undefined);
+        }
         setMessage({ type: 'success', text: 'Profile updated successfully!' });
       } else {
         throw new Error('Failed to update profile');
@@ -162,6 +212,7 @@ export default function UserProfile() {
   const tabs = [
     { id: 'information', label: 'Information', icon: User },
     { id: 'notifications', label: 'Notifications', icon: Bell },
+    { id: 'security', label: 'Security', icon: Lock },
     { id: 'activity', label: 'Activity', icon: Activity },
     { id: 'support', label: 'Support', icon: HelpCircle },
   ];
@@ -274,6 +325,14 @@ export default function UserProfile() {
                     />
                   </div>
                   <p className="text-xs text-white/50 mt-1">Enter with country code (e.g. +918851670050) for WhatsApp reminders</p>
+                  <PhoneVerification
+                    phoneNumber={profile.phone_number}
+                    verified={!!profile.whatsapp_verified && profile.phone_number === savedPhone}
+                    onVerified={(phoneNumber) => {
+                      setProfile({ ...profile, phone_number: phoneNumber, whatsapp_verified: true });
+                      setSavedPhone(phoneNumber);
+                    }}
+                  />
                 </div>
 
                 <div>
@@ -319,11 +378,13 @@ export default function UserProfile() {
               <div className="space-y-6">
                 <div>
                   <label className="block text-sm font-medium text-white/80 mb-3">Preferred Reminder Channel</label>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
                     {[
                       { value: 'whatsapp', label: 'WhatsApp', icon: MessageSquare },
                       { value: 'email', label: 'Email', icon: Mail },
                       { value: 'sms', label: 'SMS', icon: Phone },
+                      { value: 'slack', label: 'Slack', icon: Hash },
+                      { value: 'teams', label: 'Teams', icon: Users },
                     ].map((option) => {
                       const Icon = option.icon;
                       return (
@@ -342,6 +403,16 @@ export default function UserProfile() {
                       );
                     })}
                   </div>
+                  {(profile.preferred_reminder_channel === 'whatsapp' || profile.preferred_reminder_channel === 'sms') && !profile.whatsapp_verified && (
+                    <p className="text-xs text-yellow-300/80 mt-2">
+                      Verify your phone number under Information to receive {profile.preferred_reminder_channel === 'sms' ? 'SMS' : 'WhatsApp'} reminders. Until then we'll email you.
+                    </p>
+                  )}
+                  {(profile.preferred_reminder_channel === 'slack' || profile.preferred_reminder_channel === 'teams') && (
+                    <p className="text-xs text-white/50 mt-2">
+                      Reminders go to your own {profile.preferred_reminder_channel === 'slack' ? 'Slack' : 'Teams'} webhook below, or your workspace's if you haven't set one. Without either we'll email you.
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -380,6 +451,120 @@ export default function UserProfile() {
                     ))}
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-3">Time Zone</label>
+                  <select
+                    value={profile.timezone}
+                    onChange={(e) => setProfile({ ...profile, timezone: e.target.value })}
+                    className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [&>option]:bg-slate-800 [&>option]:text-white"
+                  >
+                    {(profile.timezone && !TIME_ZONES.includes(profile.timezone) ? [profile.timezone, ...TIME_ZONES] : TIME_ZONES).map((zone) => (
+                      <option key={zone} value={zone} className="bg-slate-800 text-white">
+                        {zone.replace(/_/g, ' ')}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-white/50 mt-1">
+                    Reminders arrive at your preferred time and count days in this time zone.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-3">Reminder Language</label>
+                  <select
+                    value={profile.locale || 'en'}
+                    onChange={(e) => setProfile({ ...profile, locale: e.target.value as TemplateLocale })}
+                    className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent [&>option]:bg-slate-800 [&>option]:text-white"
+                  >
+                    {TEMPLATE_LOCALES.map((locale) => (
+                      <option key={locale} value={locale} className="bg-slate-800 text-white">
+                        {TEMPLATE_LOCALE_NAMES[locale]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-white/50 mt-1">
+                    Email, SMS and WhatsApp reminders are written in this language.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-3">Message Grouping</label>
+                  <div className="flex space-x-3">
+                    {[
+                      { value: 'off', label: 'One message per document' },
+                      { value: 'daily', label: 'One daily digest' },
+                    ].map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => setProfile({ ...profile, digest_mode: option.value as DigestMode })}
+                        className={`flex-1 p-3 rounded-lg border transition-all duration-200 ${
+                          (profile.digest_mode || 'off') === option.value
+                            ? 'bg-blue-500/20 border-blue-500/50 text-blue-100'
+                            : 'bg-white/5 border-white/20 text-white/70 hover:bg-white/10'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-white/50 mt-1">
+                    A digest lists every reminder due that day in one email or WhatsApp message, most urgent first.
+                  </p>
+                  <label className="flex items-center space-x-2 mt-3 text-sm text-white/80">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(profile.weekly_summary)}
+                      onChange={(e) => setProfile({ ...profile, weekly_summary: e.target.checked })}
+                      className="rounded border-white/20 bg-white/10"
+                    />
+                    <span>Send me a summary every Monday of what expires in the next 30 days</span>
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-1">Slack & Teams</label>
+                  <p className="text-xs text-white/50 mb-3">
+                    Paste an incoming webhook URL to get reminder cards in a Slack or Teams channel.
+                  </p>
+                  <ChatWebhookSettings endpoint="/api/profile/chat-webhooks" />
+                </div>
+
+                {managedOrganizations.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-1">Workspace Slack & Teams</label>
+                    <p className="text-xs text-white/50 mb-3">
+                      Used for members of the workspace who haven't set their own webhook.
+                    </p>
+                    <div className="space-y-4">
+                      {managedOrganizations.map((organization) => (
+                        <div key={organization.id} className="p-3 bg-white/5 rounded-lg">
+                          <p className="text-sm text-white mb-2">{organization.name}</p>
+                          <ChatWebhookSettings endpoint={`/api/organizations/${organization.id}/chat-webhooks`} />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-1">Calendar Feed</label>
+                  <p className="text-xs text-white/50 mb-3">
+                    Subscribe from Google Calendar or Outlook to see every expiry date, with alerts on your reminder days.
+                  </p>
+                  <CalendarFeedSettings />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-1">Escalation Rules</label>
+                  <p className="text-xs text-white/50 mb-3">
+                    Send reminders on more channels as documents get closer to expiring. These override your workspace's rules.
+                  </p>
+                  <ReminderRulesEditor
+                    endpoint="/api/profile/reminder-rules"
+                    emptyText="No rules yet. Reminders go to your preferred channel above."
+                  />
+                </div>
               </div>
             </div>
           )}
@@ -387,7 +572,10 @@ export default function UserProfile() {
           {/* Activity Tab */}
           {activeTab === 'activity' && (
             <div className="space-y-6">
-              <h3 className="text-xl font-semibold text-white mb-4">Recent Activity</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-semibold text-white">Recent Activity</h3>
+                <ExportMenu dataset="activity" />
+              </div>
               
               {activityLogs.length === 0 ? (
                 <div className="text-center py-8">
@@ -412,7 +600,15 @@ export default function UserProfile() {
             </div>
           )}
 
-          
+          {/* Security Tab */}
+          {activeTab === 'security' && (
+            <div className="space-y-6">
+              <h3 className="text-xl font-semibold text-white mb-4">Security</h3>
+              <div className="bg-white/5 rounded-lg p-4">
+                <TwoFactorSettings />
+              </div>
+            </div>
+          )}
 
           {/* Support Tab */}
           {activeTab === 'support' && (
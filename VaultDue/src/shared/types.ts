@@ -13,8 +13,18 @@ export const DocumentSchema = z.object({
   status: z.string(),
   last_renewed_date: z.string().nullable(),
   next_reminder_date: z.string().nullable(),
+  snoozed_until: z.string().nullable(),
+  // Set when the owner says they're handling it; reminders stop until the expiry changes
+  acknowledged_at: z.string().nullable(),
+  reminder_offsets: z.string().nullable(), // JSON array of days before expiry; null uses the profile frequency
+  escalation_delay_days: z.number().nullable(),
+  organization_id: z.number().nullable(),
   created_at: z.string(),
   updated_at: z.string(),
+  // Set by the API from workspace membership or a direct share
+  access_role: z.string().optional(),
+  organization_name: z.string().nullable().optional(),
+  attachment_count: z.number().optional(),
 });
 
 export const CreateDocumentSchema = z.object({
@@ -24,9 +34,83 @@ export const CreateDocumentSchema = z.object({
   expiration_date: z.string().min(1, "Expiration date is required"),
   renewal_period_days: z.number().min(1).optional(),
   is_critical: z.boolean().default(false),
+  // Days before expiry to send reminders; null falls back to the profile frequency
+  reminder_offsets: z.array(z.number().int().min(0).max(365))
+    .min(1)
+    .max(10)
+    .nullable()
+    .optional(),
+  // Defaults to the user's default workspace
+  organization_id: z.number().optional(),
 });
 
-export const UpdateDocumentSchema = CreateDocumentSchema.partial();
+export const UpdateDocumentSchema = CreateDocumentSchema.omit({ organization_id: true }).partial();
+
+// Renewal schema and types
+export const RenewDocumentSchema = z.object({
+  // Falls back to renewal_period_days when omitted
+  new_expiration_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date").optional(),
+  cost: z.number().min(0).optional(),
+  reference_number: z.string().max(100).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const DocumentRenewalSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  user_id: z.string(),
+  previous_expiration_date: z.string(),
+  new_expiration_date: z.string().nullable(),
+  renewed_date: z.string(),
+  renewed_by_email: z.string().nullable(),
+  renewed_by_name: z.string().nullable(),
+  source: z.string(),
+  cost: z.number().nullable(),
+  reference_number: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Attachment schemas. Files live in R2; each row points at one object and
+// belongs to a document, or to one of its renewals.
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+] as const;
+
+export const DocumentAttachmentSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  renewal_id: z.number().nullable(),
+  user_id: z.string(),
+  file_name: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Details read from an uploaded PDF's text. Every field is a suggestion for
+// the user to confirm; expiry_candidates lists each date that looked like an
+// expiry, best first, with the words around it.
+export const DocumentExtractionSchema = z.object({
+  text_found: z.boolean(),
+  title: z.string().nullable(),
+  // One of DOCUMENT_TYPES
+  document_type: z.string().nullable(),
+  expiration_date: z.string().nullable(),
+  expiry_candidates: z.array(z.object({
+    date: z.string(),
+    context: z.string(),
+  })),
+  issuer: z.string().nullable(),
+  document_number: z.string().nullable(),
+});
 
 // Reminder schema and types
 export const ReminderSchema = z.object({
@@ -41,24 +125,510 @@ export const ReminderSchema = z.object({
   updated_at: z.string(),
 });
 
+// Pausing reminders for a document, from the app, a signed link or WhatsApp
+export const DEFAULT_SNOOZE_DAYS = 7;
+export const MAX_SNOOZE_DAYS = 30;
+
+export const SnoozeRemindersSchema = z.object({
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date"),
+});
+
+// Reminder delivery schemas
+export const REMINDER_CHANNELS = ['email', 'whatsapp', 'sms', 'slack', 'teams'] as const;
+// Channels delivered to an incoming webhook rather than a person
+export const CHAT_CHANNELS = ['slack', 'teams'] as const;
+// queued → sent → delivered → read as providers report back; failed sends
+// are retried with backoff, skipped channels never left VaultDue
+export const DELIVERY_STATUSES = ['queued', 'sent', 'delivered', 'read', 'failed', 'skipped'] as const;
+
+// Which channels to use once a document is within max_days_until_expiry of
+// expiring. Belongs to either a user or a workspace.
+export const ReminderChannelRuleSchema = z.object({
+  id: z.number(),
+  user_id: z.string().nullable(),
+  organization_id: z.number().nullable(),
+  max_days_until_expiry: z.number(),
+  critical_only: z.boolean(),
+  channels: z.array(z.enum(REMINDER_CHANNELS)),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const CreateReminderChannelRuleSchema = z.object({
+  max_days_until_expiry: z.number().int().min(0).max(365),
+  critical_only: z.boolean().default(false),
+  channels: z.array(z.enum(REMINDER_CHANNELS)).min(1, "Pick at least one channel"),
+});
+
+export const UpdateReminderChannelRuleSchema = CreateReminderChannelRuleSchema.partial();
+
+export const ReminderDeliverySchema = z.object({
+  id: z.number(),
+  reminder_id: z.number().nullable(), // Null for test reminders
+  document_id: z.number(),
+  user_id: z.string(),
+  channel: z.enum(REMINDER_CHANNELS),
+  recipient: z.string().nullable(),
+  status: z.enum(DELIVERY_STATUSES),
+  provider_message_id: z.string().nullable(),
+  error: z.string().nullable(),
+  attempt_count: z.number(),
+  next_attempt_at: z.string().nullable(), // Set while a failed send is waiting to be retried
+  expiration_date: z.string().nullable(), // The expiry the reminder was about
+  last_attempt_at: z.string().nullable(),
+  delivered_at: z.string().nullable(),
+  read_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Incoming webhook URLs for Slack and Teams, set per user or per workspace.
+// Only the providers' own hosts are accepted, since the worker POSTs to them.
+const SLACK_WEBHOOK_URL = /^https:\/\/hooks\.slack\.com\/(services|workflows|triggers)\/\S+$/;
+const TEAMS_WEBHOOK_URL = /^https:\/\/([a-z0-9-]+\.)+(webhook\.office\.com|logic\.azure\.com|powerplatform\.com)(:443)?\/\S+$/i;
+
+const webhookUrl = (pattern: RegExp, message: string) => z.preprocess(
+  (value) => (value === undefined || (typeof value === 'string' && value.trim() === '') ? null : value),
+  z.string().trim().max(1000).regex(pattern, message).nullable()
+);
+
+export const ChatWebhooksSchema = z.object({
+  slack_webhook_url: webhookUrl(SLACK_WEBHOOK_URL, "Enter a Slack incoming webhook URL (https://hooks.slack.com/...)"),
+  teams_webhook_url: webhookUrl(TEAMS_WEBHOOK_URL, "Enter a Teams incoming webhook or workflow URL"),
+});
+
+// iCalendar feed of expiry (and optionally reminder) dates at a secret URL.
+// Only a hash of the token is stored, so the URL is shown once, when the feed
+// is turned on or its link is reset.
+export const CalendarFeedSchema = z.object({
+  enabled: z.boolean(),
+  include_reminders: z.boolean(),
+  created_at: z.string().nullable(),
+  last_accessed_at: z.string().nullable(),
+  url: z.string().optional(),
+});
+
+export const UpdateCalendarFeedSchema = z.object({
+  include_reminders: z.boolean(),
+});
+
+// Outbound webhooks: workspace subscriptions that receive signed event payloads
+export const WEBHOOK_EVENTS = [
+  'document.created',
+  'document.updated',
+  'document.expiring',
+  'document.expired',
+  'document.renewed',
+  'reminder.sent',
+] as const;
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export const WebhookSubscriptionSchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  url: z.string(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  description: z.string().nullable(),
+  is_active: z.boolean(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  secret: z.string().optional(), // Only returned when created or rotated
+});
+
+export const CreateWebhookSubscriptionSchema = z.object({
+  url: z.string().trim().url("Invalid URL").max(1000).startsWith('https://', "Webhook URLs must use https"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+  description: z.string().max(200).optional(),
+});
+
+export const UpdateWebhookSubscriptionSchema = CreateWebhookSubscriptionSchema.partial().extend({
+  is_active: z.boolean().optional(),
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.number(),
+  subscription_id: z.number(),
+  event_id: z.string(),
+  event_type: z.enum(WEBHOOK_EVENTS),
+  payload: z.string(), // The exact JSON body that was signed
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  attempt_count: z.number(),
+  response_status: z.number().nullable(),
+  error: z.string().nullable(),
+  next_attempt_at: z.string().nullable(),
+  last_attempt_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Notification templates. Every reminder message has default wording per
+// locale for each urgency level, keyed "<message>.<urgency>" (e.g.
+// "sms.expired"), and a workspace can override any of them.
+export const TEMPLATE_LOCALES = ['en', 'hi'] as const;
+export const TEMPLATE_LOCALE_NAMES: Record<typeof TEMPLATE_LOCALES[number], string> = {
+  en: 'English',
+  hi: 'हिन्दी (Hindi)',
+};
+export const TEMPLATE_MESSAGES = ['whatsapp', 'sms', 'email_subject', 'email_body'] as const;
+export const URGENCY_LEVELS = ['expired', 'today', 'tomorrow', 'upcoming'] as const;
+export const TEMPLATE_VARIABLES = [
+  'title',
+  'days',
+  'expiry_date',
+  'document_type',
+  'business_name',
+  'link',
+  'emoji',
+  'priority',
+] as const;
+export const TEMPLATE_MAX_LENGTHS: Record<typeof TEMPLATE_MESSAGES[number], number> = {
+  whatsapp: 1000,
+  sms: 480,
+  email_subject: 200,
+  email_body: 2000,
+};
+export const NOTIFICATION_TEMPLATE_KEYS = TEMPLATE_MESSAGES.flatMap((message) =>
+  URGENCY_LEVELS.map((level) => `${message}.${level}` as const)
+);
+
+export function isNotificationTemplateKey(key: string): key is NotificationTemplateKey {
+  return (NOTIFICATION_TEMPLATE_KEYS as string[]).includes(key);
+}
+
+// {{variable}} placeholders in a template that aren't in TEMPLATE_VARIABLES
+export function findUnknownTemplateVariables(body: string): string[] {
+  const names = Array.from(body.matchAll(/\{\{\s*([^{}]*?)\s*\}\}/g), (match) => match[1]);
+  return names.filter((name) => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+}
+
+const TemplateBodySchema = z.string()
+  .trim()
+  .min(1, "Template can't be empty")
+  .max(2000)
+  .refine((body) => findUnknownTemplateVariables(body).length === 0, {
+    message: `Unknown variable. Available: ${TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}`,
+  });
+
+export const NotificationTemplateSchema = z.object({
+  key: z.string(),
+  locale: z.enum(TEMPLATE_LOCALES),
+  default_body: z.string(),
+  body: z.string().nullable(), // The workspace's override, if any
+  updated_at: z.string().nullable(),
+});
+
+export const UpdateNotificationTemplateSchema = z.object({
+  locale: z.enum(TEMPLATE_LOCALES),
+  body: TemplateBodySchema,
+});
+
+export const NotificationTemplateQuerySchema = z.object({
+  locale: z.enum(TEMPLATE_LOCALES).default('en'),
+});
+
+// Renders `body` (or the saved template when left out) against a document
+export const PreviewNotificationTemplateSchema = z.object({
+  key: z.string().refine(isNotificationTemplateKey, "Unknown template"),
+  locale: z.enum(TEMPLATE_LOCALES),
+  document_id: z.number().int().positive(),
+  body: TemplateBodySchema.optional(),
+});
+
+// Messages the outbox provider stored instead of sending
+export const OutboxMessageSchema = z.object({
+  id: z.number(),
+  message_id: z.string(),
+  channel: z.enum(REMINDER_CHANNELS),
+  recipient: z.string(),
+  subject: z.string().nullable(),
+  body: z.string(),
+  template_name: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const OutboxQuerySchema = z.object({
+  recipient: z.string().max(200).optional(),
+  channel: z.enum(REMINDER_CHANNELS).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Escalation schemas. Unacknowledged reminders for critical documents are
+// passed along the document's chain of backup contacts. A 'member' contact is
+// someone the document is shared with, or a member of its workspace.
+export const ESCALATION_CONTACT_TYPES = ['email', 'phone', 'member'] as const;
+export const ESCALATION_STATUSES = ['pending', 'acknowledged', 'exhausted'] as const;
+export const ACKNOWLEDGMENT_SOURCES = ['renewal', 'link', 'whatsapp', 'web'] as const;
+
+export const EscalationContactSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  position: z.number(),
+  contact_type: z.enum(ESCALATION_CONTACT_TYPES),
+  contact_value: z.string(), // Email address or phone number; a member's email
+  name: z.string().nullable(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const EscalationContactInputSchema = z.object({
+  contact_type: z.enum(ESCALATION_CONTACT_TYPES),
+  contact_value: z.string().trim().min(1, "Enter an email or phone number").max(200),
+  name: z.string().max(100).optional(),
+}).refine(
+  (contact) => contact.contact_type === 'phone' || z.string().email().safeParse(contact.contact_value).success,
+  { message: "Invalid email address", path: ['contact_value'] }
+);
+
+// Someone who can be picked as a 'member' backup contact
+export const EscalationMemberSchema = z.object({
+  email: z.string(),
+  name: z.string().nullable(),
+});
+
+export const UpdateEscalationSchema = z.object({
+  delay_days: z.number().int().min(1).max(30),
+  contacts: z.array(EscalationContactInputSchema).max(5),
+});
+
+export const DocumentEscalationSchema = z.object({
+  id: z.number(),
+  document_id: z.number(),
+  reminder_id: z.number().nullable(),
+  status: z.enum(ESCALATION_STATUSES),
+  current_step: z.number(), // How many backup contacts have been notified
+  next_escalation_date: z.string(),
+  acknowledged_at: z.string().nullable(),
+  acknowledged_by: z.string().nullable(),
+  acknowledgment_source: z.enum(ACKNOWLEDGMENT_SOURCES).nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Organization (workspace) schema and types
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'editor', 'viewer'] as const;
+
+export const OrganizationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  // Set by the API for the requesting user
+  role: z.enum(ORGANIZATION_ROLES).optional(),
+  member_count: z.number().optional(),
+});
+
+export const OrganizationMemberSchema = z.object({
+  id: z.number(),
+  organization_id: z.number(),
+  user_id: z.string().nullable(), // Set once the invitee signs in
+  email: z.string(),
+  role: z.enum(ORGANIZATION_ROLES),
+  status: z.string(),
+  invited_by: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const CreateOrganizationSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+});
+
+export const InviteOrganizationMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(ORGANIZATION_ROLES).default('viewer'),
+});
+
+export const UpdateOrganizationMemberSchema = z.object({
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
 // Team member schema and types
+export const SHARE_ROLES = ['viewer', 'editor'] as const;
+
 export const TeamMemberSchema = z.object({
   id: z.number(),
   document_id: z.number(),
-  user_id: z.string(),
+  user_id: z.string(), // The document owner who sent the invite
   invited_email: z.string(),
-  role: z.string(),
+  invited_by_email: z.string().nullable(),
+  member_user_id: z.string().nullable(), // Set once the invite is accepted
+  role: z.enum(SHARE_ROLES),
   status: z.string(),
   created_at: z.string(),
   updated_at: z.string(),
 });
 
+export const InviteTeamMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(SHARE_ROLES).default('viewer'),
+});
+
+export const DocumentInvitationSchema = TeamMemberSchema.extend({
+  document_title: z.string(),
+  expiration_date: z.string(),
+});
+
+// Admin schemas
+export const AdminUserSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  user_id: z.string().nullable(),
+  granted_by: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const GrantAdminSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const AdminAuditLogSchema = z.object({
+  id: z.number(),
+  admin_user_id: z.string(),
+  admin_email: z.string(),
+  action: z.string(),
+  target_type: z.string().nullable(),
+  target_id: z.string().nullable(),
+  details: z.string().nullable(), // JSON
+  ip_address: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Feedback schemas
+export const FEEDBACK_TYPES = ['general', 'feature_request', 'bug_report', 'improvement'] as const;
+export const FEEDBACK_STATUSES = ['new', 'triaged', 'planned', 'done', 'wont_fix'] as const;
+
+export const FeedbackSchema = z.object({
+  id: z.number(),
+  user_id: z.string(),
+  feedback_type: z.string(),
+  subject: z.string().nullable(),
+  message: z.string(),
+  user_email: z.string().nullable(),
+  user_name: z.string().nullable(),
+  status: z.enum(FEEDBACK_STATUSES),
+  note_count: z.number().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const FeedbackNoteSchema = z.object({
+  id: z.number(),
+  feedback_id: z.number(),
+  admin_user_id: z.string(),
+  admin_email: z.string(),
+  note_type: z.enum(['internal', 'reply']),
+  body: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const FeedbackQuerySchema = z.object({
+  status: z.enum(FEEDBACK_STATUSES).optional(),
+  feedback_type: z.string().optional(),
+  q: z.string().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const UpdateFeedbackSchema = z.object({
+  status: z.enum(FEEDBACK_STATUSES),
+});
+
+export const CreateFeedbackNoteSchema = z.object({
+  body: z.string().min(1, "Note is required").max(5000),
+});
+
+export const FeedbackReplySchema = z.object({
+  subject: z.string().max(200).optional(),
+  message: z.string().min(1, "Message is required").max(10000),
+});
+
+// Phone verification schemas
+export const SendPhoneOtpSchema = z.object({
+  phone_number: z.string().min(10, "Enter a phone number with country code").max(20),
+});
+
+export const VerifyPhoneOtpSchema = z.object({
+  code: z.string().regex(/^\s*\d{6}\s*$/, "Enter the 6-digit code"),
+});
+
+// Accepts a 6-digit authenticator code or a 10-digit backup code
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\s*(\d{6}|\d{5}-?\d{5})\s*$/, "Enter the code from your authenticator app"),
+});
+
 // Inferred types
 export type Document = z.infer<typeof DocumentSchema>;
 export type CreateDocument = z.infer<typeof CreateDocumentSchema>;
 export type UpdateDocument = z.infer<typeof UpdateDocumentSchema>;
+export type RenewDocument = z.infer<typeof RenewDocumentSchema>;
+export type DocumentRenewal = z.infer<typeof DocumentRenewalSchema>;
+export type DocumentAttachment = z.infer<typeof DocumentAttachmentSchema>;
+export type DocumentExtraction = z.infer<typeof DocumentExtractionSchema>;
+export type ImportField = typeof IMPORT_FIELDS[number];
+export type ImportDocuments = z.infer<typeof ImportDocumentsSchema>;
+export type ImportDocumentRow = z.infer<typeof ImportDocumentRowSchema>;
+export type ImportPreviewRow = z.infer<typeof ImportPreviewRowSchema>;
+export type ImportPreview = z.infer<typeof ImportPreviewSchema>;
+export type ImportFile = z.infer<typeof ImportFileSchema>;
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
 export type Reminder = z.infer<typeof ReminderSchema>;
+export type SnoozeReminders = z.infer<typeof SnoozeRemindersSchema>;
+export type ReminderChannel = typeof REMINDER_CHANNELS[number];
+export type ReminderChannelRule = z.infer<typeof ReminderChannelRuleSchema>;
+export type CreateReminderChannelRule = z.infer<typeof CreateReminderChannelRuleSchema>;
+export type UpdateReminderChannelRule = z.infer<typeof UpdateReminderChannelRuleSchema>;
+export type ReminderDelivery = z.infer<typeof ReminderDeliverySchema>;
+export type ChatChannel = typeof CHAT_CHANNELS[number];
+export type ChatWebhooks = z.infer<typeof ChatWebhooksSchema>;
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+export type UpdateCalendarFeed = z.infer<typeof UpdateCalendarFeedSchema>;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+export type WebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
+export type CreateWebhookSubscription = z.infer<typeof CreateWebhookSubscriptionSchema>;
+export type UpdateWebhookSubscription = z.infer<typeof UpdateWebhookSubscriptionSchema>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+export type TemplateLocale = typeof TEMPLATE_LOCALES[number];
+export type TemplateMessage = typeof TEMPLATE_MESSAGES[number];
+export type UrgencyLevel = typeof URGENCY_LEVELS[number];
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+export type NotificationTemplateKey = `${TemplateMessage}.${UrgencyLevel}`;
+export type NotificationTemplate = z.infer<typeof NotificationTemplateSchema>;
+export type UpdateNotificationTemplate = z.infer<typeof UpdateNotificationTemplateSchema>;
+export type PreviewNotificationTemplate = z.infer<typeof PreviewNotificationTemplateSchema>;
+export type OutboxMessage = z.infer<typeof OutboxMessageSchema>;
+export type OutboxQuery = z.infer<typeof OutboxQuerySchema>;
+export type EscalationContact = z.infer<typeof EscalationContactSchema>;
+export type EscalationContactInput = z.infer<typeof EscalationContactInputSchema>;
+export type EscalationMember = z.infer<typeof EscalationMemberSchema>;
+export type UpdateEscalation = z.infer<typeof UpdateEscalationSchema>;
+export type DocumentEscalation = z.infer<typeof DocumentEscalationSchema>;
+export type AcknowledgmentSource = typeof ACKNOWLEDGMENT_SOURCES[number];
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
 export type TeamMember = z.infer<typeof TeamMemberSchema>;
+export type InviteTeamMember = z.infer<typeof InviteTeamMemberSchema>;
+export type DocumentInvitation = z.infer<typeof DocumentInvitationSchema>;
+export type ShareRole = typeof SHARE_ROLES[number];
+export type Organization = z.infer<typeof OrganizationSchema>;
+export type OrganizationMember = z.infer<typeof OrganizationMemberSchema>;
+export type CreateOrganization = z.infer<typeof CreateOrganizationSchema>;
+export type InviteOrganizationMember = z.infer<typeof InviteOrganizationMemberSchema>;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+export type AdminUser = z.infer<typeof AdminUserSchema>;
+export type AdminAuditLog = z.infer<typeof AdminAuditLogSchema>;
+export type Feedback = z.infer<typeof FeedbackSchema>;
+export type FeedbackNote = z.infer<typeof FeedbackNoteSchema>;
+export type FeedbackQuery = z.infer<typeof FeedbackQuerySchema>;
+export type FeedbackStatus = typeof FEEDBACK_STATUSES[number];
+export type FeedbackReply = z.infer<typeof FeedbackReplySchema>;
 
 // Document types enum
 export const DOCUMENT_TYPES = [
@@ -80,9 +650,188 @@ export const REMINDER_TYPES = [
   '1_day'
 ] as const;
 
+// Reminder offsets (days before expiry) for each profile reminder_frequency
+export const REMINDER_FREQUENCY_OFFSETS: Record<typeof REMINDER_TYPES[number], readonly number[]> = {
+  '30_days': [30, 14, 7, 3, 1, 0],
+  '14_days': [14, 7, 3, 1, 0],
+  '7_days': [7, 3, 1, 0],
+  '3_days': [3, 1, 0],
+  '1_day': [1, 0],
+};
+
+// 'daily' folds every reminder due in a run into one message per user
+export const DIGEST_MODES = ['off', 'daily'] as const;
+export type DigestMode = typeof DIGEST_MODES[number];
+
+// Reads documents.reminder_offsets, ignoring anything malformed
+export function parseReminderOffsets(value: string | null | undefined): number[] | null {
+  if (!value) return null;
+  try {
+    const offsets = JSON.parse(value);
+    if (!Array.isArray(offsets)) return null;
+    const valid = offsets.filter((offset): offset is number => Number.isInteger(offset) && offset >= 0);
+    return valid.length > 0 ? valid.sort((a, b) => b - a) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function serializeReminderOffsets(offsets: number[] | null | undefined): string | null {
+  if (!offsets || offsets.length === 0) return null;
+  return JSON.stringify(Array.from(new Set(offsets)).sort((a, b) => b - a));
+}
+
+// Bulk import from a CSV or XLSX file. The file is read into rows of text
+// first; the wizard then sends the rows back with the column picked for each
+// document field, for a dry run and then the import itself.
+export const IMPORT_MAX_ROWS = 500;
+export const IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+export const IMPORT_FIELDS = [
+  'title',
+  'expiration_date',
+  'document_type',
+  'description',
+  'renewal_period_days',
+  'is_critical',
+  'reminder_offsets',
+] as const;
+
+const columnIndex = z.number().int().min(0);
+
+export const ImportDocumentsSchema = z.object({
+  rows: z.array(z.array(z.string().max(5000)))
+    .min(1, "The file has no rows to import")
+    .max(IMPORT_MAX_ROWS, `Import up to ${IMPORT_MAX_ROWS} rows at a time`),
+  // Column index for each field; title and expiry are required
+  mapping: z.object({
+    title: columnIndex,
+    expiration_date: columnIndex,
+    document_type: columnIndex.optional(),
+    description: columnIndex.optional(),
+    renewal_period_days: columnIndex.optional(),
+    is_critical: columnIndex.optional(),
+    reminder_offsets: columnIndex.optional(),
+  }),
+  organization_id: z.number().optional(),
+  file_name: z.string().max(200).optional(), // For the activity log
+  dry_run: z.boolean().default(true),
+});
+
+// A row once its cells are turned into document fields. Stricter than
+// CreateDocumentSchema, since nobody picked these values from a form.
+export const ImportDocumentRowSchema = CreateDocumentSchema.extend({
+  title: z.string().min(1, "Title is required").max(200, "Title is too long"),
+  document_type: z.enum(DOCUMENT_TYPES, {
+    errorMap: () => ({ message: `Type must be one of ${DOCUMENT_TYPES.join(', ')}` }),
+  }).optional(),
+  expiration_date: z.string()
+    .min(1, "Expiration date is required")
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expiration date isn't a date"),
+  description: z.string().max(2000, "Description is too long").optional(),
+  renewal_period_days: z.number().int().min(1, "Renewal period must be at least 1 day").optional(),
+  reminder_offsets: z.array(z.number().int().min(0).max(365, "Reminders can be up to 365 days before expiry"))
+    .min(1)
+    .max(10, "Up to 10 reminders per document")
+    .nullable()
+    .optional(),
+});
+
+export const ImportPreviewRowSchema = z.object({
+  row: z.number(), // 1-based, counting the header row, as a spreadsheet shows it
+  document: ImportDocumentRowSchema.nullable(),
+  errors: z.array(z.string()),
+  // 'file' repeats an earlier row; 'existing' matches a document already in the workspace
+  duplicate: z.enum(['file', 'existing']).nullable(),
+});
+
+export const ImportPreviewSchema = z.object({
+  rows: z.array(ImportPreviewRowSchema),
+  valid_count: z.number(),
+  error_count: z.number(),
+  duplicate_count: z.number(),
+  imported_count: z.number(), // 0 for a dry run
+});
+
+export const ImportFileSchema = z.object({
+  file_name: z.string(),
+  headers: z.array(z.string()),
+  rows: z.array(z.array(z.string())),
+  mapping: ImportDocumentsSchema.shape.mapping.partial(),
+});
+
+// The dashboard's document filters. Exports apply the same ones, so a
+// download matches what's on screen.
+export const DOCUMENT_FILTERS = ['all', 'critical', 'expiring', 'expired'] as const;
+export type DocumentFilter = typeof DOCUMENT_FILTERS[number];
+export const EXPIRING_SOON_DAYS = 30;
+
+export function matchesDocumentFilter(
+  document: Pick<Document, 'title' | 'description' | 'is_critical' | 'expiration_date'>,
+  filter: DocumentFilter,
+  search: string,
+  today: string
+): boolean {
+  const term = search.trim().toLowerCase();
+  if (term && !document.title.toLowerCase().includes(term) && !document.description?.toLowerCase().includes(term)) {
+    return false;
+  }
+
+  const daysUntilExpiry = Math.round(
+    (Date.parse(`${document.expiration_date.slice(0, 10)}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86400000
+  );
+
+  switch (filter) {
+    case 'critical':
+      return !!document.is_critical;
+    case 'expiring':
+      return daysUntilExpiry <= EXPIRING_SOON_DAYS && daysUntilExpiry >= 0;
+    case 'expired':
+      return daysUntilExpiry < 0;
+    default:
+      return true;
+  }
+}
+
+// Downloads of the document list, reminder history and activity log
+export const EXPORT_DATASETS = ['documents', 'reminders', 'activity'] as const;
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+// Reminder history and activity are cut off here; documents never are
+export const EXPORT_MAX_ROWS = 5000;
+
+export const ExportQuerySchema = z.object({
+  dataset: z.enum(EXPORT_DATASETS),
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  // Documents only
+  filter: z.enum(DOCUMENT_FILTERS).default('all'),
+  search: z.string().max(200).default(''),
+});
+
+export const TEAM_MEMBER_STATUSES = [
+  'pending',
+  'accepted',
+  'declined'
+] as const;
+
 export const DOCUMENT_STATUSES = [
   'active',
   'expired',
   'renewed',
   'cancelled'
 ] as const;
+
+// What each role may do with a document. Personal documents give their
+// creator 'owner'; workspace documents take the member's workspace role;
+// direct shares grant 'viewer' or 'editor'.
+export type DocumentRole = OrganizationRole;
+export type DocumentAction = 'view' | 'edit' | 'renew' | 'delete' | 'share';
+
+export const DOCUMENT_ROLE_PERMISSIONS: Record<DocumentRole, readonly DocumentAction[]> = {
+  owner: ['view', 'edit', 'renew', 'delete', 'share'],
+  admin: ['view', 'edit', 'renew', 'delete', 'share'],
+  editor: ['view', 'edit', 'renew'],
+  viewer: ['view'],
+};
+
+export function canPerformDocumentAction(role: string | undefined, action: DocumentAction): boolean {
+  return DOCUMENT_ROLE_PERMISSIONS[role as DocumentRole]?.includes(action) ?? false;
+}
@@ -1,10 +1,11 @@
-import { Hono } from "hono";
+import { Hono, Context } from "hono";
 import { cors } from "hono/cors";
 import { getCookie, setCookie } from "hono/cookie";
 import { zValidator } from "@hono/zod-validator";
 import {
   exchangeCodeForSessionToken,
   getOAuthRedirectUrl,
+  getCurrentUser,
   authMiddleware,
   deleteSession,
   MOCHA_SESSION_TOKEN_COOKIE_NAME,
@@ -12,11 +13,84 @@ import {
 import {
   CreateDocumentSchema,
   UpdateDocumentSchema,
+  RenewDocumentSchema,
+  InviteTeamMemberSchema,
+  CreateOrganizationSchema,
+  InviteOrganizationMemberSchema,
+  UpdateOrganizationMemberSchema,
+  GrantAdminSchema,
+  FeedbackQuerySchema,
+  UpdateFeedbackSchema,
+  CreateFeedbackNoteSchema,
+  FeedbackReplySchema,
+  SendPhoneOtpSchema,
+  VerifyPhoneOtpSchema,
+  TwoFactorCodeSchema,
+  CreateReminderChannelRuleSchema,
+  UpdateReminderChannelRuleSchema,
+  UpdateEscalationSchema,
+  OutboxQuerySchema,
+  ChatWebhooksSchema,
+  UpdateCalendarFeedSchema,
+  CreateWebhookSubscriptionSchema,
+  UpdateWebhookSubscriptionSchema,
+  UpdateNotificationTemplateSchema,
+  NotificationTemplateQuerySchema,
+  PreviewNotificationTemplateSchema,
+  SnoozeRemindersSchema,
+  TEMPLATE_LOCALES,
+  DIGEST_MODES,
+  DEFAULT_SNOOZE_DAYS,
+  MAX_SNOOZE_DAYS,
+  isNotificationTemplateKey,
+  canPerformDocumentAction,
+  serializeReminderOffsets,
+  ImportDocumentsSchema,
+  ExportQuerySchema,
+  ATTACHMENT_MAX_BYTES,
+  IMPORT_MAX_BYTES,
+  IMPORT_MAX_ROWS,
   DOCUMENT_TYPES,
   REMINDER_TYPES,
 } from "@/shared/types";
 import { z } from "zod";
 import { ReminderService } from "./services/reminderService";
+import { DocumentService } from "./services/documentService";
+import { TeamService } from "./services/teamService";
+import { OrganizationService, WorkspaceUser } from "./services/organizationService";
+import { AdminService } from "./services/adminService";
+import { FeedbackService } from "./services/feedbackService";
+import { PhoneVerificationService } from "./services/phoneVerificationService";
+import { TwoFactorService } from "./services/twoFactorService";
+import { ReminderChannelRuleService } from "./services/reminderChannelRuleService";
+import { EscalationService } from "./services/escalationService";
+import { ChatWebhookService } from "./services/chatWebhookService";
+import { OutboundWebhookService, toWebhookDocument } from "./services/outboundWebhookService";
+import { NotificationService } from "./services/notificationService";
+import { NotificationTemplateService } from "./services/notificationTemplateService";
+import { AttachmentService } from "./services/attachmentService";
+import { DocumentImportService } from "./services/documentImportService";
+import { ExportService } from "./services/exportService";
+import { CalendarFeedService } from "./services/calendarFeedService";
+import {
+  ReminderActionService,
+  LinkReminderActionResult,
+  SNOOZE_LINK_PATH,
+  ACKNOWLEDGE_REMINDER_LINK_PATH,
+} from "./services/reminderActionService";
+import { requireDocumentAccess, requireOrganizationRole } from "./middleware/access";
+import { requireAdmin } from "./middleware/admin";
+import { requireSecondFactor } from "./middleware/twoFactor";
+import { addDays, daysBetween, getLocalDate, isValidTimeZone, DEFAULT_TIME_ZONE } from "./utils/timezone";
+import { renderLinkPage } from "./utils/linkPages";
+import { extractDocumentDetails } from "./utils/documentExtraction";
+import { readSpreadsheet } from "./utils/spreadsheet";
+import {
+  WhatsAppWebhookService,
+  WhatsAppWebhookPayload,
+} from "./services/whatsappWebhookService";
+import { DeliveryCallbackService, ResendWebhookEvent } from "./services/deliveryCallbackService";
+import { OutboxProvider } from "./providers";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -37,6 +111,9 @@ async function handleScheduledReminders(env: Env): Promise<void> {
     console.log('Scheduled reminder job started');
     const reminderService = new ReminderService(env, env.DB);
     await reminderService.processReminders();
+
+    const outboundWebhookService = new OutboundWebhookService(env.DB);
+    await outboundWebhookService.processDueRetries();
     console.log('Scheduled reminder job completed');
   } catch (error) {
     console.error('Scheduled reminder job failed:', error);
@@ -69,7 +146,18 @@ app.post("/api/sessions", zValidator("json", z.object({ code: z.string() })), as
     maxAge: 60 * 24 * 60 * 60, // 60 days
   });
 
-  return c.json({ success: true }, 200);
+  // New sessions start unverified; the client must complete the challenge
+  const user = await getCurrentUser(sessionToken, {
+    apiUrl: c.env.MOCHA_USERS_SERVICE_API_URL,
+    apiKey: c.env.MOCHA_USERS_SERVICE_API_KEY,
+  });
+  if (user) {
+    await recordUserContact(c.env.DB, user);
+  }
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  const twoFactorRequired = user ? await twoFactorService.isEnabled(user.id) : false;
+
+  return c.json({ success: true, two_factor_required: twoFactorRequired }, 200);
 });
 
 app.get("/api/users/me", authMiddleware, async (c) => {
@@ -80,6 +168,9 @@ app.get('/api/logout', async (c) => {
   const sessionToken = getCookie(c, MOCHA_SESSION_TOKEN_COOKIE_NAME);
 
   if (typeof sessionToken === 'string') {
+    const twoFactorService = new TwoFactorService(c.env.DB);
+    await twoFactorService.forgetSession(sessionToken);
+
     await deleteSession(sessionToken, {
       apiUrl: c.env.MOCHA_USERS_SERVICE_API_URL,
       apiKey: c.env.MOCHA_USERS_SERVICE_API_KEY,
@@ -97,6 +188,72 @@ app.get('/api/logout', async (c) => {
   return c.json({ success: true }, 200);
 });
 
+// Second-factor challenge for the current session
+app.post("/api/sessions/two-factor", authMiddleware, zValidator("json", TwoFactorCodeSchema), async (c) => {
+  const user = c.get("user");
+  const sessionToken = getCookie(c, MOCHA_SESSION_TOKEN_COOKIE_NAME);
+  if (!user || !sessionToken) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const { code } = c.req.valid("json");
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  const result = await twoFactorService.verifySession(user.id, code, sessionToken);
+
+  switch (result) {
+    case 'verified':
+      return c.json({ success: true });
+    case 'not_enabled':
+      return c.json({ error: "Two-factor authentication is not enabled" }, 400);
+    case 'locked':
+      return c.json({ error: "Too many incorrect codes. Try again in 15 minutes." }, 429);
+    case 'invalid':
+      return c.json({ error: "Incorrect code" }, 400);
+  }
+});
+
+// Users live in the auth service, so the email and name that reminders and
+// escalations need are copied onto the profile when a session starts. The
+// profile is only written when one of them has changed.
+async function recordUserContact(db: D1Database, user: WorkspaceUser): Promise<void> {
+  const email = user.email;
+  const name = user.google_user_data?.name || null;
+  const profile = await db.prepare("SELECT email, name FROM user_profiles WHERE user_id = ?")
+    .bind(user.id)
+    .first<{ email: string | null; name: string | null }>();
+  if (profile && profile.email === email && profile.name === name) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await db.prepare(
+    `INSERT INTO user_profiles (user_id, email, name, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET email = excluded.email, name = excluded.name, updated_at = excluded.updated_at`
+  ).bind(user.id, email, name, now, now).run();
+}
+
+// New documents land in the chosen workspace, or the user's default one
+async function resolveNewDocumentOrganization(
+  env: Env,
+  user: WorkspaceUser,
+  requestedId: number | undefined
+): Promise<{ organizationId: number } | { error: string; status: 403 | 404 }> {
+  const organizationService = new OrganizationService(env, env.DB);
+  if (!requestedId) {
+    return { organizationId: await organizationService.getDefaultOrganizationId(user) };
+  }
+
+  const membership = await organizationService.getMembership(requestedId, user.id);
+  if (!membership) {
+    return { error: "Workspace not found", status: 404 };
+  }
+  if (!canPerformDocumentAction(membership.role, 'edit')) {
+    return { error: "You don't have permission to add documents to this workspace", status: 403 };
+  }
+  return { organizationId: membership.organization_id };
+}
+
 // Document routes
 app.get("/api/documents", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -104,13 +261,11 @@ app.get("/api/documents", authMiddleware, async (c) => {
     return c.json({ error: "Unauthorized" }, 401);
   }
   
-  const { results } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE user_id = ? ORDER BY expiration_date ASC, is_critical DESC"
-  )
-    .bind(user.id)
-    .all();
+  // Personal and workspace documents plus documents shared with the user
+  const documentService = new DocumentService(c.env.DB);
+  const documents = await documentService.listAccessibleDocuments(user.id);
 
-  return c.json(results);
+  return c.json(documents);
 });
 
 app.post("/api/documents", authMiddleware, zValidator("json", CreateDocumentSchema), async (c) => {
@@ -119,23 +274,31 @@ app.post("/api/documents", authMiddleware, zValidator("json", CreateDocumentSche
     return c.json({ error: "Unauthorized" }, 401);
   }
   const document = c.req.valid("json");
+
+  const target = await resolveNewDocumentOrganization(c.env, user, document.organization_id);
+  if ('error' in target) {
+    return c.json({ error: target.error }, target.status);
+  }
+  const { organizationId } = target;
   
   const now = new Date().toISOString();
   
   const result = await c.env.DB.prepare(
     `INSERT INTO documents (
-      user_id, title, description, document_type, expiration_date, 
-      renewal_period_days, is_critical, status, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`
+      user_id, organization_id, title, description, document_type, expiration_date, 
+      renewal_period_days, is_critical, reminder_offsets, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`
   )
     .bind(
       user.id,
+      organizationId,
       document.title,
       document.description || null,
       document.document_type || null,
       document.expiration_date,
       document.renewal_period_days || null,
       document.is_critical ? 1 : 0,
+      serializeReminderOffsets(document.reminder_offsets),
       now,
       now
     )
@@ -154,54 +317,117 @@ app.post("/api/documents", authMiddleware, zValidator("json", CreateDocumentSche
   }
 
   // Get the created document
-  const { results } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE id = ?"
-  )
-    .bind(result.meta.last_row_id)
-    .all();
+  const documentService = new DocumentService(c.env.DB);
+  await documentService.refreshNextReminderDate(result.meta.last_row_id);
+  const created = await documentService.getAccessibleDocument(user.id, result.meta.last_row_id);
+
+  if (created) {
+    const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+    c.executionCtx.waitUntil(
+      outboundWebhookService.emit('document.created', organizationId, { document: toWebhookDocument(created) })
+    );
+  }
 
-  return c.json(results[0], 201);
+  return c.json(created, 201);
 });
 
-app.get("/api/documents/:id", authMiddleware, async (c) => {
-  const user = c.get("user");
-  if (!user) {
-    return c.json({ error: "Unauthorized" }, 401);
+// Suggested details from a PDF before the document exists. Nothing is stored;
+// the form attaches the file once the document is saved.
+app.post("/api/documents/extract", authMiddleware, async (c) => {
+  const form = await c.req.parseBody();
+  const file = form.file;
+  if (!(file instanceof File)) {
+    return c.json({ error: "Choose a file to read" }, 400);
+  }
+  if (file.type !== 'application/pdf') {
+    return c.json({ error: "Details can only be read from PDF files" }, 400);
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return c.json({ error: `Files can be up to ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB` }, 400);
   }
-  const id = c.req.param("id");
-  
-  const { results } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE id = ? AND user_id = ?"
-  )
-    .bind(id, user.id)
-    .all();
 
-  if (results.length === 0) {
-    return c.json({ error: "Document not found" }, 404);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const today = new Date().toISOString().split('T')[0];
+  return c.json(await extractDocumentDetails(bytes, file.name, today));
+});
+
+// Bulk import, step one: read a CSV or XLSX file into rows and guess which
+// column holds each field. Nothing is stored until the import itself.
+app.post("/api/documents/import/parse", authMiddleware, async (c) => {
+  const form = await c.req.parseBody();
+  const file = form.file;
+  if (!(file instanceof File)) {
+    return c.json({ error: "Choose a file to import" }, 400);
+  }
+  if (file.size > IMPORT_MAX_BYTES) {
+    return c.json({ error: `Files can be up to ${IMPORT_MAX_BYTES / (1024 * 1024)} MB` }, 400);
   }
 
-  return c.json(results[0]);
+  const spreadsheet = await readSpreadsheet(file);
+  if ('error' in spreadsheet) {
+    return c.json({ error: spreadsheet.error }, 400);
+  }
+
+  const [headers = [], ...rows] = spreadsheet.rows;
+  if (rows.length === 0) {
+    return c.json({ error: "The file has no rows below the header row" }, 400);
+  }
+  if (rows.length > IMPORT_MAX_ROWS) {
+    return c.json({ error: `The file has ${rows.length} rows. Import up to ${IMPORT_MAX_ROWS} at a time.` }, 400);
+  }
+
+  const importService = new DocumentImportService(c.env.DB);
+  return c.json({
+    file_name: file.name,
+    headers,
+    rows,
+    mapping: importService.suggestMapping(headers),
+  });
 });
 
-app.put("/api/documents/:id", authMiddleware, zValidator("json", UpdateDocumentSchema), async (c) => {
-  const user = c.get("user");
-  if (!user) {
-    return c.json({ error: "Unauthorized" }, 401);
+// Step two: a dry run previews every row; otherwise the valid, non-duplicate
+// rows are created and the same preview comes back with imported_count set
+app.post("/api/documents/import", authMiddleware, zValidator("json", ImportDocumentsSchema), async (c) => {
+  const user = c.get("user")!;
+  const input = c.req.valid("json");
+
+  const target = await resolveNewDocumentOrganization(c.env, user, input.organization_id);
+  if ('error' in target) {
+    return c.json({ error: target.error }, target.status);
   }
-  const id = c.req.param("id");
-  const updates = c.req.valid("json");
-  
-  // Check if document exists and belongs to user
-  const { results: existing } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE id = ? AND user_id = ?"
-  )
-    .bind(id, user.id)
-    .all();
 
-  if (existing.length === 0) {
-    return c.json({ error: "Document not found" }, 404);
+  const importService = new DocumentImportService(c.env.DB);
+  if (input.dry_run) {
+    return c.json(await importService.preview(input, target.organizationId));
   }
 
+  const { preview, created } = await importService.import(input, target.organizationId, user.id);
+
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  c.executionCtx.waitUntil(Promise.all(created.map(({ id, document }) =>
+    outboundWebhookService.emit('document.created', target.organizationId, {
+      document: toWebhookDocument({
+        ...document,
+        id,
+        organization_id: target.organizationId,
+        document_type: document.document_type ?? null,
+        status: 'active',
+      }),
+    })
+  )));
+
+  return c.json(preview, created.length > 0 ? 201 : 200);
+});
+
+app.get("/api/documents/:id", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  return c.json(c.get("document"));
+});
+
+app.put("/api/documents/:id", authMiddleware, requireDocumentAccess('edit'), zValidator("json", UpdateDocumentSchema), async (c) => {
+  const user = c.get("user")!;
+  const existing = c.get("document")!;
+  const updates = c.req.valid("json");
+
   // Build update query dynamically
   const updateFields = [];
   const updateValues = [];
@@ -221,6 +447,10 @@ app.put("/api/documents/:id", authMiddleware, zValidator("json", UpdateDocumentS
   if (updates.expiration_date !== undefined) {
     updateFields.push("expiration_date = ?");
     updateValues.push(updates.expiration_date);
+    // An acknowledgement only covers the expiry it was given for
+    if (updates.expiration_date !== existing.expiration_date) {
+      updateFields.push("acknowledged_at = NULL");
+    }
   }
   if (updates.renewal_period_days !== undefined) {
     updateFields.push("renewal_period_days = ?");
@@ -230,124 +460,789 @@ app.put("/api/documents/:id", authMiddleware, zValidator("json", UpdateDocumentS
     updateFields.push("is_critical = ?");
     updateValues.push(updates.is_critical ? 1 : 0);
   }
+  if (updates.reminder_offsets !== undefined) {
+    updateFields.push("reminder_offsets = ?");
+    updateValues.push(serializeReminderOffsets(updates.reminder_offsets));
+  }
   
   updateFields.push("updated_at = ?");
   updateValues.push(new Date().toISOString());
-  updateValues.push(id);
-  updateValues.push(user.id);
+  updateValues.push(existing.id);
 
   await c.env.DB.prepare(
-    `UPDATE documents SET ${updateFields.join(", ")} WHERE id = ? AND user_id = ?`
+    `UPDATE documents SET ${updateFields.join(", ")} WHERE id = ?`
   )
     .bind(...updateValues)
     .run();
 
   // Log the activity
-  const documentTitle = existing[0].title;
   await c.env.DB.prepare(
     `INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at) 
      VALUES (?, 'document_updated', ?, ?, ?)`
   )
-    .bind(user.id, `Updated document "${documentTitle}"`, id, new Date().toISOString())
+    .bind(user.id, `Updated document "${existing.title}"`, existing.id, new Date().toISOString())
     .run();
 
   // Return updated document
-  const { results } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE id = ? AND user_id = ?"
-  )
-    .bind(id, user.id)
-    .all();
+  const documentService = new DocumentService(c.env.DB);
+  await documentService.refreshNextReminderDate(existing.id);
+  const document = await documentService.getAccessibleDocument(user.id, existing.id);
+
+  if (document) {
+    const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+    c.executionCtx.waitUntil(outboundWebhookService.emit('document.updated', document.organization_id, {
+      document: toWebhookDocument(document),
+      changed_fields: Object.keys(updates),
+    }));
+  }
 
-  return c.json(results[0]);
+  return c.json(document);
 });
 
-app.delete("/api/documents/:id", authMiddleware, async (c) => {
-  const user = c.get("user");
-  if (!user) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
-  const id = c.req.param("id");
-  
-  // Get document title before deletion for logging
-  const { results: docToDelete } = await c.env.DB.prepare(
-    "SELECT title FROM documents WHERE id = ? AND user_id = ?"
-  )
-    .bind(id, user.id)
-    .all();
-
-  if (docToDelete.length === 0) {
-    return c.json({ error: "Document not found" }, 404);
-  }
+app.delete("/api/documents/:id", authMiddleware, requireSecondFactor, requireDocumentAccess('delete'), async (c) => {
+  const user = c.get("user")!;
+  const docToDelete = c.get("document")!;
 
   const result = await c.env.DB.prepare(
-    "DELETE FROM documents WHERE id = ? AND user_id = ?"
+    "DELETE FROM documents WHERE id = ?"
   )
-    .bind(id, user.id)
+    .bind(docToDelete.id)
     .run();
 
   if (!result.success) {
     return c.json({ error: "Document not found" }, 404);
   }
 
-  // Also delete related reminders
+  // Also delete related reminders, shares and files
   await c.env.DB.prepare(
-    "DELETE FROM reminders WHERE document_id = ? AND user_id = ?"
+    "DELETE FROM reminders WHERE document_id = ?"
   )
-    .bind(id, user.id)
+    .bind(docToDelete.id)
     .run();
 
+  await c.env.DB.prepare(
+    "DELETE FROM team_members WHERE document_id = ?"
+  )
+    .bind(docToDelete.id)
+    .run();
+
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  await attachmentService.deleteAllForDocument(docToDelete.id);
+
   // Log the activity
   await c.env.DB.prepare(
     `INSERT INTO activity_logs (user_id, action_type, description, created_at) 
      VALUES (?, 'document_deleted', ?, ?)`
   )
-    .bind(user.id, `Deleted document "${docToDelete[0].title}"`, new Date().toISOString())
+    .bind(user.id, `Deleted document "${docToDelete.title}"`, new Date().toISOString())
     .run();
 
   return c.json({ success: true });
 });
 
-// Mark document as renewed
-app.post("/api/documents/:id/renew", authMiddleware, async (c) => {
+// Mark document as renewed and roll it into the next cycle
+app.post("/api/documents/:id/renew", authMiddleware, requireDocumentAccess('renew'), zValidator("json", RenewDocumentSchema), async (c) => {
+  const user = c.get("user")!;
+  const existing = c.get("document")!;
+  const renewal = c.req.valid("json");
+
+  // "In the future" is judged on the owner's calendar, as the renewal itself is
+  const profile = await c.env.DB.prepare("SELECT timezone FROM user_profiles WHERE user_id = ?")
+    .bind(existing.user_id)
+    .first<{ timezone: string | null }>();
+  const today = getLocalDate(new Date(), profile?.timezone);
+  if (renewal.new_expiration_date && renewal.new_expiration_date <= today) {
+    return c.json({ error: "New expiration date must be in the future" }, 400);
+  }
+
+  const documentService = new DocumentService(c.env.DB);
+  const document = await documentService.renewDocument(existing, renewal, {
+    userId: user.id,
+    source: 'web',
+    email: user.email,
+    name: user.google_user_data?.name,
+  });
+
+  // Renewing answers any escalation waiting on this document
+  const escalationService = new EscalationService(c.env, c.env.DB);
+  await escalationService.acknowledge(existing.id, 'renewal', user.google_user_data?.name || user.email);
+
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  c.executionCtx.waitUntil(outboundWebhookService.emit('document.renewed', document.organization_id, {
+    document: toWebhookDocument(document),
+    previous_expiration_date: existing.expiration_date,
+    renewed_via: 'web',
+  }));
+
+  return c.json(document);
+});
+
+// Escalation chain for critical documents
+app.get("/api/documents/:id/escalation", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const escalationService = new EscalationService(c.env, c.env.DB);
+  return c.json(await escalationService.getSettings(c.get("document")!));
+});
+
+app.put("/api/documents/:id/escalation", authMiddleware, requireDocumentAccess('edit'), zValidator("json", UpdateEscalationSchema), async (c) => {
+  const user = c.get("user")!;
+  const document = c.get("document")!;
+  const changes = c.req.valid("json");
+
+  const escalationService = new EscalationService(c.env, c.env.DB);
+  const unknownMember = await escalationService.findUnknownMember(document, changes.contacts);
+  if (unknownMember) {
+    return c.json({ error: `${unknownMember} isn't a member of this document or its workspace` }, 400);
+  }
+
+  const settings = await escalationService.updateSettings(document, changes, user.id);
+
+  return c.json(settings);
+});
+
+// Stops reminders (and any escalation) until the document is renewed or its expiry changes
+app.post("/api/documents/:id/acknowledge", authMiddleware, requireDocumentAccess('renew'), async (c) => {
+  const user = c.get("user")!;
+  const document = c.get("document")!;
+
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  await actionService.acknowledge(document, 'web', user.google_user_data?.name || user.email);
+
+  return c.json({ success: true });
+});
+
+app.post("/api/documents/:id/snooze", authMiddleware, requireDocumentAccess('renew'), zValidator("json", SnoozeRemindersSchema), async (c) => {
+  const user = c.get("user")!;
+  const document = c.get("document")!;
+  const { until } = c.req.valid("json");
+
+  // Reminders run on the owner's calendar, so "tomorrow" is theirs too
+  const profile = await c.env.DB.prepare("SELECT timezone FROM user_profiles WHERE user_id = ?")
+    .bind(document.user_id)
+    .first<{ timezone: string | null }>();
+  const today = getLocalDate(new Date(), profile?.timezone);
+  if (until <= today) {
+    return c.json({ error: "Snooze date must be in the future" }, 400);
+  }
+  if (daysBetween(today, until) > MAX_SNOOZE_DAYS) {
+    return c.json({ error: `Reminders can be snoozed for up to ${MAX_SNOOZE_DAYS} days` }, 400);
+  }
+
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  await actionService.snooze(document, until, 'web', user.google_user_data?.name || user.email);
+
+  return c.json({ success: true, snoozed_until: until });
+});
+
+// Undoes a snooze or an acknowledgement
+app.post("/api/documents/:id/resume-reminders", authMiddleware, requireDocumentAccess('renew'), async (c) => {
+  const user = c.get("user")!;
+
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  await actionService.resume(c.get("document")!, user.google_user_data?.name || user.email);
+
+  return c.json({ success: true });
+});
+
+// Acknowledge links emailed to backup contacts. GET only shows a confirm
+// button so link scanners can't acknowledge on someone's behalf.
+app.get("/api/escalations/acknowledge", async (c) => {
+  const escalationService = new EscalationService(c.env, c.env.DB);
+  if (!(await escalationService.verifyAcknowledgeLink(c.req.query()))) {
+    return c.html(renderLinkPage({
+      title: "Link expired",
+      message: "This acknowledge link is invalid or has expired.",
+    }), 400);
+  }
+
+  return c.html(renderLinkPage({
+    title: "Acknowledge reminder",
+    message: "Confirm you're taking care of this document. We'll stop escalating it to other backup contacts.",
+    confirmLabel: "I'm on it",
+  }));
+});
+
+app.post("/api/escalations/acknowledge", async (c) => {
+  const escalationService = new EscalationService(c.env, c.env.DB);
+  const result = await escalationService.acknowledgeFromLink(c.req.query());
+
+  switch (result.status) {
+    case 'acknowledged':
+      return c.html(renderLinkPage({
+        title: "Thanks!",
+        message: `You've acknowledged the reminder for "${result.documentTitle}".`,
+      }));
+    case 'already_closed':
+      return c.html(renderLinkPage({
+        title: "Already handled",
+        message: `The reminder for "${result.documentTitle}" has already been acknowledged or closed.`,
+      }));
+    case 'invalid':
+      return c.html(renderLinkPage({
+        title: "Link expired",
+        message: "This acknowledge link is invalid or has expired.",
+      }), 400);
+  }
+});
+
+const EXPIRED_REMINDER_LINK_PAGE = {
+  title: "Link expired",
+  message: "This reminder link is invalid or has expired.",
+};
+
+function renderReminderLinkResult(c: Context, result: LinkReminderActionResult) {
+  switch (result.status) {
+    case 'snoozed':
+      return c.html(renderLinkPage({
+        title: "Reminders snoozed",
+        message: `We won't remind you about "${result.documentTitle}" again until ${result.snoozedUntil}.`,
+      }));
+    case 'acknowledged':
+      return c.html(renderLinkPage({
+        title: "Thanks!",
+        message: `We'll stop reminding you about "${result.documentTitle}" until it's renewed.`,
+      }));
+    case 'already_closed':
+      return c.html(renderLinkPage({
+        title: "Already handled",
+        message: `"${result.documentTitle}" has been renewed or closed since this reminder was sent.`,
+      }));
+    case 'invalid':
+      return c.html(renderLinkPage(EXPIRED_REMINDER_LINK_PAGE), 400);
+  }
+}
+
+// Snooze and acknowledge links in reminder emails and texts. Like the
+// escalation links, GET only shows a confirm button.
+app.get(SNOOZE_LINK_PATH, async (c) => {
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  if (!(await actionService.verifyLink(SNOOZE_LINK_PATH, c.req.query()))) {
+    return c.html(renderLinkPage(EXPIRED_REMINDER_LINK_PAGE), 400);
+  }
+
+  return c.html(renderLinkPage({
+    title: "Snooze reminders",
+    message: `We'll stop reminding you about this document for ${c.req.query("days") || DEFAULT_SNOOZE_DAYS} days.`,
+    confirmLabel: "Snooze",
+  }));
+});
+
+app.post(SNOOZE_LINK_PATH, async (c) => {
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  const result = await actionService.performFromLink(SNOOZE_LINK_PATH, c.req.query());
+  return renderReminderLinkResult(c, result);
+});
+
+app.get(ACKNOWLEDGE_REMINDER_LINK_PATH, async (c) => {
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  if (!(await actionService.verifyLink(ACKNOWLEDGE_REMINDER_LINK_PATH, c.req.query()))) {
+    return c.html(renderLinkPage(EXPIRED_REMINDER_LINK_PAGE), 400);
+  }
+
+  return c.html(renderLinkPage({
+    title: "Stop reminders",
+    message: "Confirm you're taking care of this document. We'll stop reminding you until it's renewed.",
+    confirmLabel: "I'm on it",
+  }));
+});
+
+app.post(ACKNOWLEDGE_REMINDER_LINK_PATH, async (c) => {
+  const actionService = new ReminderActionService(c.env, c.env.DB);
+  const result = await actionService.performFromLink(ACKNOWLEDGE_REMINDER_LINK_PATH, c.req.query());
+  return renderReminderLinkResult(c, result);
+});
+
+// Get renewal history for a document
+app.get("/api/documents/:id/renewals", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const documentService = new DocumentService(c.env.DB);
+  const renewals = await documentService.getRenewals(c.get("document")!.id);
+
+  return c.json(renewals);
+});
+
+// Files attached to a document or one of its renewals
+app.get("/api/documents/:id/attachments", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  return c.json(await attachmentService.list(c.get("document")!.id));
+});
+
+app.post("/api/documents/:id/attachments", authMiddleware, requireDocumentAccess('edit'), async (c) => {
+  const user = c.get("user")!;
+  const document = c.get("document")!;
+
+  const form = await c.req.parseBody();
+  const file = form.file;
+  if (!(file instanceof File)) {
+    return c.json({ error: "Choose a file to upload" }, 400);
+  }
+
+  const renewalId = typeof form.renewal_id === 'string' && form.renewal_id ? Number(form.renewal_id) : null;
+  if (renewalId !== null && !Number.isInteger(renewalId)) {
+    return c.json({ error: "Invalid renewal" }, 400);
+  }
+
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  const error = await attachmentService.validate(document.id, file, renewalId);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  const attachment = await attachmentService.upload(document, file, renewalId, user.id);
+  return c.json(attachment, 201);
+});
+
+app.get("/api/documents/:id/attachments/:attachmentId", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  const download = await attachmentService.download(c.get("document")!.id, c.req.param("attachmentId"));
+
+  if (!download) {
+    return c.json({ error: "Attachment not found" }, 404);
+  }
+
+  const { attachment, body } = download;
+  return c.body(body, 200, {
+    "Content-Type": attachment.content_type,
+    "Content-Length": String(attachment.size_bytes),
+    "Content-Disposition": `${c.req.query("download") ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, no-store",
+  });
+});
+
+// Suggested details from an attached PDF, for the form to offer after an upload
+app.get("/api/documents/:id/attachments/:attachmentId/extraction", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  const extraction = await attachmentService.extractDetails(c.get("document")!.id, c.req.param("attachmentId"));
+
+  if (!extraction) {
+    return c.json({ error: "PDF attachment not found" }, 404);
+  }
+
+  return c.json(extraction);
+});
+
+app.delete("/api/documents/:id/attachments/:attachmentId", authMiddleware, requireDocumentAccess('edit'), async (c) => {
+  const user = c.get("user")!;
+
+  const attachmentService = new AttachmentService(c.env, c.env.DB);
+  const deleted = await attachmentService.delete(c.get("document")!, c.req.param("attachmentId"), user.id);
+
+  if (!deleted) {
+    return c.json({ error: "Attachment not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Document sharing routes
+app.get("/api/documents/:id/members", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const teamService = new TeamService(c.env, c.env.DB);
+  const members = await teamService.listMembers(c.get("document")!.id);
+
+  return c.json(members);
+});
+
+app.post("/api/documents/:id/members", authMiddleware, requireSecondFactor, requireDocumentAccess('share'), zValidator("json", InviteTeamMemberSchema), async (c) => {
+  const user = c.get("user")!;
+  const document = c.get("document")!;
+  const invite = c.req.valid("json");
+
+  if (invite.email.toLowerCase() === user.email.toLowerCase()) {
+    return c.json({ error: "You already have access to this document" }, 400);
+  }
+
+  const teamService = new TeamService(c.env, c.env.DB);
+  const existing = await teamService.findMemberByEmail(document.id, invite.email);
+  if (existing && existing.status !== 'declined') {
+    return c.json({ error: "This person has already been invited" }, 409);
+  }
+
+  const member = await teamService.invite(document, {
+    id: user.id,
+    email: user.email,
+    name: user.google_user_data?.name,
+  }, invite);
+
+  return c.json(member, 201);
+});
+
+app.delete("/api/documents/:id/members/:memberId", authMiddleware, requireSecondFactor, requireDocumentAccess('share'), async (c) => {
+  const user = c.get("user")!;
+
+  const teamService = new TeamService(c.env, c.env.DB);
+  const revoked = await teamService.revoke(c.get("document")!, c.req.param("memberId"), user.id);
+
+  if (!revoked) {
+    return c.json({ error: "Team member not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Invitations addressed to the current user
+app.get("/api/invitations", authMiddleware, async (c) => {
   const user = c.get("user");
   if (!user) {
     return c.json({ error: "Unauthorized" }, 401);
   }
-  const id = c.req.param("id");
-  
-  const now = new Date().toISOString();
-  const today = new Date().toISOString().split('T')[0];
-  
-  const result = await c.env.DB.prepare(
-    `UPDATE documents SET 
-      status = 'renewed', 
-      last_renewed_date = ?, 
-      updated_at = ? 
-     WHERE id = ? AND user_id = ?`
+
+  const teamService = new TeamService(c.env, c.env.DB);
+  const invitations = await teamService.listInvitations(user.email);
+
+  return c.json(invitations);
+});
+
+app.post("/api/invitations/:id/accept", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const teamService = new TeamService(c.env, c.env.DB);
+  const accepted = await teamService.respondToInvitation(c.req.param("id"), user, true);
+
+  if (!accepted) {
+    return c.json({ error: "Invitation not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+app.post("/api/invitations/:id/decline", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const teamService = new TeamService(c.env, c.env.DB);
+  const declined = await teamService.respondToInvitation(c.req.param("id"), user, false);
+
+  if (!declined) {
+    return c.json({ error: "Invitation not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Workspace routes
+app.get("/api/organizations", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const organizations = await organizationService.listForUser(user);
+
+  return c.json(organizations);
+});
+
+app.post("/api/organizations", authMiddleware, zValidator("json", CreateOrganizationSchema), async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const { name } = c.req.valid("json");
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const organization = await organizationService.create(user, name);
+
+  return c.json({ ...organization, role: 'owner', member_count: 1 }, 201);
+});
+
+app.put("/api/organizations/:orgId", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", CreateOrganizationSchema), async (c) => {
+  const organization = c.get("organization")!;
+  const { name } = c.req.valid("json");
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const renamed = await organizationService.rename(organization.id, name);
+
+  return c.json({ ...renamed, role: organization.role });
+});
+
+app.delete("/api/organizations/:orgId", authMiddleware, requireSecondFactor, requireOrganizationRole('owner'), async (c) => {
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const deleted = await organizationService.delete(c.get("organization")!.id);
+
+  if (!deleted) {
+    return c.json({ error: "Move or delete this workspace's documents first" }, 409);
+  }
+
+  return c.json({ success: true });
+});
+
+app.get("/api/organizations/:orgId/members", authMiddleware, requireOrganizationRole(), async (c) => {
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const members = await organizationService.listMembers(c.get("organization")!.id);
+
+  return c.json(members);
+});
+
+app.post("/api/organizations/:orgId/members", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), zValidator("json", InviteOrganizationMemberSchema), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+  const invite = c.req.valid("json");
+
+  if (invite.role === 'owner' && organization.role !== 'owner') {
+    return c.json({ error: "Only owners can invite other owners" }, 403);
+  }
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const existing = await organizationService.findMemberByEmail(organization.id, invite.email);
+  if (existing) {
+    return c.json({ error: "This person is already a member of the workspace" }, 409);
+  }
+
+  const member = await organizationService.inviteMember(organization, user, invite);
+
+  return c.json(member, 201);
+});
+
+app.put("/api/organizations/:orgId/members/:memberId", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), zValidator("json", UpdateOrganizationMemberSchema), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+  const { role } = c.req.valid("json");
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const member = await organizationService.getMember(organization.id, c.req.param("memberId"));
+
+  if (!member) {
+    return c.json({ error: "Member not found" }, 404);
+  }
+  if ((member.role === 'owner' || role === 'owner') && organization.role !== 'owner') {
+    return c.json({ error: "Only owners can change owner roles" }, 403);
+  }
+  if (member.role === 'owner' && role !== 'owner' && await organizationService.countOwners(organization.id) <= 1) {
+    return c.json({ error: "A workspace needs at least one owner" }, 400);
+  }
+
+  const updated = await organizationService.updateMemberRole(organization, member, role, user.id);
+
+  return c.json(updated);
+});
+
+app.delete("/api/organizations/:orgId/members/:memberId", authMiddleware, requireSecondFactor, requireOrganizationRole(), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+  const membership = c.get("membership")!;
+
+  const organizationService = new OrganizationService(c.env, c.env.DB);
+  const member = await organizationService.getMember(organization.id, c.req.param("memberId"));
+
+  if (!member) {
+    return c.json({ error: "Member not found" }, 404);
+  }
+
+  // Anyone may leave; owners and admins may remove others, but only owners remove owners
+  const isSelf = member.id === membership.id;
+  if (!isSelf && !['owner', 'admin'].includes(organization.role!)) {
+    return c.json({ error: "You don't have permission to manage this workspace" }, 403);
+  }
+  if (!isSelf && member.role === 'owner' && organization.role !== 'owner') {
+    return c.json({ error: "Only owners can remove other owners" }, 403);
+  }
+  if (member.role === 'owner' && member.status === 'active' && await organizationService.countOwners(organization.id) <= 1) {
+    return c.json({ error: "A workspace needs at least one owner" }, 400);
+  }
+
+  await organizationService.removeMember(organization, member, user.id);
+
+  return c.json({ success: true });
+});
+
+// Workspace reminder channel rules, used for members without rules of their own
+app.get("/api/organizations/:orgId/reminder-rules", authMiddleware, requireOrganizationRole(), async (c) => {
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  return c.json(await ruleService.list({ organizationId: c.get("organization")!.id }));
+});
+
+app.post("/api/organizations/:orgId/reminder-rules", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", CreateReminderChannelRuleSchema), async (c) => {
+  const user = c.get("user")!;
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  const rule = await ruleService.create({ organizationId: c.get("organization")!.id }, c.req.valid("json"), user.id);
+
+  return c.json(rule, 201);
+});
+
+app.put("/api/organizations/:orgId/reminder-rules/:ruleId", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", UpdateReminderChannelRuleSchema), async (c) => {
+  const scope = { organizationId: c.get("organization")!.id };
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  const existing = await ruleService.get(scope, c.req.param("ruleId"));
+  if (!existing) {
+    return c.json({ error: "Rule not found" }, 404);
+  }
+
+  return c.json(await ruleService.update(scope, existing, c.req.valid("json")));
+});
+
+app.delete("/api/organizations/:orgId/reminder-rules/:ruleId", authMiddleware, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  if (!(await ruleService.delete({ organizationId: c.get("organization")!.id }, c.req.param("ruleId")))) {
+    return c.json({ error: "Rule not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Workspace Slack and Teams webhooks, used for members without their own.
+// Only owners and admins see the URLs, since anyone holding one can post.
+app.get("/api/organizations/:orgId/chat-webhooks", authMiddleware, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const chatWebhookService = new ChatWebhookService(c.env.DB);
+  return c.json(await chatWebhookService.get({ organizationId: c.get("organization")!.id }));
+});
+
+app.put("/api/organizations/:orgId/chat-webhooks", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", ChatWebhooksSchema), async (c) => {
+  const user = c.get("user")!;
+
+  const chatWebhookService = new ChatWebhookService(c.env.DB);
+  return c.json(await chatWebhookService.update({ organizationId: c.get("organization")!.id }, c.req.valid("json"), user.id));
+});
+
+// Signed outbound webhooks for workspace events. The secret is only
+// returned when a subscription is created or its secret is rotated.
+app.get("/api/organizations/:orgId/webhooks", authMiddleware, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  return c.json(await outboundWebhookService.list(c.get("organization")!.id));
+});
+
+app.post("/api/organizations/:orgId/webhooks", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), zValidator("json", CreateWebhookSubscriptionSchema), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  const subscription = await outboundWebhookService.create(organization.id, c.req.valid("json"), user.id);
+
+  await c.env.DB.prepare(
+    `INSERT INTO activity_logs (user_id, action_type, description, created_at)
+     VALUES (?, 'webhook_created', ?, ?)`
+  )
+    .bind(user.id, `Added webhook ${subscription.url} to "${organization.name}"`, new Date().toISOString())
+    .run();
+
+  return c.json(subscription, 201);
+});
+
+app.put("/api/organizations/:orgId/webhooks/:webhookId", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), zValidator("json", UpdateWebhookSubscriptionSchema), async (c) => {
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  const existing = await outboundWebhookService.get(c.get("organization")!.id, c.req.param("webhookId"));
+  if (!existing) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+
+  return c.json(await outboundWebhookService.update(existing, c.req.valid("json")));
+});
+
+app.post("/api/organizations/:orgId/webhooks/:webhookId/rotate-secret", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  const existing = await outboundWebhookService.get(c.get("organization")!.id, c.req.param("webhookId"));
+  if (!existing) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+
+  return c.json(await outboundWebhookService.rotateSecret(existing));
+});
+
+app.delete("/api/organizations/:orgId/webhooks/:webhookId", authMiddleware, requireSecondFactor, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  if (!(await outboundWebhookService.delete(organization.id, c.req.param("webhookId")))) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+
+  await c.env.DB.prepare(
+    `INSERT INTO activity_logs (user_id, action_type, description, created_at)
+     VALUES (?, 'webhook_deleted', ?, ?)`
   )
-    .bind(today, now, id, user.id)
+    .bind(user.id, `Removed a webhook from "${organization.name}"`, new Date().toISOString())
     .run();
 
-  if (!result.success) {
-    return c.json({ error: "Document not found" }, 404);
+  return c.json({ success: true });
+});
+
+app.get("/api/organizations/:orgId/webhooks/:webhookId/deliveries", authMiddleware, requireOrganizationRole('owner', 'admin'), async (c) => {
+  const outboundWebhookService = new OutboundWebhookService(c.env.DB);
+  const subscription = await outboundWebhookService.get(c.get("organization")!.id, c.req.param("webhookId"));
+  if (!subscription) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+
+  return c.json(await outboundWebhookService.listDeliveries(subscription.id));
+});
+
+// Workspace wording for reminder messages, per template and locale
+app.get("/api/organizations/:orgId/notification-templates", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("query", NotificationTemplateQuerySchema), async (c) => {
+  const templateService = new NotificationTemplateService(c.env.DB);
+  return c.json(await templateService.list(c.get("organization")!.id, c.req.valid("query").locale));
+});
+
+app.put("/api/organizations/:orgId/notification-templates/:key", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", UpdateNotificationTemplateSchema), async (c) => {
+  const user = c.get("user")!;
+  const key = c.req.param("key");
+  if (!isNotificationTemplateKey(key)) {
+    return c.json({ error: "Template not found" }, 404);
+  }
+  const { locale, body } = c.req.valid("json");
+
+  const templateService = new NotificationTemplateService(c.env.DB);
+  const problem = templateService.validate(key, body);
+  if (problem) {
+    return c.json({ error: problem }, 400);
+  }
+
+  return c.json(await templateService.update(c.get("organization")!.id, key, locale, body, user.id));
+});
+
+app.delete("/api/organizations/:orgId/notification-templates/:key", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("query", NotificationTemplateQuerySchema), async (c) => {
+  const key = c.req.param("key");
+  if (!isNotificationTemplateKey(key)) {
+    return c.json({ error: "Template not found" }, 404);
   }
 
-  // Get updated document
-  const { results } = await c.env.DB.prepare(
-    "SELECT * FROM documents WHERE id = ? AND user_id = ?"
-  )
-    .bind(id, user.id)
-    .all();
+  const templateService = new NotificationTemplateService(c.env.DB);
+  return c.json(await templateService.reset(c.get("organization")!.id, key, c.req.valid("query").locale));
+});
 
-  // Log the activity
-  await c.env.DB.prepare(
-    `INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at) 
-     VALUES (?, 'document_renewed', ?, ?, ?)`
-  )
-    .bind(user.id, `Marked document "${results[0].title}" as renewed`, id, new Date().toISOString())
-    .run();
+// Renders a template (saved, or the draft in `body`) against one of the workspace's documents
+app.post("/api/organizations/:orgId/notification-templates/preview", authMiddleware, requireOrganizationRole('owner', 'admin'), zValidator("json", PreviewNotificationTemplateSchema), async (c) => {
+  const user = c.get("user")!;
+  const organization = c.get("organization")!;
+  const { key, locale, document_id, body } = c.req.valid("json");
 
-  return c.json(results[0]);
+  const documentService = new DocumentService(c.env.DB);
+  const document = await documentService.getAccessibleDocument(user.id, document_id);
+  if (!document || document.organization_id !== organization.id) {
+    return c.json({ error: "Document not found in this workspace" }, 404);
+  }
+
+  const profile = await c.env.DB.prepare("SELECT business_name, timezone FROM user_profiles WHERE user_id = ?")
+    .bind(document.user_id)
+    .first<{ business_name: string | null; timezone: string | null }>();
+
+  const templateService = new NotificationTemplateService(c.env.DB);
+  const templates = await templateService.getOverrides(organization.id, locale);
+  if (body) {
+    templates[key] = body;
+  }
+
+  const notificationService = new NotificationService(c.env);
+  const rendered = notificationService.renderTemplatePreview(key, {
+    to: '',
+    documentId: document.id,
+    documentTitle: document.title,
+    documentType: document.document_type,
+    expirationDate: document.expiration_date,
+    daysUntilExpiry: daysBetween(getLocalDate(new Date(), profile?.timezone), document.expiration_date),
+    isCritical: Boolean(document.is_critical),
+    businessName: profile?.business_name,
+    message: '',
+    locale,
+    templates,
+  });
+
+  return c.json({ key, locale, rendered });
 });
 
 // Get dashboard stats
@@ -357,44 +1252,25 @@ app.get("/api/dashboard", authMiddleware, async (c) => {
     return c.json({ error: "Unauthorized" }, 401);
   }
   
-  // Get total documents
-  const { results: totalDocs } = await c.env.DB.prepare(
-    "SELECT COUNT(*) as count FROM documents WHERE user_id = ?"
-  )
-    .bind(user.id)
-    .all();
+  // Count across every document the user can see, not just their own
+  const documentService = new DocumentService(c.env.DB);
+  const documents = await documentService.listAccessibleDocuments(user.id);
 
-  // Get critical documents
-  const { results: criticalDocs } = await c.env.DB.prepare(
-    "SELECT COUNT(*) as count FROM documents WHERE user_id = ? AND is_critical = 1"
-  )
+  // Count days on the user's own calendar
+  const profile = await c.env.DB.prepare("SELECT timezone FROM user_profiles WHERE user_id = ?")
     .bind(user.id)
-    .all();
+    .first<{ timezone: string | null }>();
+  const today = getLocalDate(new Date(), profile?.timezone);
 
   // Get expiring soon (next 30 days)
-  const thirtyDaysFromNow = new Date();
-  thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-  const expiringSoonDate = thirtyDaysFromNow.toISOString().split('T')[0];
-  
-  const { results: expiringSoon } = await c.env.DB.prepare(
-    "SELECT COUNT(*) as count FROM documents WHERE user_id = ? AND expiration_date <= ? AND status = 'active'"
-  )
-    .bind(user.id, expiringSoonDate)
-    .all();
-
-  // Get expired documents
-  const today = new Date().toISOString().split('T')[0];
-  const { results: expired } = await c.env.DB.prepare(
-    "SELECT COUNT(*) as count FROM documents WHERE user_id = ? AND expiration_date < ? AND status = 'active'"
-  )
-    .bind(user.id, today)
-    .all();
+  const expiringSoonDate = addDays(today, 30);
+  const active = documents.filter(d => d.status === 'active');
 
   return c.json({
-    totalDocuments: totalDocs[0].count,
-    criticalDocuments: criticalDocs[0].count,
-    expiringSoon: expiringSoon[0].count,
-    expired: expired[0].count,
+    totalDocuments: documents.length,
+    criticalDocuments: documents.filter(d => d.is_critical).length,
+    expiringSoon: active.filter(d => d.expiration_date <= expiringSoonDate).length,
+    expired: active.filter(d => d.expiration_date < today).length,
   });
 });
 
@@ -426,6 +1302,9 @@ app.get("/api/profile", authMiddleware, async (c) => {
       preferred_reminder_channel: 'whatsapp',
       reminder_frequency: '30_days',
       reminder_time_preference: 'morning',
+      locale: 'en',
+      digest_mode: 'off',
+      weekly_summary: false,
       two_factor_enabled: false,
     });
   }
@@ -442,6 +1321,18 @@ app.put("/api/profile", authMiddleware, async (c) => {
   const profileData = await c.req.json();
   const now = new Date().toISOString();
 
+  if (profileData.timezone && !isValidTimeZone(profileData.timezone)) {
+    return c.json({ error: "Unknown time zone" }, 400);
+  }
+
+  if (profileData.locale && !TEMPLATE_LOCALES.includes(profileData.locale)) {
+    return c.json({ error: "Unsupported language" }, 400);
+  }
+
+  if (profileData.digest_mode && !DIGEST_MODES.includes(profileData.digest_mode)) {
+    return c.json({ error: "Unknown digest mode" }, 400);
+  }
+
   // Check if profile exists
   const { results: existing } = await c.env.DB.prepare(
     "SELECT * FROM user_profiles WHERE user_id = ?"
@@ -449,14 +1340,18 @@ app.put("/api/profile", authMiddleware, async (c) => {
     .bind(user.id)
     .all();
 
+  const previous = existing[0] as { reminder_frequency: string | null; timezone: string | null } | undefined;
+  const reminderFrequency = profileData.reminder_frequency || '30_days';
+  const timezone = profileData.timezone || previous?.timezone || DEFAULT_TIME_ZONE;
+
   if (existing.length === 0) {
     // Create new profile
     await c.env.DB.prepare(
       `INSERT INTO user_profiles (
         user_id, phone_number, business_name, role, preferred_reminder_channel,
-        reminder_frequency, reminder_time_preference, two_factor_enabled, 
-        created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        reminder_frequency, reminder_time_preference, timezone, locale,
+        digest_mode, weekly_summary, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
       .bind(
         user.id,
@@ -464,20 +1359,35 @@ app.put("/api/profile", authMiddleware, async (c) => {
         profileData.business_name || null,
         profileData.role || null,
         profileData.preferred_reminder_channel || 'whatsapp',
-        profileData.reminder_frequency || '30_days',
+        reminderFrequency,
         profileData.reminder_time_preference || 'morning',
-        profileData.two_factor_enabled ? 1 : 0,
+        timezone,
+        profileData.locale || 'en',
+        profileData.digest_mode || 'off',
+        profileData.weekly_summary ? 1 : 0,
         now,
         now
       )
       .run();
   } else {
+    // A new phone number has to be verified again before it gets reminders
+    const current = existing[0] as {
+      phone_number: string | null;
+      whatsapp_verified: number;
+      locale: string | null;
+      digest_mode: string | null;
+      weekly_summary: number;
+    };
+    const notificationService = new NotificationService(c.env);
+    const phoneChanged = notificationService.formatPhoneNumber(current.phone_number || '')
+      !== notificationService.formatPhoneNumber(profileData.phone_number || '');
+
     // Update existing profile
     await c.env.DB.prepare(
       `UPDATE user_profiles SET 
         phone_number = ?, business_name = ?, role = ?, preferred_reminder_channel = ?,
-        reminder_frequency = ?, reminder_time_preference = ?, two_factor_enabled = ?, 
-        updated_at = ?
+        reminder_frequency = ?, reminder_time_preference = ?, timezone = ?, locale = ?,
+        digest_mode = ?, weekly_summary = ?, whatsapp_verified = ?, updated_at = ?
        WHERE user_id = ?`
     )
       .bind(
@@ -485,15 +1395,26 @@ app.put("/api/profile", authMiddleware, async (c) => {
         profileData.business_name || null,
         profileData.role || null,
         profileData.preferred_reminder_channel || 'whatsapp',
-        profileData.reminder_frequency || '30_days',
+        reminderFrequency,
         profileData.reminder_time_preference || 'morning',
-        profileData.two_factor_enabled ? 1 : 0,
+        timezone,
+        profileData.locale || current.locale || 'en',
+        profileData.digest_mode || current.digest_mode || 'off',
+        profileData.weekly_summary === undefined ? current.weekly_summary : (profileData.weekly_summary ? 1 : 0),
+        phoneChanged ? 0 : current.whatsapp_verified,
         now,
         user.id
       )
       .run();
   }
 
+  // Documents on the profile's schedule move with it
+  const timezoneChanged = timezone !== (previous?.timezone ?? DEFAULT_TIME_ZONE);
+  if (reminderFrequency !== previous?.reminder_frequency || timezoneChanged) {
+    const documentService = new DocumentService(c.env.DB);
+    await documentService.refreshOwnerReminderDates(user.id, timezoneChanged);
+  }
+
   // Log the activity
   await c.env.DB.prepare(
     `INSERT INTO activity_logs (user_id, action_type, description, created_at) 
@@ -505,6 +1426,254 @@ app.put("/api/profile", authMiddleware, async (c) => {
   return c.json({ success: true });
 });
 
+// Phone verification routes
+app.post("/api/profile/phone/send-otp", authMiddleware, zValidator("json", SendPhoneOtpSchema), async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const { phone_number } = c.req.valid("json");
+
+  const phoneVerificationService = new PhoneVerificationService(c.env, c.env.DB);
+  const result = await phoneVerificationService.sendOtp(user.id, phone_number);
+
+  switch (result.status) {
+    case 'sent':
+      return c.json(result);
+    case 'invalid_phone':
+      return c.json({ error: "Invalid phone number" }, 400);
+    case 'throttled':
+      c.header("Retry-After", String(result.retry_after_seconds));
+      return c.json({
+        error: `Please wait ${result.retry_after_seconds} seconds before requesting another code`,
+        retry_after_seconds: result.retry_after_seconds,
+      }, 429);
+    case 'failed':
+      return c.json({ error: "Failed to send verification code" }, 502);
+  }
+});
+
+app.post("/api/profile/phone/verify", authMiddleware, zValidator("json", VerifyPhoneOtpSchema), async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const { code } = c.req.valid("json");
+
+  const phoneVerificationService = new PhoneVerificationService(c.env, c.env.DB);
+  const result = await phoneVerificationService.verifyOtp(user.id, code);
+
+  switch (result.status) {
+    case 'verified':
+      return c.json({ success: true, phone_number: result.phone_number });
+    case 'invalid_code':
+      return c.json({
+        error: "Incorrect code",
+        attempts_remaining: result.attempts_remaining,
+      }, 400);
+    case 'expired':
+      return c.json({ error: "This code has expired. Request a new one." }, 410);
+    case 'too_many_attempts':
+      return c.json({ error: "Too many incorrect attempts. Request a new code." }, 429);
+    case 'not_found':
+      return c.json({ error: "No verification in progress. Request a code first." }, 404);
+  }
+});
+
+// Two-factor authentication settings. two_factor_enabled on the profile
+// reflects these and can't be changed through PUT /api/profile.
+app.get("/api/profile/two-factor", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  const status = await twoFactorService.getStatus(user.id, getCookie(c, MOCHA_SESSION_TOKEN_COOKIE_NAME));
+
+  return c.json(status);
+});
+
+app.post("/api/profile/two-factor/enroll", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  if (await twoFactorService.isEnabled(user.id)) {
+    return c.json({ error: "Two-factor authentication is already enabled" }, 409);
+  }
+
+  const enrollment = await twoFactorService.startEnrollment(user);
+
+  return c.json(enrollment);
+});
+
+app.post("/api/profile/two-factor/confirm", authMiddleware, zValidator("json", TwoFactorCodeSchema), async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  const { code } = c.req.valid("json");
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  const backupCodes = await twoFactorService.confirmEnrollment(
+    user.id,
+    code,
+    getCookie(c, MOCHA_SESSION_TOKEN_COOKIE_NAME)
+  );
+
+  if (!backupCodes) {
+    return c.json({ error: "Incorrect code. Check your authenticator app and try again." }, 400);
+  }
+
+  return c.json({ success: true, backup_codes: backupCodes });
+});
+
+app.post("/api/profile/two-factor/backup-codes", authMiddleware, requireSecondFactor, async (c) => {
+  const user = c.get("user")!;
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  if (!(await twoFactorService.isEnabled(user.id))) {
+    return c.json({ error: "Two-factor authentication is not enabled" }, 400);
+  }
+
+  const backupCodes = await twoFactorService.regenerateBackupCodes(user.id);
+
+  return c.json({ backup_codes: backupCodes });
+});
+
+app.post("/api/profile/two-factor/disable", authMiddleware, requireSecondFactor, zValidator("json", TwoFactorCodeSchema), async (c) => {
+  const user = c.get("user")!;
+  const { code } = c.req.valid("json");
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  const result = await twoFactorService.disable(user.id, code);
+
+  switch (result) {
+    case 'verified':
+      return c.json({ success: true });
+    case 'not_enabled':
+      return c.json({ error: "Two-factor authentication is not enabled" }, 400);
+    case 'locked':
+      return c.json({ error: "Too many incorrect codes. Try again in 15 minutes." }, 429);
+    case 'invalid':
+      return c.json({ error: "Incorrect code" }, 400);
+  }
+});
+
+// Reminder channel rules for the current user
+app.get("/api/profile/reminder-rules", authMiddleware, async (c) => {
+  const user = c.get("user")!;
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  return c.json(await ruleService.list({ userId: user.id }));
+});
+
+app.post("/api/profile/reminder-rules", authMiddleware, zValidator("json", CreateReminderChannelRuleSchema), async (c) => {
+  const user = c.get("user")!;
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  const rule = await ruleService.create({ userId: user.id }, c.req.valid("json"), user.id);
+
+  return c.json(rule, 201);
+});
+
+app.put("/api/profile/reminder-rules/:ruleId", authMiddleware, zValidator("json", UpdateReminderChannelRuleSchema), async (c) => {
+  const user = c.get("user")!;
+  const scope = { userId: user.id };
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  const existing = await ruleService.get(scope, c.req.param("ruleId"));
+  if (!existing) {
+    return c.json({ error: "Rule not found" }, 404);
+  }
+
+  return c.json(await ruleService.update(scope, existing, c.req.valid("json")));
+});
+
+app.delete("/api/profile/reminder-rules/:ruleId", authMiddleware, async (c) => {
+  const user = c.get("user")!;
+
+  const ruleService = new ReminderChannelRuleService(c.env.DB);
+  if (!(await ruleService.delete({ userId: user.id }, c.req.param("ruleId")))) {
+    return c.json({ error: "Rule not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Slack and Teams webhooks for the current user's reminders
+app.get("/api/profile/chat-webhooks", authMiddleware, async (c) => {
+  const user = c.get("user")!;
+
+  const chatWebhookService = new ChatWebhookService(c.env.DB);
+  return c.json(await chatWebhookService.get({ userId: user.id }));
+});
+
+app.put("/api/profile/chat-webhooks", authMiddleware, zValidator("json", ChatWebhooksSchema), async (c) => {
+  const user = c.get("user")!;
+
+  const chatWebhookService = new ChatWebhookService(c.env.DB);
+  return c.json(await chatWebhookService.update({ userId: user.id }, c.req.valid("json"), user.id));
+});
+
+// Calendar feed: a secret iCalendar URL of the user's expiry dates. Turning
+// it on or resetting the link is gated like other account-level secrets.
+app.get("/api/profile/calendar-feed", authMiddleware, async (c) => {
+  const user = c.get("user")!;
+
+  const calendarFeedService = new CalendarFeedService(c.env, c.env.DB);
+  return c.json(await calendarFeedService.getStatus(user.id));
+});
+
+app.post("/api/profile/calendar-feed", authMiddleware, requireSecondFactor, async (c) => {
+  const user = c.get("user")!;
+
+  const calendarFeedService = new CalendarFeedService(c.env, c.env.DB);
+  return c.json(await calendarFeedService.resetToken(user.id));
+});
+
+app.put("/api/profile/calendar-feed", authMiddleware, zValidator("json", UpdateCalendarFeedSchema), async (c) => {
+  const user = c.get("user")!;
+
+  const calendarFeedService = new CalendarFeedService(c.env, c.env.DB);
+  const feed = await calendarFeedService.update(user.id, c.req.valid("json"));
+  if (!feed) {
+    return c.json({ error: "Calendar feed is not turned on" }, 404);
+  }
+
+  return c.json(feed);
+});
+
+app.delete("/api/profile/calendar-feed", authMiddleware, async (c) => {
+  const user = c.get("user")!;
+
+  const calendarFeedService = new CalendarFeedService(c.env, c.env.DB);
+  if (!(await calendarFeedService.revoke(user.id))) {
+    return c.json({ error: "Calendar feed is not turned on" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// The feed itself, fetched by calendar apps with only the secret token
+app.get("/api/calendar/:token", async (c) => {
+  const calendarFeedService = new CalendarFeedService(c.env, c.env.DB);
+  const calendar = await calendarFeedService.render(c.req.param("token").replace(/\.ics$/, ""));
+
+  if (calendar === null) {
+    return c.text("Calendar not found", 404);
+  }
+
+  return c.body(calendar, 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": 'inline; filename="vaultdue.ics"',
+    "Cache-Control": "private, no-store",
+  });
+});
+
 // Activity logs route
 app.get("/api/activity-logs", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -522,17 +1691,12 @@ app.get("/api/activity-logs", authMiddleware, async (c) => {
 });
 
 // Send test reminder
-app.post("/api/documents/:id/test-reminder", authMiddleware, async (c) => {
-  const user = c.get("user");
-  if (!user) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
-  
-  const id = parseInt(c.req.param("id"));
+app.post("/api/documents/:id/test-reminder", authMiddleware, requireDocumentAccess('edit'), async (c) => {
+  const document = c.get("document")!;
   
   try {
     const reminderService = new ReminderService(c.env, c.env.DB);
-    const sent = await reminderService.sendTestReminder(user.id, id);
+    const sent = await reminderService.sendTestReminder(document.user_id, document.id);
     
     if (sent) {
       return c.json({ success: true, message: "Test reminder sent successfully" });
@@ -546,27 +1710,26 @@ app.post("/api/documents/:id/test-reminder", authMiddleware, async (c) => {
 });
 
 // Get reminder history for a document
-app.get("/api/documents/:id/reminders", authMiddleware, async (c) => {
-  const user = c.get("user");
-  if (!user) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
-  
-  const id = c.req.param("id");
-  
+app.get("/api/documents/:id/reminders", authMiddleware, requireDocumentAccess('view'), async (c) => {
   const { results } = await c.env.DB.prepare(
     `SELECT r.*, d.title as document_title 
      FROM reminders r
      JOIN documents d ON r.document_id = d.id
-     WHERE r.document_id = ? AND r.user_id = ? 
+     WHERE r.document_id = ? 
      ORDER BY r.reminder_date DESC LIMIT 50`
   )
-    .bind(id, user.id)
+    .bind(c.get("document")!.id)
     .all();
 
   return c.json(results);
 });
 
+// Per-channel delivery history for a document's reminders
+app.get("/api/documents/:id/deliveries", authMiddleware, requireDocumentAccess('view'), async (c) => {
+  const reminderService = new ReminderService(c.env, c.env.DB);
+  return c.json(await reminderService.listDeliveries(c.get("document")!.id));
+});
+
 // Get all reminders for user
 app.get("/api/reminders", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -575,7 +1738,8 @@ app.get("/api/reminders", authMiddleware, async (c) => {
   }
 
   const { results } = await c.env.DB.prepare(
-    `SELECT r.*, d.title as document_title, d.expiration_date, d.is_critical
+    `SELECT r.*, d.title as document_title, d.expiration_date, d.is_critical,
+            d.status as document_status, d.snoozed_until, d.acknowledged_at
      FROM reminders r
      JOIN documents d ON r.document_id = d.id
      WHERE r.user_id = ? 
@@ -587,8 +1751,116 @@ app.get("/api/reminders", authMiddleware, async (c) => {
   return c.json(results);
 });
 
+// Downloads of the document list, reminder history or activity log. Gated
+// behind the second factor like deletes and shares, since it hands over everything.
+app.get("/api/exports", authMiddleware, requireSecondFactor, zValidator("query", ExportQuerySchema), async (c) => {
+  const user = c.get("user")!;
+
+  const exportService = new ExportService(c.env.DB);
+  const file = await exportService.export(user, c.req.valid("query"));
+
+  return c.body(file.body, 200, {
+    "Content-Type": file.contentType,
+    "Content-Length": String(file.body.byteLength),
+    "Content-Disposition": `attachment; filename="${file.fileName}"`,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, no-store",
+  });
+});
+
+// WhatsApp webhook verification (Meta calls this when the webhook is registered)
+app.get("/api/webhooks/whatsapp", (c) => {
+  const webhookService = new WhatsAppWebhookService(c.env, c.env.DB);
+  const challenge = webhookService.verifySubscription(
+    c.req.query("hub.mode"),
+    c.req.query("hub.verify_token"),
+    c.req.query("hub.challenge")
+  );
+
+  if (challenge === null) {
+    return c.text("Forbidden", 403);
+  }
+
+  return c.text(challenge, 200);
+});
+
+// Inbound WhatsApp messages (replies to reminders) and delivery statuses
+app.post("/api/webhooks/whatsapp", async (c) => {
+  const webhookService = new WhatsAppWebhookService(c.env, c.env.DB);
+  const rawBody = await c.req.text();
+
+  const isValid = await webhookService.verifySignature(rawBody, c.req.header("X-Hub-Signature-256"));
+  if (!isValid) {
+    return c.json({ error: "Invalid signature" }, 401);
+  }
+
+  let payload: WhatsAppWebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return c.json({ error: "Invalid payload" }, 400);
+  }
+
+  // Acknowledge immediately; Meta retries webhooks that respond slowly
+  c.executionCtx.waitUntil(webhookService.handleWebhook(payload));
+
+  return c.json({ success: true }, 200);
+});
+
+// Twilio SMS status callbacks (the StatusCallback set on each reminder SMS)
+app.post("/api/webhooks/twilio/status", async (c) => {
+  const callbackService = new DeliveryCallbackService(c.env, c.env.DB);
+  const params = Object.fromEntries(new URLSearchParams(await c.req.text()));
+
+  const isValid = await callbackService.verifyTwilioSignature(c.req.url, params, c.req.header("X-Twilio-Signature"));
+  if (!isValid) {
+    return c.json({ error: "Invalid signature" }, 401);
+  }
+
+  await callbackService.handleTwilioStatus(params);
+
+  return c.json({ success: true }, 200);
+});
+
+// Resend email events (sent, delivered, opened, bounced)
+app.post("/api/webhooks/resend", async (c) => {
+  const callbackService = new DeliveryCallbackService(c.env, c.env.DB);
+  const rawBody = await c.req.text();
+
+  const isValid = await callbackService.verifyResendSignature(rawBody, {
+    id: c.req.header("svix-id"),
+    timestamp: c.req.header("svix-timestamp"),
+    signature: c.req.header("svix-signature"),
+  });
+  if (!isValid) {
+    return c.json({ error: "Invalid signature" }, 401);
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return c.json({ error: "Invalid payload" }, 400);
+  }
+
+  await callbackService.handleResendEvent(event);
+
+  return c.json({ success: true }, 200);
+});
+
+// Admin routes
+app.get("/api/admin/me", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const adminService = new AdminService(c.env, c.env.DB);
+  return c.json({ is_admin: await adminService.isAdmin(user) });
+});
+
 // Manual trigger for reminder processing (admin endpoint)
-app.post("/api/admin/process-reminders", async (c) => {
+app.post("/api/admin/process-reminders", authMiddleware, requireAdmin('reminders.process'), async (c) => {
   try {
     const reminderService = new ReminderService(c.env, c.env.DB);
     await reminderService.processReminders();
@@ -599,7 +1871,11 @@ app.post("/api/admin/process-reminders", async (c) => {
   }
 });
 
-
+// Messages written by the outbox notification provider (staging and local dev)
+app.get("/api/admin/outbox", authMiddleware, requireAdmin('outbox.list'), zValidator("query", OutboxQuerySchema), async (c) => {
+  const outbox = new OutboxProvider(c.env.DB);
+  return c.json(await outbox.listMessages(c.req.valid("query")));
+});
 
 // Feedback routes
 app.post("/api/feedback", authMiddleware, async (c) => {
@@ -649,18 +1925,130 @@ app.post("/api/feedback", authMiddleware, async (c) => {
   }
 });
 
-app.get("/api/admin/feedback", async (c) => {
+app.get("/api/admin/feedback", authMiddleware, requireAdmin('feedback.list'), zValidator("query", FeedbackQuerySchema), async (c) => {
   try {
-    const { results } = await c.env.DB.prepare(
-      `SELECT f.*, u.google_user_data 
-       FROM feedback f
-       LEFT JOIN users u ON f.user_id = u.id
-       ORDER BY f.created_at DESC LIMIT 100`
-    ).all();
-
-    return c.json(results);
+    const feedbackService = new FeedbackService(c.env, c.env.DB);
+    const page = await feedbackService.list(c.req.valid("query"));
+
+    return c.json(page);
   } catch (error) {
     console.error('Failed to fetch feedback:', error);
     return c.json({ error: "Failed to fetch feedback" }, 500);
   }
 });
+
+app.get("/api/admin/feedback/:id", authMiddleware, requireAdmin('feedback.view', 'feedback'), async (c) => {
+  const feedbackService = new FeedbackService(c.env, c.env.DB);
+  const feedback = await feedbackService.get(c.req.param("id"));
+
+  if (!feedback) {
+    return c.json({ error: "Feedback not found" }, 404);
+  }
+
+  const notes = await feedbackService.listNotes(feedback.id);
+
+  return c.json({ ...feedback, notes });
+});
+
+app.put("/api/admin/feedback/:id", authMiddleware, requireAdmin('feedback.update_status', 'feedback'), zValidator("json", UpdateFeedbackSchema), async (c) => {
+  const { status } = c.req.valid("json");
+
+  const feedbackService = new FeedbackService(c.env, c.env.DB);
+  const feedback = await feedbackService.get(c.req.param("id"));
+
+  if (!feedback) {
+    return c.json({ error: "Feedback not found" }, 404);
+  }
+
+  const updated = await feedbackService.updateStatus(feedback, status);
+
+  return c.json(updated);
+});
+
+app.post("/api/admin/feedback/:id/notes", authMiddleware, requireAdmin('feedback.add_note', 'feedback'), zValidator("json", CreateFeedbackNoteSchema), async (c) => {
+  const user = c.get("user")!;
+  const { body } = c.req.valid("json");
+
+  const feedbackService = new FeedbackService(c.env, c.env.DB);
+  const feedback = await feedbackService.get(c.req.param("id"));
+
+  if (!feedback) {
+    return c.json({ error: "Feedback not found" }, 404);
+  }
+
+  const note = await feedbackService.addNote(feedback, user, body);
+
+  return c.json(note, 201);
+});
+
+app.post("/api/admin/feedback/:id/reply", authMiddleware, requireAdmin('feedback.reply', 'feedback'), zValidator("json", FeedbackReplySchema), async (c) => {
+  const user = c.get("user")!;
+  const reply = c.req.valid("json");
+
+  const feedbackService = new FeedbackService(c.env, c.env.DB);
+  const feedback = await feedbackService.get(c.req.param("id"));
+
+  if (!feedback) {
+    return c.json({ error: "Feedback not found" }, 404);
+  }
+  if (!feedback.user_email) {
+    return c.json({ error: "This feedback has no email address to reply to" }, 400);
+  }
+
+  const note = await feedbackService.reply(feedback, user, reply);
+
+  if (!note) {
+    return c.json({ error: "Failed to send reply" }, 502);
+  }
+
+  return c.json(note, 201);
+});
+
+app.get("/api/admin/audit-logs", authMiddleware, requireAdmin('audit_logs.list'), async (c) => {
+  const limit = Math.min(parseInt(c.req.query("limit") || "100") || 100, 500);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+
+  const adminService = new AdminService(c.env, c.env.DB);
+  const logs = await adminService.listAuditLogs(limit, offset);
+
+  return c.json(logs);
+});
+
+app.get("/api/admin/users", authMiddleware, requireAdmin('admin_users.list'), async (c) => {
+  const adminService = new AdminService(c.env, c.env.DB);
+  const admins = await adminService.listAdmins();
+
+  return c.json(admins);
+});
+
+app.post("/api/admin/users", authMiddleware, requireAdmin('admin_users.grant'), zValidator("json", GrantAdminSchema), async (c) => {
+  const user = c.get("user")!;
+  const { email } = c.req.valid("json");
+
+  const adminService = new AdminService(c.env, c.env.DB);
+  if (adminService.isAllowlisted(email) || await adminService.findAdminByEmail(email)) {
+    return c.json({ error: "This person is already an admin" }, 409);
+  }
+
+  const admin = await adminService.grantAdmin(email, user);
+
+  return c.json(admin, 201);
+});
+
+app.delete("/api/admin/users/:id", authMiddleware, requireAdmin('admin_users.revoke', 'admin_user'), async (c) => {
+  const user = c.get("user")!;
+
+  const adminService = new AdminService(c.env, c.env.DB);
+  const admin = await adminService.findAdmin(c.req.param("id"));
+
+  if (!admin) {
+    return c.json({ error: "Admin not found" }, 404);
+  }
+  if (admin.email === user.email.toLowerCase()) {
+    return c.json({ error: "You can't revoke your own admin access" }, 400);
+  }
+
+  await adminService.revokeAdmin(admin.id);
+
+  return c.json({ success: true });
+});
@@ -0,0 +1,75 @@
+import { createMiddleware } from "hono/factory";
+import {
+  canPerformDocumentAction,
+  Document,
+  DocumentAction,
+  Organization,
+  OrganizationMember,
+  OrganizationRole,
+} from "@/shared/types";
+import { DocumentService } from "../services/documentService";
+import { OrganizationService } from "../services/organizationService";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    document?: Document;
+    organization?: Organization;
+    membership?: OrganizationMember;
+  }
+}
+
+/**
+ * Loads the document named by the `:id` route param and checks the current
+ * user's role allows `action`. Must run after authMiddleware.
+ */
+export function requireDocumentAccess(action: DocumentAction) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const user = c.get("user");
+    if (!user) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const documentService = new DocumentService(c.env.DB);
+    const document = await documentService.getAccessibleDocument(user.id, c.req.param("id") ?? "");
+
+    if (!document) {
+      return c.json({ error: "Document not found" }, 404);
+    }
+    if (!canPerformDocumentAction(document.access_role, action)) {
+      return c.json({ error: `You don't have permission to ${action} this document` }, 403);
+    }
+
+    c.set("document", document);
+    await next();
+  });
+}
+
+/**
+ * Loads the workspace named by the `:orgId` route param and checks the
+ * current user is an active member with one of `roles` (any role if omitted).
+ * Must run after authMiddleware.
+ */
+export function requireOrganizationRole(...roles: OrganizationRole[]) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const user = c.get("user");
+    if (!user) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const organizationId = c.req.param("orgId") ?? "";
+    const organizationService = new OrganizationService(c.env, c.env.DB);
+    const membership = await organizationService.getMembership(organizationId, user.id);
+    const organization = membership && await organizationService.getOrganization(organizationId);
+
+    if (!membership || !organization) {
+      return c.json({ error: "Workspace not found" }, 404);
+    }
+    if (roles.length > 0 && !roles.includes(membership.role)) {
+      return c.json({ error: "You don't have permission to manage this workspace" }, 403);
+    }
+
+    c.set("organization", { ...organization, role: membership.role });
+    c.set("membership", membership);
+    await next();
+  });
+}
@@ -0,0 +1,31 @@
+import { createMiddleware } from "hono/factory";
+import { AdminService } from "../services/adminService";
+
+/**
+ * Restricts a route to admins and writes an admin_audit_logs entry for every
+ * request that gets through, named `action`. The `:id` route param, if any,
+ * is recorded as the target. Must run after authMiddleware.
+ */
+export function requireAdmin(action: string, targetType?: string) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const user = c.get("user");
+    if (!user) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const adminService = new AdminService(c.env, c.env.DB);
+    if (!(await adminService.isAdmin(user))) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+
+    await next();
+
+    await adminService.recordAudit(
+      { id: user.id, email: user.email },
+      action,
+      targetType ? { type: targetType, id: c.req.param("id") } : null,
+      { method: c.req.method, path: c.req.path, status: c.res.status },
+      c.req.header("CF-Connecting-IP")
+    );
+  });
+}
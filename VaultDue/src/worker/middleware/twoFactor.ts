@@ -0,0 +1,26 @@
+import { createMiddleware } from "hono/factory";
+import { getCookie } from "hono/cookie";
+import { MOCHA_SESSION_TOKEN_COOKIE_NAME } from "@getmocha/users-service/backend";
+import { TwoFactorService } from "../services/twoFactorService";
+
+/**
+ * For users with two-factor authentication on, refuses the request until the
+ * current session has passed the second-factor challenge. Users without 2FA
+ * pass straight through. Must run after authMiddleware.
+ */
+export const requireSecondFactor = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const twoFactorService = new TwoFactorService(c.env.DB);
+  if (await twoFactorService.isEnabled(user.id)) {
+    const sessionToken = getCookie(c, MOCHA_SESSION_TOKEN_COOKIE_NAME);
+    if (!(await twoFactorService.isSessionVerified(user.id, sessionToken))) {
+      return c.json({ error: "Two-factor verification required", two_factor_required: true }, 403);
+    }
+  }
+
+  await next();
+});
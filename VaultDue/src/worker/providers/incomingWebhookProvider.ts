@@ -0,0 +1,40 @@
+import type { NotificationProvider, OutboundMessage } from './types';
+
+/**
+ * Posts Slack Block Kit messages and Teams Adaptive Cards to the incoming
+ * webhook URL a user or workspace configured. Webhooks don't return a message
+ * id, so a successful post is recorded as sent without one.
+ */
+export class IncomingWebhookProvider implements NotificationProvider {
+  readonly name = 'webhook';
+  readonly channels = ['slack', 'teams'] as const;
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    if (message.channel !== 'slack' && message.channel !== 'teams') {
+      return null;
+    }
+
+    try {
+      console.log(`Posting ${message.channel} reminder to webhook`);
+
+      const response = await fetch(message.to, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(message.payload),
+      });
+
+      if (!response.ok) {
+        console.error(`${message.channel} webhook error:`, response.status, await response.text());
+        return null;
+      }
+
+      console.log(`${message.channel} reminder posted successfully`);
+      return '';
+    } catch (error) {
+      console.error(`Failed to post ${message.channel} notification:`, error);
+      return null;
+    }
+  }
+}
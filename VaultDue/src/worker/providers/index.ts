@@ -0,0 +1,77 @@
+import type { ReminderChannel } from '@/shared/types';
+import type { NotificationProvider } from './types';
+import { IncomingWebhookProvider } from './incomingWebhookProvider';
+import { MetaWhatsAppProvider } from './metaWhatsAppProvider';
+import { OutboxProvider } from './outboxProvider';
+import { ResendEmailProvider } from './resendEmailProvider';
+import { TwilioSmsProvider } from './twilioSmsProvider';
+
+export type {
+  NotificationProvider,
+  OutboundMessage,
+  EmailMessage,
+  WhatsAppMessage,
+  SmsMessage,
+  ChatMessage,
+} from './types';
+export { OutboxProvider } from './outboxProvider';
+
+export type NotificationProviders = Record<ReminderChannel, NotificationProvider>;
+
+const PROVIDER_FACTORIES: Record<string, (env: Env) => NotificationProvider> = {
+  resend: (env) => new ResendEmailProvider(env),
+  meta: (env) => new MetaWhatsAppProvider(env),
+  twilio: (env) => new TwilioSmsProvider(env),
+  webhook: () => new IncomingWebhookProvider(),
+  outbox: (env) => new OutboxProvider(env.DB),
+};
+
+const DEFAULT_PROVIDERS: Record<ReminderChannel, string> = {
+  email: 'resend',
+  whatsapp: 'meta',
+  sms: 'twilio',
+  slack: 'webhook',
+  teams: 'webhook',
+};
+
+/**
+ * Picks a provider for each channel from NOTIFICATION_PROVIDERS: either a
+ * single provider name for every channel that supports it ("outbox"), or
+ * per-channel choices ("email=outbox,sms=twilio"). Channels left out, or
+ * set to a provider that can't serve them, use the live defaults.
+ */
+export function resolveNotificationProviders(env: Env): NotificationProviders {
+  const config = (env.NOTIFICATION_PROVIDERS || '').trim();
+  const choices: Partial<Record<ReminderChannel, string>> = {};
+
+  for (const entry of config.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [key, value] = entry.includes('=') ? entry.split('=').map((part) => part.trim()) : ['*', entry];
+    for (const channel of Object.keys(DEFAULT_PROVIDERS) as ReminderChannel[]) {
+      if (key === '*' || key === channel) {
+        choices[channel] = value;
+      }
+    }
+  }
+
+  const instances = new Map<string, NotificationProvider>();
+  const build = (name: string) => {
+    if (!instances.has(name)) {
+      instances.set(name, PROVIDER_FACTORIES[name](env));
+    }
+    return instances.get(name)!;
+  };
+
+  const providers = {} as NotificationProviders;
+  for (const channel of Object.keys(DEFAULT_PROVIDERS) as ReminderChannel[]) {
+    const choice = choices[channel];
+    const chosen = choice && PROVIDER_FACTORIES[choice] ? build(choice) : null;
+
+    if (choice && !chosen?.channels.includes(channel)) {
+      console.warn(`Notification provider "${choice}" can't send ${channel}, using ${DEFAULT_PROVIDERS[channel]}`);
+    }
+
+    providers[channel] = chosen?.channels.includes(channel) ? chosen : build(DEFAULT_PROVIDERS[channel]);
+  }
+
+  return providers;
+}
@@ -0,0 +1,85 @@
+import type { NotificationProvider, OutboundMessage, WhatsAppMessage } from './types';
+
+const GRAPH_API_VERSION = 'v19.0';
+
+export class MetaWhatsAppProvider implements NotificationProvider {
+  readonly name = 'meta';
+  readonly channels = ['whatsapp'] as const;
+
+  constructor(private env: Env) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    if (message.channel !== 'whatsapp') {
+      return null;
+    }
+
+    try {
+      if (!this.env.WHATSAPP_ACCESS_TOKEN || !this.env.WHATSAPP_PHONE_NUMBER_ID) {
+        console.error('WhatsApp credentials not configured');
+        return null;
+      }
+
+      const whatsappPayload = {
+        messaging_product: "whatsapp",
+        to: message.to,
+        ...this.buildContent(message),
+      };
+
+      console.log(`Sending WhatsApp message to: ${message.to}`);
+      
+      const response = await fetch(
+        `https://graph.facebook.com/${GRAPH_API_VERSION}/${this.env.WHATSAPP_PHONE_NUMBER_ID}/messages`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.env.WHATSAPP_ACCESS_TOKEN}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(whatsappPayload),
+        }
+      );
+
+      const responseData = await response.json() as { messages?: { id: string }[] };
+      
+      if (!response.ok) {
+        console.error('WhatsApp API error:', responseData);
+        return null;
+      }
+
+      console.log('WhatsApp message sent successfully');
+      return responseData.messages?.[0]?.id ?? '';
+    } catch (error) {
+      console.error('Failed to send WhatsApp notification:', error);
+      return null;
+    }
+  }
+
+  private buildContent(message: WhatsAppMessage): Record<string, unknown> {
+    if (!message.template) {
+      return {
+        type: "text",
+        text: { 
+          body: message.text 
+        }
+      };
+    }
+
+    const { name, language, bodyParameters, urlButtonParameter } = message.template;
+    const components: Record<string, unknown>[] = [
+      { type: "body", parameters: bodyParameters.map((text) => ({ type: "text", text })) },
+    ];
+    if (urlButtonParameter !== undefined) {
+      components.push({
+        type: "button",
+        sub_type: "url",
+        index: "0",
+        parameters: [{ type: "text", text: urlButtonParameter }],
+      });
+    }
+
+    return {
+      type: "template",
+      template: { name, language: { code: language }, components },
+    };
+  }
+}
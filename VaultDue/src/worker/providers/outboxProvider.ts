@@ -0,0 +1,64 @@
+import type { OutboxMessage, OutboxQuery } from '@/shared/types';
+import type { NotificationProvider, OutboundMessage } from './types';
+
+/**
+ * Writes messages to the notification_outbox table instead of sending them,
+ * so staging and local dev can run the whole reminder pipeline without
+ * provider credentials and tests can check exactly what would have gone out.
+ */
+export class OutboxProvider implements NotificationProvider {
+  readonly name = 'outbox';
+  readonly channels = ['email', 'whatsapp', 'sms', 'slack', 'teams'] as const;
+
+  constructor(private db: D1Database) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const messageId = `outbox_${crypto.randomUUID()}`;
+
+    try {
+      await this.db.prepare(`
+        INSERT INTO notification_outbox (message_id, channel, recipient, subject, body, template_name, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        messageId,
+        message.channel,
+        message.to,
+        message.channel === 'email' ? message.subject : null,
+        this.getBody(message),
+        message.channel === 'whatsapp' ? message.template?.name ?? null : null,
+        new Date().toISOString()
+      ).run();
+    } catch (error) {
+      console.error('Failed to write message to the outbox:', error);
+      return null;
+    }
+
+    console.log(`Wrote ${message.channel} message for ${message.to} to the outbox`);
+    return messageId;
+  }
+
+  async listMessages(query: OutboxQuery): Promise<OutboxMessage[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM notification_outbox
+      WHERE (?1 IS NULL OR recipient = ?1) AND (?2 IS NULL OR channel = ?2)
+      ORDER BY id DESC
+      LIMIT ?3
+    `).bind(query.recipient ?? null, query.channel ?? null, query.limit).all<OutboxMessage>();
+
+    return results;
+  }
+
+  private getBody(message: OutboundMessage): string {
+    switch (message.channel) {
+      case 'email':
+        return message.html;
+      case 'whatsapp':
+        return message.text;
+      case 'sms':
+        return message.body;
+      case 'slack':
+      case 'teams':
+        return JSON.stringify(message.payload);
+    }
+  }
+}
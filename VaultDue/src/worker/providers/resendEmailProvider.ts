@@ -0,0 +1,52 @@
+import type { NotificationProvider, OutboundMessage } from './types';
+
+const FROM_ADDRESS = 'VaultDue Reminders <reminders@vaultdue.com>';
+
+export class ResendEmailProvider implements NotificationProvider {
+  readonly name = 'resend';
+  readonly channels = ['email'] as const;
+
+  constructor(private env: Env) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    if (message.channel !== 'email') {
+      return null;
+    }
+
+    try {
+      if (!this.env.RESEND_API_KEY) {
+        console.error('Resend API key not configured');
+        return null;
+      }
+
+      console.log(`Sending email to: ${message.to}`);
+      
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.env.RESEND_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: FROM_ADDRESS,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+        }),
+      });
+
+      const responseData = await response.json() as { id?: string };
+      
+      if (!response.ok) {
+        console.error('Email API error:', responseData);
+        return null;
+      }
+
+      console.log('Email sent successfully');
+      return responseData.id ?? '';
+    } catch (error) {
+      console.error('Failed to send email notification:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type { NotificationProvider, OutboundMessage } from './types';
+import { getAppUrl } from '../utils/signedLinks';
+
+// Twilio posts SMS status changes here (see DeliveryCallbackService)
+export const TWILIO_STATUS_CALLBACK_PATH = '/api/webhooks/twilio/status';
+
+export class TwilioSmsProvider implements NotificationProvider {
+  readonly name = 'twilio';
+  readonly channels = ['sms'] as const;
+
+  constructor(private env: Env) {}
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    if (message.channel !== 'sms') {
+      return null;
+    }
+
+    try {
+      if (!this.env.TWILIO_ACCOUNT_SID || !this.env.TWILIO_AUTH_TOKEN || !this.env.TWILIO_PHONE_NUMBER) {
+        console.error('Twilio SMS credentials not configured');
+        return null;
+      }
+
+      const auth = btoa(`${this.env.TWILIO_ACCOUNT_SID}:${this.env.TWILIO_AUTH_TOKEN}`);
+      
+      console.log(`Sending SMS reminder to: ${message.to}`);
+      
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.env.TWILIO_ACCOUNT_SID}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${auth}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            From: this.env.TWILIO_PHONE_NUMBER,
+            To: `+${message.to}`,
+            Body: message.body,
+            StatusCallback: `${getAppUrl(this.env)}${TWILIO_STATUS_CALLBACK_PATH}`,
+          }),
+        }
+      );
+
+      const responseData = await response.json() as { sid?: string };
+      
+      if (!response.ok) {
+        console.error('SMS API error:', responseData);
+        return null;
+      }
+
+      console.log('SMS reminder sent successfully');
+      return responseData.sid ?? '';
+    } catch (error) {
+      console.error('Failed to send SMS notification:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { ReminderChannel } from '@/shared/types';
+
+export interface EmailMessage {
+  channel: 'email';
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface WhatsAppMessage {
+  channel: 'whatsapp';
+  to: string; // Digits only, with country code
+  text: string;
+  // Approved template to send instead of free-form text, which Meta only
+  // delivers inside the 24 hour customer service window
+  template?: {
+    name: string;
+    language: string;
+    bodyParameters: string[];
+    urlButtonParameter?: string;
+  };
+}
+
+export interface SmsMessage {
+  channel: 'sms';
+  to: string; // Digits only, with country code
+  body: string;
+}
+
+export interface ChatMessage {
+  channel: 'slack' | 'teams';
+  to: string; // Incoming webhook URL
+  text: string; // Plain-text fallback
+  payload: Record<string, unknown>; // Block Kit message or Adaptive Card attachment
+}
+
+export type OutboundMessage = EmailMessage | WhatsAppMessage | SmsMessage | ChatMessage;
+
+/**
+ * Sends messages for one or more channels. `send` returns the provider's
+ * message id (an empty string if it didn't give one), or null when the
+ * message could not be sent. Providers log their own failures.
+ */
+export interface NotificationProvider {
+  readonly name: string;
+  readonly channels: readonly ReminderChannel[];
+  send(message: OutboundMessage): Promise<string | null>;
+}
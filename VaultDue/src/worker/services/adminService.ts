@@ -0,0 +1,128 @@
+import type { AdminAuditLog, AdminUser } from '@/shared/types';
+
+export interface AdminActor {
+  id: string;
+  email: string;
+}
+
+// What an audit entry refers to, e.g. { type: 'feedback', id: 12 }
+export interface AuditTarget {
+  type: string;
+  id?: number | string | null;
+}
+
+export class AdminService {
+  constructor(private env: Env, private db: D1Database) {}
+
+  /**
+   * A user is an admin if their email is in the ADMIN_EMAILS allowlist or has
+   * a row in admin_users. The allowlist bootstraps the first admins; the
+   * table holds admins granted from the API.
+   */
+  async isAdmin(user: AdminActor): Promise<boolean> {
+    const email = user.email.toLowerCase();
+
+    if (this.getAllowlist().includes(email)) {
+      return true;
+    }
+
+    const admin = await this.db.prepare(
+      "SELECT id, user_id FROM admin_users WHERE email = ?"
+    ).bind(email).first<{ id: number; user_id: string | null }>();
+
+    if (!admin) {
+      return false;
+    }
+
+    // Link the row to the account the first time the admin signs in
+    if (!admin.user_id) {
+      await this.db.prepare(
+        "UPDATE admin_users SET user_id = ?, updated_at = ? WHERE id = ?"
+      ).bind(user.id, new Date().toISOString(), admin.id).run();
+    }
+
+    return true;
+  }
+
+  isAllowlisted(email: string): boolean {
+    return this.getAllowlist().includes(email.toLowerCase());
+  }
+
+  async listAdmins(): Promise<AdminUser[]> {
+    const { results } = await this.db.prepare(
+      "SELECT * FROM admin_users ORDER BY created_at ASC"
+    ).all<AdminUser>();
+
+    return results;
+  }
+
+  async findAdmin(id: number | string): Promise<AdminUser | null> {
+    return await this.db.prepare("SELECT * FROM admin_users WHERE id = ?")
+      .bind(id)
+      .first<AdminUser>();
+  }
+
+  async findAdminByEmail(email: string): Promise<AdminUser | null> {
+    return await this.db.prepare("SELECT * FROM admin_users WHERE email = ?")
+      .bind(email.toLowerCase())
+      .first<AdminUser>();
+  }
+
+  async grantAdmin(email: string, grantedBy: AdminActor): Promise<AdminUser> {
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO admin_users (email, user_id, granted_by, created_at, updated_at)
+      VALUES (?, NULL, ?, ?, ?)
+    `).bind(email.toLowerCase(), grantedBy.email, now, now).run();
+
+    return (await this.findAdminByEmail(email))!;
+  }
+
+  async revokeAdmin(id: number): Promise<void> {
+    await this.db.prepare("DELETE FROM admin_users WHERE id = ?").bind(id).run();
+  }
+
+  async recordAudit(
+    admin: AdminActor,
+    action: string,
+    target?: AuditTarget | null,
+    details?: Record<string, unknown> | null,
+    ipAddress?: string | null
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO admin_audit_logs (
+        admin_user_id, admin_email, action, target_type, target_id, details, ip_address, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      admin.id,
+      admin.email,
+      action,
+      target?.type ?? null,
+      target?.id != null ? String(target.id) : null,
+      details ? JSON.stringify(details) : null,
+      ipAddress ?? null,
+      now,
+      now
+    ).run();
+  }
+
+  async listAuditLogs(limit: number = 100, offset: number = 0): Promise<AdminAuditLog[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM admin_audit_logs
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).bind(limit, offset).all<AdminAuditLog>();
+
+    return results;
+  }
+
+  private getAllowlist(): string[] {
+    return (this.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  ATTACHMENT_MAX_BYTES,
+  type Document,
+  type DocumentAttachment,
+  type DocumentExtraction,
+} from '@/shared/types';
+import { extractDocumentDetails } from '../utils/documentExtraction';
+
+const ATTACHMENT_COLUMNS = `id, document_id, renewal_id, user_id, file_name, content_type, size_bytes, created_at, updated_at`;
+
+export interface AttachmentDownload {
+  attachment: DocumentAttachment;
+  body: ReadableStream;
+}
+
+/**
+ * Stores the files behind a document (the PDF or scan itself, and the
+ * paperwork from each renewal) in the ATTACHMENTS R2 bucket, with a
+ * document_attachments row per file. Callers check document access first.
+ */
+export class AttachmentService {
+  constructor(private env: Env, private db: D1Database) {}
+
+  async list(documentId: number): Promise<DocumentAttachment[]> {
+    const { results } = await this.db.prepare(`
+      SELECT ${ATTACHMENT_COLUMNS} FROM document_attachments
+      WHERE document_id = ?
+      ORDER BY created_at DESC, id DESC
+    `).bind(documentId).all<DocumentAttachment>();
+
+    return results;
+  }
+
+  async get(documentId: number, attachmentId: number | string): Promise<DocumentAttachment | null> {
+    return this.db.prepare(`
+      SELECT ${ATTACHMENT_COLUMNS} FROM document_attachments
+      WHERE id = ? AND document_id = ?
+    `).bind(attachmentId, documentId).first<DocumentAttachment>();
+  }
+
+  // Why a file can't be attached, or null if it can
+  async validate(documentId: number, file: File, renewalId: number | null): Promise<string | null> {
+    if (!(ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+      return 'Only PDF and image files (JPEG, PNG, WebP, HEIC) can be attached';
+    }
+    if (file.size === 0) {
+      return 'The file is empty';
+    }
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      return `Files can be up to ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`;
+    }
+
+    if (renewalId !== null) {
+      const renewal = await this.db.prepare(
+        "SELECT id FROM document_renewals WHERE id = ? AND document_id = ?"
+      ).bind(renewalId, documentId).first();
+
+      if (!renewal) {
+        return 'Renewal not found';
+      }
+    }
+
+    return null;
+  }
+
+  async upload(
+    document: Document,
+    file: File,
+    renewalId: number | null,
+    userId: string
+  ): Promise<DocumentAttachment> {
+    const storageKey = `documents/${document.id}/${crypto.randomUUID()}`;
+    const fileName = this.cleanFileName(file.name);
+
+    await this.env.ATTACHMENTS.put(storageKey, file, {
+      httpMetadata: { contentType: file.type },
+      customMetadata: { fileName, documentId: String(document.id) },
+    });
+
+    const now = new Date().toISOString();
+    try {
+      const result = await this.db.prepare(`
+        INSERT INTO document_attachments (
+          document_id, renewal_id, user_id, file_name, content_type, size_bytes, storage_key, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(document.id, renewalId, userId, fileName, file.type, file.size, storageKey, now, now).run();
+
+      await this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'attachment_uploaded', ?, ?, ?)
+      `).bind(userId, `Attached "${fileName}" to "${document.title}"`, document.id, now).run();
+
+      return (await this.get(document.id, result.meta.last_row_id))!;
+    } catch (error) {
+      // Don't leave an object behind that nothing points at
+      await this.env.ATTACHMENTS.delete(storageKey);
+      throw error;
+    }
+  }
+
+  async download(documentId: number, attachmentId: number | string): Promise<AttachmentDownload | null> {
+    const attachment = await this.get(documentId, attachmentId);
+    const storageKey = await this.getStorageKey(documentId, attachmentId);
+    if (!attachment || !storageKey) {
+      return null;
+    }
+
+    const object = await this.env.ATTACHMENTS.get(storageKey);
+    if (!object) {
+      console.error(`Attachment ${attachment.id} is missing from storage`);
+      return null;
+    }
+
+    return { attachment, body: object.body };
+  }
+
+  // Suggested details read from an attached PDF, or null if it isn't one
+  async extractDetails(documentId: number, attachmentId: number | string): Promise<DocumentExtraction | null> {
+    const attachment = await this.get(documentId, attachmentId);
+    const storageKey = await this.getStorageKey(documentId, attachmentId);
+    if (!attachment || !storageKey || attachment.content_type !== 'application/pdf') {
+      return null;
+    }
+
+    const object = await this.env.ATTACHMENTS.get(storageKey);
+    if (!object) {
+      console.error(`Attachment ${attachment.id} is missing from storage`);
+      return null;
+    }
+
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    return extractDocumentDetails(bytes, attachment.file_name, new Date().toISOString().split('T')[0]);
+  }
+
+  async delete(document: Document, attachmentId: number | string, userId: string): Promise<boolean> {
+    const attachment = await this.get(document.id, attachmentId);
+    const storageKey = await this.getStorageKey(document.id, attachmentId);
+    if (!attachment || !storageKey) {
+      return false;
+    }
+
+    await this.env.ATTACHMENTS.delete(storageKey);
+
+    const now = new Date().toISOString();
+    await this.db.batch([
+      this.db.prepare("DELETE FROM document_attachments WHERE id = ?").bind(attachmentId),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'attachment_deleted', ?, ?, ?)
+      `).bind(userId, `Removed "${attachment.file_name}" from "${document.title}"`, document.id, now),
+    ]);
+
+    return true;
+  }
+
+  // When the document itself is deleted
+  async deleteAllForDocument(documentId: number): Promise<void> {
+    const { results } = await this.db.prepare(
+      "SELECT storage_key FROM document_attachments WHERE document_id = ?"
+    ).bind(documentId).all<{ storage_key: string }>();
+
+    if (results.length > 0) {
+      await this.env.ATTACHMENTS.delete(results.map((row) => row.storage_key));
+    }
+
+    await this.db.prepare("DELETE FROM document_attachments WHERE document_id = ?")
+      .bind(documentId)
+      .run();
+  }
+
+  private async getStorageKey(documentId: number, attachmentId: number | string): Promise<string | null> {
+    return this.db.prepare(
+      "SELECT storage_key FROM document_attachments WHERE id = ? AND document_id = ?"
+    ).bind(attachmentId, documentId).first<string>('storage_key');
+  }
+
+  // Keeps names safe to show and to put in a Content-Disposition header
+  private cleanFileName(name: string): string {
+    const cleaned = name
+      .replace(/^.*[\\/]/, '')
+      .replace(/[\p{Cc}"]/gu, '')
+      .trim()
+      .slice(0, 200);
+
+    return cleaned || 'attachment';
+  }
+}
@@ -0,0 +1,239 @@
+import type { CalendarFeed, Document, UpdateCalendarFeed } from '@/shared/types';
+import { DocumentService } from './documentService';
+import { sha256Hex, toHex } from '../utils/crypto';
+import { alarmTrigger, writeCalendar, type CalendarEvent } from '../utils/icalendar';
+import { POST_EXPIRY_REMINDER_DAYS, SEND_WINDOW_HOURS, resolveReminderOffsets } from '../utils/reminderSchedule';
+import { getAppUrl } from '../utils/signedLinks';
+import { addDays, daysBetween, getLocalDate } from '../utils/timezone';
+
+interface CalendarFeedRow {
+  id: number;
+  user_id: string;
+  include_reminders: number;
+  last_accessed_at: string | null;
+  created_at: string;
+}
+
+// Calendar apps poll subscriptions on their own schedule; this is a hint
+const REFRESH_HOURS = 6;
+
+const UID_DOMAIN = 'vaultdue.com';
+
+/**
+ * Publishes a user's document deadlines as an iCalendar feed at a secret
+ * URL, so they show up in Google Calendar or Outlook. The feed has an
+ * all-day event on each expiry date of every active document the user can
+ * access, and optionally one on each upcoming reminder date. The token is
+ * stored hashed; resetting it breaks the old URL.
+ */
+export class CalendarFeedService {
+  constructor(private env: Env, private db: D1Database) {}
+
+  async getStatus(userId: string): Promise<CalendarFeed> {
+    const feed = await this.getFeed(userId);
+    return this.toStatus(feed);
+  }
+
+  /**
+   * Turns the feed on with a new secret URL, or replaces the URL of an
+   * existing feed. The URL is only returned here.
+   */
+  async resetToken(userId: string): Promise<CalendarFeed> {
+    const existing = await this.getFeed(userId);
+    const token = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO calendar_feeds (user_id, token_hash, include_reminders, created_at, updated_at)
+        VALUES (?, ?, 0, ?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+          token_hash = excluded.token_hash, last_accessed_at = NULL, updated_at = excluded.updated_at
+      `).bind(userId, await sha256Hex(token), now, now),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, ?, ?, ?)
+      `).bind(
+        userId,
+        existing ? 'calendar_feed_reset' : 'calendar_feed_created',
+        existing ? 'Reset the calendar feed link' : 'Turned on the calendar feed',
+        now
+      ),
+    ]);
+
+    return {
+      ...this.toStatus(await this.getFeed(userId)),
+      url: `${getAppUrl(this.env)}/api/calendar/${token}.ics`,
+    };
+  }
+
+  async update(userId: string, changes: UpdateCalendarFeed): Promise<CalendarFeed | null> {
+    const result = await this.db.prepare(
+      "UPDATE calendar_feeds SET include_reminders = ?, updated_at = ? WHERE user_id = ?"
+    ).bind(changes.include_reminders ? 1 : 0, new Date().toISOString(), userId).run();
+
+    if (result.meta.changes === 0) {
+      return null;
+    }
+    return this.toStatus(await this.getFeed(userId));
+  }
+
+  // Calendars still subscribed to the old URL stop getting updates
+  async revoke(userId: string): Promise<boolean> {
+    const result = await this.db.prepare(
+      "DELETE FROM calendar_feeds WHERE user_id = ?"
+    ).bind(userId).run();
+    if (result.meta.changes === 0) {
+      return false;
+    }
+
+    await this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, created_at)
+      VALUES (?, 'calendar_feed_revoked', 'Turned off the calendar feed', ?)
+    `).bind(userId, new Date().toISOString()).run();
+
+    return true;
+  }
+
+  // The feed for a token, or null if no feed uses it
+  async render(token: string): Promise<string | null> {
+    if (!/^[0-9a-f]{64}$/.test(token)) {
+      return null;
+    }
+
+    const feed = await this.db.prepare(
+      "SELECT * FROM calendar_feeds WHERE token_hash = ?"
+    ).bind(await sha256Hex(token)).first<CalendarFeedRow>();
+    if (!feed) {
+      return null;
+    }
+
+    await this.db.prepare(
+      "UPDATE calendar_feeds SET last_accessed_at = ? WHERE id = ?"
+    ).bind(new Date().toISOString(), feed.id).run();
+
+    const profile = await this.db.prepare(
+      "SELECT business_name, timezone, reminder_time_preference FROM user_profiles WHERE user_id = ?"
+    ).bind(feed.user_id).first<{
+      business_name: string | null;
+      timezone: string | null;
+      reminder_time_preference: string | null;
+    }>();
+
+    const documentService = new DocumentService(this.db);
+    const documents = (await documentService.listAccessibleDocuments(feed.user_id))
+      .filter((doc) => doc.status === 'active');
+
+    const today = getLocalDate(new Date(), profile?.timezone);
+    const alarmHour = SEND_WINDOW_HOURS[profile?.reminder_time_preference ?? ''] ?? SEND_WINDOW_HOURS.morning;
+    const frequencies = await this.getOwnerFrequencies(documents);
+
+    const events = documents.flatMap((doc) => {
+      // Reminders follow the document owner's schedule, as the real ones do
+      const offsets = resolveReminderOffsets(doc.reminder_offsets, frequencies.get(doc.user_id));
+      return this.documentEvents(doc, offsets, !!feed.include_reminders, today, alarmHour);
+    });
+
+    return writeCalendar({
+      name: profile?.business_name ? `VaultDue - ${profile.business_name}` : 'VaultDue',
+      description: 'Document expiry dates from VaultDue',
+      refreshHours: REFRESH_HOURS,
+      events,
+    });
+  }
+
+  /**
+   * The expiry event for a document, plus its upcoming reminder events when
+   * they're included. Without them, the expiry event carries an alarm for
+   * each reminder instead, so the feed alerts on the same days either way.
+   */
+  private documentEvents(
+    doc: Document,
+    offsets: number[],
+    includeReminders: boolean,
+    today: string,
+    alarmHour: number
+  ): CalendarEvent[] {
+    const url = `${getAppUrl(this.env)}/?document=${doc.id}`;
+    const details = [
+      doc.document_type,
+      doc.organization_name ? `Workspace: ${doc.organization_name}` : null,
+      doc.renewal_period_days ? `Renews every ${doc.renewal_period_days} days` : null,
+      doc.description,
+      url,
+    ].filter((line): line is string => !!line);
+
+    const events: CalendarEvent[] = [{
+      uid: `document-${doc.id}-expiry@${UID_DOMAIN}`,
+      date: doc.expiration_date.slice(0, 10),
+      summary: `${doc.is_critical ? '[Critical] ' : ''}${doc.title} expires`,
+      description: details.join('\n'),
+      url,
+      lastModified: doc.updated_at,
+      alarms: (includeReminders ? [0] : offsets.filter((offset) => offset >= 0))
+        .map((offset) => alarmTrigger(offset, alarmHour)),
+    }];
+
+    // Reminders stop while acknowledged, and skip the days a snooze covers
+    if (!includeReminders || doc.acknowledged_at) {
+      return events;
+    }
+
+    const reminderDays = [
+      ...offsets.filter((offset) => offset > 0).map((offset) => -offset),
+      ...POST_EXPIRY_REMINDER_DAYS,
+    ];
+    for (const days of reminderDays) {
+      const date = addDays(doc.expiration_date, days);
+      if (date < today || (doc.snoozed_until && doc.snoozed_until > date)) {
+        continue;
+      }
+
+      const daysLeft = daysBetween(date, doc.expiration_date);
+      events.push({
+        // Keyed by the offset, so a new expiry date moves the event rather than adding one
+        uid: `document-${doc.id}-reminder-${days < 0 ? `before-${-days}` : `after-${days}`}@${UID_DOMAIN}`,
+        date,
+        summary: daysLeft > 0
+          ? `Reminder: ${doc.title} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+          : `Reminder: ${doc.title} expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`,
+        description: details.join('\n'),
+        url,
+        lastModified: doc.updated_at,
+        alarms: [alarmTrigger(0, alarmHour)],
+      });
+    }
+
+    return events;
+  }
+
+  private async getOwnerFrequencies(documents: Document[]): Promise<Map<string, string | null>> {
+    const ownerIds = Array.from(new Set(documents.map((doc) => doc.user_id)));
+    if (ownerIds.length === 0) {
+      return new Map();
+    }
+
+    const results = await this.db.batch<{ reminder_frequency: string | null }>(
+      ownerIds.map((ownerId) =>
+        this.db.prepare("SELECT reminder_frequency FROM user_profiles WHERE user_id = ?").bind(ownerId)
+      )
+    );
+
+    return new Map(ownerIds.map((ownerId, index) => [ownerId, results[index].results[0]?.reminder_frequency ?? null]));
+  }
+
+  private async getFeed(userId: string): Promise<CalendarFeedRow | null> {
+    return await this.db.prepare(
+      "SELECT * FROM calendar_feeds WHERE user_id = ?"
+    ).bind(userId).first<CalendarFeedRow>();
+  }
+
+  private toStatus(feed: CalendarFeedRow | null): CalendarFeed {
+    return {
+      enabled: !!feed,
+      include_reminders: !!feed?.include_reminders,
+      created_at: feed?.created_at ?? null,
+      last_accessed_at: feed?.last_accessed_at ?? null,
+    };
+  }
+}
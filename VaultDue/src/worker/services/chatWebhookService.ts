@@ -0,0 +1,72 @@
+import type { ChatChannel, ChatWebhooks } from '@/shared/types';
+import type { RuleScope } from './reminderChannelRuleService';
+
+const CHANNEL_COLUMNS: Record<ChatChannel, keyof ChatWebhooks> = {
+  slack: 'slack_webhook_url',
+  teams: 'teams_webhook_url',
+};
+
+/**
+ * Slack and Teams incoming webhooks, set by a user for themselves or by a
+ * workspace admin for the whole workspace. A user's own webhook wins over
+ * their workspace's. The URLs are credentials, so they are only returned to
+ * their owner or the workspace's owners and admins.
+ */
+export class ChatWebhookService {
+  constructor(private db: D1Database) {}
+
+  async get(scope: RuleScope): Promise<ChatWebhooks> {
+    const { clause, value } = this.scopeFilter(scope);
+    const { results } = await this.db.prepare(
+      `SELECT channel, url FROM chat_webhooks WHERE ${clause}`
+    )
+      .bind(value)
+      .all<{ channel: ChatChannel; url: string }>();
+
+    const webhooks: ChatWebhooks = { slack_webhook_url: null, teams_webhook_url: null };
+    for (const row of results) {
+      if (CHANNEL_COLUMNS[row.channel]) {
+        webhooks[CHANNEL_COLUMNS[row.channel]] = row.url;
+      }
+    }
+    return webhooks;
+  }
+
+  async update(scope: RuleScope, webhooks: ChatWebhooks, updatedBy: string): Promise<ChatWebhooks> {
+    const { clause, value } = this.scopeFilter(scope);
+    const now = new Date().toISOString();
+
+    await this.db.batch((Object.keys(CHANNEL_COLUMNS) as ChatChannel[]).map((channel) => {
+      const url = webhooks[CHANNEL_COLUMNS[channel]];
+      if (!url) {
+        return this.db.prepare(`DELETE FROM chat_webhooks WHERE ${clause} AND channel = ?`)
+          .bind(value, channel);
+      }
+
+      const conflictTarget = 'userId' in scope
+        ? '(user_id, channel) WHERE user_id IS NOT NULL'
+        : '(organization_id, channel) WHERE organization_id IS NOT NULL';
+      return this.db.prepare(`
+        INSERT INTO chat_webhooks (user_id, organization_id, channel, url, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT ${conflictTarget} DO UPDATE SET url = excluded.url, updated_at = excluded.updated_at
+      `).bind(
+        'userId' in scope ? scope.userId : null,
+        'organizationId' in scope ? scope.organizationId : null,
+        channel,
+        url,
+        updatedBy,
+        now,
+        now
+      );
+    }));
+
+    return this.get(scope);
+  }
+
+  private scopeFilter(scope: RuleScope): { clause: string; value: string | number } {
+    return 'userId' in scope
+      ? { clause: 'user_id = ?', value: scope.userId }
+      : { clause: 'organization_id = ?', value: scope.organizationId };
+  }
+}
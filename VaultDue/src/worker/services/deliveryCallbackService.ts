@@ -0,0 +1,144 @@
+import { ReminderDeliveryService } from './reminderDeliveryService';
+import { hmacBase64, timingSafeEqual } from '../utils/crypto';
+
+// Svix (which signs Resend webhooks) rejects timestamps older than this
+const RESEND_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export interface ResendWebhookEvent {
+  type: string;
+  created_at?: string;
+  data?: {
+    email_id?: string;
+    bounce?: { message?: string };
+  };
+}
+
+interface ResendSignatureHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Status callbacks from the SMS and email providers. WhatsApp statuses
+ * arrive on the WhatsApp webhook instead (see WhatsAppWebhookService).
+ */
+export class DeliveryCallbackService {
+  private deliveryService: ReminderDeliveryService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.deliveryService = new ReminderDeliveryService(this.db);
+  }
+
+  /**
+   * Validates X-Twilio-Signature: a base64 HMAC-SHA1, keyed with the auth
+   * token, of the full callback URL followed by every POST parameter's name
+   * and value in name order.
+   */
+  async verifyTwilioSignature(url: string, params: Record<string, string>, signature?: string): Promise<boolean> {
+    if (!this.env.TWILIO_AUTH_TOKEN) {
+      console.error('Twilio auth token not configured');
+      return false;
+    }
+
+    if (!signature) {
+      return false;
+    }
+
+    const data = Object.keys(params)
+      .sort()
+      .reduce((value, key) => value + key + params[key], url);
+    const expected = await hmacBase64('SHA-1', this.env.TWILIO_AUTH_TOKEN, data);
+    return timingSafeEqual(expected, signature);
+  }
+
+  async handleTwilioStatus(params: Record<string, string>): Promise<void> {
+    const messageSid = params.MessageSid;
+    if (!messageSid) {
+      return;
+    }
+
+    // queued, accepted and sending are in-flight states we already know about
+    switch (params.MessageStatus) {
+      case 'sent':
+        await this.deliveryService.applyProviderStatus('sms', messageSid, 'sent');
+        break;
+      case 'delivered':
+        await this.deliveryService.applyProviderStatus('sms', messageSid, 'delivered');
+        break;
+      case 'read':
+        await this.deliveryService.applyProviderStatus('sms', messageSid, 'read');
+        break;
+      case 'undelivered':
+      case 'failed':
+        await this.deliveryService.applyProviderStatus('sms', messageSid, 'failed', {
+          error: params.ErrorCode
+            ? `Twilio error ${params.ErrorCode}`
+            : `Twilio reported the message as ${params.MessageStatus}`,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Validates the svix-* headers Resend sends: a base64 HMAC-SHA256 of
+   * "id.timestamp.body", keyed with the base64 part of the whsec_ secret.
+   * The signature header can list several space-separated "v1,<sig>" values.
+   */
+  async verifyResendSignature(rawBody: string, headers: ResendSignatureHeaders): Promise<boolean> {
+    if (!this.env.RESEND_WEBHOOK_SECRET) {
+      console.error('Resend webhook secret not configured');
+      return false;
+    }
+
+    if (!headers.id || !headers.timestamp || !headers.signature) {
+      return false;
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(headers.timestamp));
+    if (!(age <= RESEND_TIMESTAMP_TOLERANCE_SECONDS)) {
+      return false;
+    }
+
+    const secret = Uint8Array.from(
+      atob(this.env.RESEND_WEBHOOK_SECRET.replace(/^whsec_/, '')),
+      (char) => char.charCodeAt(0)
+    );
+    const expected = await hmacBase64('SHA-256', secret, `${headers.id}.${headers.timestamp}.${rawBody}`);
+
+    return headers.signature
+      .split(' ')
+      .some((entry) => {
+        const [version, signature] = entry.split(',');
+        return version === 'v1' && !!signature && timingSafeEqual(expected, signature);
+      });
+  }
+
+  async handleResendEvent(event: ResendWebhookEvent): Promise<void> {
+    const emailId = event.data?.email_id;
+    if (!emailId) {
+      return;
+    }
+
+    const at = event.created_at ? new Date(event.created_at) : undefined;
+
+    // email.delivery_delayed and email.complained don't change delivery status
+    switch (event.type) {
+      case 'email.sent':
+        await this.deliveryService.applyProviderStatus('email', emailId, 'sent', { at });
+        break;
+      case 'email.delivered':
+        await this.deliveryService.applyProviderStatus('email', emailId, 'delivered', { at });
+        break;
+      case 'email.opened':
+        await this.deliveryService.applyProviderStatus('email', emailId, 'read', { at });
+        break;
+      case 'email.bounced':
+        await this.deliveryService.applyProviderStatus('email', emailId, 'failed', {
+          error: event.data?.bounce?.message || 'Email bounced',
+          at,
+        });
+        break;
+    }
+  }
+}
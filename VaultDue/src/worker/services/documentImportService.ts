@@ -0,0 +1,245 @@
+import {
+  DOCUMENT_TYPES,
+  ImportDocumentRowSchema,
+  serializeReminderOffsets,
+  type ImportDocuments,
+  type ImportDocumentRow,
+  type ImportField,
+  type ImportFile,
+  type ImportPreview,
+  type ImportPreviewRow,
+} from '@/shared/types';
+import { parseDateText } from '../utils/documentExtraction';
+import { fromExcelSerial } from '../utils/spreadsheet';
+import { calculateNextReminderDate, resolveReminderOffsets } from '../utils/reminderSchedule';
+import { getLocalDate } from '../utils/timezone';
+
+export interface ImportResult {
+  preview: ImportPreview;
+  created: { id: number; document: ImportDocumentRow }[];
+}
+
+// Header names each field is recognized by, checked in this order so that
+// "Document type" goes to document_type before title can claim it
+const HEADER_PATTERNS: [ImportField, RegExp][] = [
+  ['expiration_date', /\b(expir\w*|expires?|valid (till|until|upto|to)|due date|renewal date|end date)\b/],
+  ['document_type', /\b(type|category|kind)\b/],
+  ['renewal_period_days', /\b(renewal period|renew(al)? (every|cycle|days)|period|cycle)\b/],
+  ['reminder_offsets', /\b(remind\w*|alerts?)\b/],
+  ['is_critical', /\b(critical|important|priority)\b/],
+  ['description', /\b(description|notes?|details|remarks|comments?)\b/],
+  ['title', /\b(title|name|document)\b/],
+];
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x', 'critical'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+/**
+ * Creates documents in bulk from spreadsheet rows. Every import is previewed
+ * first: each row is mapped to document fields, validated, and checked for a
+ * duplicate (same title and expiry) earlier in the file or in the workspace.
+ * The import itself inserts the valid, non-duplicate rows in one batch.
+ */
+export class DocumentImportService {
+  constructor(private db: D1Database) {}
+
+  // Which column holds each field, guessed from the header row
+  suggestMapping(headers: string[]): ImportFile['mapping'] {
+    const mapping: ImportFile['mapping'] = {};
+    const used = new Set<number>();
+
+    for (const [field, pattern] of HEADER_PATTERNS) {
+      const column = headers.findIndex((header, index) =>
+        !used.has(index) && pattern.test(header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim())
+      );
+      if (column !== -1) {
+        mapping[field] = column;
+        used.add(column);
+      }
+    }
+
+    return mapping;
+  }
+
+  async preview(input: ImportDocuments, organizationId: number): Promise<ImportPreview> {
+    const { results: existing } = await this.db.prepare(
+      "SELECT title, expiration_date FROM documents WHERE organization_id = ?"
+    ).bind(organizationId).all<{ title: string; expiration_date: string }>();
+
+    const existingKeys = new Set(existing.map((doc) => this.duplicateKey(doc.title, doc.expiration_date)));
+    const fileKeys = new Set<string>();
+    const rows: ImportPreviewRow[] = [];
+
+    input.rows.forEach((cells, index) => {
+      // Blank lines between entries aren't worth an error
+      if (cells.every((cell) => cell.trim() === '')) {
+        return;
+      }
+
+      const row = this.previewRow(cells, input.mapping, index + 2);
+      if (row.document) {
+        const key = this.duplicateKey(row.document.title, row.document.expiration_date);
+        if (existingKeys.has(key)) {
+          row.duplicate = 'existing';
+        } else if (fileKeys.has(key)) {
+          row.duplicate = 'file';
+        }
+        fileKeys.add(key);
+      }
+      rows.push(row);
+    });
+
+    return {
+      rows,
+      valid_count: rows.filter((row) => row.document && !row.duplicate).length,
+      error_count: rows.filter((row) => row.errors.length > 0).length,
+      duplicate_count: rows.filter((row) => row.duplicate).length,
+      imported_count: 0,
+    };
+  }
+
+  async import(
+    input: ImportDocuments,
+    organizationId: number,
+    userId: string
+  ): Promise<ImportResult> {
+    const preview = await this.preview(input, organizationId);
+    const documents = preview.rows.flatMap((row) => (row.document && !row.duplicate ? [row.document] : []));
+    if (documents.length === 0) {
+      return { preview, created: [] };
+    }
+
+    // New documents have no sent reminders or snoozes, so the next reminder
+    // only depends on the owner's profile
+    const profile = await this.db.prepare(
+      "SELECT reminder_frequency, timezone FROM user_profiles WHERE user_id = ?"
+    ).bind(userId).first<{ reminder_frequency: string | null; timezone: string | null }>();
+    const today = getLocalDate(new Date(), profile?.timezone);
+
+    const now = new Date().toISOString();
+    const inserts = documents.map((document) => {
+      const reminderOffsets = serializeReminderOffsets(document.reminder_offsets);
+      const offsets = resolveReminderOffsets(reminderOffsets, profile?.reminder_frequency);
+
+      return this.db.prepare(`
+        INSERT INTO documents (
+          user_id, organization_id, title, description, document_type, expiration_date,
+          renewal_period_days, is_critical, reminder_offsets, next_reminder_date, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)
+      `).bind(
+        userId,
+        organizationId,
+        document.title,
+        document.description || null,
+        document.document_type || null,
+        document.expiration_date,
+        document.renewal_period_days || null,
+        document.is_critical ? 1 : 0,
+        reminderOffsets,
+        calculateNextReminderDate(document.expiration_date, offsets, today),
+        now,
+        now
+      );
+    });
+
+    const source = input.file_name ? ` from "${input.file_name}"` : '';
+    const results = await this.db.batch([
+      ...inserts,
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'documents_imported', ?, ?)
+      `).bind(userId, `Imported ${documents.length} document${documents.length === 1 ? '' : 's'}${source}`, now),
+    ]);
+
+    return {
+      preview: { ...preview, imported_count: documents.length },
+      created: documents.map((document, index) => ({ id: results[index].meta.last_row_id, document })),
+    };
+  }
+
+  private previewRow(cells: string[], mapping: ImportDocuments['mapping'], rowNumber: number): ImportPreviewRow {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    const fields: Record<string, unknown> = {
+      title: cell('title'),
+      expiration_date: this.parseDate(cell('expiration_date')),
+    };
+
+    const type = cell('document_type');
+    if (type) {
+      fields.document_type = this.matchDocumentType(type);
+    }
+
+    const description = cell('description');
+    if (description) {
+      fields.description = description;
+    }
+
+    const renewalPeriod = cell('renewal_period_days');
+    if (renewalPeriod) {
+      if (/^\d+$/.test(renewalPeriod)) {
+        fields.renewal_period_days = Number(renewalPeriod);
+      } else {
+        errors.push('Renewal period must be a number of days');
+      }
+    }
+
+    const critical = cell('is_critical').toLowerCase();
+    if (TRUE_VALUES.includes(critical)) {
+      fields.is_critical = true;
+    } else if (FALSE_VALUES.includes(critical)) {
+      fields.is_critical = false;
+    } else {
+      errors.push('Critical must be yes or no');
+    }
+
+    const reminders = cell('reminder_offsets');
+    if (reminders) {
+      const offsets = reminders.split(/[\s,;/]+/).filter(Boolean);
+      if (offsets.every((offset) => /^\d+$/.test(offset))) {
+        fields.reminder_offsets = Array.from(new Set(offsets.map(Number))).sort((a, b) => b - a);
+      } else {
+        errors.push('Reminders must be days before expiry, like "30, 7, 1"');
+      }
+    }
+
+    const result = ImportDocumentRowSchema.safeParse(fields);
+    if (!result.success) {
+      // One message per field is enough to fix the row
+      const seen = new Set<string>();
+      for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        if (!seen.has(path)) {
+          seen.add(path);
+          errors.push(issue.message);
+        }
+      }
+    }
+
+    return {
+      row: rowNumber,
+      document: result.success && errors.length === 0 ? result.data : null,
+      errors,
+      duplicate: null,
+    };
+  }
+
+  // Spreadsheet dates arrive as text, or as serial numbers from XLSX date cells
+  private parseDate(value: string): string {
+    return parseDateText(value) ?? fromExcelSerial(value) ?? value;
+  }
+
+  // "licence", "LICENSES" and the like; anything unrecognized fails validation
+  private matchDocumentType(value: string): string {
+    const normalized = value.toLowerCase().replace(/s$/, '').replace('licence', 'license');
+    return DOCUMENT_TYPES.find((type) => type.toLowerCase() === normalized) ?? value;
+  }
+
+  private duplicateKey(title: string, expirationDate: string): string {
+    return `${title.trim().toLowerCase()}|${expirationDate}`;
+  }
+}
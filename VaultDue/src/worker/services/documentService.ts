@@ -0,0 +1,264 @@
+import type { Document, DocumentRenewal, RenewDocument } from '@/shared/types';
+import { ReminderDeliveryService } from './reminderDeliveryService';
+import { calculateNextReminderDate, resolveReminderOffsets } from '../utils/reminderSchedule';
+import { addDays, getLocalDate } from '../utils/timezone';
+
+export type RenewalSource = 'web' | 'whatsapp';
+
+// Who performed a renewal, recorded on the document_renewals row
+export interface RenewalActor {
+  userId: string;
+  source: RenewalSource;
+  email?: string | null;
+  name?: string | null;
+}
+
+/**
+ * Resolves the requesting user's role on each document: 'owner' for personal
+ * documents they created, their workspace role for workspace documents, and
+ * the strongest of that and any direct share. The user id is bound as ?1.
+ */
+const ACCESSIBLE_DOCUMENTS_SQL = `
+  SELECT d.*, o.name AS organization_name,
+    (SELECT COUNT(*) FROM document_attachments a WHERE a.document_id = d.id) AS attachment_count,
+    CASE
+      WHEN d.organization_id IS NULL AND d.user_id = ?1 THEN 'owner'
+      WHEN om.role IN ('owner', 'admin') THEN om.role
+      WHEN om.role = 'editor' OR tm.role = 'editor' THEN 'editor'
+      ELSE 'viewer'
+    END AS access_role
+  FROM documents d
+  LEFT JOIN organizations o ON o.id = d.organization_id
+  LEFT JOIN organization_members om
+    ON om.organization_id = d.organization_id AND om.user_id = ?1 AND om.status = 'active'
+  LEFT JOIN team_members tm
+    ON tm.document_id = d.id AND tm.member_user_id = ?1 AND tm.status = 'accepted'
+  WHERE ((d.organization_id IS NULL AND d.user_id = ?1) OR om.id IS NOT NULL OR tm.id IS NOT NULL)
+`;
+
+export class DocumentService {
+  constructor(private db: D1Database) {}
+
+  async getDocument(userId: string, documentId: number | string): Promise<Document | null> {
+    return await this.db.prepare(
+      "SELECT * FROM documents WHERE id = ? AND user_id = ?"
+    )
+      .bind(documentId, userId)
+      .first<Document>();
+  }
+
+  /**
+   * Fetches a document the user can reach through ownership, workspace
+   * membership or a direct share, with access_role set accordingly.
+   */
+  async getAccessibleDocument(userId: string, documentId: number | string): Promise<Document | null> {
+    return await this.db.prepare(
+      `${ACCESSIBLE_DOCUMENTS_SQL} AND d.id = ?2`
+    )
+      .bind(userId, documentId)
+      .first<Document>();
+  }
+
+  async listAccessibleDocuments(userId: string): Promise<Document[]> {
+    const { results } = await this.db.prepare(
+      `${ACCESSIBLE_DOCUMENTS_SQL} ORDER BY d.expiration_date ASC, d.is_critical DESC`
+    )
+      .bind(userId)
+      .all<Document>();
+
+    return results;
+  }
+
+  /**
+   * Renews a document and records the cycle in document_renewals. When a new
+   * expiration date is given, or can be derived from renewal_period_days, the
+   * document stays active for the next cycle; otherwise it is closed out as
+   * 'renewed'. Callers are expected to have checked the actor may renew it.
+   */
+  async renewDocument(
+    existing: Document,
+    renewal: RenewDocument,
+    actor: RenewalActor
+  ): Promise<Document> {
+    const now = new Date().toISOString();
+    // Renewal dates fall on the owner's calendar, like their reminders
+    const profile = await this.db.prepare("SELECT timezone FROM user_profiles WHERE user_id = ?")
+      .bind(existing.user_id)
+      .first<{ timezone: string | null }>();
+    const today = getLocalDate(new Date(), profile?.timezone);
+    const newExpirationDate = renewal.new_expiration_date
+      ?? (existing.renewal_period_days
+        ? this.calculateNextExpirationDate(existing.expiration_date, existing.renewal_period_days, today)
+        : null);
+
+    const updateDocument = newExpirationDate
+      ? this.db.prepare(
+        `UPDATE documents SET
+          status = 'active',
+          expiration_date = ?,
+          last_renewed_date = ?,
+          snoozed_until = NULL,
+          acknowledged_at = NULL,
+          updated_at = ?
+         WHERE id = ?`
+      ).bind(newExpirationDate, today, now, existing.id)
+      : this.db.prepare(
+        `UPDATE documents SET
+          status = 'renewed',
+          last_renewed_date = ?,
+          snoozed_until = NULL,
+          acknowledged_at = NULL,
+          updated_at = ?
+         WHERE id = ?`
+      ).bind(today, now, existing.id);
+
+    const via = actor.source === 'whatsapp' ? ' via WhatsApp' : '';
+    const description = newExpirationDate
+      ? `Renewed document "${existing.title}" until ${newExpirationDate}${via}`
+      : `Marked document "${existing.title}" as renewed${via}`;
+
+    // Failed sends from the old cycle would otherwise be retried with its dates
+    const deliveryService = new ReminderDeliveryService(this.db);
+
+    await this.db.batch([
+      updateDocument,
+      deliveryService.cancelRetriesForDocument(existing.id),
+      this.db.prepare(
+        `INSERT INTO document_renewals (
+          document_id, user_id, previous_expiration_date, new_expiration_date, renewed_date,
+          renewed_by_email, renewed_by_name, source, cost, reference_number, notes,
+          created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        existing.id,
+        actor.userId,
+        existing.expiration_date,
+        newExpirationDate,
+        today,
+        actor.email || null,
+        actor.name || null,
+        actor.source,
+        renewal.cost ?? null,
+        renewal.reference_number || null,
+        renewal.notes || null,
+        now,
+        now
+      ),
+      this.db.prepare(
+        `INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+         VALUES (?, 'document_renewed', ?, ?, ?)`
+      ).bind(actor.userId, description, existing.id, now),
+    ]);
+
+    await this.refreshNextReminderDate(existing.id);
+
+    const renewed = await this.db.prepare("SELECT * FROM documents WHERE id = ?")
+      .bind(existing.id)
+      .first<Document>();
+    return {
+      ...renewed!,
+      access_role: existing.access_role,
+      organization_name: existing.organization_name,
+    };
+  }
+
+  /**
+   * Recomputes next_reminder_date from the document's offsets (or its
+   * owner's profile frequency), counting from today in the owner's time zone.
+   * Skips past today if today's reminder already went out, and past any
+   * snooze. Inactive and acknowledged documents have no next reminder.
+   */
+  async refreshNextReminderDate(documentId: number | string): Promise<string | null> {
+    const row = await this.db.prepare(
+      `SELECT d.id, d.status, d.expiration_date, d.reminder_offsets, d.snoozed_until,
+              d.acknowledged_at, p.reminder_frequency, p.timezone
+       FROM documents d
+       LEFT JOIN user_profiles p ON p.user_id = d.user_id
+       WHERE d.id = ?`
+    )
+      .bind(documentId)
+      .first<{
+        id: number;
+        status: string;
+        expiration_date: string | null;
+        reminder_offsets: string | null;
+        snoozed_until: string | null;
+        acknowledged_at: string | null;
+        reminder_frequency: string | null;
+        timezone: string | null;
+      }>();
+
+    if (!row) {
+      return null;
+    }
+
+    let nextReminderDate: string | null = null;
+    if (row.status === 'active' && row.expiration_date && !row.acknowledged_at) {
+      const today = getLocalDate(new Date(), row.timezone);
+      const sentToday = await this.db.prepare(
+        "SELECT id FROM reminders WHERE document_id = ? AND reminder_date = ? AND is_sent = 1"
+      )
+        .bind(row.id, today)
+        .first();
+
+      let fromDate = sentToday ? addDays(today, 1) : today;
+      if (row.snoozed_until && row.snoozed_until > fromDate) {
+        fromDate = row.snoozed_until;
+      }
+
+      const offsets = resolveReminderOffsets(row.reminder_offsets, row.reminder_frequency);
+      nextReminderDate = calculateNextReminderDate(row.expiration_date, offsets, fromDate);
+    }
+
+    await this.db.prepare("UPDATE documents SET next_reminder_date = ? WHERE id = ?")
+      .bind(nextReminderDate, row.id)
+      .run();
+
+    return nextReminderDate;
+  }
+
+  /**
+   * Recomputes next_reminder_date for the owner's active documents after
+   * their profile schedule changes. Documents with their own offsets don't
+   * follow the profile frequency, so they're only refreshed for a new time
+   * zone.
+   */
+  async refreshOwnerReminderDates(userId: string, timezoneChanged: boolean): Promise<void> {
+    const { results } = await this.db.prepare(
+      `SELECT id FROM documents
+       WHERE user_id = ? AND status = 'active' AND (? = 1 OR reminder_offsets IS NULL)`
+    )
+      .bind(userId, timezoneChanged ? 1 : 0)
+      .all<{ id: number }>();
+
+    for (const doc of results) {
+      await this.refreshNextReminderDate(doc.id);
+    }
+  }
+
+  async getRenewals(documentId: number | string): Promise<DocumentRenewal[]> {
+    const { results } = await this.db.prepare(
+      `SELECT * FROM document_renewals
+       WHERE document_id = ?
+       ORDER BY renewed_date DESC, id DESC`
+    )
+      .bind(documentId)
+      .all<DocumentRenewal>();
+
+    return results;
+  }
+
+  /**
+   * Early renewals extend from the current expiry so no days are lost;
+   * late renewals start the new cycle from today.
+   */
+  private calculateNextExpirationDate(
+    currentExpirationDate: string,
+    renewalPeriodDays: number,
+    today: string
+  ): string {
+    const base = new Date(currentExpirationDate > today ? currentExpirationDate : today);
+    base.setUTCDate(base.getUTCDate() + renewalPeriodDays);
+    return base.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,400 @@
+import type {
+  AcknowledgmentSource,
+  Document,
+  DocumentEscalation,
+  EscalationContact,
+  EscalationMember,
+  UpdateEscalation,
+} from '@/shared/types';
+import { NotificationService } from './notificationService';
+import { addDays, daysBetween } from '../utils/timezone';
+import { getSendWindowDate } from '../utils/reminderSchedule';
+import { buildSignedUrl, verifySignedParams } from '../utils/signedLinks';
+
+export const ACKNOWLEDGE_LINK_PATH = '/api/escalations/acknowledge';
+const DEFAULT_ESCALATION_DELAY_DAYS = 2;
+
+export interface EscalationSettings {
+  delay_days: number;
+  contacts: EscalationContact[];
+  active: DocumentEscalation | null;
+  // People who can be added as 'member' contacts
+  members: EscalationMember[];
+}
+
+export type LinkAcknowledgeResult =
+  | { status: 'acknowledged' | 'already_closed'; documentTitle: string }
+  | { status: 'invalid' };
+
+interface DueEscalation extends DocumentEscalation {
+  user_id: string;
+  organization_id: number | null;
+  title: string;
+  expiration_date: string;
+  escalation_delay_days: number | null;
+  timezone: string | null;
+  reminder_time_preference: string | null;
+  owner_name: string | null;
+}
+
+/**
+ * Passes unacknowledged reminders for critical documents along a chain of
+ * backup contacts. An escalation opens when a critical document's reminder
+ * goes out; every `escalation_delay_days` without an acknowledgement (a
+ * renewal, an acknowledge link, or a WhatsApp reply) the next contact is
+ * notified, until the chain runs out.
+ */
+export class EscalationService {
+  private notificationService: NotificationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+  }
+
+  async getSettings(document: Document): Promise<EscalationSettings> {
+    return {
+      delay_days: document.escalation_delay_days ?? DEFAULT_ESCALATION_DELAY_DAYS,
+      contacts: await this.listContacts(document.id),
+      active: await this.getActiveEscalation(document.id),
+      members: await this.listMembers(document),
+    };
+  }
+
+  /**
+   * Everyone besides the owner who has accepted an invitation to the
+   * document or is an active member of its workspace.
+   */
+  async listMembers(document: { id: number; user_id: string; organization_id: number | null }): Promise<EscalationMember[]> {
+    const { results } = await this.db.prepare(`
+      SELECT tm.invited_email AS email, p.name
+      FROM team_members tm
+      LEFT JOIN user_profiles p ON p.user_id = tm.member_user_id
+      WHERE tm.document_id = ?1 AND tm.status = 'accepted' AND tm.member_user_id IS NOT ?2
+      UNION
+      SELECT om.email, p.name
+      FROM organization_members om
+      LEFT JOIN user_profiles p ON p.user_id = om.user_id
+      WHERE om.organization_id = ?3 AND om.status = 'active' AND om.user_id IS NOT ?2
+      ORDER BY email
+    `).bind(document.id, document.user_id, document.organization_id).all<EscalationMember>();
+
+    // Someone both shared with and in the workspace is listed once
+    const members = new Map<string, EscalationMember>();
+    for (const member of results) {
+      const email = member.email.toLowerCase();
+      members.set(email, { email, name: member.name ?? members.get(email)?.name ?? null });
+    }
+    return Array.from(members.values());
+  }
+
+  // The first 'member' contact who isn't one of the document's members, if any
+  async findUnknownMember(document: Document, contacts: UpdateEscalation['contacts']): Promise<string | null> {
+    const members = new Set((await this.listMembers(document)).map((member) => member.email));
+    const unknown = contacts.find(
+      (contact) => contact.contact_type === 'member' && !members.has(contact.contact_value.toLowerCase())
+    );
+    return unknown?.contact_value ?? null;
+  }
+
+  async listContacts(documentId: number): Promise<EscalationContact[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM document_escalation_contacts WHERE document_id = ? ORDER BY position ASC
+    `).bind(documentId).all<EscalationContact>();
+
+    return results;
+  }
+
+  // Replaces the whole chain, in the order given
+  async updateSettings(document: Document, settings: UpdateEscalation, userId: string): Promise<EscalationSettings> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare("UPDATE documents SET escalation_delay_days = ?, updated_at = ? WHERE id = ?")
+        .bind(settings.delay_days, now, document.id),
+      this.db.prepare("DELETE FROM document_escalation_contacts WHERE document_id = ?")
+        .bind(document.id),
+      ...settings.contacts.map((contact, index) =>
+        this.db.prepare(`
+          INSERT INTO document_escalation_contacts (
+            document_id, position, contact_type, contact_value, name, created_by, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          document.id,
+          index,
+          contact.contact_type,
+          contact.contact_type === 'phone' ? contact.contact_value : contact.contact_value.toLowerCase(),
+          contact.name || null,
+          userId,
+          now,
+          now
+        )
+      ),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'escalation_updated', ?, ?, ?)
+      `).bind(
+        userId,
+        `Updated the escalation chain for "${document.title}" (${settings.contacts.length} backup contact${settings.contacts.length === 1 ? '' : 's'})`,
+        document.id,
+        now
+      ),
+    ]);
+
+    return this.getSettings({ ...document, escalation_delay_days: settings.delay_days });
+  }
+
+  async getActiveEscalation(documentId: number): Promise<DocumentEscalation | null> {
+    return await this.db.prepare(`
+      SELECT * FROM document_escalations WHERE document_id = ? AND status = 'pending'
+      ORDER BY id DESC LIMIT 1
+    `).bind(documentId).first<DocumentEscalation>();
+  }
+
+  /**
+   * Opens an escalation after a critical document's reminder is sent, unless
+   * one is already running or the document has no backup contacts.
+   */
+  async startEscalation(
+    doc: { id: number; user_id: string; title: string; is_critical: boolean; escalation_delay_days: number | null },
+    reminderId: number | undefined,
+    today: string
+  ): Promise<void> {
+    if (!doc.is_critical || await this.getActiveEscalation(doc.id)) {
+      return;
+    }
+
+    const contacts = await this.listContacts(doc.id);
+    if (contacts.length === 0) {
+      return;
+    }
+
+    const delayDays = doc.escalation_delay_days ?? DEFAULT_ESCALATION_DELAY_DAYS;
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO document_escalations (
+          document_id, reminder_id, status, current_step, next_escalation_date, created_at, updated_at
+        ) VALUES (?, ?, 'pending', 0, ?, ?, ?)
+      `).bind(doc.id, reminderId ?? null, addDays(today, delayDays), now, now),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'escalation_started', ?, ?, ?)
+      `).bind(
+        doc.user_id,
+        `Waiting ${delayDays} day(s) for "${doc.title}" to be acknowledged before escalating to backup contacts`,
+        doc.id,
+        now
+      ),
+    ]);
+  }
+
+  /**
+   * Closes any pending escalation for the document. Returns false if there
+   * was nothing to acknowledge.
+   */
+  async acknowledge(documentId: number, source: AcknowledgmentSource, acknowledgedBy: string): Promise<boolean> {
+    const escalation = await this.getActiveEscalation(documentId);
+    if (!escalation) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const result = await this.db.prepare(`
+      UPDATE document_escalations SET
+        status = 'acknowledged', acknowledged_at = ?, acknowledged_by = ?, acknowledgment_source = ?, updated_at = ?
+      WHERE document_id = ? AND status = 'pending'
+    `).bind(now, acknowledgedBy, source, now, documentId).run();
+
+    if (result.meta.changes === 0) {
+      return false;
+    }
+
+    const document = await this.db.prepare("SELECT user_id, title FROM documents WHERE id = ?")
+      .bind(documentId)
+      .first<{ user_id: string; title: string }>();
+
+    if (document) {
+      await this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'escalation_acknowledged', ?, ?, ?)
+      `).bind(
+        document.user_id,
+        `${acknowledgedBy} acknowledged the reminder for "${document.title}" (${this.describeSource(source)})`,
+        documentId,
+        now
+      ).run();
+    }
+
+    return true;
+  }
+
+  async buildAcknowledgeUrl(escalationId: number, contactId: number): Promise<string | null> {
+    return buildSignedUrl(this.env, ACKNOWLEDGE_LINK_PATH, {
+      escalation: escalationId,
+      contact: contactId,
+    });
+  }
+
+  async verifyAcknowledgeLink(params: Record<string, string>): Promise<boolean> {
+    return verifySignedParams(this.env, ACKNOWLEDGE_LINK_PATH, params);
+  }
+
+  async acknowledgeFromLink(params: Record<string, string>): Promise<LinkAcknowledgeResult> {
+    if (!(await this.verifyAcknowledgeLink(params))) {
+      return { status: 'invalid' };
+    }
+
+    const escalation = await this.db.prepare(`
+      SELECT e.*, d.title, c.name AS contact_name, c.contact_value
+      FROM document_escalations e
+      JOIN documents d ON d.id = e.document_id
+      LEFT JOIN document_escalation_contacts c ON c.id = ?2 AND c.document_id = e.document_id
+      WHERE e.id = ?1
+    `).bind(params.escalation, params.contact).first<DocumentEscalation & {
+      title: string;
+      contact_name: string | null;
+      contact_value: string | null;
+    }>();
+
+    if (!escalation) {
+      return { status: 'invalid' };
+    }
+    if (escalation.status !== 'pending') {
+      return { status: 'already_closed', documentTitle: escalation.title };
+    }
+
+    const acknowledgedBy = escalation.contact_name || escalation.contact_value || 'A backup contact';
+    await this.acknowledge(escalation.document_id, 'link', acknowledgedBy);
+
+    return { status: 'acknowledged', documentTitle: escalation.title };
+  }
+
+  /**
+   * Runs with the hourly scheduler. Escalations move on during the owner's
+   * send window, once their next_escalation_date has arrived locally.
+   */
+  async processDueEscalations(now: Date = new Date()): Promise<void> {
+    const { results } = await this.db.prepare(`
+      SELECT e.*, d.user_id, d.organization_id, d.title, d.expiration_date, d.escalation_delay_days,
+             p.timezone, p.reminder_time_preference,
+             COALESCE(
+               p.name,
+               p.email,
+               (SELECT om.email FROM organization_members om
+                WHERE om.user_id = d.user_id AND om.organization_id = d.organization_id AND om.status = 'active'),
+               (SELECT om.email FROM organization_members om
+                WHERE om.user_id = d.user_id AND om.status = 'active' ORDER BY om.id LIMIT 1)
+             ) AS owner_name
+      FROM document_escalations e
+      JOIN documents d ON d.id = e.document_id
+      LEFT JOIN user_profiles p ON p.user_id = d.user_id
+      WHERE e.status = 'pending'
+    `).all<DueEscalation>();
+
+    for (const escalation of results) {
+      const today = getSendWindowDate(now, escalation.timezone, escalation.reminder_time_preference);
+      if (!today || today < escalation.next_escalation_date) {
+        continue;
+      }
+
+      try {
+        await this.escalate(escalation, today);
+      } catch (error) {
+        console.error(`Error escalating reminder for document ${escalation.document_id}:`, error);
+      }
+    }
+  }
+
+  private async escalate(escalation: DueEscalation, today: string): Promise<void> {
+    const contacts = await this.listContacts(escalation.document_id);
+    const contact = contacts[escalation.current_step];
+    const now = new Date().toISOString();
+    const logStep = (actionType: string, description: string) => this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(escalation.user_id, actionType, description, escalation.document_id, now);
+
+    if (!contact) {
+      await this.db.batch([
+        this.db.prepare(`
+          UPDATE document_escalations SET status = 'exhausted', updated_at = ? WHERE id = ?
+        `).bind(now, escalation.id),
+        logStep(
+          'escalation_exhausted',
+          `No one acknowledged the reminder for "${escalation.title}" after notifying every backup contact`
+        ),
+      ]);
+      return;
+    }
+
+    const notified = await this.notifyContact(escalation, contact, today);
+    const label = contact.name ? `${contact.name} (${contact.contact_value})` : contact.contact_value;
+    const step = `step ${escalation.current_step + 1} of ${contacts.length}`;
+    const delayDays = escalation.escalation_delay_days ?? DEFAULT_ESCALATION_DELAY_DAYS;
+
+    // Unreachable contacts are skipped rather than holding up the chain
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE document_escalations SET current_step = ?, next_escalation_date = ?, updated_at = ? WHERE id = ?
+      `).bind(escalation.current_step + 1, addDays(today, delayDays), now, escalation.id),
+      logStep(
+        notified ? 'escalation_notified' : 'escalation_failed',
+        notified
+          ? `Escalated the reminder for "${escalation.title}" to ${label} (${step})`
+          : `Couldn't reach ${label} about "${escalation.title}" (${step})`
+      ),
+    ]);
+  }
+
+  private async notifyContact(escalation: DueEscalation, contact: EscalationContact, today: string): Promise<boolean> {
+    const notice = {
+      contactName: contact.name,
+      ownerName: escalation.owner_name || 'The document owner',
+      documentTitle: escalation.title,
+      expirationDate: escalation.expiration_date,
+      daysUntilExpiry: daysBetween(today, escalation.expiration_date),
+      acknowledgeUrl: await this.buildAcknowledgeUrl(escalation.id, contact.id),
+    };
+
+    try {
+      if (contact.contact_type === 'member') {
+        // Members who have since left the document or workspace are skipped
+        const members = await this.listMembers({
+          id: escalation.document_id,
+          user_id: escalation.user_id,
+          organization_id: escalation.organization_id,
+        });
+        if (!members.some((member) => member.email === contact.contact_value)) {
+          return false;
+        }
+      }
+      if (contact.contact_type !== 'phone') {
+        return await this.notificationService.sendEscalationEmail(contact.contact_value, notice);
+      }
+
+      const phone = this.notificationService.formatPhoneNumber(contact.contact_value);
+      if (!phone) {
+        return false;
+      }
+      return (await this.notificationService.sendEscalationWhatsApp(phone, notice)) !== null;
+    } catch (error) {
+      console.error(`Failed to notify escalation contact ${contact.id}:`, error);
+      return false;
+    }
+  }
+
+  private describeSource(source: AcknowledgmentSource): string {
+    switch (source) {
+      case 'renewal':
+        return 'renewed';
+      case 'link':
+        return 'via acknowledge link';
+      case 'whatsapp':
+        return 'via WhatsApp';
+      case 'web':
+      default:
+        return 'in VaultDue';
+    }
+  }
+}
@@ -0,0 +1,321 @@
+import {
+  EXPIRING_SOON_DAYS,
+  EXPORT_MAX_ROWS,
+  matchesDocumentFilter,
+  type DocumentFilter,
+  type ExportQuery,
+} from '@/shared/types';
+import { DocumentService } from './documentService';
+import type { WorkspaceUser } from './organizationService';
+import { renderPdfReport, type PdfReportColumn } from '../utils/pdfReport';
+import { writeCsv, writeXlsx, type SheetCell } from '../utils/spreadsheet';
+import { daysBetween, getLocalDate, isValidTimeZone, DEFAULT_TIME_ZONE } from '../utils/timezone';
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+// One dataset, laid out the same way whatever the file format
+interface ExportTable {
+  title: string;
+  // What the rows cover, e.g. the filter applied
+  scope: string;
+  columns: PdfReportColumn[];
+  rows: SheetCell[][];
+  summary?: { label: string; value: string }[];
+  emptyMessage: string;
+}
+
+interface ExportContext {
+  businessName: string;
+  timeZone: string;
+  today: string;
+  generatedAt: string;
+}
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+} as const;
+
+const FILTER_LABELS: Record<DocumentFilter, string> = {
+  all: 'All documents',
+  critical: 'Critical documents',
+  expiring: `Expiring within ${EXPIRING_SOON_DAYS} days`,
+  expired: 'Expired documents',
+};
+
+const REMINDER_TYPE_LABELS: Record<string, string> = {
+  expired: 'Expired',
+  expires_today: 'Expires today',
+  expires_soon: 'Expires soon',
+  expires_week: 'Expires this week',
+  expires_two_weeks: 'Expires in 2 weeks',
+  expires_month: 'Expires this month',
+};
+
+/**
+ * Builds downloadable copies of the document list, reminder history and
+ * activity log as CSV, XLSX or a printable PDF compliance report. Documents
+ * cover everything the user can access, narrowed by the same filter and
+ * search as the dashboard; reminders and activity are the user's own.
+ */
+export class ExportService {
+  constructor(private db: D1Database) {}
+
+  async export(user: WorkspaceUser, query: ExportQuery): Promise<ExportFile> {
+    const context = await this.loadContext(user);
+
+    let table: ExportTable;
+    switch (query.dataset) {
+      case 'documents':
+        table = await this.documentsTable(user.id, query.filter, query.search, context);
+        break;
+      case 'reminders':
+        table = await this.remindersTable(user.id, context);
+        break;
+      case 'activity':
+        table = await this.activityTable(user.id, context);
+        break;
+    }
+
+    return {
+      fileName: `vaultdue-${query.dataset}-${context.today}.${query.format}`,
+      contentType: CONTENT_TYPES[query.format],
+      body: await this.render(table, query.format, context),
+    };
+  }
+
+  private async loadContext(user: WorkspaceUser): Promise<ExportContext> {
+    const profile = await this.db.prepare(
+      "SELECT business_name, timezone FROM user_profiles WHERE user_id = ?"
+    ).bind(user.id).first<{ business_name: string | null; timezone: string | null }>();
+
+    const timeZone = profile?.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : DEFAULT_TIME_ZONE;
+    const now = new Date();
+
+    return {
+      businessName: profile?.business_name || user.google_user_data?.name || user.email,
+      timeZone,
+      today: getLocalDate(now, timeZone),
+      generatedAt: this.formatDateTime(now.toISOString(), timeZone, true),
+    };
+  }
+
+  private async documentsTable(
+    userId: string,
+    filter: DocumentFilter,
+    search: string,
+    context: ExportContext
+  ): Promise<ExportTable> {
+    const documentService = new DocumentService(this.db);
+    const documents = (await documentService.listAccessibleDocuments(userId))
+      .filter((doc) => matchesDocumentFilter(doc, filter, search, context.today));
+
+    const daysLeft = (expirationDate: string) => daysBetween(context.today, expirationDate);
+    const scope = search.trim() ? `${FILTER_LABELS[filter]} matching "${search.trim()}"` : FILTER_LABELS[filter];
+
+    return {
+      title: 'Document compliance report',
+      scope,
+      columns: [
+        { label: 'Title', width: 19 },
+        { label: 'Type', width: 9 },
+        { label: 'Expires', width: 8 },
+        { label: 'Days left', width: 6 },
+        { label: 'Status', width: 9 },
+        { label: 'Critical', width: 6 },
+        { label: 'Workspace', width: 11 },
+        { label: 'Renewal period', width: 10 },
+        { label: 'Last renewed', width: 9 },
+        { label: 'Next reminder', width: 9 },
+      ],
+      rows: documents.map((doc) => [
+        doc.title,
+        doc.document_type,
+        doc.expiration_date.slice(0, 10),
+        daysLeft(doc.expiration_date),
+        this.documentStatus(doc.status, daysLeft(doc.expiration_date)),
+        doc.is_critical ? 'Yes' : 'No',
+        doc.organization_name ?? 'Personal',
+        doc.renewal_period_days ? `${doc.renewal_period_days} days` : null,
+        doc.last_renewed_date?.slice(0, 10) ?? null,
+        doc.next_reminder_date?.slice(0, 10) ?? null,
+      ]),
+      summary: [
+        { label: 'Documents', value: String(documents.length) },
+        { label: 'Expired', value: String(documents.filter((doc) => daysLeft(doc.expiration_date) < 0).length) },
+        {
+          label: `Expiring within ${EXPIRING_SOON_DAYS} days`,
+          value: String(documents.filter((doc) => {
+            const days = daysLeft(doc.expiration_date);
+            return days >= 0 && days <= EXPIRING_SOON_DAYS;
+          }).length),
+        },
+        { label: 'Critical', value: String(documents.filter((doc) => doc.is_critical).length) },
+      ],
+      emptyMessage: 'No documents match this filter.',
+    };
+  }
+
+  private async remindersTable(userId: string, context: ExportContext): Promise<ExportTable> {
+    // Same rows as the Reminders page, without its cut-off at 100
+    const { results } = await this.db.prepare(
+      `SELECT r.reminder_date, r.reminder_type, r.is_sent, d.title as document_title,
+              d.expiration_date, d.is_critical, d.snoozed_until, d.acknowledged_at
+       FROM reminders r
+       JOIN documents d ON r.document_id = d.id
+       WHERE r.user_id = ?
+       ORDER BY r.reminder_date DESC LIMIT ?`
+    )
+      .bind(userId, EXPORT_MAX_ROWS)
+      .all<{
+        reminder_date: string;
+        reminder_type: string;
+        is_sent: number;
+        document_title: string;
+        expiration_date: string;
+        is_critical: number;
+        snoozed_until: string | null;
+        acknowledged_at: string | null;
+      }>();
+
+    return {
+      title: 'Reminder history',
+      scope: this.describeCount(results.length, 'reminder'),
+      columns: [
+        { label: 'Reminder date', width: 10 },
+        { label: 'Document', width: 30 },
+        { label: 'Type', width: 14 },
+        { label: 'Sent', width: 7 },
+        { label: 'Expires', width: 10 },
+        { label: 'Critical', width: 7 },
+        { label: 'Follow-up', width: 22 },
+      ],
+      rows: results.map((reminder) => [
+        reminder.reminder_date.slice(0, 10),
+        reminder.document_title,
+        REMINDER_TYPE_LABELS[reminder.reminder_type] ?? 'Reminder',
+        reminder.is_sent ? 'Yes' : 'No',
+        reminder.expiration_date.slice(0, 10),
+        reminder.is_critical ? 'Yes' : 'No',
+        this.reminderFollowUp(reminder.snoozed_until, reminder.acknowledged_at, context),
+      ]),
+      emptyMessage: 'No reminders have been scheduled yet.',
+    };
+  }
+
+  private async activityTable(userId: string, context: ExportContext): Promise<ExportTable> {
+    const { results } = await this.db.prepare(
+      "SELECT action_type, description, created_at FROM activity_logs WHERE user_id = ? ORDER BY created_at DESC LIMIT ?"
+    )
+      .bind(userId, EXPORT_MAX_ROWS)
+      .all<{ action_type: string; description: string | null; created_at: string }>();
+
+    return {
+      title: 'Activity log',
+      scope: this.describeCount(results.length, 'entry', 'entries'),
+      columns: [
+        { label: 'Date', width: 14 },
+        { label: 'Action', width: 18 },
+        { label: 'Details', width: 68 },
+      ],
+      rows: results.map((log) => [
+        this.formatDateTime(log.created_at, context.timeZone, false),
+        this.actionLabel(log.action_type),
+        log.description,
+      ]),
+      emptyMessage: 'No activity has been recorded yet.',
+    };
+  }
+
+  private async render(table: ExportTable, format: ExportQuery['format'], context: ExportContext): Promise<Uint8Array> {
+    const header = table.columns.map((column) => column.label);
+
+    switch (format) {
+      case 'csv':
+        return new TextEncoder().encode(writeCsv([header, ...table.rows]));
+      case 'xlsx':
+        // A few lines above the table say whose data it is and when it was taken
+        return await writeXlsx({
+          name: table.title,
+          rows: [
+            [context.businessName],
+            [`${table.title}, generated ${context.generatedAt}`],
+            [table.scope],
+            [],
+            header,
+            ...table.rows,
+          ],
+          boldRows: [0, 4],
+        });
+      case 'pdf':
+        return renderPdfReport({
+          title: table.title,
+          details: [context.businessName, `Generated ${context.generatedAt}`, table.scope],
+          summary: table.summary,
+          columns: table.columns,
+          rows: table.rows.map((row) => row.map((cell) => (cell === null ? '' : String(cell)))),
+          emptyMessage: table.emptyMessage,
+          footer: `${context.businessName} - ${table.title} - generated by VaultDue on ${context.generatedAt}`,
+        });
+    }
+  }
+
+  private documentStatus(status: string, daysLeft: number): string {
+    if (status !== 'active') {
+      return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+    if (daysLeft < 0) {
+      return 'Expired';
+    }
+    return daysLeft <= EXPIRING_SOON_DAYS ? 'Expiring soon' : 'Active';
+  }
+
+  private reminderFollowUp(snoozedUntil: string | null, acknowledgedAt: string | null, context: ExportContext): string {
+    if (acknowledgedAt) {
+      return `Acknowledged ${this.formatDateTime(acknowledgedAt, context.timeZone, false)}`;
+    }
+    if (snoozedUntil && snoozedUntil.slice(0, 10) >= context.today) {
+      return `Snoozed until ${snoozedUntil.slice(0, 10)}`;
+    }
+    return '';
+  }
+
+  // "document_renewed" reads as "Document renewed"
+  private actionLabel(actionType: string): string {
+    const words = actionType.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private describeCount(count: number, singular: string, plural = `${singular}s`): string {
+    const noun = count === 1 ? singular : plural;
+    return count >= EXPORT_MAX_ROWS ? `The most recent ${count} ${noun}` : `${count} ${noun}`;
+  }
+
+  // "2026-03-31 14:05", with the zone name when it's for a heading
+  private formatDateTime(iso: string, timeZone: string, withZone: boolean): string {
+    const instant = new Date(iso);
+    if (Number.isNaN(instant.getTime())) {
+      return iso;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZoneName: withZone ? 'short' : undefined,
+    }).formatToParts(instant);
+
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+    const formatted = `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}`;
+    return withZone ? `${formatted} ${part('timeZoneName')}` : formatted;
+  }
+}
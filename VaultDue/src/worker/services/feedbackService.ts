@@ -0,0 +1,155 @@
+import type {
+  Feedback,
+  FeedbackNote,
+  FeedbackQuery,
+  FeedbackReply,
+  FeedbackStatus,
+} from '@/shared/types';
+import { NotificationService } from './notificationService';
+import type { AdminActor } from './adminService';
+
+export interface FeedbackPage {
+  items: Feedback[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export class FeedbackService {
+  private notificationService: NotificationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+  }
+
+  /**
+   * Lists feedback newest first, filtered by status and type. `q` is matched
+   * against subject, message and submitter through the feedback_fts index;
+   * each word is treated as a prefix.
+   */
+  async list(query: FeedbackQuery): Promise<FeedbackPage> {
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (query.status) {
+      conditions.push("f.status = ?");
+      values.push(query.status);
+    }
+    if (query.feedback_type) {
+      conditions.push("f.feedback_type = ?");
+      values.push(query.feedback_type);
+    }
+
+    const match = this.toMatchExpression(query.q);
+    if (match) {
+      conditions.push("f.id IN (SELECT rowid FROM feedback_fts WHERE feedback_fts MATCH ?)");
+      values.push(match);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const offset = (query.page - 1) * query.page_size;
+
+    const [countResult, listResult] = await this.db.batch([
+      this.db.prepare(`SELECT COUNT(*) AS count FROM feedback f ${where}`).bind(...values),
+      this.db.prepare(`
+        SELECT f.*,
+          (SELECT COUNT(*) FROM feedback_notes n WHERE n.feedback_id = f.id) AS note_count
+        FROM feedback f
+        ${where}
+        ORDER BY f.created_at DESC, f.id DESC
+        LIMIT ? OFFSET ?
+      `).bind(...values, query.page_size, offset),
+    ]);
+
+    const total = (countResult.results[0] as { count: number } | undefined)?.count ?? 0;
+
+    return {
+      items: listResult.results as Feedback[],
+      total,
+      page: query.page,
+      page_size: query.page_size,
+    };
+  }
+
+  async get(id: number | string): Promise<Feedback | null> {
+    return await this.db.prepare("SELECT * FROM feedback WHERE id = ?")
+      .bind(id)
+      .first<Feedback>();
+  }
+
+  async listNotes(feedbackId: number): Promise<FeedbackNote[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM feedback_notes
+      WHERE feedback_id = ?
+      ORDER BY created_at ASC, id ASC
+    `).bind(feedbackId).all<FeedbackNote>();
+
+    return results;
+  }
+
+  async updateStatus(feedback: Feedback, status: FeedbackStatus): Promise<Feedback> {
+    await this.db.prepare(
+      "UPDATE feedback SET status = ?, updated_at = ? WHERE id = ?"
+    ).bind(status, new Date().toISOString(), feedback.id).run();
+
+    return (await this.get(feedback.id))!;
+  }
+
+  async addNote(
+    feedback: Feedback,
+    admin: AdminActor,
+    body: string,
+    noteType: FeedbackNote['note_type'] = 'internal'
+  ): Promise<FeedbackNote> {
+    const now = new Date().toISOString();
+
+    const result = await this.db.prepare(`
+      INSERT INTO feedback_notes (feedback_id, admin_user_id, admin_email, note_type, body, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(feedback.id, admin.id, admin.email, noteType, body, now, now).run();
+
+    return (await this.db.prepare("SELECT * FROM feedback_notes WHERE id = ?")
+      .bind(result.meta.last_row_id)
+      .first<FeedbackNote>())!;
+  }
+
+  /**
+   * Emails the submitter and keeps a copy of the reply on the feedback
+   * thread. Returns null if the email could not be sent.
+   */
+  async reply(feedback: Feedback, admin: AdminActor, reply: FeedbackReply): Promise<FeedbackNote | null> {
+    if (!feedback.user_email) {
+      return null;
+    }
+
+    const subject = reply.subject
+      || `Re: ${feedback.subject || 'Your VaultDue feedback'}`;
+
+    const sent = await this.notificationService.sendFeedbackReplyEmail(feedback.user_email, {
+      recipientName: feedback.user_name,
+      subject,
+      message: reply.message,
+      originalMessage: feedback.message,
+    });
+
+    if (!sent) {
+      return null;
+    }
+
+    return await this.addNote(feedback, admin, reply.message, 'reply');
+  }
+
+  // Quotes each word so user input can't inject FTS5 query syntax
+  private toMatchExpression(q?: string): string | null {
+    const terms = (q || '')
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, ''))
+      .filter(Boolean);
+
+    if (terms.length === 0) {
+      return null;
+    }
+
+    return terms.map(term => `"${term}"*`).join(' ');
+  }
+}
@@ -1,160 +1,272 @@
-interface NotificationPayload {
+import { NotificationProviders, WhatsAppMessage, resolveNotificationProviders } from '../providers';
+import { getAppUrl } from '../utils/signedLinks';
+import {
+  DEFAULT_LOCALE,
+  TemplateOverrides,
+  TemplateVariables,
+  DigestSection,
+  LocaleStrings,
+  buildTemplateVariables,
+  formatExpiryDate,
+  getDigestSection,
+  getLocaleStrings,
+  getTemplateKey,
+  getUrgencyLevel,
+  renderNotificationTemplate,
+  renderTemplate,
+} from '../templates';
+import type { NotificationTemplateKey, TemplateLocale, TemplateMessage, UrgencyLevel } from '@/shared/types';
+
+export interface NotificationPayload {
   to: string;
+  documentId?: number;
   documentTitle: string;
+  documentType?: string | null;
   expirationDate: string;
   daysUntilExpiry: number;
   isCritical: boolean;
+  businessName?: string | null;
   message: string;
+  // The recipient's language, and their workspace's template overrides
+  locale?: TemplateLocale;
+  templates?: TemplateOverrides;
+  // Signed one-click links, added to emails and texts when available
+  actionLinks?: ReminderActionLinks | null;
 }
 
+export interface ReminderActionLinks {
+  snooze: string;
+  snoozeDays: number;
+  acknowledge: string;
+}
+
+// What a Slack or Teams reminder shows, worded like the email
+interface ChatContent {
+  level: UrgencyLevel;
+  headline: string;
+  summary: string;
+  expiry: string;
+  urgency: string;
+  labels: LocaleStrings['chat'];
+}
+
+// A backup contact being asked to step in for a document's owner
+export interface EscalationNotice {
+  contactName?: string | null;
+  ownerName: string;
+  documentTitle: string;
+  expirationDate: string;
+  daysUntilExpiry: number;
+  acknowledgeUrl: string | null;
+}
+
+// One document in a digest
+export interface DigestItem {
+  documentId: number;
+  documentTitle: string;
+  expirationDate: string;
+  daysUntilExpiry: number;
+  isCritical: boolean;
+}
+
+// Several documents in one message: the reminders due in a run ('daily'), or
+// the Monday summary of what expires soon ('weekly')
+export interface ReminderDigest {
+  kind: 'daily' | 'weekly';
+  date: string; // The recipient's local date
+  items: DigestItem[];
+  locale?: TemplateLocale;
+}
+
+const DIGEST_SECTION_ORDER: DigestSection[] = ['expired', 'week', 'month', 'later'];
+
+/**
+ * Formats VaultDue's messages and hands them to the provider configured for
+ * each channel (see resolveNotificationProviders).
+ */
 export class NotificationService {
-  constructor(private env: Env) {}
-
-  async sendWhatsAppNotification(payload: NotificationPayload): Promise<boolean> {
-    try {
-      if (!this.env.WHATSAPP_ACCESS_TOKEN || !this.env.WHATSAPP_PHONE_NUMBER_ID) {
-        console.error('WhatsApp credentials not configured');
-        return false;
-      }
-
-      // Clean and validate phone number
-      const phoneNumber = this.formatPhoneNumber(payload.to);
-      if (!phoneNumber) {
-        console.error('Invalid phone number:', payload.to);
-        return false;
-      }
-
-      const message = this.formatWhatsAppMessage(payload);
-      
-      const whatsappPayload = {
-        messaging_product: "whatsapp",
-        to: phoneNumber,
-        type: "text",
-        text: { 
-          body: message 
-        }
-      };
-
-      console.log(`Sending WhatsApp reminder to: ${phoneNumber}`);
-      
-      const response = await fetch(
-        `https://graph.facebook.com/v19.0/${this.env.WHATSAPP_PHONE_NUMBER_ID}/messages`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.env.WHATSAPP_ACCESS_TOKEN}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(whatsappPayload),
-        }
-      );
-
-      const responseData = await response.json() as any;
-      
-      if (!response.ok) {
-        console.error('WhatsApp API error:', responseData);
-        return false;
-      }
-
-      console.log('WhatsApp reminder sent successfully');
-      return true;
-    } catch (error) {
-      console.error('Failed to send WhatsApp notification:', error);
-      return false;
+  private providers: NotificationProviders;
+
+  constructor(private env: Env, providers?: NotificationProviders) {
+    this.providers = providers ?? resolveNotificationProviders(this.env);
+  }
+
+  /**
+   * Sends a reminder over WhatsApp and returns the provider's message id,
+   * or null when the message could not be sent.
+   */
+  async sendWhatsAppNotification(payload: NotificationPayload): Promise<string | null> {
+    const message = this.formatWhatsAppMessage(payload);
+    return this.sendWhatsAppText(payload.to, message);
+  }
+
+  /**
+   * Sends a free-form WhatsApp text message. Only delivered by Meta inside the
+   * 24 hour customer service window, so it is used for replies to inbound messages.
+   */
+  async sendWhatsAppText(to: string, body: string): Promise<string | null> {
+    return this.sendWhatsAppMessage(to, body);
+  }
+
+  /**
+   * Sends a phone verification code. Uses the approved authentication
+   * template named by WHATSAPP_OTP_TEMPLATE when configured, since Meta only
+   * delivers templates to numbers that haven't messaged us first.
+   */
+  async sendWhatsAppOtp(to: string, code: string, ttlMinutes: number): Promise<string | null> {
+    const text = `🔐 Your VaultDue verification code is ${code}. It expires in ${ttlMinutes} minutes. Don't share it with anyone.`;
+
+    if (!this.env.WHATSAPP_OTP_TEMPLATE) {
+      return this.sendWhatsAppText(to, text);
     }
+
+    return this.sendWhatsAppMessage(to, text, {
+      name: this.env.WHATSAPP_OTP_TEMPLATE,
+      language: this.env.WHATSAPP_OTP_TEMPLATE_LANGUAGE || 'en_US',
+      bodyParameters: [code],
+      urlButtonParameter: code,
+    });
   }
 
-  async sendSMSNotification(payload: NotificationPayload): Promise<boolean> {
-    try {
-      if (!this.env.TWILIO_ACCOUNT_SID || !this.env.TWILIO_AUTH_TOKEN || !this.env.TWILIO_PHONE_NUMBER) {
-        console.error('Twilio SMS credentials not configured');
-        return false;
-      }
-
-      const phoneNumber = this.formatPhoneNumber(payload.to);
-      if (!phoneNumber) {
-        console.error('Invalid phone number:', payload.to);
-        return false;
-      }
-
-      const message = this.formatSMSMessage(payload);
-      const auth = btoa(`${this.env.TWILIO_ACCOUNT_SID}:${this.env.TWILIO_AUTH_TOKEN}`);
-      
-      console.log(`Sending SMS reminder to: ${phoneNumber}`);
-      
-      const response = await fetch(
-        `https://api.twilio.com/2010-04-01/Accounts/${this.env.TWILIO_ACCOUNT_SID}/Messages.json`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${auth}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            From: this.env.TWILIO_PHONE_NUMBER,
-            To: `+${phoneNumber}`,
-            Body: message,
-          }),
-        }
-      );
-
-      const responseData = await response.json() as any;
-      
-      if (!response.ok) {
-        console.error('SMS API error:', responseData);
-        return false;
-      }
-
-      console.log('SMS reminder sent successfully');
-      return true;
-    } catch (error) {
-      console.error('Failed to send SMS notification:', error);
-      return false;
+  private async sendWhatsAppMessage(
+    to: string,
+    text: string,
+    template?: WhatsAppMessage['template']
+  ): Promise<string | null> {
+    // Clean and validate phone number
+    const phoneNumber = this.formatPhoneNumber(to);
+    if (!phoneNumber) {
+      console.error('Invalid phone number:', to);
+      return null;
     }
+
+    return this.providers.whatsapp.send({ channel: 'whatsapp', to: phoneNumber, text, template });
   }
 
-  async sendEmailNotification(payload: NotificationPayload): Promise<boolean> {
-    try {
-      if (!this.env.RESEND_API_KEY) {
-        console.error('Resend API key not configured');
-        return false;
-      }
-
-      const subject = this.getEmailSubject(payload);
-      const htmlContent = this.formatEmailHTML(payload);
-      
-      console.log(`Sending email reminder to: ${payload.to}`);
-      
-      const response = await fetch('https://api.resend.com/emails', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.env.RESEND_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          from: 'VaultDue Reminders <reminders@vaultdue.com>',
-          to: [payload.to],
-          subject: subject,
-          html: htmlContent,
-        }),
-      });
-
-      const responseData = await response.json() as any;
-      
-      if (!response.ok) {
-        console.error('Email API error:', responseData);
-        return false;
-      }
-
-      console.log('Email reminder sent successfully');
-      return true;
-    } catch (error) {
-      console.error('Failed to send email notification:', error);
-      return false;
+  /**
+   * Sends a reminder by SMS and returns the provider's message id (the
+   * Twilio message SID), or null when the message could not be sent.
+   */
+  async sendSMSNotification(payload: NotificationPayload): Promise<string | null> {
+    const phoneNumber = this.formatPhoneNumber(payload.to);
+    if (!phoneNumber) {
+      console.error('Invalid phone number:', payload.to);
+      return null;
     }
+
+    const message = this.formatSMSMessage(payload);
+    return this.providers.sms.send({ channel: 'sms', to: phoneNumber, body: message });
+  }
+
+  // Posts a Block Kit message to a Slack incoming webhook
+  async sendSlackNotification(payload: NotificationPayload): Promise<string | null> {
+    return this.providers.slack.send({
+      channel: 'slack',
+      to: payload.to,
+      text: this.formatChatFallbackText(payload),
+      payload: this.formatSlackMessage(payload),
+    });
+  }
+
+  // Posts an Adaptive Card to a Teams incoming webhook or workflow
+  async sendTeamsNotification(payload: NotificationPayload): Promise<string | null> {
+    return this.providers.teams.send({
+      channel: 'teams',
+      to: payload.to,
+      text: this.formatChatFallbackText(payload),
+      payload: this.formatTeamsMessage(payload),
+    });
+  }
+
+  // Returns the provider's email id, or null when the email could not be sent
+  async sendEmailNotification(payload: NotificationPayload): Promise<string | null> {
+    const subject = this.getEmailSubject(payload);
+    const htmlContent = this.formatEmailHTML(payload);
+
+    return this.sendEmailMessage(payload.to, subject, htmlContent);
+  }
+
+  async sendDocumentInvitationEmail(
+    to: string,
+    invitation: { inviterName: string; documentTitle: string; role: string; locale?: TemplateLocale }
+  ): Promise<boolean> {
+    const locale = invitation.locale ?? DEFAULT_LOCALE;
+    const strings = getLocaleStrings(locale).invitation;
+    const variables = { inviter: invitation.inviterName, document: invitation.documentTitle };
+    const escape = (value: string) => this.escapeHtml(value);
+
+    const htmlContent = this.formatInvitationEmailHTML(
+      locale,
+      renderTemplate(strings.documentAction, variables, escape),
+      strings.documentDetails[invitation.role === 'editor' ? 'editor' : 'viewer'],
+      strings.documentFooter
+    );
+
+    return this.sendEmail(to, renderTemplate(strings.documentSubject, variables), htmlContent);
+  }
+
+  async sendWorkspaceInvitationEmail(
+    to: string,
+    invitation: { inviterName: string; workspaceName: string; role: string; locale?: TemplateLocale }
+  ): Promise<boolean> {
+    const locale = invitation.locale ?? DEFAULT_LOCALE;
+    const strings = getLocaleStrings(locale).invitation;
+    const variables = { inviter: invitation.inviterName, workspace: invitation.workspaceName, role: invitation.role };
+    const escape = (value: string) => this.escapeHtml(value);
+
+    const htmlContent = this.formatInvitationEmailHTML(
+      locale,
+      renderTemplate(strings.workspaceAction, variables, escape),
+      strings.workspaceDetails,
+      strings.workspaceFooter
+    );
+
+    return this.sendEmail(to, renderTemplate(strings.workspaceSubject, variables), htmlContent);
+  }
+
+  async sendFeedbackReplyEmail(
+    to: string,
+    reply: { recipientName?: string | null; subject: string; message: string; originalMessage: string }
+  ): Promise<boolean> {
+    const htmlContent = this.formatFeedbackReplyEmailHTML(reply);
+
+    return this.sendEmail(to, reply.subject, htmlContent);
   }
 
-  private formatPhoneNumber(phoneNumber: string): string {
+  async sendEscalationEmail(to: string, escalation: EscalationNotice): Promise<boolean> {
+    const subject = `[ESCALATION] ${escalation.documentTitle} needs attention on behalf of ${escalation.ownerName}`;
+    const htmlContent = this.formatEscalationEmailHTML(escalation);
+
+    return this.sendEmail(to, subject, htmlContent);
+  }
+
+  async sendEscalationWhatsApp(to: string, escalation: EscalationNotice): Promise<string | null> {
+    return this.sendWhatsAppText(to, this.formatEscalationText(escalation));
+  }
+
+  async sendDigestEmail(to: string, digest: ReminderDigest): Promise<string | null> {
+    const strings = getLocaleStrings(digest.locale ?? DEFAULT_LOCALE).digest;
+    const subject = renderTemplate(
+      digest.kind === 'weekly' ? strings.weeklySubject : strings.dailySubject,
+      this.getDigestVariables(digest)
+    );
+
+    return this.sendEmailMessage(to, subject, this.formatDigestEmailHTML(digest));
+  }
+
+  async sendDigestWhatsApp(to: string, digest: ReminderDigest): Promise<string | null> {
+    return this.sendWhatsAppText(to, this.formatDigestText(digest));
+  }
+
+  private async sendEmail(to: string, subject: string, html: string): Promise<boolean> {
+    return (await this.sendEmailMessage(to, subject, html)) !== null;
+  }
+
+  private async sendEmailMessage(to: string, subject: string, html: string): Promise<string | null> {
+    return this.providers.email.send({ channel: 'email', to, subject, html });
+  }
+
+  formatPhoneNumber(phoneNumber: string): string {
     if (!phoneNumber) return '';
     
     // Remove all non-digits
@@ -176,148 +288,531 @@ export class NotificationService {
     return cleaned;
   }
 
+  // Opens the document in the app
+  private getDocumentLink(payload: NotificationPayload): string {
+    const appUrl = getAppUrl(this.env);
+    return payload.documentId ? `${appUrl}/?document=${payload.documentId}` : appUrl;
+  }
+
+  private getTemplateVariables(payload: NotificationPayload): TemplateVariables {
+    return buildTemplateVariables({ ...payload, link: this.getDocumentLink(payload) }, payload.locale ?? DEFAULT_LOCALE);
+  }
+
+  // The workspace's wording for this reminder if it has one, else the locale's default
+  private renderMessage(message: TemplateMessage, payload: NotificationPayload): string {
+    return this.renderTemplatePreview(getTemplateKey(message, payload.daysUntilExpiry), payload);
+  }
+
+  // Renders one template against a reminder's details, for previews
+  renderTemplatePreview(key: NotificationTemplateKey, payload: NotificationPayload): string {
+    return renderNotificationTemplate(
+      key,
+      payload.locale ?? DEFAULT_LOCALE,
+      this.getTemplateVariables(payload),
+      payload.templates
+    );
+  }
+
   private formatWhatsAppMessage(payload: NotificationPayload): string {
-    const { documentTitle, daysUntilExpiry, isCritical, expirationDate } = payload;
-    const urgencyEmoji = isCritical ? '🚨' : '📋';
-    const expiryFormatted = new Date(expirationDate).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    return this.renderMessage('whatsapp', payload);
+  }
 
-    if (daysUntilExpiry < 0) {
-      return `${urgencyEmoji} *EXPIRED DOCUMENT ALERT*\n\n` +
-             `Your document "${documentTitle}" expired ${Math.abs(daysUntilExpiry)} day(s) ago on ${expiryFormatted}.\n\n` +
-             `⚠️ Please renew this document immediately to avoid any issues.\n\n` +
-             `Log into VaultDue to update: https://vaultdue.com\n\n` +
-             `Reply "RENEWED" once you've updated this document.`;
-    } else if (daysUntilExpiry === 0) {
-      return `${urgencyEmoji} *DOCUMENT EXPIRES TODAY*\n\n` +
-             `Your document "${documentTitle}" expires TODAY (${expiryFormatted}).\n\n` +
-             `⚠️ Please take immediate action to renew this document.\n\n` +
-             `Log into VaultDue to update: https://vaultdue.com\n\n` +
-             `Reply "RENEWED" once you've updated this document.`;
-    } else if (daysUntilExpiry === 1) {
-      return `${urgencyEmoji} *DOCUMENT EXPIRES TOMORROW*\n\n` +
-             `Your document "${documentTitle}" expires tomorrow (${expiryFormatted}).\n\n` +
-             `⏰ Don't forget to renew this document!\n\n` +
-             `Log into VaultDue to update: https://vaultdue.com\n\n` +
-             `Reply "RENEWED" once you've updated this document.`;
-    } else {
-      return `${urgencyEmoji} *DOCUMENT EXPIRY REMINDER*\n\n` +
-             `Your document "${documentTitle}" will expire in ${daysUntilExpiry} day(s) on ${expiryFormatted}.\n\n` +
-             `📅 Plan ahead to renew this document on time.\n\n` +
-             `Log into VaultDue to manage: https://vaultdue.com\n\n` +
-             `Reply "RENEWED" once you've updated this document.`;
-    }
+  /**
+   * Slack and Teams show the email's subject and message, so they follow the
+   * workspace's wording and the recipient's language too.
+   */
+  private getChatContent(payload: NotificationPayload): ChatContent {
+    const strings = getLocaleStrings(payload.locale ?? DEFAULT_LOCALE);
+    const variables = this.getTemplateVariables(payload);
+    const level = getUrgencyLevel(payload.daysUntilExpiry);
+    const urgency = renderTemplate(strings.email.banner[level], variables);
+
+    return {
+      level,
+      headline: `${variables.emoji} ${this.renderMessage('email_subject', payload)}`,
+      summary: this.renderMessage('email_body', payload),
+      expiry: variables.expiry_date,
+      urgency: payload.isCritical ? `${urgency} · ${strings.email.critical}` : urgency,
+      labels: strings.chat,
+    };
+  }
+
+  private formatChatFallbackText(payload: NotificationPayload): string {
+    const content = this.getChatContent(payload);
+    return `${content.headline}: ${content.summary}`;
+  }
+
+  private formatSlackMessage(payload: NotificationPayload): Record<string, unknown> {
+    const content = this.getChatContent(payload);
+    // Slack mrkdwn only needs &, < and > escaped
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    return {
+      text: escape(this.formatChatFallbackText(payload)),
+      blocks: [
+        {
+          type: 'header',
+          // Slack caps header text at 150 characters
+          text: { type: 'plain_text', text: content.headline.slice(0, 150), emoji: true },
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: escape(content.summary) },
+        },
+        {
+          type: 'section',
+          fields: [
+            { type: 'mrkdwn', text: `*${content.labels.document}*\n${escape(payload.documentTitle)}` },
+            { type: 'mrkdwn', text: `*${content.labels.expires}*\n${escape(content.expiry)}` },
+            { type: 'mrkdwn', text: `*${content.labels.urgency}*\n${escape(content.urgency)}` },
+          ],
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: content.labels.button },
+              url: this.getDocumentLink(payload),
+              style: content.level === 'upcoming' ? 'primary' : 'danger',
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  private formatTeamsMessage(payload: NotificationPayload): Record<string, unknown> {
+    const content = this.getChatContent(payload);
+    const color = content.level === 'expired' || content.level === 'today'
+      ? 'Attention'
+      : content.level === 'tomorrow' || payload.isCritical ? 'Warning' : 'Default';
+
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body: [
+              {
+                type: 'TextBlock',
+                text: content.headline,
+                weight: 'Bolder',
+                size: 'Medium',
+                color,
+                wrap: true,
+              },
+              { type: 'TextBlock', text: content.summary, wrap: true },
+              {
+                type: 'FactSet',
+                facts: [
+                  { title: content.labels.document, value: payload.documentTitle },
+                  { title: content.labels.expires, value: content.expiry },
+                  { title: content.labels.urgency, value: content.urgency },
+                ],
+              },
+            ],
+            actions: [
+              { type: 'Action.OpenUrl', title: content.labels.button, url: this.getDocumentLink(payload) },
+            ],
+          },
+        },
+      ],
+    };
   }
 
   private formatSMSMessage(payload: NotificationPayload): string {
-    const { documentTitle, daysUntilExpiry, expirationDate } = payload;
-    const expiryFormatted = new Date(expirationDate).toLocaleDateString();
-
-    if (daysUntilExpiry < 0) {
-      return `VaultDue Alert: "${documentTitle}" expired ${Math.abs(daysUntilExpiry)} day(s) ago (${expiryFormatted}). Please renew immediately. Visit: vaultdue.com`;
-    } else if (daysUntilExpiry === 0) {
-      return `VaultDue Alert: "${documentTitle}" expires TODAY (${expiryFormatted}). Take immediate action! Visit: vaultdue.com`;
-    } else if (daysUntilExpiry === 1) {
-      return `VaultDue Reminder: "${documentTitle}" expires tomorrow (${expiryFormatted}). Don't forget to renew! Visit: vaultdue.com`;
-    } else {
-      return `VaultDue Reminder: "${documentTitle}" expires in ${daysUntilExpiry} days (${expiryFormatted}). Plan to renew on time. Visit: vaultdue.com`;
+    const message = this.renderMessage('sms', payload);
+    if (!payload.actionLinks) {
+      return message;
     }
+
+    const strings = getLocaleStrings(payload.locale ?? DEFAULT_LOCALE).actions;
+    const snoozeLabel = renderTemplate(strings.snooze, { days: String(payload.actionLinks.snoozeDays) });
+    return `${message}\n${snoozeLabel}: ${payload.actionLinks.snooze}\n${strings.acknowledge}: ${payload.actionLinks.acknowledge}`;
   }
 
   private getEmailSubject(payload: NotificationPayload): string {
-    const { documentTitle, daysUntilExpiry, isCritical } = payload;
-    const priority = isCritical ? '[CRITICAL] ' : '';
-
-    if (daysUntilExpiry < 0) {
-      return `${priority}EXPIRED: ${documentTitle} - Action Required`;
-    } else if (daysUntilExpiry === 0) {
-      return `${priority}EXPIRES TODAY: ${documentTitle} - Immediate Action Needed`;
-    } else if (daysUntilExpiry === 1) {
-      return `${priority}EXPIRES TOMORROW: ${documentTitle} - Reminder`;
-    } else {
-      return `${priority}Reminder: ${documentTitle} expires in ${daysUntilExpiry} days`;
-    }
+    return this.renderMessage('email_subject', payload);
   }
 
   private formatEmailHTML(payload: NotificationPayload): string {
-    const { documentTitle, daysUntilExpiry, isCritical, expirationDate } = payload;
-    const expiryFormatted = new Date(expirationDate).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    const { daysUntilExpiry, isCritical } = payload;
+    const locale = payload.locale ?? DEFAULT_LOCALE;
+    const strings = getLocaleStrings(locale).email;
+    const variables = this.getTemplateVariables(payload);
+    const escape = (value: string) => this.escapeHtml(value);
 
     const urgencyColor = daysUntilExpiry <= 1 ? '#dc2626' : daysUntilExpiry <= 7 ? '#f59e0b' : '#3b82f6';
-    const urgencyText = daysUntilExpiry < 0 ? 'EXPIRED' : 
-                        daysUntilExpiry === 0 ? 'EXPIRES TODAY' : 
-                        daysUntilExpiry === 1 ? 'EXPIRES TOMORROW' : 
-                        `EXPIRES IN ${daysUntilExpiry} DAYS`;
+    const urgencyText = renderTemplate(strings.banner[getUrgencyLevel(daysUntilExpiry)], variables, escape);
+    // Workspaces write templates as plain text, so the whole paragraph is escaped
+    const body = escape(this.renderMessage('email_body', payload)).replace(/\n/g, '<br>');
+    const appUrl = this.escapeHtml(getAppUrl(this.env));
+    const footer = renderTemplate(strings.footer, { year: String(new Date().getFullYear()) });
+    const actions = getLocaleStrings(locale).actions;
+    const actionLinks = payload.actionLinks ? `
+            <p style="text-align: center; color: #6b7280; font-size: 14px; margin: 0 0 32px 0;">
+                <a href="${escape(payload.actionLinks.snooze)}" style="color: #667eea; text-decoration: none;">${renderTemplate(actions.snooze, { days: String(payload.actionLinks.snoozeDays) })}</a>
+                &nbsp;·&nbsp;
+                <a href="${escape(payload.actionLinks.acknowledge)}" style="color: #667eea; text-decoration: none;">${actions.acknowledge}</a>
+            </p>` : '';
 
     return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Document Expiry Reminder</title>
+    <title>${strings.title}</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
     <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
         <!-- Header -->
         <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 32px; text-align: center;">
             <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">VaultDue</h1>
-            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">Document Expiry Management</p>
+            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">${strings.tagline}</p>
         </div>
 
         <!-- Alert Banner -->
         <div style="background-color: ${urgencyColor}; color: #ffffff; padding: 16px; text-align: center; font-weight: 600; font-size: 16px;">
-            ${isCritical ? '🚨 CRITICAL: ' : '📋 '}${urgencyText}
+            ${isCritical ? `🚨 ${strings.critical}: ` : '📋 '}${urgencyText}
         </div>
 
         <!-- Content -->
         <div style="padding: 32px;">
-            <h2 style="color: #1f2937; margin: 0 0 16px 0; font-size: 24px; font-weight: 600;">Document Reminder</h2>
+            <h2 style="color: #1f2937; margin: 0 0 16px 0; font-size: 24px; font-weight: 600;">${strings.heading}</h2>
             
             <div style="background-color: #f8fafc; border-left: 4px solid ${urgencyColor}; padding: 16px; margin: 24px 0; border-radius: 0 8px 8px 0;">
-                <h3 style="color: #374151; margin: 0 0 8px 0; font-size: 18px; font-weight: 600;">${documentTitle}</h3>
-                <p style="color: #6b7280; margin: 0; font-size: 16px;"><strong>Expiry Date:</strong> ${expiryFormatted}</p>
+                <h3 style="color: #374151; margin: 0 0 8px 0; font-size: 18px; font-weight: 600;">${escape(variables.title)}</h3>
+                <p style="color: #6b7280; margin: 0; font-size: 16px;"><strong>${strings.expiryLabel}</strong> ${escape(variables.expiry_date)}</p>
             </div>
 
-            ${daysUntilExpiry < 0 ? 
-                `<p style="color: #374151; line-height: 1.6; font-size: 16px;">Your document has <strong>expired ${Math.abs(daysUntilExpiry)} day(s) ago</strong>. Please renew this document immediately to avoid any compliance issues.</p>` :
-                daysUntilExpiry === 0 ? 
-                `<p style="color: #374151; line-height: 1.6; font-size: 16px;">Your document <strong>expires today</strong>. Please take immediate action to renew this document.</p>` :
-                daysUntilExpiry === 1 ? 
-                `<p style="color: #374151; line-height: 1.6; font-size: 16px;">Your document <strong>expires tomorrow</strong>. Don't forget to renew it on time!</p>` :
-                `<p style="color: #374151; line-height: 1.6; font-size: 16px;">Your document will expire in <strong>${daysUntilExpiry} days</strong>. Plan ahead to renew this document on time.</p>`
-            }
+            <p style="color: #374151; line-height: 1.6; font-size: 16px;">${body}</p>
 
             <!-- Action Button -->
             <div style="text-align: center; margin: 32px 0;">
-                <a href="https://vaultdue.com" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; transition: transform 0.2s;">
-                    Manage Documents →
+                <a href="${escape(variables.link)}" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: 600; font-size: 16px; transition: transform 0.2s;">
+                    ${strings.button}
                 </a>
             </div>
+            ${actionLinks}
 
             <div style="border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px;">
-                <p style="color: #9ca3af; font-size: 14px; margin: 0;">This is an automated reminder from VaultDue. You're receiving this because you have documents that are approaching their expiry dates.</p>
+                <p style="color: #9ca3af; font-size: 14px; margin: 0;">${strings.notice}</p>
             </div>
         </div>
 
         <!-- Footer -->
         <div style="background-color: #f8fafc; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
             <p style="color: #6b7280; font-size: 14px; margin: 0;">
-                © 2024 VaultDue. All rights reserved.<br>
-                <a href="https://vaultdue.com" style="color: #667eea; text-decoration: none;">vaultdue.com</a>
+                ${footer}<br>
+                <a href="${appUrl}" style="color: #667eea; text-decoration: none;">${appUrl.replace(/^https?:\/\//, '')}</a>
             </p>
         </div>
     </div>
 </body>
+</html>
+    `;
+  }
+
+  private getDigestVariables(digest: ReminderDigest): Record<string, string> {
+    return {
+      count: String(digest.items.length),
+      date: formatExpiryDate(digest.date, digest.locale ?? DEFAULT_LOCALE),
+    };
+  }
+
+  // Most urgent first: by days left, then critical documents ahead of the rest
+  private groupDigest(digest: ReminderDigest): { section: DigestSection; items: DigestItem[] }[] {
+    const sorted = [...digest.items].sort((a, b) =>
+      a.daysUntilExpiry - b.daysUntilExpiry || Number(b.isCritical) - Number(a.isCritical)
+    );
+
+    return DIGEST_SECTION_ORDER
+      .map((section) => ({
+        section,
+        items: sorted.filter((item) => getDigestSection(item.daysUntilExpiry) === section),
+      }))
+      .filter((group) => group.items.length > 0);
+  }
+
+  private getDigestStatus(item: DigestItem, locale: TemplateLocale): string {
+    const strings = getLocaleStrings(locale).digest;
+    return renderTemplate(strings.status[getUrgencyLevel(item.daysUntilExpiry)], {
+      days: String(Math.abs(item.daysUntilExpiry)),
+    });
+  }
+
+  private formatDigestText(digest: ReminderDigest): string {
+    const locale = digest.locale ?? DEFAULT_LOCALE;
+    const strings = getLocaleStrings(locale).digest;
+    const variables = this.getDigestVariables(digest);
+    const subject = digest.kind === 'weekly' ? strings.weeklySubject : strings.dailySubject;
+
+    const sections = this.groupDigest(digest).map(({ section, items }) =>
+      `*${strings.sections[section]}*\n` +
+      items.map((item) => `${item.isCritical ? '🚨' : '•'} ${item.documentTitle} – ${this.getDigestStatus(item, locale)}`).join('\n')
+    );
+
+    return `📋 *${renderTemplate(subject, variables)}*\n\n` +
+           `${renderTemplate(digest.kind === 'weekly' ? strings.weeklyIntro : strings.dailyIntro, variables)}\n\n` +
+           `${sections.join('\n\n')}\n\n` +
+           `${strings.button} ${getAppUrl(this.env)}`;
+  }
+
+  private formatDigestEmailHTML(digest: ReminderDigest): string {
+    const locale = digest.locale ?? DEFAULT_LOCALE;
+    const strings = getLocaleStrings(locale);
+    const variables = this.getDigestVariables(digest);
+    const appUrl = this.escapeHtml(getAppUrl(this.env));
+    const intro = renderTemplate(
+      digest.kind === 'weekly' ? strings.digest.weeklyIntro : strings.digest.dailyIntro,
+      variables,
+      (value) => this.escapeHtml(value)
+    );
+    const footer = renderTemplate(strings.email.footer, { year: String(new Date().getFullYear()) });
+    const sectionColors: Record<DigestSection, string> = {
+      expired: '#dc2626',
+      week: '#f59e0b',
+      month: '#3b82f6',
+      later: '#6b7280',
+    };
+
+    const sections = this.groupDigest(digest).map(({ section, items }) => `
+            <h3 style="color: ${sectionColors[section]}; margin: 24px 0 8px 0; font-size: 16px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em;">${strings.digest.sections[section]} (${items.length})</h3>
+            <table style="width: 100%; border-collapse: collapse;">
+                ${items.map((item) => `<tr>
+                    <td style="padding: 10px 0; border-bottom: 1px solid #e5e7eb;">
+                        <a href="${appUrl}/?document=${item.documentId}" style="color: #1f2937; text-decoration: none; font-weight: 600; font-size: 15px;">${this.escapeHtml(item.documentTitle)}</a>
+                        ${item.isCritical ? `<span style="background-color: #fee2e2; color: #dc2626; font-size: 12px; padding: 2px 6px; border-radius: 4px; margin-left: 6px;">${strings.digest.critical}</span>` : ''}
+                        <div style="color: #6b7280; font-size: 14px; margin-top: 2px;">${this.escapeHtml(formatExpiryDate(item.expirationDate, locale))} · ${this.getDigestStatus(item, locale)}</div>
+                    </td>
+                </tr>`).join('')}
+            </table>`).join('');
+
+    return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${strings.email.title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 32px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">VaultDue</h1>
+            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">${strings.email.tagline}</p>
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 32px;">
+            <p style="color: #374151; line-height: 1.6; font-size: 16px; margin: 0;">${intro}</p>
+            ${sections}
+
+            <!-- Action Button -->
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${appUrl}" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                    ${strings.digest.button}
+                </a>
+            </div>
+
+            <div style="border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px;">
+                <p style="color: #9ca3af; font-size: 14px; margin: 0;">${strings.digest.notice}</p>
+            </div>
+        </div>
+
+        <!-- Footer -->
+        <div style="background-color: #f8fafc; padding: 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+                ${footer}<br>
+                <a href="${appUrl}" style="color: #667eea; text-decoration: none;">${appUrl.replace(/^https?:\/\//, '')}</a>
+            </p>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  // The invitation comes from another user, so callers escape anything user-supplied in `action`
+  private formatInvitationEmailHTML(locale: TemplateLocale, action: string, details: string, footer: string): string {
+    const strings = getLocaleStrings(locale);
+    const appUrl = this.escapeHtml(getAppUrl(this.env));
+
+    return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${strings.invitation.title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 32px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">VaultDue</h1>
+            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">${strings.email.tagline}</p>
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 32px;">
+            <h2 style="color: #1f2937; margin: 0 0 16px 0; font-size: 24px; font-weight: 600;">${strings.invitation.heading}</h2>
+            <p style="color: #374151; line-height: 1.6; font-size: 16px;">${action} ${details}</p>
+
+            <!-- Action Button -->
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${appUrl}" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                    ${strings.invitation.button}
+                </a>
+            </div>
+
+            <div style="border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px;">
+                <p style="color: #9ca3af; font-size: 14px; margin: 0;">${footer}</p>
+            </div>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  private formatEscalationText(escalation: EscalationNotice): string {
+    const { ownerName, documentTitle, daysUntilExpiry, expirationDate, acknowledgeUrl } = escalation;
+    const when = daysUntilExpiry < 0
+      ? `expired ${Math.abs(daysUntilExpiry)} day(s) ago`
+      : daysUntilExpiry === 0 ? 'expires TODAY' : `expires in ${daysUntilExpiry} day(s)`;
+
+    return `🚨 *CRITICAL DOCUMENT ESCALATION*\n\n` +
+           `${ownerName} hasn't responded to reminders for "${documentTitle}", which ${when} (${expirationDate}). ` +
+           `You're listed as a backup contact.\n\n` +
+           (acknowledgeUrl
+             ? `Please make sure it gets renewed, then confirm you're on it: ${acknowledgeUrl}`
+             : `Please make sure it gets renewed.`);
+  }
+
+  private formatEscalationEmailHTML(escalation: EscalationNotice): string {
+    const greeting = escalation.contactName ? `Hi ${this.escapeHtml(escalation.contactName)},` : 'Hi,';
+    const ownerName = this.escapeHtml(escalation.ownerName);
+    const documentTitle = this.escapeHtml(escalation.documentTitle);
+    const expiryFormatted = new Date(escalation.expirationDate).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+    const when = escalation.daysUntilExpiry < 0
+      ? `expired <strong>${Math.abs(escalation.daysUntilExpiry)} day(s) ago</strong>`
+      : escalation.daysUntilExpiry === 0
+        ? '<strong>expires today</strong>'
+        : `expires in <strong>${escalation.daysUntilExpiry} day(s)</strong>`;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Document Escalation</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 32px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">VaultDue</h1>
+            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">Document Expiry Management</p>
+        </div>
+
+        <!-- Alert Banner -->
+        <div style="background-color: #dc2626; color: #ffffff; padding: 16px; text-align: center; font-weight: 600; font-size: 16px;">
+            🚨 CRITICAL: ESCALATED REMINDER
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 32px;">
+            <p style="color: #374151; line-height: 1.6; font-size: 16px;">${greeting}</p>
+            <p style="color: #374151; line-height: 1.6; font-size: 16px;"><strong>${ownerName}</strong> hasn't responded to reminders for a critical document, and you're listed as a backup contact.</p>
+
+            <div style="background-color: #f8fafc; border-left: 4px solid #dc2626; padding: 16px; margin: 24px 0; border-radius: 0 8px 8px 0;">
+                <h3 style="color: #374151; margin: 0 0 8px 0; font-size: 18px; font-weight: 600;">${documentTitle}</h3>
+                <p style="color: #6b7280; margin: 0; font-size: 16px;"><strong>Expiry Date:</strong> ${expiryFormatted}</p>
+            </div>
+
+            <p style="color: #374151; line-height: 1.6; font-size: 16px;">This document ${when}. Please make sure it gets renewed.</p>
+
+            ${escalation.acknowledgeUrl ? `<!-- Action Button -->
+            <div style="text-align: center; margin: 32px 0;">
+                <a href="${this.escapeHtml(escalation.acknowledgeUrl)}" style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; padding: 16px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                    I'm On It →
+                </a>
+            </div>` : ''}
+
+            <div style="border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px;">
+                <p style="color: #9ca3af; font-size: 14px; margin: 0;">Acknowledging stops this reminder from being passed to the next backup contact.</p>
+            </div>
+        </div>
+    </div>
+</body>
+</html>
+    `;
+  }
+
+  private formatFeedbackReplyEmailHTML(
+    reply: { recipientName?: string | null; message: string; originalMessage: string }
+  ): string {
+    const greeting = reply.recipientName ? `Hi ${this.escapeHtml(reply.recipientName)},` : 'Hi,';
+    const message = this.escapeHtml(reply.message).replace(/\n/g, '<br>');
+    const originalMessage = this.escapeHtml(reply.originalMessage).replace(/\n/g, '<br>');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>About Your Feedback</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 32px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 700;">VaultDue</h1>
+            <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 14px;">Document Expiry Management</p>
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 32px;">
+            <p style="color: #374151; line-height: 1.6; font-size: 16px; margin: 0 0 16px 0;">${greeting}</p>
+            <p style="color: #374151; line-height: 1.6; font-size: 16px; margin: 0;">${message}</p>
+
+            <!-- Original Feedback -->
+            <div style="background-color: #f9fafb; border-left: 4px solid #667eea; padding: 16px; margin: 24px 0; border-radius: 4px;">
+                <p style="color: #6b7280; font-size: 12px; margin: 0 0 8px 0; text-transform: uppercase; letter-spacing: 0.05em;">Your feedback</p>
+                <p style="color: #4b5563; font-size: 14px; line-height: 1.6; margin: 0;">${originalMessage}</p>
+            </div>
+
+            <div style="border-top: 1px solid #e5e7eb; padding-top: 24px; margin-top: 24px;">
+                <p style="color: #9ca3af; font-size: 14px; margin: 0;">Thanks for helping us improve VaultDue.</p>
+            </div>
+        </div>
+    </div>
+</body>
 </html>
     `;
   }
@@ -0,0 +1,113 @@
+import {
+  NOTIFICATION_TEMPLATE_KEYS,
+  TEMPLATE_MAX_LENGTHS,
+  type NotificationTemplate,
+  type NotificationTemplateKey,
+  type TemplateLocale,
+  type TemplateMessage,
+} from '@/shared/types';
+import { getDefaultTemplate, resolveLocale, TemplateOverrides } from '../templates';
+
+interface TemplateRow {
+  template_key: NotificationTemplateKey;
+  body: string;
+  updated_at: string;
+}
+
+/**
+ * Workspace overrides of the default reminder wording, one per template key
+ * and locale. Anything not overridden uses the locale's default.
+ */
+export class NotificationTemplateService {
+  constructor(private db: D1Database) {}
+
+  async list(organizationId: number, locale: TemplateLocale): Promise<NotificationTemplate[]> {
+    const rows = await this.getRows(organizationId, locale);
+
+    return NOTIFICATION_TEMPLATE_KEYS.map((key) => ({
+      key,
+      locale,
+      default_body: getDefaultTemplate(key, locale),
+      body: rows.get(key)?.body ?? null,
+      updated_at: rows.get(key)?.updated_at ?? null,
+    }));
+  }
+
+  async getOverrides(organizationId: number | null, locale: TemplateLocale): Promise<TemplateOverrides> {
+    if (!organizationId) {
+      return {};
+    }
+
+    const rows = await this.getRows(organizationId, locale);
+    return Object.fromEntries(Array.from(rows, ([key, row]) => [key, row.body]));
+  }
+
+  // The language a user reads their messages in
+  async getUserLocale(userId: string): Promise<TemplateLocale> {
+    const profile = await this.db.prepare("SELECT locale FROM user_profiles WHERE user_id = ?")
+      .bind(userId)
+      .first<{ locale: string | null }>();
+    return resolveLocale(profile?.locale);
+  }
+
+  // The same for someone known only by email, e.g. an invitee, who may not have signed up yet
+  async getRecipientLocale(email: string): Promise<TemplateLocale> {
+    const profile = await this.db.prepare("SELECT locale FROM user_profiles WHERE lower(email) = ? LIMIT 1")
+      .bind(email.toLowerCase())
+      .first<{ locale: string | null }>();
+    return resolveLocale(profile?.locale);
+  }
+
+  // Why `body` can't be saved for `key`, or null if it can
+  validate(key: NotificationTemplateKey, body: string): string | null {
+    const message = key.split('.')[0] as TemplateMessage;
+    const maxLength = TEMPLATE_MAX_LENGTHS[message];
+    if (body.length > maxLength) {
+      return `This template can be at most ${maxLength} characters`;
+    }
+    if (message === 'email_subject' && body.includes('\n')) {
+      return "Email subjects can't contain line breaks";
+    }
+    return null;
+  }
+
+  async update(
+    organizationId: number,
+    key: NotificationTemplateKey,
+    locale: TemplateLocale,
+    body: string,
+    updatedBy: string
+  ): Promise<NotificationTemplate> {
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO notification_templates (organization_id, locale, template_key, body, updated_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (organization_id, locale, template_key) DO UPDATE SET
+        body = excluded.body, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+    `).bind(organizationId, locale, key, body, updatedBy, now, now).run();
+
+    return { key, locale, default_body: getDefaultTemplate(key, locale), body, updated_at: now };
+  }
+
+  // Goes back to the default wording
+  async reset(organizationId: number, key: NotificationTemplateKey, locale: TemplateLocale): Promise<NotificationTemplate> {
+    await this.db.prepare(
+      "DELETE FROM notification_templates WHERE organization_id = ? AND locale = ? AND template_key = ?"
+    )
+      .bind(organizationId, locale, key)
+      .run();
+
+    return { key, locale, default_body: getDefaultTemplate(key, locale), body: null, updated_at: null };
+  }
+
+  private async getRows(organizationId: number, locale: TemplateLocale): Promise<Map<NotificationTemplateKey, TemplateRow>> {
+    const { results } = await this.db.prepare(
+      "SELECT template_key, body, updated_at FROM notification_templates WHERE organization_id = ? AND locale = ?"
+    )
+      .bind(organizationId, locale)
+      .all<TemplateRow>();
+
+    return new Map(results.map((row) => [row.template_key, row]));
+  }
+}
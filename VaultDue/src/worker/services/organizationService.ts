@@ -0,0 +1,245 @@
+import type {
+  InviteOrganizationMember,
+  Organization,
+  OrganizationMember,
+  OrganizationRole,
+} from '@/shared/types';
+import { NotificationService } from './notificationService';
+import { NotificationTemplateService } from './notificationTemplateService';
+
+export interface WorkspaceUser {
+  id: string;
+  email: string;
+  google_user_data?: { name?: string | null };
+}
+
+export class OrganizationService {
+  private notificationService: NotificationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+  }
+
+  /**
+   * Lists the user's workspaces with their role in each. Pending invitations
+   * addressed to the user's email are activated first, and a default
+   * workspace is created on first use.
+   */
+  async listForUser(user: WorkspaceUser): Promise<Organization[]> {
+    await this.activatePendingMemberships(user);
+    await this.getDefaultOrganizationId(user);
+
+    const { results } = await this.db.prepare(`
+      SELECT o.*, om.role,
+        (SELECT COUNT(*) FROM organization_members m WHERE m.organization_id = o.id) AS member_count
+      FROM organizations o
+      JOIN organization_members om ON om.organization_id = o.id
+      WHERE om.user_id = ? AND om.status = 'active'
+      ORDER BY o.created_at ASC
+    `).bind(user.id).all<Organization>();
+
+    return results;
+  }
+
+  /**
+   * The user's default workspace is the first one they own. It is created on
+   * demand, named after user_profiles.business_name, and takes over any
+   * personal documents created before workspaces existed.
+   */
+  async getDefaultOrganizationId(user: WorkspaceUser): Promise<number> {
+    const existing = await this.db.prepare(`
+      SELECT organization_id FROM organization_members
+      WHERE user_id = ? AND role = 'owner' AND status = 'active'
+      ORDER BY organization_id ASC LIMIT 1
+    `).bind(user.id).first<{ organization_id: number }>();
+
+    if (existing) {
+      return existing.organization_id;
+    }
+
+    const profile = await this.db.prepare(
+      "SELECT business_name FROM user_profiles WHERE user_id = ?"
+    ).bind(user.id).first<{ business_name: string | null }>();
+
+    const name = profile?.business_name
+      || `${user.google_user_data?.name || user.email}'s Workspace`;
+    const organization = await this.create(user, name);
+
+    await this.db.prepare(`
+      UPDATE documents SET organization_id = ?
+      WHERE user_id = ? AND organization_id IS NULL
+    `).bind(organization.id, user.id).run();
+
+    return organization.id;
+  }
+
+  async create(user: WorkspaceUser, name: string): Promise<Organization> {
+    const now = new Date().toISOString();
+
+    const result = await this.db.prepare(`
+      INSERT INTO organizations (name, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(name, user.id, now, now).run();
+
+    const organizationId = result.meta.last_row_id;
+
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO organization_members (
+          organization_id, user_id, email, role, status, invited_by, created_at, updated_at
+        ) VALUES (?, ?, ?, 'owner', 'active', NULL, ?, ?)
+      `).bind(organizationId, user.id, user.email.toLowerCase(), now, now),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'organization_created', ?, ?)
+      `).bind(user.id, `Created workspace "${name}"`, now),
+    ]);
+
+    return (await this.getOrganization(organizationId))!;
+  }
+
+  async getOrganization(organizationId: number | string): Promise<Organization | null> {
+    return await this.db.prepare("SELECT * FROM organizations WHERE id = ?")
+      .bind(organizationId)
+      .first<Organization>();
+  }
+
+  async getMembership(organizationId: number | string, userId: string): Promise<OrganizationMember | null> {
+    return await this.db.prepare(`
+      SELECT * FROM organization_members
+      WHERE organization_id = ? AND user_id = ? AND status = 'active'
+    `).bind(organizationId, userId).first<OrganizationMember>();
+  }
+
+  async rename(organizationId: number, name: string): Promise<Organization> {
+    await this.db.prepare(`
+      UPDATE organizations SET name = ?, updated_at = ? WHERE id = ?
+    `).bind(name, new Date().toISOString(), organizationId).run();
+
+    return (await this.getOrganization(organizationId))!;
+  }
+
+  // Refuses to delete a workspace that still owns documents
+  async delete(organizationId: number): Promise<boolean> {
+    const documents = await this.db.prepare(
+      "SELECT COUNT(*) AS count FROM documents WHERE organization_id = ?"
+    ).bind(organizationId).first<{ count: number }>();
+
+    if (documents && documents.count > 0) {
+      return false;
+    }
+
+    await this.db.batch([
+      this.db.prepare("DELETE FROM organization_members WHERE organization_id = ?").bind(organizationId),
+      this.db.prepare("DELETE FROM organizations WHERE id = ?").bind(organizationId),
+    ]);
+
+    return true;
+  }
+
+  async listMembers(organizationId: number): Promise<OrganizationMember[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM organization_members
+      WHERE organization_id = ?
+      ORDER BY created_at ASC
+    `).bind(organizationId).all<OrganizationMember>();
+
+    return results;
+  }
+
+  async getMember(organizationId: number, memberId: number | string): Promise<OrganizationMember | null> {
+    return await this.db.prepare(`
+      SELECT * FROM organization_members WHERE id = ? AND organization_id = ?
+    `).bind(memberId, organizationId).first<OrganizationMember>();
+  }
+
+  async findMemberByEmail(organizationId: number, email: string): Promise<OrganizationMember | null> {
+    return await this.db.prepare(`
+      SELECT * FROM organization_members WHERE organization_id = ? AND email = ?
+    `).bind(organizationId, email.toLowerCase()).first<OrganizationMember>();
+  }
+
+  async countOwners(organizationId: number): Promise<number> {
+    const result = await this.db.prepare(`
+      SELECT COUNT(*) AS count FROM organization_members
+      WHERE organization_id = ? AND role = 'owner' AND status = 'active'
+    `).bind(organizationId).first<{ count: number }>();
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Adds a pending member and emails them. The membership becomes active the
+   * next time someone signs in with that email address.
+   */
+  async inviteMember(
+    organization: Organization,
+    inviter: WorkspaceUser,
+    invite: InviteOrganizationMember
+  ): Promise<OrganizationMember> {
+    const email = invite.email.toLowerCase();
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        INSERT INTO organization_members (
+          organization_id, user_id, email, role, status, invited_by, created_at, updated_at
+        ) VALUES (?, NULL, ?, ?, 'pending', ?, ?, ?)
+      `).bind(organization.id, email, invite.role, inviter.email, now, now),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'organization_member_invited', ?, ?)
+      `).bind(inviter.id, `Invited ${email} to "${organization.name}" as ${invite.role}`, now),
+    ]);
+
+    const templateService = new NotificationTemplateService(this.db);
+    await this.notificationService.sendWorkspaceInvitationEmail(email, {
+      inviterName: inviter.google_user_data?.name || inviter.email,
+      workspaceName: organization.name,
+      role: invite.role,
+      locale: await templateService.getRecipientLocale(email),
+    });
+
+    return (await this.findMemberByEmail(organization.id, email))!;
+  }
+
+  async updateMemberRole(
+    organization: Organization,
+    member: OrganizationMember,
+    role: OrganizationRole,
+    changedBy: string
+  ): Promise<OrganizationMember> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE organization_members SET role = ?, updated_at = ? WHERE id = ?
+      `).bind(role, now, member.id),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'organization_member_role_changed', ?, ?)
+      `).bind(changedBy, `Changed ${member.email}'s role in "${organization.name}" to ${role}`, now),
+    ]);
+
+    return (await this.getMember(organization.id, member.id))!;
+  }
+
+  async removeMember(organization: Organization, member: OrganizationMember, removedBy: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare("DELETE FROM organization_members WHERE id = ?").bind(member.id),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'organization_member_removed', ?, ?)
+      `).bind(removedBy, `Removed ${member.email} from "${organization.name}"`, now),
+    ]);
+  }
+
+  private async activatePendingMemberships(user: WorkspaceUser): Promise<void> {
+    await this.db.prepare(`
+      UPDATE organization_members SET user_id = ?, status = 'active', updated_at = ?
+      WHERE email = ? AND status = 'pending'
+    `).bind(user.id, new Date().toISOString(), user.email.toLowerCase()).run();
+  }
+}
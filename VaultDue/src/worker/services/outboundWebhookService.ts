@@ -0,0 +1,333 @@
+import type {
+  CreateWebhookSubscription,
+  UpdateWebhookSubscription,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@/shared/types';
+import { getRetryDelayMinutes } from './reminderDeliveryService';
+import { hmacSha256Hex, toHex } from '../utils/crypto';
+
+const MAX_WEBHOOK_ATTEMPTS = 6;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+interface WebhookSubscriptionRow extends Omit<WebhookSubscription, 'events' | 'is_active' | 'secret'> {
+  events: string; // JSON array
+  is_active: number | boolean;
+  secret: string;
+}
+
+// The document fields included in event payloads
+interface WebhookDocumentSource {
+  id: number;
+  organization_id: number | null;
+  title: string;
+  document_type: string | null;
+  expiration_date: string;
+  status: string;
+  is_critical: boolean | number;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export function toWebhookDocument(doc: WebhookDocumentSource): Record<string, unknown> {
+  return {
+    id: doc.id,
+    organization_id: doc.organization_id,
+    title: doc.title,
+    document_type: doc.document_type,
+    expiration_date: doc.expiration_date,
+    status: doc.status,
+    is_critical: Boolean(doc.is_critical),
+  };
+}
+
+/**
+ * Pushes VaultDue events to the HTTPS endpoints a workspace subscribes. Each
+ * POST carries an `X-VaultDue-Signature: t=<unix time>,v1=<hex>` header, the
+ * HMAC-SHA256 of "<t>.<body>" keyed with the subscription's secret. Failed
+ * deliveries are retried with backoff from the hourly scheduler.
+ */
+export class OutboundWebhookService {
+  constructor(private db: D1Database) {}
+
+  async list(organizationId: number): Promise<WebhookSubscription[]> {
+    const { results } = await this.db.prepare(
+      "SELECT * FROM webhook_subscriptions WHERE organization_id = ? ORDER BY created_at ASC"
+    )
+      .bind(organizationId)
+      .all<WebhookSubscriptionRow>();
+
+    return results.map((row) => this.toSubscription(row));
+  }
+
+  async get(organizationId: number, subscriptionId: number | string): Promise<WebhookSubscription | null> {
+    const row = await this.getRow(organizationId, subscriptionId);
+    return row ? this.toSubscription(row) : null;
+  }
+
+  // The only time the secret is returned, apart from rotateSecret
+  async create(
+    organizationId: number,
+    subscription: CreateWebhookSubscription,
+    createdBy: string
+  ): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+    const secret = this.generateSecret();
+
+    const result = await this.db.prepare(
+      `INSERT INTO webhook_subscriptions (
+        organization_id, url, secret, events, description, is_active, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)`
+    )
+      .bind(
+        organizationId,
+        subscription.url,
+        secret,
+        JSON.stringify(Array.from(new Set(subscription.events))),
+        subscription.description || null,
+        createdBy,
+        now,
+        now
+      )
+      .run();
+
+    const created = await this.get(organizationId, result.meta.last_row_id);
+    return { ...created!, secret };
+  }
+
+  async update(
+    existing: WebhookSubscription,
+    updates: UpdateWebhookSubscription
+  ): Promise<WebhookSubscription> {
+    const merged = { ...existing, ...updates };
+
+    await this.db.prepare(
+      `UPDATE webhook_subscriptions SET
+        url = ?, events = ?, description = ?, is_active = ?, updated_at = ?
+       WHERE id = ?`
+    )
+      .bind(
+        merged.url,
+        JSON.stringify(Array.from(new Set(merged.events))),
+        merged.description || null,
+        merged.is_active ? 1 : 0,
+        new Date().toISOString(),
+        existing.id
+      )
+      .run();
+
+    return (await this.get(existing.organization_id, existing.id))!;
+  }
+
+  async rotateSecret(existing: WebhookSubscription): Promise<WebhookSubscription> {
+    const secret = this.generateSecret();
+
+    await this.db.prepare(
+      "UPDATE webhook_subscriptions SET secret = ?, updated_at = ? WHERE id = ?"
+    )
+      .bind(secret, new Date().toISOString(), existing.id)
+      .run();
+
+    return { ...(await this.get(existing.organization_id, existing.id))!, secret };
+  }
+
+  async delete(organizationId: number, subscriptionId: number | string): Promise<boolean> {
+    const subscription = await this.getRow(organizationId, subscriptionId);
+    if (!subscription) {
+      return false;
+    }
+
+    await this.db.batch([
+      this.db.prepare("DELETE FROM webhook_deliveries WHERE subscription_id = ?").bind(subscription.id),
+      this.db.prepare("DELETE FROM webhook_subscriptions WHERE id = ?").bind(subscription.id),
+    ]);
+    return true;
+  }
+
+  async listDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE subscription_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).bind(subscriptionId, limit).all<WebhookDelivery>();
+
+    return results;
+  }
+
+  /**
+   * Queues the event for every active subscription in the workspace that
+   * wants it, then tries each delivery once. `eventId` makes an event
+   * idempotent: the same id is never delivered twice to a subscription.
+   * Never throws, so callers can fire and forget.
+   */
+  async emit(
+    type: WebhookEventType,
+    organizationId: number | null,
+    data: Record<string, unknown>,
+    eventId: string = `evt_${crypto.randomUUID()}`
+  ): Promise<void> {
+    if (!organizationId) {
+      return;
+    }
+
+    try {
+      const { results } = await this.db.prepare(
+        "SELECT * FROM webhook_subscriptions WHERE organization_id = ? AND is_active = 1"
+      )
+        .bind(organizationId)
+        .all<WebhookSubscriptionRow>();
+
+      const subscriptions = results.filter((row) => this.parseEvents(row.events).includes(type));
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const event: WebhookEvent = { id: eventId, type, created_at: new Date().toISOString(), data };
+      const payload = JSON.stringify(event);
+
+      for (const subscription of subscriptions) {
+        const inserted = await this.db.prepare(`
+          INSERT OR IGNORE INTO webhook_deliveries (
+            subscription_id, event_id, event_type, payload, status, attempt_count, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)
+        `).bind(subscription.id, eventId, type, payload, event.created_at, event.created_at).run();
+
+        if (inserted.meta.changes === 0) {
+          continue; // Already delivered (or queued) for this subscription
+        }
+
+        await this.attempt(subscription, {
+          id: inserted.meta.last_row_id,
+          event_type: type,
+          payload,
+          attempt_count: 0,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to emit ${type} webhook event:`, error);
+    }
+  }
+
+  // Runs with the hourly scheduler
+  async processDueRetries(now: Date = new Date()): Promise<void> {
+    const { results } = await this.db.prepare(`
+      SELECT d.id, d.event_type, d.payload, d.attempt_count, s.id AS subscription_id
+      FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.status = 'failed' AND d.next_attempt_at IS NOT NULL AND d.next_attempt_at <= ?
+        AND s.is_active = 1
+      ORDER BY d.next_attempt_at ASC
+    `).bind(now.toISOString()).all<Pick<WebhookDelivery, 'id' | 'event_type' | 'payload' | 'attempt_count' | 'subscription_id'>>();
+
+    for (const delivery of results) {
+      const subscription = await this.db.prepare("SELECT * FROM webhook_subscriptions WHERE id = ?")
+        .bind(delivery.subscription_id)
+        .first<WebhookSubscriptionRow>();
+      if (subscription) {
+        await this.attempt(subscription, delivery);
+      }
+    }
+  }
+
+  private async attempt(
+    subscription: WebhookSubscriptionRow,
+    delivery: Pick<WebhookDelivery, 'id' | 'event_type' | 'payload' | 'attempt_count'>
+  ): Promise<boolean> {
+    const attempt = (delivery.attempt_count ?? 0) + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const signature = await hmacSha256Hex(subscription.secret, `${timestamp}.${delivery.payload}`);
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'VaultDue-Webhooks/1.0',
+          'X-VaultDue-Event': delivery.event_type,
+          'X-VaultDue-Delivery': String(delivery.id),
+          'X-VaultDue-Signature': `t=${timestamp},v1=${signature}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const now = new Date();
+    const succeeded = error === null;
+    const nextAttemptAt = !succeeded && attempt < MAX_WEBHOOK_ATTEMPTS
+      ? new Date(now.getTime() + getRetryDelayMinutes(attempt) * 60 * 1000).toISOString()
+      : null;
+
+    await this.db.prepare(`
+      UPDATE webhook_deliveries SET
+        status = ?, attempt_count = ?, response_status = ?, error = ?,
+        next_attempt_at = ?, last_attempt_at = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(
+      succeeded ? 'succeeded' : 'failed',
+      attempt,
+      responseStatus,
+      error,
+      nextAttemptAt,
+      now.toISOString(),
+      now.toISOString(),
+      delivery.id
+    ).run();
+
+    if (!succeeded) {
+      console.error(`Webhook delivery ${delivery.id} to subscription ${subscription.id} failed: ${error}`);
+    }
+    return succeeded;
+  }
+
+  private async getRow(organizationId: number, subscriptionId: number | string): Promise<WebhookSubscriptionRow | null> {
+    return await this.db.prepare(
+      "SELECT * FROM webhook_subscriptions WHERE id = ? AND organization_id = ?"
+    )
+      .bind(subscriptionId, organizationId)
+      .first<WebhookSubscriptionRow>();
+  }
+
+  private generateSecret(): string {
+    return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+  }
+
+  private parseEvents(events: string): WebhookEventType[] {
+    try {
+      return JSON.parse(events);
+    } catch {
+      return [];
+    }
+  }
+
+  // The secret is left out; it's only shown when created or rotated
+  private toSubscription(row: WebhookSubscriptionRow): WebhookSubscription {
+    return {
+      id: row.id,
+      organization_id: row.organization_id,
+      url: row.url,
+      events: this.parseEvents(row.events),
+      description: row.description,
+      is_active: Boolean(row.is_active),
+      created_by: row.created_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { NotificationService } from './notificationService';
+import { randomDigits, sha256Hex, timingSafeEqual } from '../utils/crypto';
+
+const OTP_LENGTH = 6;
+const OTP_TTL_MINUTES = 10;
+const MAX_VERIFY_ATTEMPTS = 5;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_HOUR = 5;
+
+interface OtpVerification {
+  id: number;
+  user_id: string;
+  phone_number: string;
+  otp_code: string;
+  expires_at: string;
+  is_verified: boolean;
+  attempts: number;
+  created_at: string;
+}
+
+export type SendOtpResult =
+  | { status: 'sent'; phone_number: string; expires_at: string; resend_after_seconds: number }
+  | { status: 'invalid_phone' }
+  | { status: 'throttled'; retry_after_seconds: number }
+  | { status: 'failed' };
+
+export type VerifyOtpResult =
+  | { status: 'verified'; phone_number: string }
+  | { status: 'invalid_code'; attempts_remaining: number }
+  | { status: 'expired' }
+  | { status: 'too_many_attempts' }
+  | { status: 'not_found' };
+
+export class PhoneVerificationService {
+  private notificationService: NotificationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+  }
+
+  /**
+   * Sends a fresh code over WhatsApp, superseding any earlier one. Sends are
+   * throttled per user to one a minute and five an hour.
+   */
+  async sendOtp(userId: string, rawPhoneNumber: string): Promise<SendOtpResult> {
+    const phoneNumber = this.notificationService.formatPhoneNumber(rawPhoneNumber);
+    if (!phoneNumber) {
+      return { status: 'invalid_phone' };
+    }
+
+    const now = new Date();
+    const hourAgo = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+
+    const { results: recent } = await this.db.prepare(`
+      SELECT created_at FROM whatsapp_otp_verifications
+      WHERE user_id = ? AND created_at > ?
+      ORDER BY created_at DESC
+    `).bind(userId, hourAgo).all<{ created_at: string }>();
+
+    if (recent.length > 0) {
+      const sinceLast = (now.getTime() - new Date(recent[0].created_at).getTime()) / 1000;
+      if (sinceLast < RESEND_COOLDOWN_SECONDS) {
+        return { status: 'throttled', retry_after_seconds: Math.ceil(RESEND_COOLDOWN_SECONDS - sinceLast) };
+      }
+    }
+    if (recent.length >= MAX_SENDS_PER_HOUR) {
+      const oldest = new Date(recent[recent.length - 1].created_at).getTime();
+      return { status: 'throttled', retry_after_seconds: Math.ceil((oldest + 60 * 60 * 1000 - now.getTime()) / 1000) };
+    }
+
+    const code = randomDigits(OTP_LENGTH);
+    const expiresAt = new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000).toISOString();
+    const createdAt = now.toISOString();
+
+    // Only the hash is stored; a new code invalidates the previous ones
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE whatsapp_otp_verifications SET expires_at = ?, updated_at = ?
+        WHERE user_id = ? AND is_verified = 0 AND expires_at > ?
+      `).bind(createdAt, createdAt, userId, createdAt),
+      this.db.prepare(`
+        INSERT INTO whatsapp_otp_verifications (
+          user_id, phone_number, otp_code, expires_at, is_verified, attempts, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, 0, 0, ?, ?)
+      `).bind(userId, phoneNumber, await this.hashCode(userId, code), expiresAt, createdAt, createdAt),
+    ]);
+
+    const messageId = await this.notificationService.sendWhatsAppOtp(phoneNumber, code, OTP_TTL_MINUTES);
+    if (messageId === null) {
+      return { status: 'failed' };
+    }
+
+    return {
+      status: 'sent',
+      phone_number: phoneNumber,
+      expires_at: expiresAt,
+      resend_after_seconds: RESEND_COOLDOWN_SECONDS,
+    };
+  }
+
+  /**
+   * Checks the code against the user's latest unverified OTP. On success the
+   * number is saved to the profile and marked verified.
+   */
+  async verifyOtp(userId: string, code: string): Promise<VerifyOtpResult> {
+    const otp = await this.db.prepare(`
+      SELECT * FROM whatsapp_otp_verifications
+      WHERE user_id = ? AND is_verified = 0
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `).bind(userId).first<OtpVerification>();
+
+    if (!otp) {
+      return { status: 'not_found' };
+    }
+
+    const now = new Date().toISOString();
+
+    if (otp.attempts >= MAX_VERIFY_ATTEMPTS) {
+      return { status: 'too_many_attempts' };
+    }
+    if (otp.expires_at <= now) {
+      return { status: 'expired' };
+    }
+
+    const matches = timingSafeEqual(otp.otp_code, await this.hashCode(userId, code.trim()));
+
+    if (!matches) {
+      await this.db.prepare(`
+        UPDATE whatsapp_otp_verifications SET attempts = attempts + 1, updated_at = ? WHERE id = ?
+      `).bind(now, otp.id).run();
+
+      const remaining = MAX_VERIFY_ATTEMPTS - otp.attempts - 1;
+      return remaining > 0
+        ? { status: 'invalid_code', attempts_remaining: remaining }
+        : { status: 'too_many_attempts' };
+    }
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE whatsapp_otp_verifications SET is_verified = 1, verified_at = ?, updated_at = ? WHERE id = ?
+      `).bind(now, now, otp.id),
+      this.db.prepare(`
+        INSERT INTO user_profiles (user_id, phone_number, whatsapp_verified, created_at, updated_at)
+        VALUES (?, ?, 1, ?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+          phone_number = excluded.phone_number, whatsapp_verified = 1, updated_at = excluded.updated_at
+      `).bind(userId, otp.phone_number, now, now),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'phone_verified', ?, ?)
+      `).bind(userId, `Verified phone number ending in ${otp.phone_number.slice(-4)}`, now),
+    ]);
+
+    return { status: 'verified', phone_number: otp.phone_number };
+  }
+
+  private async hashCode(userId: string, code: string): Promise<string> {
+    return sha256Hex(`${userId}:${code}`);
+  }
+}
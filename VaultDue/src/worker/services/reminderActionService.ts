@@ -0,0 +1,183 @@
+import { DEFAULT_SNOOZE_DAYS, MAX_SNOOZE_DAYS, type AcknowledgmentSource } from '@/shared/types';
+import { DocumentService } from './documentService';
+import { EscalationService } from './escalationService';
+import type { ReminderActionLinks } from './notificationService';
+import { addDays, getLocalDate } from '../utils/timezone';
+import { buildSignedUrl, verifySignedParams } from '../utils/signedLinks';
+
+export const SNOOZE_LINK_PATH = '/api/reminders/snooze';
+export const ACKNOWLEDGE_REMINDER_LINK_PATH = '/api/reminders/acknowledge';
+
+// Renewals acknowledge escalations, but aren't a reminder action of their own
+export type ReminderActionSource = Exclude<AcknowledgmentSource, 'renewal'>;
+
+export type LinkReminderActionResult =
+  | { status: 'snoozed'; documentTitle: string; snoozedUntil: string }
+  | { status: 'acknowledged' | 'already_closed'; documentTitle: string }
+  | { status: 'invalid' };
+
+interface ActionDocument {
+  id: number;
+  user_id: string;
+  title: string;
+}
+
+interface LinkedDocument extends ActionDocument {
+  status: string;
+  expiration_date: string;
+  timezone: string | null;
+}
+
+/**
+ * Lets a document's owner pause reminders until a date (snooze) or stop them
+ * until the expiry changes (acknowledge). Both also acknowledge any pending
+ * escalation, since the owner has clearly seen the reminder.
+ */
+export class ReminderActionService {
+  private documentService: DocumentService;
+  private escalationService: EscalationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.documentService = new DocumentService(this.db);
+    this.escalationService = new EscalationService(this.env, this.db);
+  }
+
+  async snooze(
+    document: ActionDocument,
+    until: string,
+    source: ReminderActionSource,
+    actor: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE documents SET snoozed_until = ?, updated_at = ?
+        WHERE id = ?
+      `).bind(until, now, document.id),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'reminder_snoozed', ?, ?, ?)
+      `).bind(
+        document.user_id,
+        `${actor} snoozed reminders for "${document.title}" until ${until} ${this.describeSource(source)}`,
+        document.id,
+        now
+      ),
+    ]);
+
+    await this.documentService.refreshNextReminderDate(document.id);
+    await this.escalationService.acknowledge(document.id, source, actor);
+  }
+
+  async acknowledge(
+    document: ActionDocument,
+    source: ReminderActionSource,
+    actor: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE documents SET acknowledged_at = ?, updated_at = ?
+        WHERE id = ?
+      `).bind(now, now, document.id),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'reminder_acknowledged', ?, ?, ?)
+      `).bind(
+        document.user_id,
+        `${actor} acknowledged the reminders for "${document.title}" ${this.describeSource(source)}`,
+        document.id,
+        now
+      ),
+    ]);
+
+    await this.documentService.refreshNextReminderDate(document.id);
+    await this.escalationService.acknowledge(document.id, source, actor);
+  }
+
+  // Undoes a snooze or an acknowledgement
+  async resume(document: ActionDocument, actor: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE documents SET snoozed_until = NULL, acknowledged_at = NULL, updated_at = ?
+        WHERE id = ?
+      `).bind(now, document.id),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+        VALUES (?, 'reminders_resumed', ?, ?, ?)
+      `).bind(document.user_id, `${actor} resumed reminders for "${document.title}"`, document.id, now),
+    ]);
+
+    await this.documentService.refreshNextReminderDate(document.id);
+  }
+
+  /**
+   * Signed snooze and acknowledge links for a reminder, or null when links
+   * can't be signed. Links name the expiration date they were sent for, so
+   * they stop working once the document is renewed.
+   */
+  async buildActionLinks(documentId: number, expirationDate: string): Promise<ReminderActionLinks | null> {
+    const params = { document: documentId, expires: expirationDate };
+    const [snooze, acknowledge] = await Promise.all([
+      buildSignedUrl(this.env, SNOOZE_LINK_PATH, { ...params, days: DEFAULT_SNOOZE_DAYS }),
+      buildSignedUrl(this.env, ACKNOWLEDGE_REMINDER_LINK_PATH, params),
+    ]);
+
+    if (!snooze || !acknowledge) {
+      return null;
+    }
+
+    return { snooze, snoozeDays: DEFAULT_SNOOZE_DAYS, acknowledge };
+  }
+
+  async verifyLink(path: string, params: Record<string, string>): Promise<boolean> {
+    return verifySignedParams(this.env, path, params);
+  }
+
+  // Only the owner gets reminders, so whoever opens the link acts as them
+  async performFromLink(path: string, params: Record<string, string>): Promise<LinkReminderActionResult> {
+    if (!(await this.verifyLink(path, params))) {
+      return { status: 'invalid' };
+    }
+
+    const document = await this.db.prepare(`
+      SELECT d.id, d.user_id, d.title, d.status, d.expiration_date, p.timezone
+      FROM documents d
+      LEFT JOIN user_profiles p ON p.user_id = d.user_id
+      WHERE d.id = ?
+    `).bind(params.document).first<LinkedDocument>();
+
+    if (!document) {
+      return { status: 'invalid' };
+    }
+    if (document.status !== 'active' || document.expiration_date !== params.expires) {
+      return { status: 'already_closed', documentTitle: document.title };
+    }
+
+    if (path === SNOOZE_LINK_PATH) {
+      const days = Math.min(Math.max(Number(params.days) || DEFAULT_SNOOZE_DAYS, 1), MAX_SNOOZE_DAYS);
+      const snoozedUntil = addDays(getLocalDate(new Date(), document.timezone), days);
+      await this.snooze(document, snoozedUntil, 'link', 'The document owner');
+      return { status: 'snoozed', documentTitle: document.title, snoozedUntil };
+    }
+
+    await this.acknowledge(document, 'link', 'The document owner');
+    return { status: 'acknowledged', documentTitle: document.title };
+  }
+
+  private describeSource(source: ReminderActionSource): string {
+    switch (source) {
+      case 'link':
+        return 'from a reminder link';
+      case 'whatsapp':
+        return 'via WhatsApp';
+      case 'web':
+      default:
+        return 'in VaultDue';
+    }
+  }
+}
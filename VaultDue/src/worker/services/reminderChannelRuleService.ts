@@ -0,0 +1,157 @@
+import type {
+  CreateReminderChannelRule,
+  ReminderChannel,
+  ReminderChannelRule,
+  UpdateReminderChannelRule,
+} from '@/shared/types';
+
+// Rules belong to a single user or to a workspace
+export type RuleScope = { userId: string } | { organizationId: number };
+
+interface ReminderChannelRuleRow extends Omit<ReminderChannelRule, 'channels' | 'critical_only'> {
+  channels: string; // JSON array
+  critical_only: number;
+}
+
+/**
+ * Picks the rule for a reminder: the tightest threshold the document is
+ * within, preferring critical-only rules for critical documents. Expired
+ * documents fall under the tightest threshold of all.
+ */
+export function selectChannelRule(
+  rules: ReminderChannelRule[],
+  isCritical: boolean,
+  daysUntilExpiry: number
+): ReminderChannelRule | null {
+  const matching = rules
+    .filter((rule) => isCritical || !rule.critical_only)
+    .filter((rule) => Math.max(daysUntilExpiry, 0) <= rule.max_days_until_expiry)
+    .sort((a, b) =>
+      a.max_days_until_expiry - b.max_days_until_expiry
+      || Number(b.critical_only) - Number(a.critical_only)
+    );
+
+  return matching[0] ?? null;
+}
+
+export class ReminderChannelRuleService {
+  constructor(private db: D1Database) {}
+
+  async list(scope: RuleScope): Promise<ReminderChannelRule[]> {
+    const { clause, value } = this.scopeFilter(scope);
+    const { results } = await this.db.prepare(
+      `SELECT * FROM reminder_channel_rules WHERE ${clause}
+       ORDER BY max_days_until_expiry DESC, critical_only ASC, id ASC`
+    )
+      .bind(value)
+      .all<ReminderChannelRuleRow>();
+
+    return results.map((row) => this.toRule(row));
+  }
+
+  async get(scope: RuleScope, ruleId: number | string): Promise<ReminderChannelRule | null> {
+    const { clause, value } = this.scopeFilter(scope);
+    const row = await this.db.prepare(
+      `SELECT * FROM reminder_channel_rules WHERE id = ? AND ${clause}`
+    )
+      .bind(ruleId, value)
+      .first<ReminderChannelRuleRow>();
+
+    return row ? this.toRule(row) : null;
+  }
+
+  async create(scope: RuleScope, rule: CreateReminderChannelRule, createdBy: string): Promise<ReminderChannelRule> {
+    const now = new Date().toISOString();
+    const result = await this.db.prepare(
+      `INSERT INTO reminder_channel_rules (
+        user_id, organization_id, max_days_until_expiry, critical_only, channels, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        'userId' in scope ? scope.userId : null,
+        'organizationId' in scope ? scope.organizationId : null,
+        rule.max_days_until_expiry,
+        rule.critical_only ? 1 : 0,
+        JSON.stringify(Array.from(new Set(rule.channels))),
+        createdBy,
+        now,
+        now
+      )
+      .run();
+
+    return (await this.get(scope, result.meta.last_row_id))!;
+  }
+
+  async update(
+    scope: RuleScope,
+    existing: ReminderChannelRule,
+    updates: UpdateReminderChannelRule
+  ): Promise<ReminderChannelRule> {
+    const merged = { ...existing, ...updates };
+
+    await this.db.prepare(
+      `UPDATE reminder_channel_rules SET
+        max_days_until_expiry = ?, critical_only = ?, channels = ?, updated_at = ?
+       WHERE id = ?`
+    )
+      .bind(
+        merged.max_days_until_expiry,
+        merged.critical_only ? 1 : 0,
+        JSON.stringify(Array.from(new Set(merged.channels))),
+        new Date().toISOString(),
+        existing.id
+      )
+      .run();
+
+    return (await this.get(scope, existing.id))!;
+  }
+
+  async delete(scope: RuleScope, ruleId: number | string): Promise<boolean> {
+    const { clause, value } = this.scopeFilter(scope);
+    const result = await this.db.prepare(
+      `DELETE FROM reminder_channel_rules WHERE id = ? AND ${clause}`
+    )
+      .bind(ruleId, value)
+      .run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * The channels a reminder should go out on. The document owner's own rules
+   * win over their workspace's; returns null when neither has a rule that
+   * applies, so the caller can fall back to the preferred channel.
+   */
+  async resolveChannels(
+    doc: { user_id: string; organization_id: number | null; is_critical: boolean },
+    daysUntilExpiry: number
+  ): Promise<ReminderChannel[] | null> {
+    const scopes: RuleScope[] = [{ userId: doc.user_id }];
+    if (doc.organization_id) {
+      scopes.push({ organizationId: doc.organization_id });
+    }
+
+    for (const scope of scopes) {
+      const rule = selectChannelRule(await this.list(scope), Boolean(doc.is_critical), daysUntilExpiry);
+      if (rule) {
+        return rule.channels;
+      }
+    }
+
+    return null;
+  }
+
+  private scopeFilter(scope: RuleScope): { clause: string; value: string | number } {
+    return 'userId' in scope
+      ? { clause: 'user_id = ? AND organization_id IS NULL', value: scope.userId }
+      : { clause: 'organization_id = ?', value: scope.organizationId };
+  }
+
+  private toRule(row: ReminderChannelRuleRow): ReminderChannelRule {
+    return {
+      ...row,
+      critical_only: Boolean(row.critical_only),
+      channels: JSON.parse(row.channels),
+    };
+  }
+}
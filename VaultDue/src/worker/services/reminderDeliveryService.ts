@@ -0,0 +1,234 @@
+import type { DeliveryStatus, ReminderChannel, ReminderDelivery } from '@/shared/types';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MINUTES = 60;
+
+// Providers can report statuses out of order (a "delivered" callback may beat
+// "sent"), so a status only replaces one that ranks below it
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  skipped: 0,
+  queued: 0,
+  failed: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
+
+export interface NewDelivery {
+  reminderId: number | null;
+  documentId: number;
+  userId: string;
+  channel: ReminderChannel;
+  recipient: string | null;
+  // The document's expiry when the reminder went out, so retries can tell it's stale
+  expirationDate: string | null;
+}
+
+export type AttemptOutcome =
+  | { sent: true; providerMessageId: string | null }
+  | { sent: false; error: string };
+
+/**
+ * Minutes to wait before retrying after the given (1-based) failed attempt:
+ * 1 hour, then 2, 4 and 8, matching the hourly scheduler.
+ */
+export function getRetryDelayMinutes(attempt: number): number {
+  return RETRY_BASE_MINUTES * 2 ** Math.max(attempt - 1, 0);
+}
+
+/**
+ * Stores one row per reminder per channel in reminder_deliveries and moves
+ * it through queued → sent → delivered → read, as reported by the providers.
+ * Failed sends get a next_attempt_at with exponential backoff for the
+ * scheduler to pick up.
+ */
+export class ReminderDeliveryService {
+  constructor(private db: D1Database) {}
+
+  async queue(delivery: NewDelivery): Promise<number> {
+    const now = new Date().toISOString();
+    const result = await this.db.prepare(`
+      INSERT INTO reminder_deliveries (
+        reminder_id, document_id, user_id, channel, recipient, expiration_date, status, attempt_count,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'queued', 0, ?, ?)
+    `).bind(
+      delivery.reminderId,
+      delivery.documentId,
+      delivery.userId,
+      delivery.channel,
+      delivery.recipient,
+      delivery.expirationDate,
+      now,
+      now
+    ).run();
+
+    return result.meta.last_row_id;
+  }
+
+  // Records a channel that couldn't be used at all, e.g. an unverified phone
+  async skip(delivery: NewDelivery, reason: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      INSERT INTO reminder_deliveries (
+        reminder_id, document_id, user_id, channel, recipient, expiration_date, status, error, attempt_count,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'skipped', ?, 0, ?, ?)
+    `).bind(
+      delivery.reminderId,
+      delivery.documentId,
+      delivery.userId,
+      delivery.channel,
+      delivery.recipient,
+      delivery.expirationDate,
+      reason,
+      now,
+      now
+    ).run();
+  }
+
+  /**
+   * Stores the result of a send attempt. Failures are scheduled for another
+   * try unless `retryable` is false or the attempts have run out.
+   */
+  async recordAttempt(
+    delivery: Pick<ReminderDelivery, 'id' | 'attempt_count'>,
+    outcome: AttemptOutcome,
+    retryable: boolean
+  ): Promise<void> {
+    const now = new Date();
+    const attempt = (delivery.attempt_count ?? 0) + 1;
+
+    if (outcome.sent) {
+      await this.db.prepare(`
+        UPDATE reminder_deliveries SET
+          status = 'sent', provider_message_id = ?, error = NULL, attempt_count = ?,
+          next_attempt_at = NULL, last_attempt_at = ?, updated_at = ?
+        WHERE id = ?
+      `).bind(outcome.providerMessageId || null, attempt, now.toISOString(), now.toISOString(), delivery.id).run();
+      return;
+    }
+
+    const nextAttemptAt = retryable && attempt < MAX_DELIVERY_ATTEMPTS
+      ? new Date(now.getTime() + getRetryDelayMinutes(attempt) * 60 * 1000).toISOString()
+      : null;
+
+    await this.db.prepare(`
+      UPDATE reminder_deliveries SET
+        status = 'failed', error = ?, attempt_count = ?, next_attempt_at = ?, last_attempt_at = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(outcome.error, attempt, nextAttemptAt, now.toISOString(), now.toISOString(), delivery.id).run();
+  }
+
+  async listDueRetries(now: Date = new Date()): Promise<ReminderDelivery[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM reminder_deliveries
+      WHERE status = 'failed' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+    `).bind(now.toISOString()).all<ReminderDelivery>();
+
+    return results;
+  }
+
+  // Stops a failed delivery from being retried, optionally marking it skipped
+  async cancelRetry(deliveryId: number, skipReason?: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    if (skipReason) {
+      await this.db.prepare(`
+        UPDATE reminder_deliveries SET status = 'skipped', error = ?, next_attempt_at = NULL, updated_at = ?
+        WHERE id = ?
+      `).bind(skipReason, now, deliveryId).run();
+      return;
+    }
+
+    await this.db.prepare(`
+      UPDATE reminder_deliveries SET next_attempt_at = NULL, updated_at = ? WHERE id = ?
+    `).bind(now, deliveryId).run();
+  }
+
+  async cancelRetriesForReminder(reminderId: number): Promise<void> {
+    await this.db.prepare(`
+      UPDATE reminder_deliveries SET next_attempt_at = NULL, updated_at = ?
+      WHERE reminder_id = ? AND status = 'failed' AND next_attempt_at IS NOT NULL
+    `).bind(new Date().toISOString(), reminderId).run();
+  }
+
+  /**
+   * Stops every pending retry for a document, e.g. once it's renewed and its
+   * old reminders no longer apply. Returned unrun so callers can batch it
+   * with their own writes.
+   */
+  cancelRetriesForDocument(documentId: number): D1PreparedStatement {
+    return this.db.prepare(`
+      UPDATE reminder_deliveries SET next_attempt_at = NULL, updated_at = ?
+      WHERE document_id = ? AND status = 'failed' AND next_attempt_at IS NOT NULL
+    `).bind(new Date().toISOString(), documentId);
+  }
+
+  /**
+   * Applies a status reported by a provider callback. Returns false when the
+   * message isn't one of ours or the status is older than what we have.
+   * Providers only report failures they've given up on (bounces, unreachable
+   * numbers), so those aren't retried.
+   */
+  async applyProviderStatus(
+    channel: ReminderChannel,
+    providerMessageId: string,
+    status: Exclude<DeliveryStatus, 'queued' | 'skipped'>,
+    details: { error?: string | null; at?: Date } = {}
+  ): Promise<boolean> {
+    const delivery = await this.db.prepare(`
+      SELECT * FROM reminder_deliveries WHERE channel = ? AND provider_message_id = ?
+      ORDER BY id DESC LIMIT 1
+    `).bind(channel, providerMessageId).first<ReminderDelivery>();
+
+    if (!delivery) {
+      return false;
+    }
+
+    // A failure can't undo a message the recipient already received
+    const applies = status === 'failed'
+      ? delivery.status === 'queued' || delivery.status === 'sent'
+      : STATUS_RANK[status] > STATUS_RANK[delivery.status];
+    if (!applies) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const at = (details.at ?? new Date()).toISOString();
+
+    await this.db.prepare(`
+      UPDATE reminder_deliveries SET
+        status = ?,
+        error = ?,
+        delivered_at = CASE WHEN ? IN ('delivered', 'read') THEN COALESCE(delivered_at, ?) ELSE delivered_at END,
+        read_at = CASE WHEN ? = 'read' THEN ? ELSE read_at END,
+        next_attempt_at = NULL,
+        updated_at = ?
+      WHERE id = ?
+    `).bind(
+      status,
+      status === 'failed' ? details.error || 'Provider reported the message as undelivered' : null,
+      status,
+      at,
+      status,
+      at,
+      now,
+      delivery.id
+    ).run();
+
+    return true;
+  }
+
+  async listForDocument(documentId: number | string, limit = 50): Promise<ReminderDelivery[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM reminder_deliveries
+      WHERE document_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).bind(documentId, limit).all<ReminderDelivery>();
+
+    return results;
+  }
+}
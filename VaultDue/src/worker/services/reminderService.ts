@@ -1,4 +1,15 @@
-import { NotificationService } from './notificationService';
+import { DigestItem, NotificationService, NotificationPayload, ReminderDigest } from './notificationService';
+import { DocumentService } from './documentService';
+import { ReminderChannelRuleService } from './reminderChannelRuleService';
+import { EscalationService } from './escalationService';
+import { AttemptOutcome, ReminderDeliveryService } from './reminderDeliveryService';
+import { OutboundWebhookService, toWebhookDocument } from './outboundWebhookService';
+import { NotificationTemplateService } from './notificationTemplateService';
+import { ReminderActionService } from './reminderActionService';
+import type { DigestMode, ReminderChannel, ReminderDelivery } from '@/shared/types';
+import { daysBetween, getLocalDate } from '../utils/timezone';
+import { POST_EXPIRY_REMINDER_DAYS, getSendWindowDate, resolveReminderOffsets } from '../utils/reminderSchedule';
+import { resolveLocale } from '../templates';
 
 interface Document {
   id: number;
@@ -12,6 +23,11 @@ interface Document {
   status: string;
   last_renewed_date: string | null;
   next_reminder_date: string | null;
+  snoozed_until: string | null;
+  acknowledged_at: string | null;
+  reminder_offsets: string | null;
+  escalation_delay_days: number | null;
+  organization_id: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -21,53 +37,141 @@ interface UserProfile {
   phone_number: string | null;
   business_name: string | null;
   role: string | null;
-  preferred_reminder_channel: 'whatsapp' | 'email' | 'sms';
+  preferred_reminder_channel: ReminderChannel;
   reminder_frequency: '30_days' | '14_days' | '7_days' | '3_days' | '1_day';
   reminder_time_preference: 'morning' | 'evening';
+  timezone: string | null;
+  locale: string | null;
   two_factor_enabled: boolean;
+  whatsapp_verified: boolean;
+  whatsapp_opted_out: boolean;
+  // The owner's own Slack/Teams webhook, or else their workspace's
+  slack_webhook_url: string | null;
+  teams_webhook_url: string | null;
+  digest_mode: DigestMode | null;
+  weekly_summary: boolean;
 }
 
+// The owner's contact details. There is no users table: the email is
+// recorded on the profile at sign-in, with workspace membership as a fallback
+// for owners who haven't signed in since that started. Null when neither has it.
 interface User {
-  id: string;
-  email: string;
-  google_user_data?: {
-    name?: string;
-    picture?: string;
-  };
+  email: string | null;
+  name: string | null;
 }
 
+// What one user's digest will cover in this run
+interface DigestBatch {
+  owner: Document & User & UserProfile;
+  today: string;
+  entries: { doc: Document & User & UserProfile; reminderId: number; daysUntilExpiry: number }[];
+}
+
+// The weekly summary lists everything expired or expiring within this many days
+const WEEKLY_SUMMARY_DAYS = 30;
+
+// A document with everything needed to remind its owner
+const REMINDER_DOCUMENT_QUERY = `
+  SELECT d.*, p.name,
+         COALESCE(
+           p.email,
+           (SELECT om.email FROM organization_members om
+            WHERE om.user_id = d.user_id AND om.organization_id = d.organization_id AND om.status = 'active'),
+           (SELECT om.email FROM organization_members om
+            WHERE om.user_id = d.user_id AND om.status = 'active' ORDER BY om.id LIMIT 1)
+         ) AS email,
+         p.preferred_reminder_channel, p.reminder_frequency, p.phone_number,
+         p.reminder_time_preference, p.timezone, p.business_name, p.locale,
+         p.whatsapp_verified, p.whatsapp_opted_out, p.digest_mode, p.weekly_summary,
+         (SELECT w.url FROM chat_webhooks w
+          WHERE w.channel = 'slack' AND (w.user_id = d.user_id OR w.organization_id = d.organization_id)
+          ORDER BY w.user_id IS NULL LIMIT 1) AS slack_webhook_url,
+         (SELECT w.url FROM chat_webhooks w
+          WHERE w.channel = 'teams' AND (w.user_id = d.user_id OR w.organization_id = d.organization_id)
+          ORDER BY w.user_id IS NULL LIMIT 1) AS teams_webhook_url
+  FROM documents d
+  LEFT JOIN user_profiles p ON d.user_id = p.user_id
+`;
+
 export class ReminderService {
   private notificationService: NotificationService;
+  private documentService: DocumentService;
+  private channelRuleService: ReminderChannelRuleService;
+  private escalationService: EscalationService;
+  private deliveryService: ReminderDeliveryService;
+  private outboundWebhookService: OutboundWebhookService;
+  private templateService: NotificationTemplateService;
+  private actionService: ReminderActionService;
 
   constructor(private env: Env, private db: D1Database) {
     this.notificationService = new NotificationService(this.env);
+    this.documentService = new DocumentService(this.db);
+    this.channelRuleService = new ReminderChannelRuleService(this.db);
+    this.escalationService = new EscalationService(this.env, this.db);
+    this.deliveryService = new ReminderDeliveryService(this.db);
+    this.outboundWebhookService = new OutboundWebhookService(this.db);
+    this.templateService = new NotificationTemplateService(this.db);
+    this.actionService = new ReminderActionService(this.env, this.db);
   }
 
-  async processReminders(): Promise<void> {
+  /**
+   * Runs hourly. Each document is only considered during its owner's send
+   * window (9 AM or 6 PM in their own time zone), so every user gets at most
+   * one pass per local day. Users in digest mode get that day's reminders
+   * in one message, sent once every document has been checked.
+   */
+  async processReminders(now: Date = new Date()): Promise<void> {
     try {
       console.log('Starting reminder processing...');
       
       // Get all active documents that might need reminders
       const { results: documents } = await this.db.prepare(`
-        SELECT d.*, u.email, u.google_user_data,
-               p.preferred_reminder_channel, p.reminder_frequency, p.phone_number
-        FROM documents d
-        JOIN users u ON d.user_id = u.id
-        LEFT JOIN user_profiles p ON d.user_id = p.user_id
+        ${REMINDER_DOCUMENT_QUERY}
         WHERE d.status = 'active'
           AND d.expiration_date IS NOT NULL
       `).all() as { results: (Document & User & UserProfile)[] };
 
       console.log(`Found ${documents.length} active documents to check`);
 
-      const now = new Date();
-      const today = now.toISOString().split('T')[0];
-      
-      // Process each document
+      const dailyDigests = new Map<string, DigestBatch>();
+      const weeklySummaries = new Map<string, DigestBatch>();
+
+      // Process each document whose owner is in their send window right now
       for (const doc of documents) {
-        await this.processDocumentReminder(doc, today);
+        const today = getSendWindowDate(now, doc.timezone, doc.reminder_time_preference);
+        if (!today) {
+          continue;
+        }
+
+        await this.processDocumentReminder(doc, today, dailyDigests);
+        await this.documentService.refreshNextReminderDate(doc.id).catch((error) => {
+          console.error(`Failed to update next reminder date for document ${doc.id}:`, error);
+        });
+
+        if (doc.weekly_summary && this.isMonday(today)) {
+          const daysUntilExpiry = daysBetween(today, doc.expiration_date);
+          if (daysUntilExpiry <= WEEKLY_SUMMARY_DAYS) {
+            this.addToBatch(weeklySummaries, doc, today, 0, daysUntilExpiry);
+          }
+        }
       }
 
+      for (const batch of dailyDigests.values()) {
+        await this.sendDailyDigest(batch);
+      }
+
+      for (const batch of weeklySummaries.values()) {
+        await this.sendDigest(batch, 'weekly').catch((error) => {
+          console.error(`Failed to send weekly summary to user ${batch.owner.user_id}:`, error);
+        });
+      }
+
+      // Try failed sends again once their backoff has passed
+      await this.processRetries(now);
+
+      // Pass unacknowledged critical reminders on to backup contacts
+      await this.escalationService.processDueEscalations(now);
+
       console.log('Reminder processing completed');
     } catch (error) {
       console.error('Error processing reminders:', error);
@@ -76,12 +180,27 @@ export class ReminderService {
 
   private async processDocumentReminder(
     doc: Document & User & UserProfile, 
-    today: string
+    today: string,
+    dailyDigests: Map<string, DigestBatch>
   ): Promise<void> {
     try {
-      const expirationDate = new Date(doc.expiration_date);
-      const todayDate = new Date(today);
-      const daysUntilExpiry = Math.ceil((expirationDate.getTime() - todayDate.getTime()) / (1000 * 60 * 60 * 24));
+      // `today` is the user's local date, so day counts match their calendar
+      const daysUntilExpiry = daysBetween(today, doc.expiration_date);
+
+      // Once per expiration date, even while snoozed
+      if (daysUntilExpiry < 0) {
+        await this.outboundWebhookService.emit(
+          'document.expired',
+          doc.organization_id,
+          { document: toWebhookDocument(doc), days_overdue: -daysUntilExpiry },
+          `document.expired:${doc.id}:${doc.expiration_date}`
+        );
+      }
+
+      // Snoozed, or the owner said they're handling it
+      if ((doc.snoozed_until && doc.snoozed_until > today) || doc.acknowledged_at) {
+        return;
+      }
       
       // Determine if we should send a reminder
       const shouldSendReminder = this.shouldSendReminder(doc, daysUntilExpiry);
@@ -120,57 +239,257 @@ export class ReminderService {
         return;
       }
 
+      if (daysUntilExpiry >= 0) {
+        await this.outboundWebhookService.emit(
+          'document.expiring',
+          doc.organization_id,
+          { document: toWebhookDocument(doc), days_until_expiry: daysUntilExpiry },
+          `document.expiring:${doc.id}:${today}`
+        );
+      }
+
+      // Digest users hear about it once everything has been checked
+      if (doc.digest_mode === 'daily') {
+        this.addToBatch(dailyDigests, doc, today, reminderResult.meta.last_row_id, daysUntilExpiry);
+        return;
+      }
+
       // Send notification
-      const sent = await this.sendNotification(doc, daysUntilExpiry);
+      const sent = await this.sendNotification(doc, daysUntilExpiry, reminderResult.meta.last_row_id);
       
-      // Update reminder as sent
+      // Update reminder as sent. Otherwise the failed deliveries are retried later.
       if (sent) {
-        await this.db.prepare(`
-          UPDATE reminders 
-          SET is_sent = 1, updated_at = ?
-          WHERE id = ?
-        `).bind(new Date().toISOString(), reminderResult.meta.last_row_id).run();
-
-        // Log activity
-        await this.db.prepare(`
-          INSERT INTO activity_logs (
-            user_id, action_type, description, related_document_id, created_at
-          ) VALUES (?, 'reminder_sent', ?, ?, ?)
-        `).bind(
-          doc.user_id,
-          `Reminder sent for "${doc.title}" (${daysUntilExpiry} days to expiry)`,
-          doc.id,
-          new Date().toISOString()
-        ).run();
-
-        console.log(`Reminder sent for document "${doc.title}" to user ${doc.user_id}`);
+        await this.markReminderSent(doc, reminderResult.meta.last_row_id, daysUntilExpiry, today);
       }
     } catch (error) {
       console.error(`Error processing reminder for document ${doc.id}:`, error);
     }
   }
 
+  private addToBatch(
+    batches: Map<string, DigestBatch>,
+    doc: Document & User & UserProfile,
+    today: string,
+    reminderId: number,
+    daysUntilExpiry: number
+  ): void {
+    const batch = batches.get(doc.user_id) ?? { owner: doc, today, entries: [] };
+    batch.entries.push({ doc, reminderId, daysUntilExpiry });
+    batches.set(doc.user_id, batch);
+  }
+
+  private isMonday(localDate: string): boolean {
+    return new Date(`${localDate}T00:00:00Z`).getUTCDay() === 1;
+  }
+
+  /**
+   * Sends the day's reminders as one message. If it doesn't get through,
+   * each document is reminded on its own instead, so nothing is lost and
+   * failed sends are retried as usual.
+   */
+  private async sendDailyDigest(batch: DigestBatch): Promise<void> {
+    let sent = false;
+    try {
+      sent = await this.sendDigest(batch, 'daily');
+    } catch (error) {
+      console.error(`Failed to send reminder digest to user ${batch.owner.user_id}:`, error);
+    }
+
+    for (const { doc, reminderId, daysUntilExpiry } of batch.entries) {
+      try {
+        if (sent || await this.sendNotification(doc, daysUntilExpiry, reminderId)) {
+          await this.markReminderSent(doc, reminderId, daysUntilExpiry, batch.today);
+        }
+      } catch (error) {
+        console.error(`Error processing reminder for document ${doc.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Sends a digest by WhatsApp if that's the user's preferred channel and
+   * they can receive it, otherwise by email. Each user gets at most one
+   * digest of each kind per local day.
+   */
+  private async sendDigest(batch: DigestBatch, kind: ReminderDigest['kind']): Promise<boolean> {
+    const { owner, today } = batch;
+    const channel: ReminderChannel =
+      owner.preferred_reminder_channel === 'whatsapp' && !this.getSkipReason(owner, 'whatsapp')
+        ? 'whatsapp'
+        : 'email';
+
+    const skipReason = this.getSkipReason(owner, channel);
+    if (skipReason) {
+      console.warn(`Not sending ${kind} digest to user ${owner.user_id}: ${skipReason}`);
+      return false;
+    }
+
+    const claimed = await this.db.prepare(`
+      INSERT OR IGNORE INTO reminder_digests (
+        user_id, kind, digest_date, channel, document_count, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+    `).bind(
+      owner.user_id,
+      kind,
+      today,
+      channel,
+      batch.entries.length,
+      new Date().toISOString(),
+      new Date().toISOString()
+    ).run();
+
+    if (claimed.meta.changes === 0) {
+      return false; // Already sent one today
+    }
+
+    const digest: ReminderDigest = {
+      kind,
+      date: today,
+      locale: resolveLocale(owner.locale),
+      items: batch.entries.map(({ doc, daysUntilExpiry }): DigestItem => ({
+        documentId: doc.id,
+        documentTitle: doc.title,
+        expirationDate: doc.expiration_date,
+        daysUntilExpiry,
+        isCritical: Boolean(doc.is_critical),
+      })),
+    };
+
+    let providerMessageId: string | null = null;
+    try {
+      providerMessageId = channel === 'whatsapp'
+        ? await this.notificationService.sendDigestWhatsApp(owner.phone_number!, digest)
+        : await this.notificationService.sendDigestEmail(owner.email!, digest);
+    } catch (error) {
+      console.error(`Failed to send ${kind} digest by ${channel}:`, error);
+    }
+
+    await this.db.prepare(`
+      UPDATE reminder_digests
+      SET status = ?, provider_message_id = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(
+      providerMessageId !== null ? 'sent' : 'failed',
+      providerMessageId,
+      new Date().toISOString(),
+      claimed.meta.last_row_id
+    ).run();
+
+    if (providerMessageId !== null) {
+      console.log(`Sent ${kind} digest of ${digest.items.length} document(s) to user ${owner.user_id}`);
+    }
+
+    return providerMessageId !== null;
+  }
+
+  private async markReminderSent(
+    doc: Document & UserProfile,
+    reminderId: number,
+    daysUntilExpiry: number,
+    today: string
+  ): Promise<void> {
+    const updated = await this.db.prepare(`
+      UPDATE reminders 
+      SET is_sent = 1, updated_at = ?
+      WHERE id = ? AND is_sent = 0
+    `).bind(new Date().toISOString(), reminderId).run();
+
+    // Another channel already got this reminder through
+    if (updated.meta.changes === 0) {
+      return;
+    }
+
+    // Log activity
+    await this.db.prepare(`
+      INSERT INTO activity_logs (
+        user_id, action_type, description, related_document_id, created_at
+      ) VALUES (?, 'reminder_sent', ?, ?, ?)
+    `).bind(
+      doc.user_id,
+      `Reminder sent for "${doc.title}" (${daysUntilExpiry} days to expiry)`,
+      doc.id,
+      new Date().toISOString()
+    ).run();
+
+    console.log(`Reminder sent for document "${doc.title}" to user ${doc.user_id}`);
+
+    await this.outboundWebhookService.emit(
+      'reminder.sent',
+      doc.organization_id,
+      {
+        reminder_id: reminderId,
+        document: toWebhookDocument(doc),
+        days_until_expiry: daysUntilExpiry,
+      },
+      `reminder.sent:${reminderId}`
+    );
+
+    // Critical documents escalate to backup contacts if nobody responds
+    await this.escalationService.startEscalation(doc, reminderId, today);
+  }
+
+  /**
+   * Resends deliveries whose backoff has passed. Retries go out as soon as
+   * they're due rather than waiting for the owner's next send window, and
+   * stop once the document is renewed, archived, snoozed or acknowledged, or
+   * its expiry is no longer the one the reminder was about.
+   */
+  private async processRetries(now: Date): Promise<void> {
+    const deliveries = await this.deliveryService.listDueRetries(now);
+
+    for (const delivery of deliveries) {
+      try {
+        const doc = await this.db.prepare(`
+          ${REMINDER_DOCUMENT_QUERY}
+          WHERE d.id = ?
+        `).bind(delivery.document_id).first<Document & User & UserProfile>();
+
+        if (!doc || doc.status !== 'active') {
+          await this.deliveryService.cancelRetry(delivery.id);
+          continue;
+        }
+
+        // The reminder's dates no longer apply once the expiry has moved
+        if (delivery.expiration_date && delivery.expiration_date !== doc.expiration_date) {
+          await this.deliveryService.cancelRetry(delivery.id, 'The expiration date changed');
+          continue;
+        }
+
+        const skipReason = this.getSkipReason(doc, delivery.channel);
+        if (skipReason) {
+          await this.deliveryService.cancelRetry(delivery.id, skipReason);
+          continue;
+        }
+
+        const today = getLocalDate(now, doc.timezone);
+        if ((doc.snoozed_until && doc.snoozed_until > today) || doc.acknowledged_at) {
+          await this.deliveryService.cancelRetry(delivery.id, 'Reminders paused by the owner');
+          continue;
+        }
+
+        const daysUntilExpiry = daysBetween(today, doc.expiration_date);
+
+        const sent = await this.attemptDelivery(doc, delivery, daysUntilExpiry);
+        if (sent && delivery.reminder_id) {
+          await this.markReminderSent(doc, delivery.reminder_id, daysUntilExpiry, today);
+        }
+      } catch (error) {
+        console.error(`Error retrying reminder delivery ${delivery.id}:`, error);
+      }
+    }
+  }
+
   private shouldSendReminder(
     doc: Document & UserProfile, 
     daysUntilExpiry: number
   ): boolean {
-    // Always send for expired documents (once per day)
+    // Expired documents are nagged a few more times, then left alone
     if (daysUntilExpiry < 0) {
-      return true;
+      return POST_EXPIRY_REMINDER_DAYS.includes(-daysUntilExpiry);
     }
 
-    // Get reminder frequency (default to 30 days if not set)
-    const frequency = doc.reminder_frequency || '30_days';
-    
-    const reminderDays: Record<string, number[]> = {
-      '30_days': [30, 14, 7, 3, 1, 0],
-      '14_days': [14, 7, 3, 1, 0],
-      '7_days': [7, 3, 1, 0],
-      '3_days': [3, 1, 0],
-      '1_day': [1, 0]
-    };
-
-    const daysToRemind = reminderDays[frequency] || reminderDays['30_days'];
+    // The document's own offsets, or the profile frequency as a fallback
+    const daysToRemind = resolveReminderOffsets(doc.reminder_offsets, doc.reminder_frequency);
     return daysToRemind.includes(daysUntilExpiry);
   }
 
@@ -183,54 +502,181 @@ export class ReminderService {
     return 'expires_month';
   }
 
+  /**
+   * Sends a reminder on every channel the user's or workspace's rules call
+   * for, or the preferred channel when no rule applies. Each channel gets a
+   * reminder_deliveries row. If nothing gets through, falls back to email.
+   */
   private async sendNotification(
     doc: Document & User & UserProfile,
+    daysUntilExpiry: number,
+    reminderId?: number
+  ): Promise<boolean> {
+    const channels = await this.channelRuleService.resolveChannels(doc, daysUntilExpiry)
+      ?? [doc.preferred_reminder_channel || 'email'];
+
+    let delivered = false;
+    for (const channel of channels) {
+      if (await this.deliverToChannel(doc, channel, daysUntilExpiry, reminderId)) {
+        delivered = true;
+      }
+    }
+
+    if (!delivered && !channels.includes('email') && doc.email) {
+      console.warn(`No ${channels.join('/')} reminder got through for user ${doc.user_id}, sending by email instead`);
+      delivered = await this.deliverToChannel(doc, 'email', daysUntilExpiry, reminderId);
+
+      // The fallback stands in for the failed channels, so they aren't retried
+      if (delivered && reminderId) {
+        await this.deliveryService.cancelRetriesForReminder(reminderId);
+      }
+    }
+
+    return delivered;
+  }
+
+  private async deliverToChannel(
+    doc: Document & User & UserProfile,
+    channel: ReminderChannel,
+    daysUntilExpiry: number,
+    reminderId?: number
+  ): Promise<boolean> {
+    const to = this.getNotificationAddress(doc, channel);
+    const delivery = {
+      reminderId: reminderId ?? null,
+      documentId: doc.id,
+      userId: doc.user_id,
+      channel,
+      // Webhook URLs are credentials, so they aren't kept in the delivery log
+      recipient: channel === 'slack' || channel === 'teams' ? null : to || null,
+      expirationDate: doc.expiration_date,
+    };
+
+    const skipReason = this.getSkipReason(doc, channel);
+    if (skipReason) {
+      await this.deliveryService.skip(delivery, skipReason);
+      return false;
+    }
+
+    const deliveryId = await this.deliveryService.queue(delivery);
+    return this.attemptDelivery(doc, {
+      id: deliveryId,
+      reminder_id: delivery.reminderId,
+      channel,
+      attempt_count: 0,
+    }, daysUntilExpiry);
+  }
+
+  // Sends one attempt of a queued or retried delivery and stores the outcome
+  private async attemptDelivery(
+    doc: Document & User & UserProfile,
+    delivery: Pick<ReminderDelivery, 'id' | 'reminder_id' | 'channel' | 'attempt_count'>,
     daysUntilExpiry: number
   ): Promise<boolean> {
-    const channel = doc.preferred_reminder_channel || 'email';
-    
+    const locale = resolveLocale(doc.locale);
     const payload = {
-      to: this.getNotificationAddress(doc, channel),
+      to: this.getNotificationAddress(doc, delivery.channel),
+      documentId: doc.id,
       documentTitle: doc.title,
+      documentType: doc.document_type,
       expirationDate: doc.expiration_date,
       daysUntilExpiry,
       isCritical: Boolean(doc.is_critical),
+      businessName: doc.business_name,
       message: '', // Will be formatted by notification service
+      locale,
+      templates: await this.templateService.getOverrides(doc.organization_id, locale),
+      actionLinks: delivery.channel === 'email' || delivery.channel === 'sms'
+        ? await this.actionService.buildActionLinks(doc.id, doc.expiration_date)
+        : null,
     };
 
-    if (!payload.to) {
-      console.warn(`No ${channel} address available for user ${doc.user_id}`);
-      return false;
-    }
-
+    let outcome: AttemptOutcome;
     try {
-      switch (channel) {
+      let providerMessageId: string | null;
+
+      switch (delivery.channel) {
         case 'whatsapp':
-          if (!payload.to) {
-            console.warn(`No WhatsApp number available for user ${doc.user_id}, falling back to email`);
-            payload.to = doc.email;
-            return await this.notificationService.sendEmailNotification(payload);
-          }
-          return await this.notificationService.sendWhatsAppNotification(payload);
-          
+          providerMessageId = await this.sendWhatsAppReminder(payload, delivery.reminder_id ?? undefined);
+          break;
+
         case 'sms':
-          return await this.notificationService.sendSMSNotification(payload);
-          
+          providerMessageId = await this.notificationService.sendSMSNotification(payload);
+          break;
+
+        case 'slack':
+          providerMessageId = await this.notificationService.sendSlackNotification(payload);
+          break;
+
+        case 'teams':
+          providerMessageId = await this.notificationService.sendTeamsNotification(payload);
+          break;
+
         case 'email':
         default:
-          return await this.notificationService.sendEmailNotification(payload);
+          providerMessageId = await this.notificationService.sendEmailNotification(payload);
       }
+
+      outcome = providerMessageId !== null
+        ? { sent: true, providerMessageId }
+        : { sent: false, error: 'Provider did not accept the message' };
     } catch (error) {
-      console.error(`Failed to send ${channel} notification:`, error);
-      
-      // Fallback to email if primary channel fails
-      if (channel !== 'email' && doc.email) {
-        payload.to = doc.email;
-        return await this.notificationService.sendEmailNotification(payload);
-      }
-      
-      return false;
+      console.error(`Failed to send ${delivery.channel} notification:`, error);
+      outcome = { sent: false, error: error instanceof Error ? error.message : String(error) };
     }
+
+    // Test reminders have no reminders row to come back to, so aren't retried
+    await this.deliveryService.recordAttempt(delivery, outcome, delivery.reminder_id !== null);
+    return outcome.sent;
+  }
+
+  // Why a channel can't be used for this user, or null if it can
+  private getSkipReason(doc: User & UserProfile, channel: ReminderChannel): string | null {
+    if (channel === 'email') {
+      return doc.email ? null : 'No email address';
+    }
+    if (channel === 'slack') {
+      return doc.slack_webhook_url ? null : 'No Slack webhook configured';
+    }
+    if (channel === 'teams') {
+      return doc.teams_webhook_url ? null : 'No Teams webhook configured';
+    }
+    if (!doc.phone_number) {
+      return 'No phone number';
+    }
+    // Never message a phone number the user hasn't proven they own
+    if (!doc.whatsapp_verified) {
+      return 'Phone number not verified';
+    }
+    if (channel === 'whatsapp' && doc.whatsapp_opted_out) {
+      return 'Opted out of WhatsApp';
+    }
+    return null;
+  }
+
+  async listDeliveries(documentId: number | string, limit = 50): Promise<ReminderDelivery[]> {
+    return this.deliveryService.listForDocument(documentId, limit);
+  }
+
+  // Returns the WhatsApp message id, or null if the send failed
+  private async sendWhatsAppReminder(
+    payload: NotificationPayload,
+    reminderId?: number
+  ): Promise<string | null> {
+    const messageId = await this.notificationService.sendWhatsAppNotification(payload);
+    if (messageId === null) {
+      return null;
+    }
+
+    // Keep the message id so inbound replies can be linked back to this reminder
+    if (reminderId && messageId) {
+      await this.db.prepare(`
+        UPDATE reminders SET whatsapp_message_id = ?, updated_at = ?
+        WHERE id = ?
+      `).bind(messageId, new Date().toISOString(), reminderId).run();
+    }
+
+    return messageId;
   }
 
   private getNotificationAddress(
@@ -241,6 +687,10 @@ export class ReminderService {
       case 'whatsapp':
       case 'sms':
         return doc.phone_number || '';
+      case 'slack':
+        return doc.slack_webhook_url || '';
+      case 'teams':
+        return doc.teams_webhook_url || '';
       case 'email':
       default:
         return doc.email || '';
@@ -251,11 +701,7 @@ export class ReminderService {
   async sendTestReminder(userId: string, documentId: number): Promise<boolean> {
     try {
       const { results: documents } = await this.db.prepare(`
-        SELECT d.*, u.email, u.google_user_data,
-               p.preferred_reminder_channel, p.reminder_frequency, p.phone_number
-        FROM documents d
-        JOIN users u ON d.user_id = u.id
-        LEFT JOIN user_profiles p ON d.user_id = p.user_id
+        ${REMINDER_DOCUMENT_QUERY}
         WHERE d.id = ? AND d.user_id = ?
       `).bind(documentId, userId).all() as { results: (Document & User & UserProfile)[] };
 
@@ -264,9 +710,8 @@ export class ReminderService {
       }
 
       const doc = documents[0];
-      const expirationDate = new Date(doc.expiration_date);
-      const today = new Date();
-      const daysUntilExpiry = Math.ceil((expirationDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      const today = getLocalDate(new Date(), doc.timezone);
+      const daysUntilExpiry = daysBetween(today, doc.expiration_date);
 
       return await this.sendNotification(doc, daysUntilExpiry);
     } catch (error) {
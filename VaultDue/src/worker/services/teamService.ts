@@ -0,0 +1,149 @@
+import type { Document, DocumentInvitation, InviteTeamMember, TeamMember } from '@/shared/types';
+import { NotificationService } from './notificationService';
+import { NotificationTemplateService } from './notificationTemplateService';
+
+interface Inviter {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+export class TeamService {
+  private notificationService: NotificationService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+  }
+
+  async listMembers(documentId: number): Promise<TeamMember[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM team_members
+      WHERE document_id = ?
+      ORDER BY created_at ASC
+    `).bind(documentId).all<TeamMember>();
+
+    return results;
+  }
+
+  async findMemberByEmail(documentId: number, email: string): Promise<TeamMember | null> {
+    return await this.db.prepare(`
+      SELECT * FROM team_members WHERE document_id = ? AND invited_email = ?
+    `).bind(documentId, email.toLowerCase()).first<TeamMember>();
+  }
+
+  /**
+   * Creates a pending invite, or re-opens one that was previously declined,
+   * and emails the invitee.
+   */
+  async invite(document: Document, inviter: Inviter, invite: InviteTeamMember): Promise<TeamMember> {
+    const email = invite.email.toLowerCase();
+    const now = new Date().toISOString();
+
+    const existing = await this.findMemberByEmail(document.id, email);
+    if (existing) {
+      await this.db.prepare(`
+        UPDATE team_members
+        SET role = ?, status = 'pending', member_user_id = NULL, invited_by_email = ?, updated_at = ?
+        WHERE id = ?
+      `).bind(invite.role, inviter.email, now, existing.id).run();
+    } else {
+      await this.db.prepare(`
+        INSERT INTO team_members (
+          document_id, user_id, invited_email, invited_by_email, role, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+      `).bind(document.id, document.user_id, email, inviter.email, invite.role, now, now).run();
+    }
+
+    await this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+      VALUES (?, 'document_shared', ?, ?, ?)
+    `).bind(inviter.id, `Invited ${email} to "${document.title}" as ${invite.role}`, document.id, now).run();
+
+    const templateService = new NotificationTemplateService(this.db);
+    await this.notificationService.sendDocumentInvitationEmail(email, {
+      inviterName: inviter.name || inviter.email,
+      documentTitle: document.title,
+      role: invite.role,
+      locale: await templateService.getRecipientLocale(email),
+    });
+
+    return (await this.findMemberByEmail(document.id, email))!;
+  }
+
+  async revoke(document: Document, memberId: number | string, revokedBy: string): Promise<boolean> {
+    const member = await this.db.prepare(`
+      SELECT * FROM team_members WHERE id = ? AND document_id = ?
+    `).bind(memberId, document.id).first<TeamMember>();
+
+    if (!member) {
+      return false;
+    }
+
+    await this.db.prepare("DELETE FROM team_members WHERE id = ?").bind(member.id).run();
+
+    await this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+      VALUES (?, 'share_revoked', ?, ?, ?)
+    `).bind(
+      revokedBy,
+      `Revoked ${member.invited_email}'s access to "${document.title}"`,
+      document.id,
+      new Date().toISOString()
+    ).run();
+
+    return true;
+  }
+
+  async listInvitations(email: string): Promise<DocumentInvitation[]> {
+    const { results } = await this.db.prepare(`
+      SELECT tm.*, d.title AS document_title, d.expiration_date
+      FROM team_members tm
+      JOIN documents d ON tm.document_id = d.id
+      WHERE tm.invited_email = ? AND tm.status = 'pending'
+      ORDER BY tm.created_at DESC
+    `).bind(email.toLowerCase()).all<DocumentInvitation>();
+
+    return results;
+  }
+
+  /**
+   * Accepts or declines a pending invitation addressed to the user's email.
+   * Returns false if there is no such pending invitation.
+   */
+  async respondToInvitation(
+    invitationId: number | string,
+    user: { id: string; email: string },
+    accept: boolean
+  ): Promise<boolean> {
+    const invitation = await this.db.prepare(`
+      SELECT tm.*, d.title AS document_title
+      FROM team_members tm
+      JOIN documents d ON tm.document_id = d.id
+      WHERE tm.id = ? AND tm.invited_email = ? AND tm.status = 'pending'
+    `).bind(invitationId, user.email.toLowerCase()).first<DocumentInvitation>();
+
+    if (!invitation) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      UPDATE team_members SET status = ?, member_user_id = ?, updated_at = ?
+      WHERE id = ?
+    `).bind(accept ? 'accepted' : 'declined', accept ? user.id : null, now, invitation.id).run();
+
+    await this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, related_document_id, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(
+      user.id,
+      accept ? 'invitation_accepted' : 'invitation_declined',
+      `${accept ? 'Accepted' : 'Declined'} invitation to "${invitation.document_title}"`,
+      accept ? invitation.document_id : null,
+      now
+    ).run();
+
+    return true;
+  }
+}
@@ -0,0 +1,265 @@
+import { randomDigits, sha256Hex } from '../utils/crypto';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const BACKUP_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+interface TwoFactorCredential {
+  id: number;
+  user_id: string;
+  secret: string;
+  confirmed_at: string | null;
+  last_used_step: number | null;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  verified: boolean; // For the current session
+  backup_codes_remaining: number;
+}
+
+export type TwoFactorCheckResult = 'verified' | 'invalid' | 'locked' | 'not_enabled';
+
+export class TwoFactorService {
+  constructor(private db: D1Database) {}
+
+  async getStatus(userId: string, sessionToken?: string): Promise<TwoFactorStatus> {
+    const enabled = await this.isEnabled(userId);
+    if (!enabled) {
+      return { enabled: false, verified: false, backup_codes_remaining: 0 };
+    }
+
+    const remaining = await this.db.prepare(`
+      SELECT COUNT(*) AS count FROM two_factor_backup_codes WHERE user_id = ? AND used_at IS NULL
+    `).bind(userId).first<{ count: number }>();
+
+    return {
+      enabled: true,
+      verified: await this.isSessionVerified(userId, sessionToken),
+      backup_codes_remaining: remaining?.count ?? 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const credential = await this.getCredential(userId);
+    return !!credential?.confirmed_at;
+  }
+
+  async isSessionVerified(userId: string, sessionToken?: string): Promise<boolean> {
+    if (!sessionToken) {
+      return false;
+    }
+
+    const session = await this.db.prepare(`
+      SELECT id FROM two_factor_sessions WHERE user_id = ? AND session_hash = ?
+    `).bind(userId, await sha256Hex(sessionToken)).first();
+
+    return !!session;
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a fresh secret. 2FA isn't enforced
+   * until the user proves their app works with confirmEnrollment.
+   */
+  async startEnrollment(user: { id: string; email: string }): Promise<{ secret: string; otpauth_url: string }> {
+    const secret = generateTotpSecret();
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO two_factor_credentials (user_id, secret, confirmed_at, failed_attempts, created_at, updated_at)
+      VALUES (?, ?, NULL, 0, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        secret = excluded.secret, confirmed_at = NULL, last_used_step = NULL,
+        failed_attempts = 0, locked_until = NULL, updated_at = excluded.updated_at
+    `).bind(user.id, secret, now, now).run();
+
+    return { secret, otpauth_url: buildOtpAuthUrl(secret, user.email, 'VaultDue') };
+  }
+
+  /**
+   * Confirms enrollment with a code from the authenticator app, turns 2FA on
+   * and returns the one-time backup codes. The current session counts as
+   * verified. Returns null if the code is wrong.
+   */
+  async confirmEnrollment(userId: string, code: string, sessionToken?: string): Promise<string[] | null> {
+    const credential = await this.getCredential(userId);
+    if (!credential || credential.confirmed_at) {
+      return null;
+    }
+
+    const step = await verifyTotp(credential.secret, code.trim());
+    if (step === null) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE two_factor_credentials SET confirmed_at = ?, last_used_step = ?, updated_at = ? WHERE id = ?
+      `).bind(now, step, now, credential.id),
+      this.db.prepare(`
+        UPDATE user_profiles SET two_factor_enabled = 1, updated_at = ? WHERE user_id = ?
+      `).bind(now, userId),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'two_factor_enabled', 'Turned on two-factor authentication', ?)
+      `).bind(userId, now),
+    ]);
+
+    if (sessionToken) {
+      await this.markSessionVerified(userId, sessionToken);
+    }
+
+    return await this.regenerateBackupCodes(userId);
+  }
+
+  /**
+   * Verifies a TOTP or backup code for the current session. Codes can't be
+   * replayed, and the account locks for 15 minutes after 5 wrong codes.
+   */
+  async verifySession(userId: string, code: string, sessionToken: string): Promise<TwoFactorCheckResult> {
+    const result = await this.checkCode(userId, code);
+    if (result === 'verified') {
+      await this.markSessionVerified(userId, sessionToken);
+    }
+    return result;
+  }
+
+  async regenerateBackupCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const digits = randomDigits(10);
+      return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+    });
+    const now = new Date().toISOString();
+
+    const inserts = await Promise.all(codes.map(async (backupCode) =>
+      this.db.prepare(`
+        INSERT INTO two_factor_backup_codes (user_id, code_hash, created_at, updated_at)
+        VALUES (?, ?, ?, ?)
+      `).bind(userId, await this.hashBackupCode(userId, backupCode), now, now)
+    ));
+
+    await this.db.batch([
+      this.db.prepare("DELETE FROM two_factor_backup_codes WHERE user_id = ?").bind(userId),
+      ...inserts,
+    ]);
+
+    return codes;
+  }
+
+  async disable(userId: string, code: string): Promise<TwoFactorCheckResult> {
+    const result = await this.checkCode(userId, code);
+    if (result !== 'verified') {
+      return result;
+    }
+
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare("DELETE FROM two_factor_credentials WHERE user_id = ?").bind(userId),
+      this.db.prepare("DELETE FROM two_factor_backup_codes WHERE user_id = ?").bind(userId),
+      this.db.prepare("DELETE FROM two_factor_sessions WHERE user_id = ?").bind(userId),
+      this.db.prepare(`
+        UPDATE user_profiles SET two_factor_enabled = 0, updated_at = ? WHERE user_id = ?
+      `).bind(now, userId),
+      this.db.prepare(`
+        INSERT INTO activity_logs (user_id, action_type, description, created_at)
+        VALUES (?, 'two_factor_disabled', 'Turned off two-factor authentication', ?)
+      `).bind(userId, now),
+    ]);
+
+    return 'verified';
+  }
+
+  async forgetSession(sessionToken: string): Promise<void> {
+    await this.db.prepare("DELETE FROM two_factor_sessions WHERE session_hash = ?")
+      .bind(await sha256Hex(sessionToken))
+      .run();
+  }
+
+  private async checkCode(userId: string, rawCode: string): Promise<TwoFactorCheckResult> {
+    const credential = await this.getCredential(userId);
+    if (!credential?.confirmed_at) {
+      return 'not_enabled';
+    }
+
+    const now = new Date();
+    if (credential.locked_until && credential.locked_until > now.toISOString()) {
+      return 'locked';
+    }
+
+    const code = rawCode.trim();
+    let verified = false;
+
+    const step = await verifyTotp(credential.secret, code);
+    if (step !== null && (credential.last_used_step === null || step > credential.last_used_step)) {
+      await this.db.prepare(`
+        UPDATE two_factor_credentials SET last_used_step = ?, failed_attempts = 0, locked_until = NULL, updated_at = ?
+        WHERE id = ?
+      `).bind(step, now.toISOString(), credential.id).run();
+      verified = true;
+    } else if (/^\d{5}-?\d{5}$/.test(code)) {
+      verified = await this.useBackupCode(userId, code);
+    }
+
+    if (verified) {
+      return 'verified';
+    }
+
+    const failedAttempts = credential.failed_attempts + 1;
+    const lockedUntil = failedAttempts >= MAX_FAILED_ATTEMPTS
+      ? new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+      : null;
+
+    await this.db.prepare(`
+      UPDATE two_factor_credentials SET failed_attempts = ?, locked_until = ?, updated_at = ? WHERE id = ?
+    `).bind(lockedUntil ? 0 : failedAttempts, lockedUntil, now.toISOString(), credential.id).run();
+
+    return lockedUntil ? 'locked' : 'invalid';
+  }
+
+  private async useBackupCode(userId: string, code: string): Promise<boolean> {
+    const normalized = code.replace('-', '');
+    const formatted = `${normalized.slice(0, 5)}-${normalized.slice(5)}`;
+    const now = new Date().toISOString();
+
+    const result = await this.db.prepare(`
+      UPDATE two_factor_backup_codes SET used_at = ?, updated_at = ?
+      WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+    `).bind(now, now, userId, await this.hashBackupCode(userId, formatted)).run();
+
+    if (result.meta.changes === 0) {
+      return false;
+    }
+
+    await this.db.prepare(`
+      UPDATE two_factor_credentials SET failed_attempts = 0, locked_until = NULL, updated_at = ? WHERE user_id = ?
+    `).bind(now, userId).run();
+
+    return true;
+  }
+
+  private async markSessionVerified(userId: string, sessionToken: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO two_factor_sessions (user_id, session_hash, verified_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_hash) DO UPDATE SET verified_at = excluded.verified_at, updated_at = excluded.updated_at
+    `).bind(userId, await sha256Hex(sessionToken), now, now, now).run();
+  }
+
+  private async getCredential(userId: string): Promise<TwoFactorCredential | null> {
+    return await this.db.prepare("SELECT * FROM two_factor_credentials WHERE user_id = ?")
+      .bind(userId)
+      .first<TwoFactorCredential>();
+  }
+
+  private async hashBackupCode(userId: string, code: string): Promise<string> {
+    return sha256Hex(`${userId}:${code}`);
+  }
+}
@@ -0,0 +1,420 @@
+import { NotificationService } from './notificationService';
+import { DocumentService } from './documentService';
+import { EscalationService } from './escalationService';
+import { ReminderDeliveryService } from './reminderDeliveryService';
+import { OutboundWebhookService, toWebhookDocument } from './outboundWebhookService';
+import { ReminderActionService } from './reminderActionService';
+import { NotificationTemplateService } from './notificationTemplateService';
+import { DEFAULT_SNOOZE_DAYS, MAX_SNOOZE_DAYS, type TemplateLocale } from '@/shared/types';
+import { formatExpiryDate, getLocaleStrings, renderTemplate, type LocaleStrings } from '../templates';
+import { hmacSha256Hex, timingSafeEqual } from '../utils/crypto';
+import { getAppUrl } from '../utils/signedLinks';
+import { addDays, getLocalDate } from '../utils/timezone';
+
+interface WhatsAppInboundMessage {
+  from: string;
+  id: string;
+  type: string;
+  text?: { body: string };
+  button?: { text: string; payload?: string };
+  context?: { id: string };
+}
+
+// Delivery receipts for messages we sent
+interface WhatsAppMessageStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed' | string;
+  timestamp?: string;
+  errors?: { code: number; title?: string; message?: string }[];
+}
+
+export interface WhatsAppWebhookPayload {
+  object?: string;
+  entry?: {
+    changes?: {
+      field: string;
+      value: {
+        messages?: WhatsAppInboundMessage[];
+        statuses?: WhatsAppMessageStatus[];
+      };
+    }[];
+  }[];
+}
+
+interface InboundSender {
+  userId: string;
+  documentId: number | null;
+  documentTitle: string | null;
+  // When the reminder being answered was sent
+  reminderDate: string | null;
+  // The language replies are written in
+  locale: TemplateLocale;
+}
+
+type WhatsAppCommand = 'RENEWED' | 'SNOOZE' | 'ACK' | 'STOP' | 'START' | 'HELP';
+
+const COMMAND_ALIASES: Record<string, WhatsAppCommand> = {
+  RENEWED: 'RENEWED',
+  RENEW: 'RENEWED',
+  DONE: 'RENEWED',
+  SNOOZE: 'SNOOZE',
+  ACK: 'ACK',
+  OK: 'ACK',
+  SEEN: 'ACK',
+  STOP: 'STOP',
+  UNSUBSCRIBE: 'STOP',
+  START: 'START',
+  HELP: 'HELP',
+};
+
+export class WhatsAppWebhookService {
+  private notificationService: NotificationService;
+  private documentService: DocumentService;
+  private escalationService: EscalationService;
+  private deliveryService: ReminderDeliveryService;
+  private outboundWebhookService: OutboundWebhookService;
+  private actionService: ReminderActionService;
+  private templateService: NotificationTemplateService;
+
+  constructor(private env: Env, private db: D1Database) {
+    this.notificationService = new NotificationService(this.env);
+    this.documentService = new DocumentService(this.db);
+    this.escalationService = new EscalationService(this.env, this.db);
+    this.deliveryService = new ReminderDeliveryService(this.db);
+    this.outboundWebhookService = new OutboundWebhookService(this.db);
+    this.actionService = new ReminderActionService(this.env, this.db);
+    this.templateService = new NotificationTemplateService(this.db);
+  }
+
+  // Meta calls the webhook with hub.* query params when it is registered
+  verifySubscription(mode?: string, token?: string, challenge?: string): string | null {
+    if (!this.env.WHATSAPP_VERIFY_TOKEN) {
+      console.error('WhatsApp verify token not configured');
+      return null;
+    }
+
+    if (mode === 'subscribe' && token === this.env.WHATSAPP_VERIFY_TOKEN && challenge) {
+      return challenge;
+    }
+
+    return null;
+  }
+
+  // Validates the X-Hub-Signature-256 header Meta sends with every event
+  async verifySignature(rawBody: string, signatureHeader?: string): Promise<boolean> {
+    if (!this.env.WHATSAPP_APP_SECRET) {
+      console.error('WhatsApp app secret not configured');
+      return false;
+    }
+
+    if (!signatureHeader?.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expected = await hmacSha256Hex(this.env.WHATSAPP_APP_SECRET, rawBody);
+    return timingSafeEqual(expected, signatureHeader.slice('sha256='.length));
+  }
+
+  async handleWebhook(payload: WhatsAppWebhookPayload): Promise<void> {
+    if (payload.object !== 'whatsapp_business_account') {
+      return;
+    }
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+
+        for (const message of change.value.messages || []) {
+          try {
+            await this.handleMessage(message);
+          } catch (error) {
+            console.error(`Error handling WhatsApp message ${message.id}:`, error);
+          }
+        }
+
+        for (const status of change.value.statuses || []) {
+          try {
+            await this.handleStatus(status);
+          } catch (error) {
+            console.error(`Error handling WhatsApp status for ${status.id}:`, error);
+          }
+        }
+      }
+    }
+  }
+
+  private async handleStatus(status: WhatsAppMessageStatus): Promise<void> {
+    if (status.status !== 'sent' && status.status !== 'delivered' && status.status !== 'read' && status.status !== 'failed') {
+      return;
+    }
+
+    const error = status.errors?.[0];
+    await this.deliveryService.applyProviderStatus('whatsapp', status.id, status.status, {
+      error: error ? `WhatsApp error ${error.code}: ${error.message || error.title || 'Unknown error'}` : null,
+      at: status.timestamp ? new Date(Number(status.timestamp) * 1000) : undefined,
+    });
+  }
+
+  private async handleMessage(message: WhatsAppInboundMessage): Promise<void> {
+    const body = message.text?.body ?? message.button?.text ?? '';
+    const { command, argument } = this.parseCommand(body);
+    const sender = await this.resolveSender(message);
+
+    // Meta retries deliveries, so the inbound message id doubles as an idempotency key
+    const inserted = await this.db.prepare(`
+      INSERT OR IGNORE INTO whatsapp_inbound_messages (
+        whatsapp_message_id, from_number, body, command, user_id, document_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      message.id,
+      message.from,
+      body || null,
+      command,
+      sender?.userId ?? null,
+      sender?.documentId ?? null,
+      new Date().toISOString()
+    ).run();
+
+    if (inserted.meta.changes === 0) {
+      console.log(`Skipping duplicate WhatsApp message ${message.id}`);
+      return;
+    }
+
+    if (!sender) {
+      console.warn(`Ignoring WhatsApp message from unknown number ${message.from}`);
+      return;
+    }
+
+    let reply: string;
+    switch (command) {
+      case 'RENEWED':
+        reply = await this.handleRenewed(sender);
+        break;
+      case 'SNOOZE':
+        reply = await this.handleSnooze(sender, argument);
+        break;
+      case 'ACK':
+        reply = await this.handleAcknowledge(sender);
+        break;
+      case 'STOP':
+        reply = await this.handleOptOut(sender, true);
+        break;
+      case 'START':
+        reply = await this.handleOptOut(sender, false);
+        break;
+      case 'HELP':
+      default:
+        reply = this.reply(sender, 'help', { days: String(DEFAULT_SNOOZE_DAYS) });
+    }
+
+    await this.notificationService.sendWhatsAppText(message.from, reply);
+  }
+
+  private parseCommand(body: string): { command: WhatsAppCommand | null; argument: string | null } {
+    const [keyword = '', argument = null] = body
+      .trim()
+      .replace(/^["']|["']$/g, '')
+      .split(/\s+/);
+
+    return {
+      command: COMMAND_ALIASES[keyword.toUpperCase()] ?? null,
+      argument,
+    };
+  }
+
+  /**
+   * Links an inbound message to the user and document it answers. Replies carry
+   * the id of the reminder they quote; free-typed messages fall back to the
+   * sender's most recent WhatsApp reminder.
+   */
+  private async resolveSender(message: WhatsAppInboundMessage): Promise<InboundSender | null> {
+    if (message.context?.id) {
+      const reminder = await this.db.prepare(`
+        SELECT r.user_id, r.document_id, r.reminder_date, d.title, p.phone_number
+        FROM reminders r
+        JOIN documents d ON r.document_id = d.id
+        LEFT JOIN user_profiles p ON r.user_id = p.user_id
+        WHERE r.whatsapp_message_id = ?
+      `).bind(message.context.id).first<{
+        user_id: string;
+        document_id: number;
+        reminder_date: string;
+        title: string;
+        phone_number: string | null;
+      }>();
+
+      if (reminder && this.isSameNumber(reminder.phone_number, message.from)) {
+        return {
+          userId: reminder.user_id,
+          documentId: reminder.document_id,
+          documentTitle: reminder.title,
+          reminderDate: reminder.reminder_date,
+          locale: await this.templateService.getUserLocale(reminder.user_id),
+        };
+      }
+    }
+
+    const userId = await this.findUserByPhone(message.from);
+    if (!userId) {
+      return null;
+    }
+
+    const latest = await this.db.prepare(`
+      SELECT r.document_id, r.reminder_date, d.title
+      FROM reminders r
+      JOIN documents d ON r.document_id = d.id
+      WHERE r.user_id = ? AND r.whatsapp_message_id IS NOT NULL
+      ORDER BY r.created_at DESC LIMIT 1
+    `).bind(userId).first<{ document_id: number; reminder_date: string; title: string }>();
+
+    return {
+      userId,
+      documentId: latest?.document_id ?? null,
+      documentTitle: latest?.title ?? null,
+      reminderDate: latest?.reminder_date ?? null,
+      locale: await this.templateService.getUserLocale(userId),
+    };
+  }
+
+  // Only verified numbers, so no one can act on documents by typing in someone else's number
+  private async findUserByPhone(from: string): Promise<string | null> {
+    const { results } = await this.db.prepare(`
+      SELECT user_id, phone_number FROM user_profiles
+      WHERE whatsapp_verified = 1
+        AND REPLACE(REPLACE(REPLACE(phone_number, ' ', ''), '-', ''), '+', '') LIKE ?
+    `).bind(`%${from.slice(-10)}`).all<{ user_id: string; phone_number: string }>();
+
+    const match = results.find((profile) => this.isSameNumber(profile.phone_number, from));
+    return match?.user_id ?? null;
+  }
+
+  private isSameNumber(phoneNumber: string | null, from: string): boolean {
+    if (!phoneNumber) return false;
+    return this.notificationService.formatPhoneNumber(phoneNumber) === from;
+  }
+
+  private async handleRenewed(sender: InboundSender): Promise<string> {
+    if (!sender.documentId) {
+      return this.reply(sender, 'renewUnknownDocument');
+    }
+
+    const existing = await this.documentService.getDocument(sender.userId, sender.documentId);
+    if (!existing) {
+      return this.reply(sender, 'documentNotFound', { title: sender.documentTitle ?? '' });
+    }
+
+    // A repeated or late reply must not push the expiry out another cycle
+    const alreadyRenewed = existing.status === 'renewed' || (
+      !!existing.last_renewed_date && !!sender.reminderDate && existing.last_renewed_date >= sender.reminderDate
+    );
+    if (alreadyRenewed) {
+      return this.reply(sender, existing.status === 'active' ? 'alreadyRenewed' : 'alreadyMarkedRenewed', {
+        title: existing.title,
+        date: formatExpiryDate(existing.expiration_date, sender.locale),
+      });
+    }
+
+    const document = await this.documentService.renewDocument(existing, {}, {
+      userId: sender.userId,
+      source: 'whatsapp',
+    });
+    await this.escalationService.acknowledge(existing.id, 'renewal', 'The document owner');
+    await this.outboundWebhookService.emit('document.renewed', document.organization_id, {
+      document: toWebhookDocument(document),
+      previous_expiration_date: existing.expiration_date,
+      renewed_via: 'whatsapp',
+    });
+
+    return this.reply(sender, document.status === 'active' ? 'renewed' : 'markedRenewed', {
+      title: document.title,
+      date: formatExpiryDate(document.expiration_date, sender.locale),
+    });
+  }
+
+  private async handleSnooze(sender: InboundSender, argument: string | null): Promise<string> {
+    if (!sender.documentId) {
+      return this.reply(sender, 'snoozeUnknownDocument');
+    }
+
+    const requestedDays = argument ? parseInt(argument, 10) : DEFAULT_SNOOZE_DAYS;
+    const days = Number.isNaN(requestedDays)
+      ? DEFAULT_SNOOZE_DAYS
+      : Math.min(Math.max(requestedDays, 1), MAX_SNOOZE_DAYS);
+
+    const document = await this.getSenderDocument(sender.documentId, sender.userId);
+    if (!document) {
+      return this.reply(sender, 'documentNotFound', { title: sender.documentTitle ?? '' });
+    }
+
+    // Counted on the owner's calendar, as snooze links and the app do
+    const snoozeDate = addDays(getLocalDate(new Date(), document.timezone), days);
+
+    await this.actionService.snooze(document, snoozeDate, 'whatsapp', 'The document owner');
+
+    return this.reply(sender, 'snoozed', {
+      title: document.title,
+      days: String(days),
+      date: formatExpiryDate(snoozeDate, sender.locale),
+    });
+  }
+
+  private async handleAcknowledge(sender: InboundSender): Promise<string> {
+    if (!sender.documentId) {
+      return this.reply(sender, 'acknowledgeUnknownDocument');
+    }
+
+    const document = await this.getSenderDocument(sender.documentId, sender.userId);
+    if (!document) {
+      return this.reply(sender, 'documentNotFound', { title: sender.documentTitle ?? '' });
+    }
+
+    await this.actionService.acknowledge(document, 'whatsapp', 'The document owner');
+
+    return this.reply(sender, 'acknowledged', { title: document.title });
+  }
+
+  private async getSenderDocument(documentId: number, userId: string) {
+    return this.db.prepare(`
+      SELECT d.id, d.user_id, d.title, p.timezone
+      FROM documents d
+      LEFT JOIN user_profiles p ON p.user_id = d.user_id
+      WHERE d.id = ? AND d.user_id = ?
+    `)
+      .bind(documentId, userId)
+      .first<{ id: number; user_id: string; title: string; timezone: string | null }>();
+  }
+
+  private async handleOptOut(sender: InboundSender, optOut: boolean): Promise<string> {
+    const { userId } = sender;
+    const now = new Date().toISOString();
+
+    await this.db.prepare(`
+      UPDATE user_profiles SET whatsapp_opted_out = ?, updated_at = ?
+      WHERE user_id = ?
+    `).bind(optOut ? 1 : 0, now, userId).run();
+
+    await this.db.prepare(`
+      INSERT INTO activity_logs (user_id, action_type, description, created_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(
+      userId,
+      optOut ? 'whatsapp_opt_out' : 'whatsapp_opt_in',
+      optOut ? 'Unsubscribed from WhatsApp reminders' : 'Resubscribed to WhatsApp reminders',
+      now
+    ).run();
+
+    return this.reply(sender, optOut ? 'optedOut' : 'optedIn');
+  }
+
+  // Words a reply in the sender's language
+  private reply(
+    sender: InboundSender,
+    key: keyof LocaleStrings['replies'],
+    variables: Record<string, string> = {}
+  ): string {
+    return renderTemplate(getLocaleStrings(sender.locale).replies[key], {
+      link: getAppUrl(this.env),
+      ...variables,
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import type { LocaleStrings } from './types';
+
+const RENEWED_HINT = `Reply "RENEWED" once you've updated this document.`;
+
+export const en: LocaleStrings = {
+  dateLocale: 'en-US',
+  criticalPriority: '[CRITICAL] ',
+  templates: {
+    'whatsapp.expired':
+      `{{emoji}} *EXPIRED DOCUMENT ALERT*\n\n` +
+      `Your document "{{title}}" expired {{days}} day(s) ago on {{expiry_date}}.\n\n` +
+      `⚠️ Please renew this document immediately to avoid any issues.\n\n` +
+      `Log into VaultDue to update: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.today':
+      `{{emoji}} *DOCUMENT EXPIRES TODAY*\n\n` +
+      `Your document "{{title}}" expires TODAY ({{expiry_date}}).\n\n` +
+      `⚠️ Please take immediate action to renew this document.\n\n` +
+      `Log into VaultDue to update: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.tomorrow':
+      `{{emoji}} *DOCUMENT EXPIRES TOMORROW*\n\n` +
+      `Your document "{{title}}" expires tomorrow ({{expiry_date}}).\n\n` +
+      `⏰ Don't forget to renew this document!\n\n` +
+      `Log into VaultDue to update: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.upcoming':
+      `{{emoji}} *DOCUMENT EXPIRY REMINDER*\n\n` +
+      `Your document "{{title}}" will expire in {{days}} day(s) on {{expiry_date}}.\n\n` +
+      `📅 Plan ahead to renew this document on time.\n\n` +
+      `Log into VaultDue to manage: {{link}}\n\n${RENEWED_HINT}`,
+
+    'sms.expired': `VaultDue Alert: "{{title}}" expired {{days}} day(s) ago ({{expiry_date}}). Please renew immediately. Visit: {{link}}`,
+    'sms.today': `VaultDue Alert: "{{title}}" expires TODAY ({{expiry_date}}). Take immediate action! Visit: {{link}}`,
+    'sms.tomorrow': `VaultDue Reminder: "{{title}}" expires tomorrow ({{expiry_date}}). Don't forget to renew! Visit: {{link}}`,
+    'sms.upcoming': `VaultDue Reminder: "{{title}}" expires in {{days}} days ({{expiry_date}}). Plan to renew on time. Visit: {{link}}`,
+
+    'email_subject.expired': '{{priority}}EXPIRED: {{title}} - Action Required',
+    'email_subject.today': '{{priority}}EXPIRES TODAY: {{title}} - Immediate Action Needed',
+    'email_subject.tomorrow': '{{priority}}EXPIRES TOMORROW: {{title}} - Reminder',
+    'email_subject.upcoming': '{{priority}}Reminder: {{title}} expires in {{days}} days',
+
+    'email_body.expired': 'Your document expired {{days}} day(s) ago. Please renew this document immediately to avoid any compliance issues.',
+    'email_body.today': 'Your document expires today. Please take immediate action to renew this document.',
+    'email_body.tomorrow': "Your document expires tomorrow. Don't forget to renew it on time!",
+    'email_body.upcoming': 'Your document will expire in {{days}} days. Plan ahead to renew this document on time.',
+  },
+  email: {
+    title: 'Document Expiry Reminder',
+    tagline: 'Document Expiry Management',
+    critical: 'CRITICAL',
+    banner: {
+      expired: 'EXPIRED',
+      today: 'EXPIRES TODAY',
+      tomorrow: 'EXPIRES TOMORROW',
+      upcoming: 'EXPIRES IN {{days}} DAYS',
+    },
+    heading: 'Document Reminder',
+    expiryLabel: 'Expiry Date:',
+    button: 'Manage Documents →',
+    notice: "This is an automated reminder from VaultDue. You're receiving this because you have documents that are approaching their expiry dates.",
+    footer: '© {{year}} VaultDue. All rights reserved.',
+  },
+  actions: {
+    snooze: 'Snooze {{days}} days',
+    acknowledge: "I'm on it, stop reminders",
+  },
+  digest: {
+    dailySubject: 'VaultDue: {{count}} document(s) need attention',
+    weeklySubject: 'VaultDue weekly summary: {{count}} document(s) expiring soon',
+    dailyIntro: "Here are today's reminders for {{count}} document(s).",
+    weeklyIntro: 'Your week starting {{date}}: {{count}} document(s) have expired or expire in the next 30 days.',
+    sections: {
+      expired: 'Expired',
+      week: 'This week',
+      month: 'This month',
+      later: 'Later',
+    },
+    status: {
+      expired: 'expired {{days}} day(s) ago',
+      today: 'expires today',
+      tomorrow: 'expires tomorrow',
+      upcoming: 'expires in {{days}} days',
+    },
+    critical: 'Critical',
+    button: 'Open VaultDue →',
+    notice: 'You get one summary instead of a message per document. You can change this in your profile.',
+  },
+  chat: {
+    document: 'Document',
+    expires: 'Expires',
+    urgency: 'Urgency',
+    button: 'Renew in VaultDue',
+  },
+  invitation: {
+    title: "You've Been Invited",
+    heading: "You've been invited",
+    documentSubject: '{{inviter}} shared "{{document}}" with you on VaultDue',
+    documentAction: '<strong>{{inviter}}</strong> shared <strong>"{{document}}"</strong> with you.',
+    documentDetails: {
+      viewer: "Once you accept, you'll be able to view this document.",
+      editor: "Once you accept, you'll be able to view, edit and renew this document.",
+    },
+    documentFooter: 'Sign in with this email address to accept or decline the invitation.',
+    workspaceSubject: '{{inviter}} invited you to the "{{workspace}}" workspace on VaultDue',
+    workspaceAction: '<strong>{{inviter}}</strong> invited you to the <strong>"{{workspace}}"</strong> workspace as {{role}}.',
+    workspaceDetails: "You'll be able to see the documents this workspace tracks.",
+    workspaceFooter: 'Sign in with this email address to join the workspace.',
+    button: 'Review Invitation →',
+  },
+  replies: {
+    renewUnknownDocument: `We couldn't tell which document you renewed. Please reply "RENEWED" directly to the reminder message, or update it at {{link}}`,
+    snoozeUnknownDocument: `We couldn't tell which reminder to snooze. Please reply "SNOOZE" directly to the reminder message.`,
+    acknowledgeUnknownDocument: `We couldn't tell which reminder you mean. Please reply "ACK" directly to the reminder message.`,
+    documentNotFound: `We couldn't find "{{title}}" in your VaultDue account. It may have been deleted.`,
+    renewed: `✅ "{{title}}" has been renewed. We'll remind you again before it expires on {{date}}.`,
+    markedRenewed: `✅ "{{title}}" has been marked as renewed.\n\nTo keep tracking it, set its new expiration date at {{link}}`,
+    alreadyRenewed: `✅ "{{title}}" has already been renewed. It now expires on {{date}}.`,
+    alreadyMarkedRenewed: `✅ "{{title}}" has already been marked as renewed.`,
+    snoozed: `😴 Reminders for "{{title}}" are snoozed for {{days}} day(s), until {{date}}.`,
+    acknowledged: `👍 Got it. We'll stop reminding you about "{{title}}" until it's renewed, and won't pass it on to your backup contacts.`,
+    optedOut: `You will no longer receive WhatsApp reminders. We'll send them by email instead.\n\nReply "START" to resubscribe.`,
+    optedIn: `✅ WhatsApp reminders are back on.`,
+    help:
+      `*VaultDue commands*\n\n` +
+      `RENEWED - mark the document as renewed\n` +
+      `SNOOZE [days] - pause reminders for the document (default {{days}} days)\n` +
+      `ACK - let us know you're handling it, so reminders stop and backup contacts aren't notified\n` +
+      `STOP - stop WhatsApp reminders\n` +
+      `START - resume WhatsApp reminders\n` +
+      `HELP - show this message\n\n` +
+      `Reply to a reminder message so we know which document you mean.`,
+  },
+};
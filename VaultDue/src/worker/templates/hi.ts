@@ -0,0 +1,143 @@
+import type { LocaleStrings } from './types';
+
+// Reply keywords stay in English, since that's what the WhatsApp webhook understands
+const RENEWED_HINT = `दस्तावेज़ अपडेट करने के बाद "RENEWED" लिखकर जवाब दें।`;
+
+export const hi: LocaleStrings = {
+  dateLocale: 'hi-IN',
+  criticalPriority: '[अति आवश्यक] ',
+  documentTypes: {
+    Contract: 'अनुबंध',
+    License: 'लाइसेंस',
+    Insurance: 'बीमा',
+    Permit: 'परमिट',
+    Lease: 'लीज़',
+    Subscription: 'सब्सक्रिप्शन',
+    Certification: 'प्रमाणपत्र',
+    Other: 'अन्य',
+  },
+  templates: {
+    'whatsapp.expired':
+      `{{emoji}} *दस्तावेज़ की अवधि समाप्त*\n\n` +
+      `आपका दस्तावेज़ "{{title}}" {{days}} दिन पहले {{expiry_date}} को समाप्त हो गया।\n\n` +
+      `⚠️ किसी भी परेशानी से बचने के लिए कृपया इसे तुरंत रिन्यू करें।\n\n` +
+      `अपडेट करने के लिए VaultDue में लॉग इन करें: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.today':
+      `{{emoji}} *दस्तावेज़ आज समाप्त हो रहा है*\n\n` +
+      `आपका दस्तावेज़ "{{title}}" आज ({{expiry_date}}) समाप्त हो रहा है।\n\n` +
+      `⚠️ कृपया इसे रिन्यू करने के लिए तुरंत कदम उठाएँ।\n\n` +
+      `अपडेट करने के लिए VaultDue में लॉग इन करें: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.tomorrow':
+      `{{emoji}} *दस्तावेज़ कल समाप्त होगा*\n\n` +
+      `आपका दस्तावेज़ "{{title}}" कल ({{expiry_date}}) समाप्त होगा।\n\n` +
+      `⏰ इसे रिन्यू करना न भूलें!\n\n` +
+      `अपडेट करने के लिए VaultDue में लॉग इन करें: {{link}}\n\n${RENEWED_HINT}`,
+    'whatsapp.upcoming':
+      `{{emoji}} *दस्तावेज़ समाप्ति रिमाइंडर*\n\n` +
+      `आपका दस्तावेज़ "{{title}}" {{days}} दिन में, {{expiry_date}} को समाप्त होगा।\n\n` +
+      `📅 समय पर रिन्यू करने की योजना पहले से बनाएँ।\n\n` +
+      `प्रबंधित करने के लिए VaultDue में लॉग इन करें: {{link}}\n\n${RENEWED_HINT}`,
+
+    'sms.expired': `VaultDue अलर्ट: "{{title}}" {{days}} दिन पहले ({{expiry_date}}) समाप्त हो गया। कृपया तुरंत रिन्यू करें। देखें: {{link}}`,
+    'sms.today': `VaultDue अलर्ट: "{{title}}" आज ({{expiry_date}}) समाप्त हो रहा है। तुरंत कार्रवाई करें! देखें: {{link}}`,
+    'sms.tomorrow': `VaultDue रिमाइंडर: "{{title}}" कल ({{expiry_date}}) समाप्त होगा। रिन्यू करना न भूलें! देखें: {{link}}`,
+    'sms.upcoming': `VaultDue रिमाइंडर: "{{title}}" {{days}} दिन में ({{expiry_date}}) समाप्त होगा। समय पर रिन्यू करें। देखें: {{link}}`,
+
+    'email_subject.expired': '{{priority}}समाप्त: {{title}} - कार्रवाई ज़रूरी',
+    'email_subject.today': '{{priority}}आज समाप्त: {{title}} - तुरंत कार्रवाई करें',
+    'email_subject.tomorrow': '{{priority}}कल समाप्त: {{title}} - रिमाइंडर',
+    'email_subject.upcoming': '{{priority}}रिमाइंडर: {{title}} {{days}} दिन में समाप्त होगा',
+
+    'email_body.expired': 'आपका दस्तावेज़ {{days}} दिन पहले समाप्त हो चुका है। अनुपालन से जुड़ी किसी भी परेशानी से बचने के लिए कृपया इसे तुरंत रिन्यू करें।',
+    'email_body.today': 'आपका दस्तावेज़ आज समाप्त हो रहा है। कृपया इसे रिन्यू करने के लिए तुरंत कदम उठाएँ।',
+    'email_body.tomorrow': 'आपका दस्तावेज़ कल समाप्त होगा। इसे समय पर रिन्यू करना न भूलें!',
+    'email_body.upcoming': 'आपका दस्तावेज़ {{days}} दिन में समाप्त होगा। इसे समय पर रिन्यू करने की योजना पहले से बनाएँ।',
+  },
+  email: {
+    title: 'दस्तावेज़ समाप्ति रिमाइंडर',
+    tagline: 'दस्तावेज़ समाप्ति प्रबंधन',
+    critical: 'अति आवश्यक',
+    banner: {
+      expired: 'समाप्त हो चुका है',
+      today: 'आज समाप्त हो रहा है',
+      tomorrow: 'कल समाप्त होगा',
+      upcoming: '{{days}} दिन में समाप्त होगा',
+    },
+    heading: 'दस्तावेज़ रिमाइंडर',
+    expiryLabel: 'समाप्ति तिथि:',
+    button: 'दस्तावेज़ प्रबंधित करें →',
+    notice: 'यह VaultDue का स्वचालित रिमाइंडर है। आपको यह इसलिए मिल रहा है क्योंकि आपके कुछ दस्तावेज़ समाप्ति तिथि के करीब हैं।',
+    footer: '© {{year}} VaultDue. सर्वाधिकार सुरक्षित।',
+  },
+  actions: {
+    snooze: '{{days}} दिन के लिए रोकें',
+    acknowledge: 'इस पर काम जारी है, रिमाइंडर बंद करें',
+  },
+  digest: {
+    dailySubject: 'VaultDue: {{count}} दस्तावेज़ों पर ध्यान देना ज़रूरी है',
+    weeklySubject: 'VaultDue साप्ताहिक सारांश: {{count}} दस्तावेज़ जल्द समाप्त हो रहे हैं',
+    dailyIntro: 'आज {{count}} दस्तावेज़ों के लिए रिमाइंडर हैं।',
+    weeklyIntro: '{{date}} से शुरू होने वाला सप्ताह: {{count}} दस्तावेज़ समाप्त हो चुके हैं या अगले 30 दिनों में समाप्त होंगे।',
+    sections: {
+      expired: 'समाप्त हो चुके',
+      week: 'इस सप्ताह',
+      month: 'इस महीने',
+      later: 'बाद में',
+    },
+    status: {
+      expired: '{{days}} दिन पहले समाप्त',
+      today: 'आज समाप्त',
+      tomorrow: 'कल समाप्त',
+      upcoming: '{{days}} दिन में समाप्त',
+    },
+    critical: 'अति आवश्यक',
+    button: 'VaultDue खोलें →',
+    notice: 'आपको हर दस्तावेज़ के लिए अलग संदेश की जगह एक सारांश मिलता है। इसे आप अपनी प्रोफ़ाइल में बदल सकते हैं।',
+  },
+  chat: {
+    document: 'दस्तावेज़',
+    expires: 'समाप्ति',
+    urgency: 'स्थिति',
+    button: 'VaultDue में रिन्यू करें',
+  },
+  invitation: {
+    title: 'आपको आमंत्रित किया गया है',
+    heading: 'आपको आमंत्रित किया गया है',
+    documentSubject: '{{inviter}} ने VaultDue पर "{{document}}" आपके साथ साझा किया है',
+    documentAction: '<strong>{{inviter}}</strong> ने <strong>"{{document}}"</strong> आपके साथ साझा किया है।',
+    documentDetails: {
+      viewer: 'आमंत्रण स्वीकार करने के बाद आप यह दस्तावेज़ देख सकेंगे।',
+      editor: 'आमंत्रण स्वीकार करने के बाद आप यह दस्तावेज़ देख, बदल और रिन्यू कर सकेंगे।',
+    },
+    documentFooter: 'आमंत्रण स्वीकार या अस्वीकार करने के लिए इसी ईमेल पते से साइन इन करें।',
+    workspaceSubject: '{{inviter}} ने आपको VaultDue पर "{{workspace}}" वर्कस्पेस में आमंत्रित किया है',
+    workspaceAction: '<strong>{{inviter}}</strong> ने आपको <strong>"{{workspace}}"</strong> वर्कस्पेस में {{role}} के रूप में आमंत्रित किया है।',
+    workspaceDetails: 'आप वे दस्तावेज़ देख सकेंगे जिन्हें यह वर्कस्पेस ट्रैक करता है।',
+    workspaceFooter: 'वर्कस्पेस से जुड़ने के लिए इसी ईमेल पते से साइन इन करें।',
+    button: 'आमंत्रण देखें →',
+  },
+  // Command keywords stay in English, as with RENEWED_HINT
+  replies: {
+    renewUnknownDocument: `हम समझ नहीं पाए कि आपने कौन-सा दस्तावेज़ रिन्यू किया। कृपया रिमाइंडर संदेश पर सीधे "RENEWED" लिखकर जवाब दें, या इसे यहाँ अपडेट करें: {{link}}`,
+    snoozeUnknownDocument: `हम समझ नहीं पाए कि कौन-सा रिमाइंडर रोकना है। कृपया रिमाइंडर संदेश पर सीधे "SNOOZE" लिखकर जवाब दें।`,
+    acknowledgeUnknownDocument: `हम समझ नहीं पाए कि आप किस रिमाइंडर की बात कर रहे हैं। कृपया रिमाइंडर संदेश पर सीधे "ACK" लिखकर जवाब दें।`,
+    documentNotFound: `आपके VaultDue खाते में "{{title}}" नहीं मिला। हो सकता है इसे हटा दिया गया हो।`,
+    renewed: `✅ "{{title}}" रिन्यू हो गया है। इसके {{date}} को समाप्त होने से पहले हम आपको फिर याद दिलाएँगे।`,
+    markedRenewed: `✅ "{{title}}" को रिन्यू किया गया चिह्नित कर दिया गया है।\n\nइसे ट्रैक करते रहने के लिए इसकी नई समाप्ति तिथि यहाँ डालें: {{link}}`,
+    alreadyRenewed: `✅ "{{title}}" पहले ही रिन्यू हो चुका है। अब यह {{date}} को समाप्त होगा।`,
+    alreadyMarkedRenewed: `✅ "{{title}}" पहले ही रिन्यू किया गया चिह्नित है।`,
+    snoozed: `😴 "{{title}}" के रिमाइंडर {{days}} दिन के लिए, {{date}} तक रोक दिए गए हैं।`,
+    acknowledged: `👍 ठीक है। "{{title}}" के रिन्यू होने तक हम आपको याद नहीं दिलाएँगे, और इसे आपके बैकअप संपर्कों को नहीं भेजेंगे।`,
+    optedOut: `अब आपको WhatsApp पर रिमाइंडर नहीं मिलेंगे। हम उन्हें ईमेल से भेजेंगे।\n\nफिर से शुरू करने के लिए "START" लिखकर जवाब दें।`,
+    optedIn: `✅ WhatsApp रिमाइंडर फिर से चालू हो गए हैं।`,
+    help:
+      `*VaultDue कमांड*\n\n` +
+      `RENEWED - दस्तावेज़ को रिन्यू किया गया चिह्नित करें\n` +
+      `SNOOZE [दिन] - दस्तावेज़ के रिमाइंडर रोकें (डिफ़ॉल्ट {{days}} दिन)\n` +
+      `ACK - बताएँ कि आप इस पर काम कर रहे हैं, ताकि रिमाइंडर बंद हों और बैकअप संपर्कों को सूचना न जाए\n` +
+      `STOP - WhatsApp रिमाइंडर बंद करें\n` +
+      `START - WhatsApp रिमाइंडर फिर से शुरू करें\n` +
+      `HELP - यह संदेश दिखाएँ\n\n` +
+      `रिमाइंडर संदेश पर ही जवाब दें, ताकि हमें पता रहे कि आप किस दस्तावेज़ की बात कर रहे हैं।`,
+  },
+};
@@ -0,0 +1,116 @@
+import {
+  TEMPLATE_LOCALES,
+  type NotificationTemplateKey,
+  type TemplateLocale,
+  type TemplateMessage,
+  type TemplateVariable,
+  type UrgencyLevel,
+} from '@/shared/types';
+import type { DigestSection, LocaleStrings } from './types';
+import { en } from './en';
+import { hi } from './hi';
+
+export type { DigestSection, LocaleStrings } from './types';
+
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+// A workspace's saved wording, by template key
+export type TemplateOverrides = Partial<Record<NotificationTemplateKey, string>>;
+
+export const DEFAULT_LOCALE: TemplateLocale = 'en';
+
+const LOCALES: Record<TemplateLocale, LocaleStrings> = { en, hi };
+
+// The document facts a reminder is worded from
+export interface TemplateContext {
+  documentTitle: string;
+  documentType?: string | null;
+  expirationDate: string;
+  daysUntilExpiry: number;
+  isCritical: boolean;
+  businessName?: string | null;
+  link: string;
+}
+
+// Falls back to English for anything we don't have templates for
+export function resolveLocale(locale: string | null | undefined): TemplateLocale {
+  return (TEMPLATE_LOCALES as readonly string[]).includes(locale ?? '')
+    ? locale as TemplateLocale
+    : DEFAULT_LOCALE;
+}
+
+export function getLocaleStrings(locale: TemplateLocale): LocaleStrings {
+  return LOCALES[locale];
+}
+
+export function getUrgencyLevel(daysUntilExpiry: number): UrgencyLevel {
+  if (daysUntilExpiry < 0) return 'expired';
+  if (daysUntilExpiry === 0) return 'today';
+  if (daysUntilExpiry === 1) return 'tomorrow';
+  return 'upcoming';
+}
+
+// Digests group documents as expired, within a week, within 30 days, or later
+export function getDigestSection(daysUntilExpiry: number): DigestSection {
+  if (daysUntilExpiry < 0) return 'expired';
+  if (daysUntilExpiry <= 7) return 'week';
+  if (daysUntilExpiry <= 30) return 'month';
+  return 'later';
+}
+
+export function getTemplateKey(message: TemplateMessage, daysUntilExpiry: number): NotificationTemplateKey {
+  return `${message}.${getUrgencyLevel(daysUntilExpiry)}`;
+}
+
+export function getDefaultTemplate(key: NotificationTemplateKey, locale: TemplateLocale): string {
+  return LOCALES[locale].templates[key];
+}
+
+export function formatExpiryDate(expirationDate: string, locale: TemplateLocale): string {
+  return new Date(expirationDate).toLocaleDateString(LOCALES[locale].dateLocale, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+export function buildTemplateVariables(context: TemplateContext, locale: TemplateLocale): TemplateVariables {
+  const strings = LOCALES[locale];
+  const documentType = context.documentType
+    ? strings.documentTypes?.[context.documentType] ?? context.documentType
+    : '';
+
+  return {
+    title: context.documentTitle,
+    days: String(Math.abs(context.daysUntilExpiry)),
+    expiry_date: formatExpiryDate(context.expirationDate, locale),
+    document_type: documentType,
+    business_name: context.businessName || '',
+    link: context.link,
+    emoji: context.isCritical ? '🚨' : '📋',
+    priority: context.isCritical ? strings.criticalPriority : '',
+  };
+}
+
+/**
+ * Replaces each {{variable}} in `template`. Values go through `escape` first
+ * (for HTML); the template's own text is used as is.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Partial<Record<string, string>>,
+  escape: (value: string) => string = (value) => value
+): string {
+  return template.replace(/\{\{\s*([^{}]*?)\s*\}\}/g, (_, name: string) => escape(variables[name] ?? ''));
+}
+
+// Renders the workspace's override for `key`, or the locale's default
+export function renderNotificationTemplate(
+  key: NotificationTemplateKey,
+  locale: TemplateLocale,
+  variables: TemplateVariables,
+  overrides: TemplateOverrides = {}
+): string {
+  return renderTemplate(overrides[key] ?? getDefaultTemplate(key, locale), variables);
+}
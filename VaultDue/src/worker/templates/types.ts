@@ -0,0 +1,88 @@
+import type { NotificationTemplateKey, UrgencyLevel } from '@/shared/types';
+
+export type DigestSection = 'expired' | 'week' | 'month' | 'later';
+
+/**
+ * Everything one language needs to word a reminder: the default templates,
+ * which workspaces can override, and the fixed wording around them.
+ */
+export interface LocaleStrings {
+  // BCP 47 tag for formatting dates
+  dateLocale: string;
+  // Fills {{priority}} for critical documents
+  criticalPriority: string;
+  // Display names for DOCUMENT_TYPES, when they differ from English
+  documentTypes?: Record<string, string>;
+  templates: Record<NotificationTemplateKey, string>;
+  email: {
+    title: string;
+    tagline: string;
+    critical: string;
+    // May use {{days}}
+    banner: Record<UrgencyLevel, string>;
+    heading: string;
+    expiryLabel: string;
+    button: string;
+    notice: string;
+    // May use {{year}}
+    footer: string;
+  };
+  // Labels for the snooze and acknowledge links in emails and texts. The
+  // snooze label may use {{days}}.
+  actions: {
+    snooze: string;
+    acknowledge: string;
+  };
+  // One message covering several documents. May use {{count}} and {{date}}.
+  digest: {
+    dailySubject: string;
+    weeklySubject: string;
+    dailyIntro: string;
+    weeklyIntro: string;
+    sections: Record<DigestSection, string>;
+    // May use {{days}}
+    status: Record<UrgencyLevel, string>;
+    critical: string;
+    button: string;
+    notice: string;
+  };
+  // Field labels and the button on Slack and Teams reminders
+  chat: {
+    document: string;
+    expires: string;
+    urgency: string;
+    button: string;
+  };
+  // Invitations to a shared document or a workspace. May use {{inviter}},
+  // {{document}}, {{workspace}} and {{role}}; the action lines are HTML.
+  invitation: {
+    title: string;
+    heading: string;
+    documentSubject: string;
+    documentAction: string;
+    documentDetails: Record<'viewer' | 'editor', string>;
+    documentFooter: string;
+    workspaceSubject: string;
+    workspaceAction: string;
+    workspaceDetails: string;
+    workspaceFooter: string;
+    button: string;
+  };
+  // Answers to WhatsApp commands. May use {{title}}, {{date}}, {{days}} and
+  // {{link}}.
+  replies: {
+    renewUnknownDocument: string;
+    snoozeUnknownDocument: string;
+    acknowledgeUnknownDocument: string;
+    documentNotFound: string;
+    renewed: string;
+    markedRenewed: string;
+    alreadyRenewed: string;
+    alreadyMarkedRenewed: string;
+    snoozed: string;
+    acknowledged: string;
+    optedOut: string;
+    optedIn: string;
+    help: string;
+  };
+}
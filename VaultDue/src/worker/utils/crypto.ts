@@ -0,0 +1,60 @@
+// Small Web Crypto helpers shared by the worker services
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(digest);
+}
+
+export async function hmacSha256Hex(secret: string, value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return toHex(signature);
+}
+
+// Base64 HMAC, as used by provider webhook signatures (Twilio signs with
+// SHA-1, Resend/Svix with SHA-256 and a base64 encoded key)
+export async function hmacBase64(
+  hash: 'SHA-1' | 'SHA-256',
+  secret: string | Uint8Array,
+  value: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    typeof secret === 'string' ? encoder.encode(secret) : secret,
+    { name: 'HMAC', hash },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+// Random numeric code, e.g. for one-time passwords
+export function randomDigits(length: number): string {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, (value) => (value % 10).toString()).join('');
+}
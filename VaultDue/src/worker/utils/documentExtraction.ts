@@ -0,0 +1,232 @@
+import { DOCUMENT_TYPES, type DocumentExtraction } from '@/shared/types';
+import { extractPdfText } from './pdfText';
+
+type DocumentType = typeof DOCUMENT_TYPES[number];
+
+interface DateMatch {
+  date: string;
+  index: number;
+  length: number;
+}
+
+const MAX_CANDIDATES = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+const DATE_PATTERNS: { pattern: RegExp; parse: (match: RegExpExecArray) => string | null }[] = [
+  // 2026-03-31
+  {
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    parse: (m) => toIsoDate(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  // 31/03/2026, 31-03-2026, 31.03.26. Day first, as Indian documents write
+  // it, unless the first number can only be a month.
+  {
+    pattern: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/g,
+    parse: (m) => {
+      const [first, second, year] = [Number(m[1]), Number(m[2]), expandYear(m[3])];
+      return second > 12 ? toIsoDate(year, first, second) : toIsoDate(year, second, first);
+    },
+  },
+  // 31 March 2026, 31st Mar, 2026, 31-Mar-2026
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s.-]+${MONTH_NAME}[\\s,.-]+(\\d{4})\\b`, 'gi'),
+    parse: (m) => toIsoDate(Number(m[3]), monthNumber(m[2]), Number(m[1])),
+  },
+  // March 31, 2026
+  {
+    pattern: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    parse: (m) => toIsoDate(Number(m[3]), monthNumber(m[1]), Number(m[2])),
+  },
+];
+
+// Words just before a date that say it's when the document runs out, and
+// ones that say it's some other date
+const EXPIRY_WORDS = /\b(valid\s*(till|until|upto|up\s+to|thru|through|to)|expir(y|es|ed|ation|ing)|renewal(\s+due)?|due|end|ends|termination|to)(\s+(date|on|dt))?\W*$/i;
+const OTHER_DATE_WORDS = /\b(issued?|date\s+of\s+issue|birth|d\.?o\.?b|effective|commencement|start|from|dated|signed|printed|generated|paid|received)(\s+(date|on|dt))?\W*$/i;
+
+const DOCUMENT_NUMBER = /\b(?:licen[cs]e|certificate|cert|policy|registration|reg|permit|document|doc|reference|ref|contract|agreement|account|membership|serial|application)\.?\s*(?:no|number|num|#)\.?\s*[:#-]?\s*(?=[A-Z/-]*\d)([A-Z0-9][A-Z0-9/-]{2,39})/i;
+const ISSUER = /\b(?:issued\s+by|issuing\s+authority|licensing\s+authority|insurer|issuer|granted\s+by)\s*[:-]?\s*(.+)/i;
+const ORGANIZATION_WORDS = /\b(government|ministry|department|authority|municipal|corporation|council|board|commission|bank|limited|ltd|inc|llp|llc|pvt)\b/i;
+
+// Checked in order, so a tie goes to the earlier type
+const TYPE_KEYWORDS: [DocumentType, RegExp][] = [
+  ['Insurance', /\b(insurance|insured|insurer|premium|policy\s+(no|number|period|holder))/gi],
+  ['License', /\blicen[cs]e/gi],
+  ['Permit', /\b(permit|no\s+objection|noc)\b/gi],
+  ['Certification', /\b(certificat|certified|accreditation|iso\s*\d{4})/gi],
+  ['Lease', /\b(lease|lessor|lessee|tenancy|tenant|landlord|rent(al)?\s+agreement)/gi],
+  ['Subscription', /\b(subscription|subscribed|billing\s+(period|cycle)|auto[-\s]?renew)/gi],
+  ['Contract', /\b(contract|agreement|the\s+parties|hereinafter)/gi],
+];
+
+// Suggestions from a PDF's bytes; scans and other files come back with text_found false
+export async function extractDocumentDetails(
+  bytes: Uint8Array,
+  fileName: string | null,
+  today: string
+): Promise<DocumentExtraction> {
+  const text = await extractPdfText(bytes);
+  return suggestDocumentDetails(text, fileName, today);
+}
+
+/**
+ * Suggestions for a new document from the text of its PDF: the likeliest
+ * expiry date (and the other dates that could be it), the issuer, the
+ * document's own number, a DOCUMENT_TYPES value and a title. `today` is used
+ * to prefer expiries that haven't passed.
+ */
+export function suggestDocumentDetails(text: string, fileName: string | null, today: string): DocumentExtraction {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  const candidates = findExpiryCandidates(lines, today);
+  const documentType = suggestDocumentType(text);
+
+  return {
+    text_found: lines.length > 0,
+    title: suggestTitle(lines, fileName),
+    document_type: documentType,
+    expiration_date: candidates[0]?.date ?? null,
+    expiry_candidates: candidates,
+    issuer: suggestIssuer(lines),
+    document_number: text.match(DOCUMENT_NUMBER)?.[1].replace(/[/-]+$/, '') ?? null,
+  };
+}
+
+// A cell or field holding just a date, in any of the formats above
+export function parseDateText(text: string): string | null {
+  const value = text.trim();
+  const [match] = findDates(value);
+  return match && match.index === 0 && match.length === value.length ? match.date : null;
+}
+
+function findExpiryCandidates(lines: string[], today: string): DocumentExtraction['expiry_candidates'] {
+  const scored = new Map<string, { date: string; context: string; score: number }>();
+
+  lines.forEach((line, lineIndex) => {
+    for (const match of findDates(line)) {
+      // "Valid till" is often a label on the line above its date
+      let before = line.slice(0, match.index);
+      if (!before.trim() && lineIndex > 0) {
+        before = lines[lineIndex - 1];
+      }
+      before = before.slice(-60);
+
+      let score = 0;
+      if (EXPIRY_WORDS.test(before)) score += 3;
+      if (OTHER_DATE_WORDS.test(before)) score -= 3;
+      score += match.date >= today ? 1 : -1;
+
+      const context = `${before} ${line.slice(match.index, match.index + match.length)}`
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(-80);
+
+      const existing = scored.get(match.date);
+      if (!existing || existing.score < score) {
+        scored.set(match.date, { date: match.date, context, score });
+      }
+    }
+  });
+
+  return [...scored.values()]
+    .filter((candidate) => candidate.score > 0)
+    // Best score first; between equals, the later date is likelier the expiry
+    .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date))
+    .slice(0, MAX_CANDIDATES)
+    .map(({ date, context }) => ({ date, context }));
+}
+
+function findDates(line: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+
+  for (const { pattern, parse } of DATE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line))) {
+      const date = parse(match);
+      const overlaps = matches.some((m) => match!.index < m.index + m.length && m.index < match!.index + match![0].length);
+      if (date && !overlaps) {
+        matches.push({ date, index: match.index, length: match[0].length });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 1900 || year > 2200 || month < 1 || month > 12 || day < 1) {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) {
+    return null; // 31/02 and the like
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function suggestDocumentType(text: string): DocumentType | null {
+  let best: DocumentType | null = null;
+  let bestCount = 0;
+
+  for (const [type, pattern] of TYPE_KEYWORDS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+function suggestIssuer(lines: string[]): string | null {
+  for (const line of lines) {
+    const match = line.match(ISSUER);
+    if (match && match[1].trim().length > 1) {
+      return cleanLine(match[1]);
+    }
+  }
+
+  // Otherwise the letterhead, if it names an organization
+  const letterhead = lines.slice(0, 8).find((line) => ORGANIZATION_WORDS.test(line) && line.length <= 100);
+  return letterhead ? cleanLine(letterhead) : null;
+}
+
+function suggestTitle(lines: string[], fileName: string | null): string | null {
+  // The first heading-like line that names what the document is, skipping
+  // the letterhead ("ACME Insurance Ltd") when there's a better one
+  const headings = lines.slice(0, 15).filter((line) =>
+    line.length >= 4 &&
+    line.length <= 80 &&
+    /[a-z]{3}/i.test(line) &&
+    TYPE_KEYWORDS.some(([, pattern]) => new RegExp(pattern.source, 'i').test(line))
+  );
+  const heading = headings.find((line) => !ORGANIZATION_WORDS.test(line)) ?? headings[0];
+  if (heading) {
+    return cleanLine(heading === heading.toUpperCase() ? toTitleCase(heading) : heading);
+  }
+
+  if (!fileName) {
+    return null;
+  }
+  const name = fileName.replace(/\.[a-z0-9]+$/i, '').replace(/[_-]+/g, ' ').trim();
+  return name || null;
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+function cleanLine(line: string): string {
+  return line.replace(/\s+/g, ' ').replace(/^[\s:,.-]+|[\s:,-]+$/g, '').slice(0, 100);
+}
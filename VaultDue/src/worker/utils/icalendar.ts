@@ -0,0 +1,133 @@
+import { addDays } from './timezone';
+
+// Writes iCalendar (RFC 5545) feeds of all-day events, for calendar apps to
+// subscribe to by URL.
+
+export interface CalendarEvent {
+  // Stays the same across refreshes so apps update the event in place
+  uid: string;
+  date: string; // YYYY-MM-DD
+  summary: string;
+  description?: string;
+  url?: string;
+  // When the event last changed, ISO 8601
+  lastModified: string;
+  // Alarm triggers relative to the start of the day, e.g. "-P6DT15H"
+  alarms: string[];
+}
+
+export interface Calendar {
+  name: string;
+  description: string;
+  // How often subscribers should check for changes
+  refreshHours: number;
+  events: CalendarEvent[];
+}
+
+const MAX_LINE_BYTES = 75;
+
+export function writeCalendar(calendar: Calendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VaultDue//Document Expirations//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-CALDESC:${escapeText(calendar.description)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshHours}H`,
+    `X-PUBLISHED-TTL:PT${calendar.refreshHours}H`,
+  ];
+
+  for (const event of calendar.events) {
+    const stamp = formatTimestamp(event.lastModified);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      // Free time, so deadlines don't block anyone's availability
+      'TRANSP:TRANSPARENT'
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    for (const trigger of event.alarms) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:${trigger}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger for an alarm `daysBefore` an all-day event, at `hour` local time,
+ * e.g. 7 days before at 9:00 is "-P6DT15H". Same-day alarms count forward.
+ */
+export function alarmTrigger(daysBefore: number, hour: number): string {
+  const hoursBefore = daysBefore * 24 - hour;
+  if (hoursBefore <= 0) {
+    return `PT${-hoursBefore}H`;
+  }
+
+  const days = Math.floor(hoursBefore / 24);
+  const hours = hoursBefore % 24;
+  return `-P${days ? `${days}D` : ''}${hours ? `T${hours}H` : ''}`;
+}
+
+function formatDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+// 20260331T140500Z
+function formatTimestamp(iso: string): string {
+  const instant = new Date(iso);
+  const value = Number.isNaN(instant.getTime()) ? new Date() : instant;
+  return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 bytes continue on the next line after a space,
+// without splitting a multi-byte character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose a byte to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,38 @@
+// Decompresses uploaded data without trusting it to be small: a few KB of
+// deflate can expand to gigabytes, so output is counted as it arrives.
+
+/**
+ * Inflates zlib ('deflate') or raw deflate data, or returns null as soon as
+ * the output passes `maxBytes`.
+ */
+export async function inflate(
+  data: Uint8Array,
+  format: 'deflate' | 'deflate-raw',
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
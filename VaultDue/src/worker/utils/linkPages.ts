@@ -0,0 +1,48 @@
+// Minimal standalone pages for signed links opened from emails and messages.
+// Links that change anything show a confirm button that POSTs back, so mail
+// scanners that prefetch URLs can't trigger the action.
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderLinkPage(page: {
+  title: string;
+  message: string;
+  confirmLabel?: string; // Renders a form that POSTs to the current URL
+}): string {
+  const form = page.confirmLabel
+    ? `<form method="post">
+        <button type="submit" style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; border: 0; padding: 14px 28px; border-radius: 8px; font-weight: 600; font-size: 16px; cursor: pointer;">
+          ${escapeHtml(page.confirmLabel)}
+        </button>
+      </form>`
+    : `<a href="/" style="color: #667eea; text-decoration: none; font-weight: 600;">Go to VaultDue →</a>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(page.title)} · VaultDue</title>
+</head>
+<body style="margin: 0; padding: 48px 16px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f8fafc;">
+  <div style="max-width: 480px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1); overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 24px; text-align: center;">
+      <h1 style="color: #ffffff; margin: 0; font-size: 24px; font-weight: 700;">VaultDue</h1>
+    </div>
+    <div style="padding: 32px; text-align: center;">
+      <h2 style="color: #1f2937; margin: 0 0 12px 0; font-size: 20px;">${escapeHtml(page.title)}</h2>
+      <p style="color: #374151; line-height: 1.6; font-size: 16px; margin: 0 0 24px 0;">${escapeHtml(page.message)}</p>
+      ${form}
+    </div>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,206 @@
+// Writes a printable, paginated table report as a PDF, using the standard
+// Helvetica fonts every viewer has, so nothing needs embedding. Text is
+// limited to the WinAnsi character set; anything outside it prints as "?".
+
+export interface PdfReportColumn {
+  label: string;
+  // Share of the table's width
+  width: number;
+}
+
+export interface PdfReport {
+  title: string;
+  // Lines under the title: who it's for, when it was made, what it covers
+  details: string[];
+  summary?: { label: string; value: string }[];
+  columns: PdfReportColumn[];
+  rows: string[][];
+  emptyMessage: string;
+  footer: string;
+}
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const TABLE_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 8.5;
+const CELL_PADDING = 4;
+
+// Approximate Helvetica advance widths, in thousandths of the font size
+const NARROW = /[ijlI.,:;'|!()[\]{}ft\s]/;
+const WIDE = /[mwMW@%]/;
+const CAPITAL = /[A-Z0-9]/;
+
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+export function renderPdfReport(report: PdfReport): Uint8Array {
+  const pages: string[] = [];
+  let content = '';
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const startPage = () => {
+    content = '';
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const finishPage = () => {
+    pages.push(content);
+  };
+
+  // Title block, on the first page only
+  startPage();
+  content += text(MARGIN, y - 16, report.title, 16, true);
+  y -= 30;
+  for (const line of report.details) {
+    content += text(MARGIN, y - 10, line, 10, false);
+    y -= 14;
+  }
+
+  if (report.summary?.length) {
+    y -= 8;
+    const boxWidth = Math.min(160, TABLE_WIDTH / report.summary.length - 8);
+    report.summary.forEach((item, index) => {
+      const x = MARGIN + index * (boxWidth + 8);
+      content += `0.95 0.96 0.98 rg ${x} ${y - 40} ${boxWidth} 40 re f 0 g\n`;
+      content += text(x + 8, y - 20, item.value, 14, true);
+      content += text(x + 8, y - 33, item.label, 8, false);
+    });
+    y -= 52;
+  }
+
+  y -= 8;
+  const columnX = columnPositions(report.columns);
+  const drawHeader = () => {
+    content += `0.88 0.90 0.94 rg ${MARGIN} ${y - ROW_HEIGHT} ${TABLE_WIDTH} ${ROW_HEIGHT} re f 0 g\n`;
+    report.columns.forEach((column, index) => {
+      content += text(columnX[index] + CELL_PADDING, y - 11, fit(column.label, columnWidth(report.columns, index), true), FONT_SIZE, true);
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  drawHeader();
+  if (report.rows.length === 0) {
+    content += text(MARGIN + CELL_PADDING, y - 14, report.emptyMessage, 10, false);
+  }
+
+  report.rows.forEach((row, rowIndex) => {
+    if (y - ROW_HEIGHT < MARGIN + 20) {
+      finishPage();
+      startPage();
+      drawHeader();
+    }
+    if (rowIndex % 2 === 1) {
+      content += `0.97 0.97 0.98 rg ${MARGIN} ${y - ROW_HEIGHT} ${TABLE_WIDTH} ${ROW_HEIGHT} re f 0 g\n`;
+    }
+    row.forEach((cell, index) => {
+      if (index < report.columns.length) {
+        content += text(columnX[index] + CELL_PADDING, y - 11, fit(cell, columnWidth(report.columns, index), false), FONT_SIZE, false);
+      }
+    });
+    y -= ROW_HEIGHT;
+  });
+  finishPage();
+
+  // Footers go on last, once the page count is known
+  const pageStreams = pages.map((page, index) =>
+    page +
+    text(MARGIN, MARGIN - 14, report.footer, 8, false) +
+    text(PAGE_WIDTH - MARGIN - 60, MARGIN - 14, `Page ${index + 1} of ${pages.length}`, 8, false)
+  );
+
+  return writePdf(pageStreams);
+}
+
+function columnPositions(columns: PdfReportColumn[]): number[] {
+  const positions: number[] = [];
+  let x = MARGIN;
+  columns.forEach((_, index) => {
+    positions.push(x);
+    x += columnWidth(columns, index);
+  });
+  return positions;
+}
+
+function columnWidth(columns: PdfReportColumn[], index: number): number {
+  const total = columns.reduce((sum, column) => sum + column.width, 0);
+  return (columns[index].width / total) * TABLE_WIDTH;
+}
+
+function textWidth(value: string, size: number, bold: boolean): number {
+  let units = 0;
+  for (const char of value) {
+    units += NARROW.test(char) ? 280 : WIDE.test(char) ? 850 : CAPITAL.test(char) ? 660 : 540;
+  }
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+// Cuts text to fit a column, ending in "..." when it doesn't
+function fit(value: string, width: number, bold: boolean): string {
+  const available = width - CELL_PADDING * 2;
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  if (textWidth(singleLine, FONT_SIZE, bold) <= available) {
+    return singleLine;
+  }
+
+  let cut = singleLine;
+  while (cut.length > 0 && textWidth(`${cut}...`, FONT_SIZE, bold) > available) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut.trimEnd()}...`;
+}
+
+function text(x: number, y: number, value: string, size: number, bold: boolean): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${encodeText(value)}) Tj ET\n`;
+}
+
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+    const encodedChar = String.fromCharCode(byte);
+    encoded += encodedChar === '(' || encodedChar === ')' || encodedChar === '\\' ? `\\${encodedChar}` : encodedChar;
+  }
+  return encoded;
+}
+
+function writePdf(pageStreams: string[]): Uint8Array {
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pageStreams.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}endstream`;
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+}
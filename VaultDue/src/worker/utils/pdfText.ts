@@ -0,0 +1,290 @@
+import { inflate } from './inflate';
+
+// Pulls the visible text out of text-based PDFs (the kind exported from
+// Word or issued by a portal), without a full PDF library. Content streams
+// are inflated and their text-showing operators (Tj, TJ, ', ") read in order.
+// Scans, and fonts that only map glyphs through a ToUnicode CMap, come back
+// empty or garbled, and callers should treat that as "no text found".
+
+const MAX_STREAMS = 500;
+const MAX_TEXT_LENGTH = 200_000;
+// Per content stream, and across the whole file; far more than any page of text
+const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+
+// Streams that never hold page text
+const SKIPPED_STREAM = /\/(?:Image|DCTDecode|JPXDecode|JBIG2Decode|CCITTFaxDecode|ObjStm|XRef|FontFile\d?|Length1|Metadata|EmbeddedFile)\b/;
+const UNSUPPORTED_FILTER = /\/(?:ASCII85Decode|ASCIIHexDecode|LZWDecode|RunLengthDecode|Crypt)\b/;
+
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  // latin1 keeps one character per byte, so string offsets are byte offsets
+  const raw = new TextDecoder('latin1').decode(bytes);
+  if (!raw.startsWith('%PDF-')) {
+    return '';
+  }
+  // Encrypted files need a password, even if it's empty
+  if (/\/Encrypt\s/.test(raw)) {
+    return '';
+  }
+
+  const streamStart = /stream\r?\n/g;
+  const parts: string[] = [];
+  let length = 0;
+  let match: RegExpExecArray | null;
+  let streams = 0;
+  let inflatedBytes = 0;
+
+  while (
+    (match = streamStart.exec(raw)) &&
+    streams < MAX_STREAMS &&
+    length < MAX_TEXT_LENGTH &&
+    inflatedBytes < MAX_INFLATED_BYTES
+  ) {
+    // Skip the "stream" inside "endstream"
+    if (raw.slice(match.index - 3, match.index) === 'end') {
+      continue;
+    }
+    streams++;
+
+    const dataStart = match.index + match[0].length;
+    const dictionary = raw.slice(Math.max(raw.lastIndexOf('obj', match.index), 0), match.index);
+    const end = findStreamEnd(raw, dictionary, dataStart);
+    streamStart.lastIndex = end;
+
+    if (SKIPPED_STREAM.test(dictionary) || UNSUPPORTED_FILTER.test(dictionary)) {
+      continue;
+    }
+
+    let data: Uint8Array | null = bytes.subarray(dataStart, end);
+    try {
+      if (/\/FlateDecode\b/.test(dictionary)) {
+        data = await inflate(data, 'deflate', MAX_STREAM_BYTES);
+      }
+    } catch {
+      continue; // Corrupt or truncated stream
+    }
+    // Too big to be page text
+    if (!data) {
+      continue;
+    }
+    inflatedBytes += data.byteLength;
+
+    const content = new TextDecoder('latin1').decode(data);
+
+    // Fonts' glyph maps, not text
+    if (content.includes('begincmap')) {
+      continue;
+    }
+
+    const text = readTextOperators(content);
+    if (text.trim()) {
+      parts.push(text);
+      length += text.length;
+    }
+  }
+
+  return normalizeText(parts.join('\n')).slice(0, MAX_TEXT_LENGTH);
+}
+
+function findStreamEnd(raw: string, dictionary: string, dataStart: number): number {
+  // A direct /Length is exact; an indirect one (/Length 12 0 R) isn't worth resolving
+  const declared = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+  if (declared) {
+    const end = dataStart + Number(declared[1]);
+    if (raw.startsWith('endstream', raw.slice(end, end + 12).search(/\S/) + end)) {
+      return end;
+    }
+  }
+
+  let end = raw.indexOf('endstream', dataStart);
+  if (end === -1) {
+    return raw.length;
+  }
+  if (raw[end - 1] === '\n') end--;
+  if (raw[end - 1] === '\r') end--;
+  return end;
+}
+
+/**
+ * Walks a content stream's tokens, keeping operands until the operator that
+ * uses them. Line breaks come from text positioning: a new text object, T*,
+ * or a move with a vertical offset.
+ */
+function readTextOperators(content: string): string {
+  let output = '';
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+  let lastY: number | null = null;
+  let i = 0;
+
+  const newLine = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const space = () => {
+    if (output && !/\s$/.test(output)) output += ' ';
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '%') {
+      const lineEnd = content.indexOf('\n', i);
+      i = lineEnd === -1 ? content.length : lineEnd + 1;
+    } else if (char === '(') {
+      const [value, next] = readLiteralString(content, i);
+      (array ?? operands).push(value);
+      i = next;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const close = content.indexOf('>', i);
+      const value = decodeHexString(content.slice(i + 1, close === -1 ? content.length : close));
+      (array ?? operands).push(value);
+      i = close === -1 ? content.length : close + 1;
+    } else if (char === '[') {
+      array = [];
+      i++;
+    } else if (char === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?(?:\d+\.?\d*|\.\d+)/);
+      if (number) {
+        (array ?? operands).push(Number(number[0]));
+        i += number[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += operator.length;
+
+      switch (operator) {
+        case 'Tj':
+          output += stringOperand(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          output += stringOperand(operands[operands.length - 1]);
+          break;
+        case 'TJ': {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              // Large negative kerning is how many PDFs draw a space
+              if (typeof item === 'number') {
+                if (item < -200) space();
+              } else {
+                output += item;
+              }
+            }
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD': {
+          const y = operands[operands.length - 1];
+          if (typeof y === 'number' && y !== 0) newLine();
+          else space();
+          break;
+        }
+        case 'Tm': {
+          const y = operands[operands.length - 1];
+          if (typeof y === 'number' && lastY !== null && y !== lastY) newLine();
+          else space();
+          lastY = typeof y === 'number' ? y : lastY;
+          break;
+        }
+        case 'T*':
+        case 'BT':
+        case 'ET':
+          newLine();
+          break;
+      }
+      operands = [];
+    } else {
+      i++;
+    }
+  }
+
+  return output;
+}
+
+function stringOperand(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\',
+};
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 0;
+  let value = '';
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/);
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += content[i + 2] === '\n' && next === '\r' ? 3 : 2;
+        continue;
+      }
+      value += LITERAL_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    if (char === '(') {
+      if (depth > 0) value += char;
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) return [value, i + 1];
+      value += char;
+    } else {
+      value += char;
+    }
+    i++;
+  }
+
+  return [value, i];
+}
+
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < digits.length; i += 2) {
+    bytes.push(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+
+  // UTF-16BE, either marked or plain two-byte ASCII
+  const marked = bytes[0] === 0xfe && bytes[1] === 0xff;
+  const twoByte = bytes.length >= 2 && bytes.length % 2 === 0 && bytes.every((byte, i) => i % 2 === 1 || byte === 0);
+  if (marked || twoByte) {
+    let value = '';
+    for (let i = marked ? 2 : 0; i + 1 < bytes.length; i += 2) {
+      value += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return value;
+  }
+
+  return String.fromCharCode(...bytes);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\n\t]/gu, ' ')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
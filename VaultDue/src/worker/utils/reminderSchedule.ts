@@ -0,0 +1,63 @@
+import { REMINDER_FREQUENCY_OFFSETS, parseReminderOffsets, REMINDER_TYPES } from '@/shared/types';
+import { addDays, getLocalDateTime } from './timezone';
+
+// Local hour each reminder_time_preference is delivered at
+export const SEND_WINDOW_HOURS: Record<string, number> = {
+  morning: 9,
+  evening: 18,
+};
+
+// Days after expiry an unrenewed document is nagged about, after which
+// reminders stop until it's renewed or its expiry changes
+export const POST_EXPIRY_REMINDER_DAYS: readonly number[] = [1, 2, 3, 7, 14, 30];
+
+/**
+ * The user's local date if `now` falls in their send window, otherwise null.
+ * The scheduler runs hourly, so each user gets one window per local day.
+ */
+export function getSendWindowDate(
+  now: Date,
+  timeZone: string | null | undefined,
+  preference: string | null | undefined
+): string | null {
+  const local = getLocalDateTime(now, timeZone);
+  const sendHour = SEND_WINDOW_HOURS[preference ?? ''] ?? SEND_WINDOW_HOURS.morning;
+  return local.hour === sendHour ? local.date : null;
+}
+
+/**
+ * The days before expiry a document is reminded on: its own offsets when
+ * set, otherwise its owner's profile frequency (30 days by default).
+ */
+export function resolveReminderOffsets(
+  documentOffsets: string | null | undefined,
+  frequency: string | null | undefined
+): number[] {
+  const own = parseReminderOffsets(documentOffsets);
+  if (own) {
+    return own;
+  }
+
+  const fallback = REMINDER_FREQUENCY_OFFSETS[frequency as typeof REMINDER_TYPES[number]]
+    ?? REMINDER_FREQUENCY_OFFSETS['30_days'];
+  return [...fallback];
+}
+
+/**
+ * The first planned reminder date on or after `fromDate`, counting both the
+ * offsets before expiry and the nags after it. Null once they've all passed.
+ */
+export function calculateNextReminderDate(
+  expirationDate: string,
+  offsets: number[],
+  fromDate: string
+): string | null {
+  const upcoming = [
+    ...offsets.map((offset) => addDays(expirationDate, -offset)),
+    ...POST_EXPIRY_REMINDER_DAYS.map((days) => addDays(expirationDate, days)),
+  ]
+    .filter((date) => date >= fromDate)
+    .sort();
+
+  return upcoming[0] ?? null;
+}
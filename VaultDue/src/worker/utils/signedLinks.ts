@@ -0,0 +1,61 @@
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+// Links that act without a session (e.g. acknowledging a reminder from an
+// email) carry their parameters plus an HMAC `sig` over them, and an `exp`
+// unix timestamp after which they stop working.
+
+const DEFAULT_APP_URL = 'https://vaultdue.com';
+const DEFAULT_LINK_TTL_DAYS = 30;
+
+export function getAppUrl(env: Env): string {
+  return (env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, '');
+}
+
+function canonicalize(params: Record<string, string>): string {
+  return Object.keys(params)
+    .filter((key) => key !== 'sig')
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+}
+
+/**
+ * Builds an absolute signed URL for `path`, or returns null when no signing
+ * secret is configured so callers can leave the link out.
+ */
+export async function buildSignedUrl(
+  env: Env,
+  path: string,
+  params: Record<string, string | number>,
+  ttlDays = DEFAULT_LINK_TTL_DAYS
+): Promise<string | null> {
+  if (!env.LINK_SIGNING_SECRET) {
+    console.warn('Link signing secret not configured');
+    return null;
+  }
+
+  const values: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)])),
+    exp: String(Math.floor(Date.now() / 1000) + ttlDays * 24 * 60 * 60),
+  };
+  values.sig = await hmacSha256Hex(env.LINK_SIGNING_SECRET, `${path}?${canonicalize(values)}`);
+
+  return `${getAppUrl(env)}${path}?${new URLSearchParams(values).toString()}`;
+}
+
+export async function verifySignedParams(
+  env: Env,
+  path: string,
+  params: Record<string, string>
+): Promise<boolean> {
+  if (!env.LINK_SIGNING_SECRET || !params.sig || !params.exp) {
+    return false;
+  }
+
+  if (Number(params.exp) * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = await hmacSha256Hex(env.LINK_SIGNING_SECRET, `${path}?${canonicalize(params)}`);
+  return timingSafeEqual(expected, params.sig);
+}
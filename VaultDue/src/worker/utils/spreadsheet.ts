@@ -0,0 +1,460 @@
+import { inflate } from './inflate';
+
+// Reads the first sheet of a CSV or XLSX file into rows of cell text, for
+// bulk import, and writes single-sheet CSV and XLSX files, for exports.
+// XLSX is a zip of XML parts; only the parts a plain table needs (the
+// workbook, its first sheet, shared strings and styles) are read or written.
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+// Guards against zip bombs; a 500-row sheet is far smaller
+const MAX_PART_BYTES = 50 * 1024 * 1024;
+
+// 1980-01-01, the earliest date a zip entry can carry
+const ZIP_DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const OFFICE_DOCUMENT_NS = 'http://schemas.openxmlformats.org/officeDocument/2006';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Excel stores dates as days since 1899-12-30 (counting its fake 1900-02-29)
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Thrown by the readers below with a message the user can act on
+class UnreadableFileError extends Error {}
+
+export type SpreadsheetResult = { rows: string[][] } | { error: string };
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+  if (!isZip && /\.xls$/i.test(file.name)) {
+    return { error: 'Old .xls workbooks can\'t be read. Save the file as .xlsx or CSV and try again.' };
+  }
+
+  try {
+    return { rows: isZip ? await readXlsx(bytes) : parseCsv(new TextDecoder('utf-8').decode(bytes)) };
+  } catch (error) {
+    if (error instanceof UnreadableFileError) {
+      return { error: error.message };
+    }
+    console.error('Failed to read spreadsheet:', error);
+    return { error: "The file couldn't be read. Save it as .xlsx or CSV and try again." };
+  }
+}
+
+/**
+ * RFC 4180 CSV, plus the variations spreadsheet apps export: a UTF-8 BOM,
+ * CRLF line endings, and semicolons or tabs as the separator.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return trimTrailingEmptyRows(rows);
+}
+
+// Days-since-1900 serials, for date columns in XLSX files
+export function fromExcelSerial(value: string): string | null {
+  const serial = Number(value);
+  // Roughly 1954 to 2119; anything else isn't a plausible expiry
+  if (!/^\d+(\.\d+)?$/.test(value) || serial < 20000 || serial > 80000) {
+    return null;
+  }
+  return new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000).toISOString().split('T')[0];
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+function trimTrailingEmptyRows(rows: string[][]): string[][] {
+  let end = rows.length;
+  while (end > 0 && rows[end - 1].every((cell) => cell.trim() === '')) {
+    end--;
+  }
+  return rows.slice(0, end);
+}
+
+async function readXlsx(bytes: Uint8Array): Promise<string[][]> {
+  const entries = readZipDirectory(bytes);
+  const readPart = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? new TextDecoder('utf-8').decode(await readZipEntry(bytes, entry)) : null;
+  };
+
+  const workbook = await readPart('xl/workbook.xml');
+  if (!workbook) {
+    throw new UnreadableFileError("This file isn't an Excel workbook");
+  }
+
+  const sheetPath = findFirstSheetPath(workbook, await readPart('xl/_rels/workbook.xml.rels'));
+  const sheet = await readPart(sheetPath);
+  if (!sheet) {
+    throw new UnreadableFileError('The workbook has no sheets');
+  }
+
+  const sharedStrings = parseSharedStrings(await readPart('xl/sharedStrings.xml'));
+  return trimTrailingEmptyRows(parseSheet(sheet, sharedStrings));
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes, plus up to 64KB of comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 65535); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new UnreadableFileError("This file isn't an Excel workbook");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count && offset + 46 <= bytes.length; i++) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) {
+      break;
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = new TextDecoder('utf-8').decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.offset, true) !== ZIP_LOCAL_HEADER || entry.size > MAX_PART_BYTES) {
+    throw new UnreadableFileError("The workbook couldn't be read");
+  }
+
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8: {
+      // The declared size comes from the upload too, so count what comes out
+      const inflated = await inflate(data, 'deflate-raw', MAX_PART_BYTES);
+      if (!inflated) {
+        throw new UnreadableFileError("The workbook couldn't be read");
+      }
+      return inflated;
+    }
+    default:
+      throw new UnreadableFileError("The workbook couldn't be read");
+  }
+}
+
+function findFirstSheetPath(workbook: string, relationships: string | null): string {
+  const firstSheet = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/);
+  // Ids come from the upload, so they're compared as text rather than put in a pattern
+  const relationship = firstSheet && relationships
+    ? [...relationships.matchAll(/<Relationship\b[^>]*>/g)]
+      .map((tag) => tag[0])
+      .find((tag) => tag.match(/\bId="([^"]+)"/)?.[1] === firstSheet[1])
+    : undefined;
+  const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1];
+
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+  // Targets are relative to xl/, unless they start at the package root
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function parseSharedStrings(xml: string | null): string[] {
+  if (!xml) {
+    return [];
+  }
+  // Rich text splits one string into several <t> runs
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((item) => readTextRuns(item[1]));
+}
+
+function parseSheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const column = reference ? columnIndex(reference) : cells.length;
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = readTextRuns(body);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = text;
+    }
+
+    // Sheets skip empty rows entirely; keep row numbers lined up with Excel's
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  return rows;
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readTextRuns(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((run) => decodeXml(run[1])).join('');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+export type SheetCell = string | number | null;
+
+export interface SheetData {
+  name: string;
+  rows: SheetCell[][];
+  // Row indexes to set in bold, such as the header row
+  boldRows?: number[];
+}
+
+/**
+ * CSV with a BOM so Excel reads it as UTF-8. Text that would run as a
+ * formula is prefixed with an apostrophe.
+ */
+export function writeCsv(rows: SheetCell[][]): string {
+  const lines = rows.map((row) => row.map((cell) => {
+    if (cell === null) return '';
+    if (typeof cell === 'number') return String(cell);
+
+    const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(','));
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function writeXlsx(sheet: SheetData): Promise<Uint8Array> {
+  const boldRows = new Set(sheet.boldRows ?? []);
+  const rowsXml = sheet.rows.map((row, rowIndex) => {
+    const style = boldRows.has(rowIndex) ? ' s="1"' : '';
+    const cells = row.map((cell, columnIndex) => {
+      const reference = `${columnLetters(columnIndex)}${rowIndex + 1}`;
+      if (cell === null || cell === '') return '';
+      if (typeof cell === 'number') return `<c r="${reference}"${style}><v>${cell}</v></c>`;
+      return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${encodeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const columnCount = Math.max(0, ...sheet.rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) => {
+    const longest = Math.max(8, ...sheet.rows.map((row) => String(row[column] ?? '').length));
+    return `<col min="${column + 1}" max="${column + 1}" width="${Math.min(longest + 2, 60)}" customWidth="1"/>`;
+  }).join('');
+
+  const sheetName = encodeXml(sheet.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+  return writeZip([
+    ['[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`],
+    ['_rels/.rels', `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}"><Relationship Id="rId1" Type="${OFFICE_DOCUMENT_NS}/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`],
+    ['xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_DOCUMENT_NS}/relationships"><sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`],
+    ['xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}"><Relationship Id="rId1" Type="${OFFICE_DOCUMENT_NS}/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${OFFICE_DOCUMENT_NS}/relationships/styles" Target="styles.xml"/></Relationships>`],
+    ['xl/styles.xml', `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`],
+    ['xl/worksheets/sheet1.xml', `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}">${widths ? `<cols>${widths}</cols>` : ''}<sheetData>${rowsXml}</sheetData></worksheet>`],
+  ]);
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function encodeXml(text: string): string {
+  return text
+    // Control characters aren't allowed in XML 1.0 at all
+    .replace(/[^\P{Cc}\t\n\r]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+async function writeZip(files: [string, string][]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const directoryParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, ZIP_LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 8, true); // Deflate
+    local.setUint16(12, ZIP_DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, ZIP_DIRECTORY_ENTRY, true);
+    entry.setUint16(4, 20, true); // Version made by
+    entry.setUint16(6, 20, true); // Version needed
+    entry.setUint16(10, 8, true);
+    entry.setUint16(14, ZIP_DOS_DATE, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, compressed.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), nameBytes, compressed);
+    directoryParts.push(new Uint8Array(entry.buffer), nameBytes);
+    offset += 30 + nameBytes.length + compressed.length;
+  }
+
+  const directorySize = directoryParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, ZIP_END_OF_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...directoryParts, new Uint8Array(end.buffer)]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
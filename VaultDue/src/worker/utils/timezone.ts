@@ -0,0 +1,63 @@
+// Date helpers for working in a user's own IANA time zone
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  hour: number; // 0-23
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar date and hour of `instant` as seen in `timeZone`.
+ * Unknown zones fall back to UTC rather than failing the whole run.
+ */
+export function getLocalDateTime(instant: Date, timeZone?: string | null): LocalDateTime {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10) % 24,
+  };
+}
+
+export function getLocalDate(instant: Date, timeZone?: string | null): string {
+  return getLocalDateTime(instant, timeZone).date;
+}
+
+/**
+ * Whole calendar days from `fromDate` to `toDate` (both YYYY-MM-DD), negative
+ * when `toDate` is earlier. Both are read as UTC midnights so DST shifts in
+ * the user's zone can't skew the count.
+ */
+export function daysBetween(fromDate: string, toDate: string): number {
+  const from = Date.parse(`${fromDate.slice(0, 10)}T00:00:00Z`);
+  const to = Date.parse(`${toDate.slice(0, 10)}T00:00:00Z`);
+  return Math.round((to - from) / MS_PER_DAY);
+}
+
+export function addDays(date: string, days: number): string {
+  const base = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  base.setUTCDate(base.getUTCDate() + days);
+  return base.toISOString().split('T')[0];
+}
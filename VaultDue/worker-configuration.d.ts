@@ -4,9 +4,19 @@ interface Env {
   MOCHA_USERS_SERVICE_API_URL: string;
   MOCHA_USERS_SERVICE_API_KEY: string;
   DB: D1Database;
+  ATTACHMENTS: R2Bucket; // Uploaded document files
+  ADMIN_EMAILS?: string; // Comma-separated allowlist of admin emails
+  APP_URL?: string; // Base URL used in emailed links, defaults to https://vaultdue.com
+  LINK_SIGNING_SECRET?: string; // Signs acknowledge links in reminders
+  NOTIFICATION_PROVIDERS?: string; // e.g. "outbox" or "email=outbox,sms=twilio", defaults to the live providers
   WHATSAPP_ACCESS_TOKEN?: string;
   WHATSAPP_PHONE_NUMBER_ID?: string;
+  WHATSAPP_VERIFY_TOKEN?: string;
+  WHATSAPP_APP_SECRET?: string;
+  WHATSAPP_OTP_TEMPLATE?: string;
+  WHATSAPP_OTP_TEMPLATE_LANGUAGE?: string;
   RESEND_API_KEY?: string;
+  RESEND_WEBHOOK_SECRET?: string; // whsec_ signing secret for email status webhooks
   TWILIO_ACCOUNT_SID?: string;
   TWILIO_AUTH_TOKEN?: string;
   TWILIO_PHONE_NUMBER?: string;